@@ -40,6 +40,7 @@ export interface TsunamiDestructionHooks {
     radiusMeters: number,
     strength: number
   ) => void;
+  onDestroyed?: (target: DestroyableTarget) => void;
 }
 
 export class TsunamiDestructionSystem {
@@ -73,7 +74,9 @@ export class TsunamiDestructionSystem {
     private readonly terrainSampler: TerrainHeightSampler,
     private readonly waveField: TsunamiWaveField,
     private readonly params: TsunamiParams,
-    private readonly hooks: TsunamiDestructionHooks = {}
+    private readonly hooks: TsunamiDestructionHooks = {},
+    private readonly random: () => number = Math.random,
+    private readonly buildingMeshes: THREE.Mesh[] | null = null
   ) {
     this.debrisGroup.name = "tsunami-debris";
     this.root.add(this.debrisGroup);
@@ -155,7 +158,11 @@ export class TsunamiDestructionSystem {
   }
 
   private collectTargets(): void {
-    this.collectTargetsFromGroup("buildings", "building");
+    if (this.buildingMeshes) {
+      for (const mesh of this.buildingMeshes) this.addTarget(mesh, "building");
+    } else {
+      this.collectTargetsFromGroup("buildings", "building");
+    }
     this.collectTargetsFromGroup("trees", "small");
     this.collectTargetsFromGroup("barriers", "small");
     this.refreshBuildingAreaDistribution();
@@ -165,47 +172,45 @@ export class TsunamiDestructionSystem {
     const group = this.root.getObjectByName(groupName);
     if (!group) return;
 
-    const bbox = new THREE.Box3();
-    const center = new THREE.Vector3();
-    const size = new THREE.Vector3();
-
     group.traverse((obj) => {
-      if (!(obj instanceof THREE.Mesh)) return;
-
-      bbox.setFromObject(obj);
-      if (!Number.isFinite(bbox.min.x) || !Number.isFinite(bbox.max.x)) return;
-
-      bbox.getSize(size);
-      if (size.y < 0.2 || size.x < 0.15 || size.z < 0.15) return;
-
-      bbox.getCenter(center);
-      this.targets.push({
-        mesh: obj,
-        kind,
-        bbox: bbox.clone(),
-        center: center.clone(),
-        size: size.clone(),
-        baseArea: Math.max(0.1, size.x * size.z),
-        height: size.y,
-        destroyed: false,
-        originalVisible: obj.visible,
-        impactCooldown: 0,
-        waveImpactCooldown: 0,
-        fragility: deriveFragility(kind, size),
-        damageAccum: 0,
-        submergedDuration: 0,
-        debrisImpactAccum: 0,
-        peakDepth: 0,
-        peakSpeed: 0,
-        peakPressure: 0,
-        hydroForce: 0,
-        impactImpulse: 0,
-        reflectionFactor: kind === "building" ? THREE.MathUtils.lerp(0.32, 0.85, Math.random()) : 0.28,
-        localClosureRatio:
-          kind === "building"
-            ? THREE.MathUtils.clamp(0.72 + Math.min(0.2, size.y / Math.max(1, size.x + size.z)), 0.58, 0.96)
-            : 0.45,
-      });
+      if (obj instanceof THREE.Mesh) this.addTarget(obj, kind);
+    });
+  }
+
+  private addTarget(obj: THREE.Mesh, kind: "building" | "small"): void {
+    const bbox = new THREE.Box3().setFromObject(obj);
+    if (!Number.isFinite(bbox.min.x) || !Number.isFinite(bbox.max.x)) return;
+
+    const size = bbox.getSize(new THREE.Vector3());
+    if (size.y < 0.2 || size.x < 0.15 || size.z < 0.15) return;
+
+    const center = bbox.getCenter(new THREE.Vector3());
+    this.targets.push({
+      mesh: obj,
+      kind,
+      bbox,
+      center,
+      size,
+      baseArea: Math.max(0.1, size.x * size.z),
+      height: size.y,
+      destroyed: false,
+      originalVisible: obj.visible,
+      impactCooldown: 0,
+      waveImpactCooldown: 0,
+      fragility: deriveFragility(kind, size),
+      damageAccum: 0,
+      submergedDuration: 0,
+      debrisImpactAccum: 0,
+      peakDepth: 0,
+      peakSpeed: 0,
+      peakPressure: 0,
+      hydroForce: 0,
+      impactImpulse: 0,
+      reflectionFactor: kind === "building" ? THREE.MathUtils.lerp(0.32, 0.85, this.random()) : 0.28,
+      localClosureRatio:
+        kind === "building"
+          ? THREE.MathUtils.clamp(0.72 + Math.min(0.2, size.y / Math.max(1, size.x + size.z)), 0.58, 0.96)
+          : 0.45,
     });
   }
 
@@ -344,6 +349,7 @@ export class TsunamiDestructionSystem {
       target.destroyed = true;
       target.mesh.visible = false;
       this.destroyedCount += 1;
+      this.hooks.onDestroyed?.(target);
       this.emitTargetImpact(target, hydro, 1.2 + hydro.speed * 0.2, 3.6 + target.size.y * 0.1);
       this.spawnFragments(target, hydro.vx, hydro.vz, hydro.impulseFactor);
     }
@@ -357,7 +363,7 @@ export class TsunamiDestructionSystem {
   ): void {
     const minCount = Math.max(1, Math.floor(this.params.fragmentMin));
     const maxCount = Math.max(minCount, Math.floor(this.params.fragmentMax));
-    const count = randomInt(minCount, maxCount);
+    const count = randomInt(minCount, maxCount, this.random);
     const color = readMeshColor(target.mesh);
     const baseMaterial = new THREE.MeshStandardMaterial({
       color,
@@ -373,38 +379,38 @@ export class TsunamiDestructionSystem {
     }
 
     for (let i = 0; i < count; i++) {
-      const sx = Math.max(0.28, target.size.x * (0.08 + Math.random() * 0.14));
-      const sy = Math.max(0.22, target.size.y * (0.08 + Math.random() * 0.14));
-      const sz = Math.max(0.28, target.size.z * (0.08 + Math.random() * 0.14));
+      const sx = Math.max(0.28, target.size.x * (0.08 + this.random() * 0.14));
+      const sy = Math.max(0.22, target.size.y * (0.08 + this.random() * 0.14));
+      const sz = Math.max(0.28, target.size.z * (0.08 + this.random() * 0.14));
       const geometry = new THREE.BoxGeometry(sx, sy, sz);
       const material = baseMaterial.clone();
       const fragment = new THREE.Mesh(geometry, material);
       fragment.castShadow = true;
       fragment.receiveShadow = true;
       fragment.position.set(
-        THREE.MathUtils.lerp(target.bbox.min.x, target.bbox.max.x, Math.random()),
-        THREE.MathUtils.lerp(target.bbox.min.y, target.bbox.max.y, Math.random()),
-        THREE.MathUtils.lerp(target.bbox.min.z, target.bbox.max.z, Math.random())
+        THREE.MathUtils.lerp(target.bbox.min.x, target.bbox.max.x, this.random()),
+        THREE.MathUtils.lerp(target.bbox.min.y, target.bbox.max.y, this.random()),
+        THREE.MathUtils.lerp(target.bbox.min.z, target.bbox.max.z, this.random())
       );
       fragment.rotation.set(
-        Math.random() * Math.PI,
-        Math.random() * Math.PI,
-        Math.random() * Math.PI
+        this.random() * Math.PI,
+        this.random() * Math.PI,
+        this.random() * Math.PI
       );
       this.debrisGroup.add(fragment);
 
-      const densityClass: DebrisDensityClass = sy < 0.55 || Math.random() < 0.45 ? "light" : "heavy";
+      const densityClass: DebrisDensityClass = sy < 0.55 || this.random() < 0.45 ? "light" : "heavy";
       const mass = densityClass === "light" ? 0.8 + sy * 0.3 : 1.5 + sy * 0.6;
       const volume = Math.max(0.01, sx * sy * sz);
       const area = Math.max(0.04, sx * sz);
-      const side = new THREE.Vector3(Math.random() - 0.5, 0, Math.random() - 0.5).normalize();
-      const forwardStrength = 1.5 + Math.random() * (1.5 + this.params.impactForce * impulseFactor);
-      const sideStrength = 0.5 + Math.random() * (0.8 + this.params.turbulence);
+      const side = new THREE.Vector3(this.random() - 0.5, 0, this.random() - 0.5).normalize();
+      const forwardStrength = 1.5 + this.random() * (1.5 + this.params.impactForce * impulseFactor);
+      const sideStrength = 0.5 + this.random() * (0.8 + this.params.turbulence);
       const radius = Math.max(sx, sy, sz) * 0.62;
 
       const velocity = new THREE.Vector3(
         flowDir.x * forwardStrength + side.x * sideStrength,
-        0.9 + Math.random() * 1.2,
+        0.9 + this.random() * 1.2,
         flowDir.z * forwardStrength + side.z * sideStrength
       );
 
@@ -412,11 +418,11 @@ export class TsunamiDestructionSystem {
         mesh: fragment,
         velocity,
         angularVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 8,
-          (Math.random() - 0.5) * 8,
-          (Math.random() - 0.5) * 8
+          (this.random() - 0.5) * 8,
+          (this.random() - 0.5) * 8,
+          (this.random() - 0.5) * 8
         ),
-        ttl: 24 + Math.random() * 22,
+        ttl: 24 + this.random() * 22,
         floatOffset: Math.max(0.1, sy * 0.32),
         minGroundClearance: Math.max(0.06, sy * 0.22),
         radius,
@@ -522,9 +528,9 @@ export class TsunamiDestructionSystem {
             this.params.turbulence *
             (0.28 + hydro.speed * 0.1) *
             (body.densityClass === "light" ? 1 : 0.7);
-          body.velocity.x += (Math.random() - 0.5) * turbulence * subDt;
-          body.velocity.y += (Math.random() - 0.5) * turbulence * 0.25 * subDt;
-          body.velocity.z += (Math.random() - 0.5) * turbulence * subDt;
+          body.velocity.x += (this.random() - 0.5) * turbulence * subDt;
+          body.velocity.y += (this.random() - 0.5) * turbulence * 0.25 * subDt;
+          body.velocity.z += (this.random() - 0.5) * turbulence * subDt;
         } else {
           body.velocity.y -= this.gravity * subDt;
 
@@ -1203,10 +1209,10 @@ function deriveFragility(kind: "building" | "small", size: THREE.Vector3): Struc
   };
 }
 
-function randomInt(min: number, max: number): number {
+function randomInt(min: number, max: number, random: () => number): number {
   const lo = Math.min(min, max);
   const hi = Math.max(min, max);
-  return lo + Math.floor(Math.random() * (hi - lo + 1));
+  return lo + Math.floor(random() * (hi - lo + 1));
 }
 
 function readMeshColor(mesh: THREE.Mesh): THREE.Color {
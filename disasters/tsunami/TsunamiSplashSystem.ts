@@ -58,7 +58,8 @@ export class TsunamiSplashSystem {
     private readonly terrainSampler: TerrainHeightSampler,
     private readonly waveField: TsunamiWaveField,
     private readonly params: TsunamiParams,
-    private readonly onWaterImpact: (x: number, z: number, strength: number, radiusMeters: number) => void
+    private readonly onWaterImpact: (x: number, z: number, strength: number, radiusMeters: number) => void,
+    private readonly random: () => number = Math.random
   ) {
     this.group.name = "tsunami-splashes";
     this.collectBuildingColliders();
@@ -213,47 +214,47 @@ export class TsunamiSplashSystem {
     const basePos = new THREE.Vector3(event.x, event.y, event.z);
 
     for (let i = 0; i < sheetCount; i++) {
-      const tangential = new THREE.Vector3(Math.random() - 0.5, 0, Math.random() - 0.5).normalize();
-      const swirl = new THREE.Vector3(-flow.z, 0, flow.x).multiplyScalar((Math.random() - 0.5) * 0.75);
+      const tangential = new THREE.Vector3(this.random() - 0.5, 0, this.random() - 0.5).normalize();
+      const swirl = new THREE.Vector3(-flow.z, 0, flow.x).multiplyScalar((this.random() - 0.5) * 0.75);
       const v = normal
         .clone()
-        .multiplyScalar(1.15 + Math.random() * (1.8 + intensity * 0.9))
-        .addScaledVector(flow, 0.95 + Math.random() * (1.15 + intensity * 0.32))
-        .addScaledVector(tangential, 0.18 + Math.random() * 0.5)
+        .multiplyScalar(1.15 + this.random() * (1.8 + intensity * 0.9))
+        .addScaledVector(flow, 0.95 + this.random() * (1.15 + intensity * 0.32))
+        .addScaledVector(tangential, 0.18 + this.random() * 0.5)
         .add(swirl);
-      const offset = normal.clone().multiplyScalar(0.08 + Math.random() * 0.22);
+      const offset = normal.clone().multiplyScalar(0.08 + this.random() * 0.22);
       const position = basePos.clone().add(offset);
-      const ttl = 0.26 + Math.random() * 0.42;
-      const radius = 0.12 + Math.random() * 0.14;
+      const ttl = 0.26 + this.random() * 0.42;
+      const radius = 0.12 + this.random() * 0.14;
       this.spawnParticle("sheet", position, v, ttl, radius);
     }
 
     for (let i = 0; i < sprayCount; i++) {
-      const tangential = new THREE.Vector3(Math.random() - 0.5, 0, Math.random() - 0.5).normalize();
-      const swirl = new THREE.Vector3(-flow.z, 0, flow.x).multiplyScalar((Math.random() - 0.5) * 0.95);
+      const tangential = new THREE.Vector3(this.random() - 0.5, 0, this.random() - 0.5).normalize();
+      const swirl = new THREE.Vector3(-flow.z, 0, flow.x).multiplyScalar((this.random() - 0.5) * 0.95);
       const v = normal
         .clone()
-        .multiplyScalar(1.8 + Math.random() * (2.8 + intensity * 1.25))
-        .addScaledVector(flow, 0.65 + Math.random() * (1.45 + intensity * 0.4))
-        .addScaledVector(tangential, 0.2 + Math.random() * 0.85)
+        .multiplyScalar(1.8 + this.random() * (2.8 + intensity * 1.25))
+        .addScaledVector(flow, 0.65 + this.random() * (1.45 + intensity * 0.4))
+        .addScaledVector(tangential, 0.2 + this.random() * 0.85)
         .add(swirl);
-      const position = basePos.clone().addScaledVector(normal, 0.06 + Math.random() * 0.16);
-      const ttl = 0.4 + Math.random() * 0.72;
-      const radius = 0.06 + Math.random() * 0.1;
+      const position = basePos.clone().addScaledVector(normal, 0.06 + this.random() * 0.16);
+      const ttl = 0.4 + this.random() * 0.72;
+      const radius = 0.06 + this.random() * 0.1;
       this.spawnParticle("spray", position, v, ttl, radius);
     }
 
     for (let i = 0; i < dropletCount; i++) {
-      const spread = new THREE.Vector3(Math.random() - 0.5, Math.random() * 0.45, Math.random() - 0.5);
-      const apicBlend = 0.62 + 0.28 * Math.random();
+      const spread = new THREE.Vector3(this.random() - 0.5, this.random() * 0.45, this.random() - 0.5);
+      const apicBlend = 0.62 + 0.28 * this.random();
       const v = normal
         .clone()
-        .multiplyScalar(2.1 + Math.random() * (4.0 + intensity * 1.95))
+        .multiplyScalar(2.1 + this.random() * (4.0 + intensity * 1.95))
         .addScaledVector(flow, apicBlend * (0.9 + intensity * 0.4))
-        .addScaledVector(spread, 1.5 + Math.random() * 2.5);
-      const position = basePos.clone().addScaledVector(normal, 0.05 + Math.random() * 0.12);
-      const ttl = 0.8 + Math.random() * 1.4;
-      const radius = 0.03 + Math.random() * 0.06;
+        .addScaledVector(spread, 1.5 + this.random() * 2.5);
+      const position = basePos.clone().addScaledVector(normal, 0.05 + this.random() * 0.12);
+      const ttl = 0.8 + this.random() * 1.4;
+      const radius = 0.03 + this.random() * 0.06;
       this.spawnParticle("droplet", position, v, ttl, radius);
     }
   }
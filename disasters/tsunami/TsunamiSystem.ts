@@ -7,7 +7,7 @@ import { TsunamiWaterSurface } from "./TsunamiWaterSurface.ts";
 import { TsunamiDestructionSystem } from "./TsunamiDestructionSystem.ts";
 import { TsunamiSplashSystem } from "./TsunamiSplashSystem.ts";
 import { TsunamiSedimentOverlay } from "./TsunamiSedimentOverlay.ts";
-import { DEFAULT_TSUNAMI_PARAMS, type TsunamiParams } from "./TsunamiTypes.ts";
+import { DEFAULT_TSUNAMI_PARAMS, type TargetKind, type TsunamiHydroState, type TsunamiParams } from "./TsunamiTypes.ts";
 
 export const TSUNAMI_DEFAULT_CONTROLS: DisasterControl[] = [
   {
@@ -402,6 +402,14 @@ export const TSUNAMI_DEFAULT_CONTROLS: DisasterControl[] = [
   },
 ];
 
+export interface TsunamiSystemOptions {
+  /** Drives debris and spray; pass a seeded generator for runs that must replay. */
+  random?: () => number;
+  /** Building meshes the wave can destroy, instead of every mesh under the "buildings" group. */
+  buildings?: THREE.Mesh[];
+  onDestroyed?: (mesh: THREE.Mesh, kind: TargetKind) => void;
+}
+
 export class TsunamiSystem implements DisasterController {
   readonly kind = "tsunami" as const;
 
@@ -415,7 +423,11 @@ export class TsunamiSystem implements DisasterController {
   private readonly sedimentOverlay: TsunamiSedimentOverlay;
   private running = false;
 
-  constructor(private readonly context: DisasterContext) {
+  constructor(
+    private readonly context: DisasterContext,
+    options: TsunamiSystemOptions = {}
+  ) {
+    const random = options.random ?? Math.random;
     const terrain = context.parent.getObjectByName("terrain");
     if (!(terrain instanceof THREE.Mesh)) {
       throw new Error("Terrain mesh not found for tsunami simulation.");
@@ -455,7 +467,8 @@ export class TsunamiSystem implements DisasterController {
           0.14 * strength,
           0.28
         );
-      }
+      },
+      random
     );
 
     this.destruction = new TsunamiDestructionSystem(
@@ -467,6 +480,7 @@ export class TsunamiSystem implements DisasterController {
         onImpact: (event) => {
           this.splashSystem.emitImpact(event);
         },
+        onDestroyed: (target) => options.onDestroyed?.(target.mesh, target.kind),
         onWaterImpulse: (x, z, vx, vz, radiusMeters, strength) => {
           this.waveField.injectMomentumImpulse(
             x,
@@ -478,7 +492,9 @@ export class TsunamiSystem implements DisasterController {
             0.55
           );
         },
-      }
+      },
+      random,
+      options.buildings ?? null
     );
 
     this.waterSurface.update();
@@ -530,6 +546,16 @@ export class TsunamiSystem implements DisasterController {
     return this.running;
   }
 
+  /** Send the wave in along (dx, dz) instead of the default sweep toward -z. */
+  setWaveDirection(dx: number, dz: number): void {
+    this.waveField.setDirection(dx, dz);
+  }
+
+  /** Water depth, flow and pressure at a ground point, as the destruction system sees them. */
+  sampleHydro(x: number, z: number, out?: TsunamiHydroState): TsunamiHydroState {
+    return this.waveField.getHydroStateAt(x, z, this.terrainSampler.sample(x, z), out);
+  }
+
   getControls(): DisasterControl[] {
     return cloneControls(this.controls);
   }
@@ -62,6 +62,15 @@ export class TsunamiWaveField {
     this.momentumPulses.length = 0;
   }
 
+  /** Point the wave along (dx, dz) and start it over from the edge it now enters by. */
+  setDirection(dx: number, dz: number): void {
+    if (!Number.isFinite(dx) || !Number.isFinite(dz) || Math.hypot(dx, dz) < 1e-6) return;
+    this.direction.set(dx, dz).normalize();
+    this.lateralDirection.set(-this.direction.y, this.direction.x).normalize();
+    this.computeProjectionRange();
+    this.reset();
+  }
+
   setParams(partial: Partial<TsunamiParams>): void {
     const progress = this.getProgress();
     this.params = { ...this.params, ...partial };
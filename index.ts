@@ -1,9 +1,14 @@
 import { join } from "path";
 import { appendFileSync, writeFileSync } from "fs";
-import { getCached, setCache } from "./src/cache.ts";
-import { fetchFromOverpass } from "./src/overpass.ts";
-import { fetchElevationGrid } from "./src/elevation.ts";
-import type { LayerData } from "./src/tiles.ts";
+import { loadLayerData, featureSource, prefetchRegion, bbox, MAX_AREA_SIZE, type FeatureSource } from "./src/layerSource.ts";
+import { OsmImportError } from "./src/osmImport.ts";
+import { chunksCovering, listRegions, listTileSources, purgeChunks, purgeTiles, type Bounds, type ChunkLayer } from "./src/cache.ts";
+import { createSatelliteProvider, satelliteView } from "./src/satellite.ts";
+import { geoPackage } from "./src/geopackage.ts";
+import { createGeocoder, geocode } from "./src/geocode.ts";
+import type { FeatureCollection } from "./src/tiles.ts";
+import { createPerceptionProvider } from "./src/perception/createPerceptionProvider.ts";
+import { parseDecision, toDecisionResponse } from "./src/perception/DecisionSchema.ts";
 
 // Bundle the frontend TS for the browser
 const buildResult = await Bun.build({
@@ -39,21 +44,6 @@ const distDir = join(import.meta.dir, "dist");
 const htmlFile = Bun.file(join(import.meta.dir, "index.html"));
 const assetsDir = join(import.meta.dir, "assets");
 
-/** Convert lat/lon + half-size offset to a bounding box. */
-function bbox(lat: number, lon: number, halfSize: number) {
-  const latRad = (lat * Math.PI) / 180;
-  const mPerDegLon = (Math.PI / 180) * 6378137 * Math.cos(latRad);
-  const mPerDegLat = (Math.PI / 180) * 6378137;
-  const dLon = halfSize / mPerDegLon;
-  const dLat = halfSize / mPerDegLat;
-  return {
-    south: lat - dLat,
-    north: lat + dLat,
-    west: lon - dLon,
-    east: lon + dLon,
-  };
-}
-
 /* ── JSONL file logger ───────────────────────────────────────────── */
 const LOG_FILE = "./agent-log.jsonl";
 writeFileSync(LOG_FILE, "");
@@ -67,8 +57,11 @@ function logClientEntry(entry: { ts: number; event: string; agent: string; data:
   appendFileSync(LOG_FILE, JSON.stringify({ ...entry, src: "client" }) + "\n");
 }
 
-/* ── VLM API helpers ─────────────────────────────────────────────── */
+/* ── Perception provider ─────────────────────────────────────────── */
+
+const perceptionProvider = createPerceptionProvider();
 
+/** Featherless keys are also used for replay narration (/api/generate-audio). */
 const FEATHERLESS_API_KEYS = [
   process.env.FEATHERLESS_API_KEY ?? "",
   process.env.FEATHERLESS_API_KEY_2 ?? "",
@@ -76,55 +69,7 @@ const FEATHERLESS_API_KEYS = [
   process.env.FEATHERLESS_API_KEY_4 ?? "",
 ].filter(Boolean);
 
-if (FEATHERLESS_API_KEYS.length === 0) console.warn("[Server] No FEATHERLESS_API_KEY set in .env — agents will auto-wander only");
-
-const DANGER_PROMPTS: Record<string, string> = {
-  fire: "Look out for fire related danger. If you see any signs of fire, smoke, etc. add DANGER at the very end of your response.",
-  tornado: "Look out for tornado related danger. If you see any signs of a funnel cloud, flying debris, strong winds, or structural damage add DANGER at the very end of your response.",
-  earthquake: "Look out for earthquake related danger. If you see any signs of shaking, cracking ground, collapsing structures, or falling debris add DANGER at the very end of your response.",
-  flood: "Look out for flood related danger. If you see any signs of rising water, submerged roads, or fast-moving currents add DANGER at the very end of your response.",
-};
-
-async function callVLM(frameBase64: string, apiKey: string, disasterType: string = "fire"): Promise<string> {
-  const res = await fetch("https://api.featherless.ai/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "google/gemma-3-27b-it",
-      max_tokens: 120,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "image_url",
-              image_url: { url: `data:image/jpeg;base64,${frameBase64}` },
-            },
-            {
-              type: "text",
-              text: `You are watching the world through someone's POV in a 3D low-polygon simulation. It is normal for it to look simplistic and blocky, so don't comment on that that. Humans are also rendered in a low-polygon, colorful style, so don't comment on that either. Describe what you see in 1-2 sentences. ${DANGER_PROMPTS[disasterType] ?? DANGER_PROMPTS["fire"]} Err on the side of caution.`,
-            },
-          ],
-        },
-      ],
-    }),
-  });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`VLM error ${res.status}: ${text}`);
-  }
-
-  const json = (await res.json()) as any;
-  return json.choices?.[0]?.message?.content ?? "I cannot see clearly.";
-}
-
-function hasDanger(observation: string): boolean {
-  return /\bDANGER[\s*_\]\)!."]*$/i.test(observation.trim());
-}
+if (!perceptionProvider) console.warn("[Server] No perception provider (set FEATHERLESS_API_KEY or PERCEPTION_PROVIDER in .env) — agents will auto-wander only");
 
 async function pooled<T>(tasks: (() => Promise<T>)[], concurrency: number): Promise<T[]> {
   const results = new Array<T>(tasks.length);
@@ -142,29 +87,26 @@ async function pooled<T>(tasks: (() => Promise<T>)[], concurrency: number): Prom
 }
 
 async function processPayloads(payloads: any[], step: number, disasterType: string = "fire"): Promise<any[]> {
-  if (FEATHERLESS_API_KEYS.length === 0) {
-    // No API keys — return WANDER for all agents
+  if (!perceptionProvider) {
+    // No provider — return WANDER for all agents
     return payloads.map((payload: any) => ({
       agentIndex: payload.agentIndex,
       observation: "No VLM configured.",
       action: "WANDER",
       targetX: 0,
       targetZ: 0,
-      targetEntity: 0,
+      targetEntity: -1,
+      target: null,
+      danger: false,
+      rationale: "",
     }));
   }
 
-  const numKeys = FEATHERLESS_API_KEYS.length;
-  const perKeyTasks: (() => Promise<{ idx: number; obs: string }>)[][] = Array.from(
-    { length: numKeys },
-    () => [],
-  );
-  payloads.forEach((p: any, i: number) => {
-    const keyIdx = i % numKeys;
-    const apiKey = FEATHERLESS_API_KEYS[keyIdx]!;
-    perKeyTasks[keyIdx]!.push(async () => {
+  const provider = perceptionProvider;
+  const observations = await pooled(
+    payloads.map((p: any) => async () => {
       try {
-        const obs = await callVLM(p.frameBase64, apiKey, disasterType);
+        const obs = await provider.perceive(p, disasterType);
         logEntry("vlm_observation", p.name, {
           step,
           observation: obs,
@@ -172,59 +114,97 @@ async function processPayloads(payloads: any[], step: number, disasterType: stri
           positionZ: p.state.positionZ,
           facingYaw: p.state.facingYaw,
         });
-        return { idx: i, obs };
+        return obs;
       } catch (err) {
         logEntry("vlm_error", p.name, { step, error: String(err) });
         console.error(`[VLM] ${p.name} error:`, err);
-        return { idx: i, obs: "Vision system error." };
+        return "Vision system error.";
       }
-    });
-  });
-
-  const allResults = await Promise.all(
-    perKeyTasks.map((tasks) => pooled(tasks, 2)),
+    }),
+    provider.concurrency,
   );
-  const observations = new Array<string>(payloads.length);
-  for (const batch of allResults) {
-    for (const r of batch) {
-      observations[r.idx] = r.obs;
-    }
-  }
 
   return payloads.map((payload: any, idx: number) => {
-    const observation = observations[idx]!;
-    const danger = hasDanger(observation);
-    const cleanObs = observation.replace(/[\s*_\]\)!."]*\bDANGER[\s*_\]\)!."]*$/i, "").trim();
+    const parsed = parseDecision(observations[idx]!, payload);
+    if (!parsed.ok) {
+      logEntry("vlm_invalid_decision", payload.name, { step, error: parsed.error, raw: observations[idx] });
+    }
+    const decision = parsed.decision;
 
-    if (danger) {
+    if (decision.danger) {
       logEntry("danger_detected", payload.name, {
         step,
-        observation: cleanObs,
+        observation: decision.observation,
         positionX: payload.state.positionX,
         positionZ: payload.state.positionZ,
       });
-
-      return {
-        agentIndex: payload.agentIndex,
-        observation: cleanObs + " [DANGER]",
-        action: "RUN_TO",
-        targetX: 0,
-        targetZ: 0,
-        targetEntity: 0,
-      };
     }
 
-    return {
-      agentIndex: payload.agentIndex,
-      observation: cleanObs,
-      action: "WANDER",
-      targetX: 0,
-      targetZ: 0,
-      targetEntity: 0,
-    };
+    logEntry("vlm_decision", payload.name, {
+      step,
+      action: decision.action,
+      target: decision.target,
+      rationale: decision.rationale,
+    });
+
+    return toDecisionResponse(decision, payload);
   });
 }
 
+/* ── Satellite imagery ───────────────────────────────────────────── */
+
+const satelliteProvider = createSatelliteProvider();
+console.log(`[Satellite] Imagery from ${satelliteProvider.name}`);
+
+/* ── Geocoding ───────────────────────────────────────────────────── */
+
+const geocoder = createGeocoder();
+console.log(`[Geocode] Places from ${geocoder.name}`);
+
+/* ── Cache admin ─────────────────────────────────────────────────── */
+
+/** Bearer token guarding /api/cache — when unset, only loopback clients may use it. */
+const CACHE_ADMIN_TOKEN = process.env.CACHE_ADMIN_TOKEN ?? "";
+const MAX_PREFETCH_CHUNKS = 400; // ~10 × 10 km
+
+interface PrefetchJob {
+  id: number;
+  region: Bounds;
+  source: string;
+  chunks: number;
+  done: number;
+  state: "running" | "done" | "failed";
+  error?: string;
+  startedAt: number;
+}
+
+const prefetchJobs: PrefetchJob[] = [];
+
+function isLoopback(address: string | null): boolean {
+  if (!address) return false;
+  const ip = address.startsWith("::ffff:") ? address.slice(7) : address;
+  return ip === "::1" || /^127\.\d+\.\d+\.\d+$/.test(ip);
+}
+
+/** With a token set, the request must carry it; without one, it must come from this machine. */
+function isCacheAdmin(req: Request, clientAddress: string | null): boolean {
+  if (!CACHE_ADMIN_TOKEN) return isLoopback(clientAddress);
+  return req.headers.get("authorization") === `Bearer ${CACHE_ADMIN_TOKEN}`;
+}
+
+/** Region from ?south&west&north&east or ?lat&lon&size, or null if neither is given. */
+function regionParam(params: URLSearchParams): Bounds | null {
+  const num = (k: string) => parseFloat(params.get(k) ?? "");
+  const [south, west, north, east] = [num("south"), num("west"), num("north"), num("east")];
+  if (![south, west, north, east].some(isNaN)) {
+    if (south >= north || west >= east) throw new Error("south/west must be below north/east");
+    return { south, west, north, east };
+  }
+  const [lat, lon, size] = [num("lat"), num("lon"), num("size")];
+  if (!isNaN(lat) && !isNaN(lon)) return bbox(lat, lon, (isNaN(size) ? 500 : size) / 2);
+  return null;
+}
+
 /* ── Server ──────────────────────────────────────────────────────── */
 
 Bun.serve({
@@ -271,88 +251,112 @@ Bun.serve({
     if (url.pathname === "/api/data") {
       const lat = parseFloat(url.searchParams.get("lat") ?? "");
       const lon = parseFloat(url.searchParams.get("lon") ?? "");
-      const size = Math.max(100, Math.min(2000, parseInt(url.searchParams.get("size") ?? "500") || 500));
+      const size = Math.max(100, Math.min(MAX_AREA_SIZE, parseInt(url.searchParams.get("size") ?? "500") || 500));
       if (isNaN(lat) || isNaN(lon)) {
         return new Response("Missing or invalid lat/lon", { status: 400 });
       }
 
-      const cached = getCached(lat, lon, size);
-      if (cached) {
-        console.log(`Cache hit for (${lat.toFixed(4)}, ${lon.toFixed(4)})`);
-        return Response.json(cached);
+      // Features from ?source=overpass|extract, or a GeoJSON layout POSTed as the body
+      let features: FeatureSource;
+      try {
+        features = req.method === "POST"
+          ? { kind: "geojson", data: await req.json() }
+          : featureSource(url.searchParams.get("source"));
+      } catch (err) {
+        return new Response(`Invalid source: ${(err as Error).message}`, { status: 400 });
       }
 
-      console.log(`Cache miss — fetching Overpass + USGS elevation for (${lat.toFixed(4)}, ${lon.toFixed(4)})`);
       try {
-        const { south, west, north, east } = bbox(lat, lon, size / 2);
-
-        const [overpassLayers, elevation] = await Promise.all([
-          fetchFromOverpass(south, west, north, east),
-          fetchElevationGrid(south, west, north, east),
-        ]);
-
-        const layers: LayerData = {
-          ...overpassLayers,
-          elevation,
-        };
-
-        setCache(lat, lon, layers, size);
-
-        const counts = Object.entries(overpassLayers)
-          .map(([k, v]) => `${k}: ${v.features.length}`)
-          .join(", ");
-        console.log(`  → ${counts}, elevation: ${elevation.gridSize}x${elevation.gridSize} grid`);
-        return Response.json(layers);
+        return Response.json(await loadLayerData(lat, lon, size, features));
       } catch (err) {
+        if (err instanceof OsmImportError) return new Response(`Invalid map data: ${err.message}`, { status: 400 });
         console.error("Fetch failed:", err);
         return new Response(`Fetch error: ${err}`, { status: 502 });
       }
     }
 
-    // --- API: geocode address or Google Maps URL ---
-    if (url.pathname === "/api/geocode") {
-      const q = url.searchParams.get("q")?.trim();
-      if (!q) return new Response("Missing ?q=", { status: 400 });
+    // --- API: cache admin — list, prefetch and purge cached regions ---
+    if (url.pathname.startsWith("/api/cache")) {
+      if (!isCacheAdmin(req, server.requestIP(req)?.address ?? null)) return new Response("Unauthorized", { status: 401 });
 
-      let resolvedQ = q;
-      if (/^https?:\/\//i.test(q)) {
-        if (/goo\.gl/i.test(q)) {
-          try {
-            const res = await fetch(q, { redirect: "follow" });
-            resolvedQ = res.url;
-          } catch {
-            // fall through to Nominatim
-          }
-        }
+      let region: Bounds | null;
+      try {
+        region = regionParam(url.searchParams);
+      } catch (err) {
+        return new Response(`Invalid region: ${(err as Error).message}`, { status: 400 });
+      }
 
-        const mapsCoords =
-          resolvedQ.match(/@(-?\d+\.?\d*),(-?\d+\.?\d*)/) ??
-          resolvedQ.match(/[?&]q=(-?\d+\.?\d*),(-?\d+\.?\d*)/) ??
-          resolvedQ.match(/[?&]ll=(-?\d+\.?\d*),(-?\d+\.?\d*)/);
+      if (url.pathname === "/api/cache/regions" && req.method === "GET") {
+        return Response.json({ regions: listRegions(), tiles: listTileSources(), prefetches: prefetchJobs });
+      }
 
-        if (mapsCoords) {
-          const lat = parseFloat(mapsCoords[1]);
-          const lon = parseFloat(mapsCoords[2]);
-          if (!isNaN(lat) && !isNaN(lon)) {
-            return Response.json({ lat, lon });
-          }
+      if (url.pathname === "/api/cache/regions" && req.method === "DELETE") {
+        const layer = url.searchParams.get("layer");
+        if (layer !== null && layer !== "osm" && layer !== "elevation" && layer !== "imagery") {
+          return new Response(`Unknown layer "${layer}" (expected osm | elevation | imagery)`, { status: 400 });
+        }
+        if (!region && url.searchParams.get("all") !== "1") {
+          return new Response("Give a region, or all=1 to purge everything", { status: 400 });
         }
+        const purged = layer === "imagery" ? 0 : purgeChunks(region, (layer as ChunkLayer | null) ?? undefined);
+        const purgedTiles = layer === null || layer === "imagery" ? purgeTiles(region) : 0;
+        console.log(`[Cache] Purged ${purged} chunks, ${purgedTiles} tiles`);
+        return Response.json({ purged, purgedTiles });
+      }
+
+      if (url.pathname === "/api/cache/prefetch" && req.method === "POST") {
+        if (!region) return new Response("Missing region (south/west/north/east or lat/lon/size)", { status: 400 });
+        let features: FeatureSource;
+        try {
+          features = featureSource(url.searchParams.get("source"));
+        } catch (err) {
+          return new Response(`Invalid source: ${(err as Error).message}`, { status: 400 });
+        }
+        const chunks = chunksCovering(region).length;
+        if (chunks > MAX_PREFETCH_CHUNKS) {
+          return new Response(`Region covers ${chunks} chunks (max ${MAX_PREFETCH_CHUNKS})`, { status: 413 });
+        }
+
+        // Prefetches outlast the request timeout — run in the background and report through /api/cache/regions
+        const job: PrefetchJob = {
+          id: prefetchJobs.length + 1,
+          region,
+          source: features.kind,
+          chunks,
+          done: 0,
+          state: "running",
+          startedAt: Date.now(),
+        };
+        prefetchJobs.push(job);
+        console.log(`[Cache] Prefetch #${job.id}: ${chunks} chunks`);
+        prefetchRegion(region, features, (done) => {
+          job.done = done;
+          console.log(`[Cache] Prefetch #${job.id}: ${done}/${chunks}`);
+        })
+          .then(() => { job.state = "done"; })
+          .catch((err) => {
+            job.state = "failed";
+            job.error = String(err);
+            console.error(`[Cache] Prefetch #${job.id} failed:`, err);
+          });
+        return Response.json(job, { status: 202 });
       }
 
+      return new Response("Not found", { status: 404 });
+    }
+
+    // --- API: geocode address, coordinates, plus code or Google Maps URL ---
+    if (url.pathname === "/api/geocode") {
+      const q = url.searchParams.get("q")?.trim();
+      if (!q) return new Response("Missing ?q=", { status: 400 });
+      const limit = Math.max(1, Math.min(20, parseInt(url.searchParams.get("limit") ?? "") || 8));
+
       try {
-        const nominatimUrl = `https://nominatim.openstreetmap.org/search?format=json&limit=1&q=${encodeURIComponent(q)}`;
-        const res = await fetch(nominatimUrl, {
-          headers: { "User-Agent": "OpenDisaster/1.0" },
-        });
-        const results = (await res.json()) as Array<{ lat: string; lon: string; display_name: string }>;
-        if (!results.length) {
-          return Response.json({ error: "Address not found" }, { status: 404 });
+        const response = await geocode(geocoder, q, limit);
+        if (!response.results.length) {
+          return Response.json({ error: "Address not found", ...response }, { status: 404 });
         }
-        return Response.json({
-          lat: parseFloat(results[0].lat),
-          lon: parseFloat(results[0].lon),
-          name: results[0].display_name,
-        });
+        return Response.json(response);
       } catch (err) {
         console.error("Geocode failed:", err);
         return new Response("Geocode error", { status: 502 });
@@ -508,45 +512,32 @@ Bun.serve({
       }
     }
 
-    // --- API: satellite imagery proxy ---
+    // --- API: satellite imagery, the configured provider's tiles stitched into one JPEG ---
     if (url.pathname === "/api/satellite") {
       const lat = parseFloat(url.searchParams.get("lat") ?? "");
       const lon = parseFloat(url.searchParams.get("lon") ?? "");
-      const size = Math.max(100, Math.min(2000, parseInt(url.searchParams.get("size") ?? "500") || 500));
+      const size = Math.max(100, Math.min(MAX_AREA_SIZE, parseInt(url.searchParams.get("size") ?? "500") || 500));
       if (isNaN(lat) || isNaN(lon)) {
         return new Response("Missing or invalid lat/lon", { status: 400 });
       }
 
-      const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-      if (!apiKey) {
-        return new Response("No GOOGLE_MAPS_API_KEY configured", { status: 501 });
+      // The land-use fallback draws from the same map features as the scene
+      let features: FeatureSource;
+      try {
+        features = featureSource(url.searchParams.get("source"));
+      } catch (err) {
+        return new Response(`Invalid source: ${(err as Error).message}`, { status: 400 });
       }
 
       try {
-        // Use explicit zoom if provided, otherwise compute from size
-        let zoom: number;
-        if (url.searchParams.has("zoom")) {
-          zoom = Math.min(21, Math.max(1, parseInt(url.searchParams.get("zoom")!)));
-        } else {
-          const metersPerPixelNeeded = size / 640;
-          zoom = Math.min(21, Math.max(1, Math.round(
-            Math.log2(156543.03392 * Math.cos(lat * Math.PI / 180) / metersPerPixelNeeded)
-          )));
-        }
-
-        const mapsUrl = `https://maps.googleapis.com/maps/api/staticmap?center=${lat},${lon}&zoom=${zoom}&size=640x640&scale=2&maptype=satellite&key=${apiKey}`;
-        const res = await fetch(mapsUrl);
-        if (!res.ok) {
-          const text = await res.text();
-          return new Response(`Google Maps API error: ${text}`, { status: 502 });
-        }
-
-        const imageBytes = await res.arrayBuffer();
-        return new Response(imageBytes, {
+        const view = satelliteView(lat, lon, size);
+        const image = await satelliteProvider.render(view, features);
+        return new Response(image.body, {
           headers: {
-            "Content-Type": res.headers.get("Content-Type") ?? "image/png",
+            "Content-Type": image.contentType,
             "Cache-Control": "public, max-age=3600",
-            "X-Satellite-Zoom": String(zoom),
+            "X-Satellite-Zoom": String(view.zoom),
+            "X-Satellite-Tiles": String(view.tilesPerAxis),
           },
         });
       } catch (err) {
@@ -555,6 +546,23 @@ Bun.serve({
       }
     }
 
+    // --- API: damage export (GeoJSON from gisExport.ts) as a GeoPackage ---
+    if (url.pathname === "/api/export/gpkg" && req.method === "POST") {
+      let fc: FeatureCollection;
+      try {
+        fc = await req.json() as FeatureCollection;
+        if (fc?.type !== "FeatureCollection" || !Array.isArray(fc.features)) throw new Error("expected a FeatureCollection");
+      } catch (err) {
+        return new Response(`Invalid GeoJSON: ${(err as Error).message}`, { status: 400 });
+      }
+      return new Response(geoPackage(fc), {
+        headers: {
+          "Content-Type": "application/geopackage+sqlite3",
+          "Content-Disposition": `attachment; filename="opendisaster-damage.gpkg"`,
+        },
+      });
+    }
+
     // --- Static: Replay viewer ---
     if (url.pathname === "/replay") {
       const file = Bun.file(join(import.meta.dir, "public", "replay.html"));
@@ -602,6 +610,6 @@ Bun.serve({
 
 console.log("[OpenDisaster] Server running at http://localhost:3000");
 console.log(`[OpenDisaster] Agent logs → ${LOG_FILE}`);
-if (FEATHERLESS_API_KEYS.length > 0) {
-  console.log(`[OpenDisaster] VLM enabled with ${FEATHERLESS_API_KEYS.length} API key(s)`);
+if (perceptionProvider) {
+  console.log(`[OpenDisaster] Perception enabled: ${perceptionProvider.name}`);
 }
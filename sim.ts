@@ -0,0 +1,200 @@
+/**
+ * Headless batch runner.
+ *
+ *   bun run sim.ts --scenario tornado --lat 40.7484 --lon -73.9857 --seed 42
+ *   bun run sim.ts --scenario tornado --lat 35.33 --lon -97.49 --track moore-2013.geojson
+ *
+ * Loads LayerData from the SQLite cache (fetching on a miss, or reading a
+ * local OSM extract with --osm), runs the scenario with no renderer and
+ * writes the final SimulationStatsData as JSON — plus, with --geojson /
+ * --gpkg, the building damage and deaths for GIS tools, with --survey
+ * the EF damage survey of a tornado run and with --shakemap the PGA / PGV
+ * grid of an earthquake.
+ */
+
+import "./src/sim/webgpuGlobals.ts";
+import { parseArgs, type ParseArgsConfig } from "util";
+import { access, stat } from "fs/promises";
+import { constants } from "fs";
+import { dirname, resolve } from "path";
+import { loadLayerData, featureSource, MAX_AREA_SIZE } from "./src/layerSource.ts";
+import { HeadlessSimulation, HEADLESS_SCENARIOS, type HeadlessScenario } from "./src/sim/HeadlessSimulation.ts";
+import { statsToJSON } from "./src/stats/SimulationStats.ts";
+import { buildingRegistry } from "./src/layers.ts";
+import { damageGeoJSON, shakeMapGrid } from "./src/gisExport.ts";
+import { geoPackage } from "./src/geopackage.ts";
+import { randomSeed } from "./src/core/Random.ts";
+import { parseEvacuationPoints, type EvacuationPoint } from "./src/agents/Evacuation.ts";
+import { parseTrack, type TornadoTrack } from "./src/disasters/tornadoTrack.ts";
+import { VORTEX_MODELS, type VortexModel } from "./src/disasters/vortex.ts";
+import { damageSurvey } from "./src/disasters/tornadoSurvey.ts";
+
+const OPTIONS = {
+    scenario: { type: "string" },
+    lat: { type: "string" },
+    lon: { type: "string" },
+    size: { type: "string", default: "500" },
+    seed: { type: "string" },
+    duration: { type: "string", default: "60" },
+    x: { type: "string", default: "0" },
+    z: { type: "string", default: "0" },
+    ef: { type: "string" },
+    vortex: { type: "string" },
+    track: { type: "string" },
+    "track-deviation": { type: "string" },
+    magnitude: { type: "string" },
+    depth: { type: "string" },
+    strike: { type: "string" },
+    aftershocks: { type: "boolean" },
+    "flood-height": { type: "string" },
+    "fire-radius": { type: "string" },
+    evacuation: { type: "string" },
+    osm: { type: "string" },
+    out: { type: "string" },
+    geojson: { type: "string" },
+    gpkg: { type: "string" },
+    survey: { type: "string" },
+    shakemap: { type: "string" },
+} satisfies ParseArgsConfig["options"];
+
+/** Scenarios with an earthquake in them — the ones that produce a shake map. */
+const QUAKE_SCENARIOS: readonly HeadlessScenario[] = ["earthquake", "quake-fire", "quake-tsunami"];
+
+/**
+ * `--lon -73.98` → `--lon=-73.98`. util.parseArgs takes a value starting with
+ * "-" for another flag, and western longitudes, southern latitudes and
+ * offsets are negative.
+ */
+function joinNegativeValues(argv: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]!, next = argv[i + 1];
+    const option = OPTIONS[flag.slice(2) as keyof typeof OPTIONS] as { type: string } | undefined;
+    if (flag.startsWith("--") && option?.type === "string" && next !== undefined && /^-\.?\d/.test(next)) {
+      out.push(`${flag}=${next}`);
+      i++;
+    } else {
+      out.push(flag);
+    }
+  }
+  return out;
+}
+
+const { values: args } = parseArgs({ args: joinNegativeValues(Bun.argv.slice(2)), options: OPTIONS });
+
+function fail(msg: string): never {
+  console.error(msg);
+  console.error(`Usage: bun run sim.ts --scenario <${HEADLESS_SCENARIOS.join("|")}> --lat <lat> --lon <lon> [--seed N] [--size m] [--duration s] [--x m --z m] [--ef 0-5] [--vortex ${VORTEX_MODELS.join("|")}] [--track path.geojson|storm-events.csv] [--track-deviation m] [--magnitude M] [--depth km] [--strike deg] [--aftershocks] [--flood-height m] [--fire-radius m] [--evacuation points.json] [--osm extract.osm.pbf] [--out file.json] [--geojson damage.geojson] [--gpkg damage.gpkg] [--survey survey.json] [--shakemap shakemap.json]`);
+  process.exit(1);
+}
+
+/** Parse an optional numeric flag; undefined when absent. */
+function num(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = parseFloat(value);
+  if (isNaN(n)) fail(`Invalid --${name}: ${value}`);
+  return n;
+}
+
+const scenario = args.scenario as HeadlessScenario | undefined;
+if (!scenario || !HEADLESS_SCENARIOS.includes(scenario)) fail(`Missing or unknown --scenario: ${args.scenario ?? ""}`);
+const lat = num("lat", args.lat);
+const lon = num("lon", args.lon);
+if (lat === undefined || lon === undefined) fail("Missing --lat/--lon");
+
+/** Fail now, not after the run, if an output file can't be written: the file or its nearest existing directory must allow it. */
+async function checkWritable(name: string, path: string | undefined): Promise<void> {
+  if (path === undefined) return;
+  let target = resolve(path);
+  const info = await stat(target).catch(() => null);
+  if (info?.isDirectory()) fail(`Invalid --${name}: ${path} is a directory`);
+  // Bun.write creates missing directories, so look for the closest one that exists
+  if (!info) {
+    do target = dirname(target);
+    while (!(await stat(target).catch(() => null)) && target !== dirname(target));
+  }
+  try {
+    await access(target, constants.W_OK);
+  } catch {
+    fail(`Invalid --${name}: ${path} is not writable`);
+  }
+}
+
+if (args.survey && scenario !== "tornado") fail(`--survey needs the tornado scenario, not ${scenario}`);
+if (args.shakemap && !QUAKE_SCENARIOS.includes(scenario)) fail(`--shakemap needs an earthquake scenario, not ${scenario}`);
+for (const name of ["out", "geojson", "gpkg", "survey", "shakemap"] as const) await checkWritable(name, args[name]);
+
+const size = Math.max(100, Math.min(MAX_AREA_SIZE, num("size", args.size)!));
+const seed = (num("seed", args.seed) ?? randomSeed()) >>> 0;
+
+let evacuationPoints: EvacuationPoint[] = [];
+if (args.evacuation) {
+  try {
+    evacuationPoints = parseEvacuationPoints(await Bun.file(args.evacuation).json());
+  } catch (err) {
+    fail(`Invalid --evacuation ${args.evacuation}: ${(err as Error).message}`);
+  }
+}
+
+const vortexModel = args.vortex as VortexModel | undefined;
+if (vortexModel !== undefined && !VORTEX_MODELS.includes(vortexModel)) fail(`Unknown --vortex: ${vortexModel}`);
+
+let tornadoTrack: TornadoTrack | undefined;
+if (args.track) {
+  try {
+    tornadoTrack = parseTrack(await Bun.file(args.track).text(), lat, lon, num("track-deviation", args["track-deviation"]) ?? 0);
+  } catch (err) {
+    fail(`Invalid --track ${args.track}: ${(err as Error).message}`);
+  }
+}
+
+// --osm reads map features from a local extract (.osm.pbf / .osm / .geojson) instead of Overpass
+const layers = await loadLayerData(lat, lon, size, args.osm ? { kind: "extract", path: args.osm } : featureSource(null));
+const sim = new HeadlessSimulation(layers, {
+  scenario,
+  lat,
+  lon,
+  size,
+  seed,
+  durationSec: num("duration", args.duration)!,
+  stepDurationSec: 1,
+  origin: { x: num("x", args.x)!, z: num("z", args.z)! },
+  efRating: num("ef", args.ef),
+  vortexModel,
+  tornadoTrack,
+  magnitude: num("magnitude", args.magnitude),
+  depthKm: num("depth", args.depth),
+  strike: num("strike", args.strike),
+  aftershocks: args.aftershocks,
+  floodHeight: num("flood-height", args["flood-height"]),
+  fireRadius: num("fire-radius", args["fire-radius"]),
+  evacuationPoints,
+});
+
+const started = performance.now();
+const stats = sim.run();
+const outPath = args.out ?? `out/sim-${scenario}-${seed}.json`;
+await Bun.write(outPath, JSON.stringify(statsToJSON(stats), null, 2));
+
+if (args.geojson || args.gpkg) {
+  const damage = damageGeoJSON(lat, lon, buildingRegistry, stats.agentRecords, { scenario, seed, duration: stats.duration });
+  if (args.geojson) await Bun.write(args.geojson, JSON.stringify(damage));
+  if (args.gpkg) await Bun.write(args.gpkg, geoPackage(damage));
+}
+
+if (args.survey) {
+  const survey = damageSurvey(buildingRegistry);
+  await Bun.write(args.survey, JSON.stringify(survey, null, 2));
+  console.log(`[Headless] Damage survey: ${survey.rating === null ? "unrated" : `EF${survey.rating}`}, ${survey.exposed} buildings exposed → ${args.survey}`);
+}
+
+if (args.shakemap) {
+  if (!sim.shakeMap) fail(`--shakemap: the ${scenario} run produced no shake map`);
+  await Bun.write(args.shakemap, JSON.stringify(shakeMapGrid(lat, lon, sim.shakeMap)));
+  console.log(`[Headless] Shake map: ${sim.shakeMap.width}×${sim.shakeMap.height} cells → ${args.shakemap}`);
+}
+
+console.log(
+  `[Headless] seed=${seed} deaths=${stats.deaths}/${stats.totalAgents} survival=${(stats.survivalRate * 100).toFixed(0)}% evacuated=${stats.evacuated} ` +
+  `(${((performance.now() - started) / 1000).toFixed(1)}s wall) → ${outPath}`,
+);
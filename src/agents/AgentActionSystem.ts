@@ -4,9 +4,17 @@ import {
   AgentAction,
   AgentFacing,
   ActionType,
+  InjuryFlag,
+  NO_TARGET,
 } from "../core/Components.ts";
-import type { AgentManager } from "./AgentManager.ts";
+import type { EventBus, RoadBlockageEvent } from "../core/EventBus.ts";
+import type { AgentManager, AgentRuntime } from "./AgentManager.ts";
 import type { RoadGraph } from "./RoadGraph.ts";
+import type { ShelterRegistry } from "./Shelters.ts";
+import type { EvacuationPlanner } from "./Evacuation.ts";
+import { RoutePlanner, type RouteWaypoint } from "./RoutePlanner.ts";
+import type { SeededRandom } from "../core/Random.ts";
+import type { SimClock } from "../core/World.ts";
 import { agentLog } from "./AgentLogger.ts";
 
 const WALK_SPEED = 1.68;  // m/s
@@ -23,10 +31,25 @@ const STUCK_PROGRESS_RATIO = 0.3; // must close at least 30% of expected distanc
 const ROAD_SEARCH_RADIUS = 30;    // max distance to snap to road graph
 const MIN_TARGET_DIST = 15;        // reject graph targets closer than this
 const FLEE_COMMIT_TIME = 3.0;      // seconds an agent commits to a flee target before allowing change
+const CARRY_SPEED = 1.1;           // m/s while carrying someone
+const CRAWL_SPEED = 0.5;           // m/s with a critical injury
+const GUIDE_SPEED_FACTOR = 0.9;    // leaders stay just under their follower's top speed
+const REACH_DIST = 6.0;            // meters - close enough to help someone (beyond agent separation)
+const FOLLOW_DIST = 6.0;           // followers stop closing in inside this range
+const HELP_ALTRUISM_MIN = 0.5;     // below this, agents never divert to help
+const HELP_RADIUS_BASE = 10;       // meters - help search radius at altruism 0...
+const HELP_RADIUS_ALTRUISM = 40;   // ...plus this much at altruism 1
+const HELP_RETRY_TIME = 20;        // seconds before an unreachable agent is considered again
+const SHELTER_SEARCH_RADIUS = 80;  // meters - how far from its target an agent looks for a building
+const SHELTER_ENTRY_DIST = 3.0;    // meters from the door at which an agent steps inside
 const ACTION_NAMES: Record<number, string> = {
   [ActionType.IDLE]: "IDLE",
   [ActionType.WALK_TO]: "WALK_TO",
   [ActionType.RUN_TO]: "RUN_TO",
+  [ActionType.HELP_AGENT]: "HELP_AGENT",
+  [ActionType.FOLLOW]: "FOLLOW",
+  [ActionType.CARRY_INJURED]: "CARRY_INJURED",
+  [ActionType.SHELTER]: "SHELTER",
 };
 
 /** A circular zone agents should avoid (e.g. fire). */
@@ -34,9 +57,12 @@ export interface DangerZone {
   x: number;
   z: number;
   radius: number;
-  expiresAt: number; // Date.now() timestamp
+  expiresAt: number; // SimWorld.time (s)
 }
 
+/** Sim seconds a danger zone stays in an agent's memory unless the hazard refreshes it. */
+export const DANGER_ZONE_TTL = 60;
+
 /** Simple XZ axis-aligned rectangle for collision. */
 export interface Obstacle {
   minX: number;
@@ -45,9 +71,31 @@ export interface Obstacle {
   maxZ: number;
 }
 
+const SERIOUS_INJURY = InjuryFlag.MAJOR | InjuryFlag.CRITICAL;
+
+/** Top speed allowed by an agent's injuries. */
+function maxSpeed(eid: number): number {
+  const injured = AgentState.injured[eid]!;
+  if (injured & InjuryFlag.CRITICAL) return CRAWL_SPEED;
+  if (injured & InjuryFlag.MAJOR) return WALK_SPEED;
+  return RUN_SPEED;
+}
+
+/** Copy `from`'s active danger zones that `to` doesn't know about yet. */
+function shareDangerZones(from: AgentRuntime, to: AgentRuntime, now: number): void {
+  for (const zone of from.dangerZones) {
+    if (zone.expiresAt < now) continue;
+    const known = to.dangerZones.some(z => Math.abs(z.x - zone.x) < 1 && Math.abs(z.z - zone.z) < 1);
+    if (!known) to.dangerZones.push({ ...zone });
+  }
+}
+
+function isCarrying(carrier: number, eid: number): boolean {
+  return AgentAction.actionType[carrier] === ActionType.CARRY_INJURED && AgentAction.targetEid[carrier] === eid;
+}
+
 /** Test if a point is inside any active danger zone. */
-function isInDangerZone(x: number, z: number, zones: DangerZone[]): boolean {
-  const now = Date.now();
+function isInDangerZone(x: number, z: number, zones: DangerZone[], now: number): boolean {
   for (const zone of zones) {
     if (zone.expiresAt < now) continue;
     const dx = x - zone.x;
@@ -58,9 +106,8 @@ function isInDangerZone(x: number, z: number, zones: DangerZone[]): boolean {
 }
 
 /** Minimum distance from a point to the nearest active danger zone edge. */
-function minDangerDist(x: number, z: number, zones: DangerZone[]): number {
+function minDangerDist(x: number, z: number, zones: DangerZone[], now: number): number {
   let minDist = Infinity;
-  const now = Date.now();
   for (const zone of zones) {
     if (zone.expiresAt < now) continue;
     const dx = x - zone.x;
@@ -139,10 +186,11 @@ function moveWithCollision(
 function pickRandomWanderTarget(
   px: number, pz: number,
   obstacles: Obstacle[], sceneBound: number,
+  rng: SeededRandom,
 ): { x: number; z: number } {
   for (let attempt = 0; attempt < 16; attempt++) {
-    const angle = Math.random() * Math.PI * 2;
-    const r = WANDER_RADIUS * (0.3 + Math.random() * 0.7);
+    const angle = rng.next() * Math.PI * 2;
+    const r = WANDER_RADIUS * (0.3 + rng.next() * 0.7);
     const tx = Math.max(-sceneBound, Math.min(sceneBound, px + Math.cos(angle) * r));
     const tz = Math.max(-sceneBound, Math.min(sceneBound, pz + Math.sin(angle) * r));
     if (!collidesWithObstacle(tx, tz, obstacles)) {
@@ -159,21 +207,22 @@ function pickWanderTarget(
   roadGraph: RoadGraph | null,
   obstacles: Obstacle[],
   sceneBound: number,
+  rng: SeededRandom,
 ): { x: number; z: number } {
   if (!roadGraph) {
-    return pickRandomWanderTarget(px, pz, obstacles, sceneBound);
+    return pickRandomWanderTarget(px, pz, obstacles, sceneBound, rng);
   }
 
   const nearestId = roadGraph.nearestNode(px, pz);
   if (nearestId === -1) {
-    return pickRandomWanderTarget(px, pz, obstacles, sceneBound);
+    return pickRandomWanderTarget(px, pz, obstacles, sceneBound, rng);
   }
 
   const nearestPos = roadGraph.getNodePos(nearestId)!;
   const ddx = nearestPos.x - px;
   const ddz = nearestPos.z - pz;
   if (ddx * ddx + ddz * ddz > ROAD_SEARCH_RADIUS * ROAD_SEARCH_RADIUS) {
-    return pickRandomWanderTarget(px, pz, obstacles, sceneBound);
+    return pickRandomWanderTarget(px, pz, obstacles, sceneBound, rng);
   }
 
   // Try a few times to find an endpoint far enough away
@@ -189,68 +238,24 @@ function pickWanderTarget(
     const edz = endPos.z - pz;
     if (edx * edx + edz * edz >= minDist2) {
       return {
-        x: endPos.x + (Math.random() - 0.5) * 3,
-        z: endPos.z + (Math.random() - 0.5) * 3,
+        x: endPos.x + (rng.next() - 0.5) * 3,
+        z: endPos.z + (rng.next() - 0.5) * 3,
       };
     }
   }
 
   // Graph couldn't find a distant-enough point — fall back to random
-  return pickRandomWanderTarget(px, pz, obstacles, sceneBound);
-}
-
-/** Pick a flee destination from the road graph (endpoint of a flee route).
- *  Retries to find a point at least MIN_TARGET_DIST away. */
-function pickFleeTarget(
-  px: number, pz: number,
-  roadGraph: RoadGraph | null,
-  obstacles: Obstacle[],
-  sceneBound: number,
-  zones: DangerZone[],
-): { x: number; z: number } {
-  if (!roadGraph) {
-    return pickFleeTargetFallback(px, pz, obstacles, sceneBound, zones);
-  }
-
-  const nearestId = roadGraph.nearestNode(px, pz);
-  if (nearestId === -1 || distToNode(px, pz, roadGraph, nearestId) > ROAD_SEARCH_RADIUS) {
-    return pickFleeTargetFallback(px, pz, obstacles, sceneBound, zones);
-  }
-
-  const minDist2 = MIN_TARGET_DIST * MIN_TARGET_DIST;
-  for (let attempt = 0; attempt < 3; attempt++) {
-    const steps = 6 + attempt * 3;
-    const nodeIds = roadGraph.fleeRoute(nearestId, zones, steps);
-    if (nodeIds.length === 0) continue;
-
-    const endId = nodeIds[nodeIds.length - 1]!;
-    const endPos = roadGraph.getNodePos(endId)!;
-    const edx = endPos.x - px;
-    const edz = endPos.z - pz;
-    if (edx * edx + edz * edz >= minDist2) {
-      return { x: endPos.x, z: endPos.z };
-    }
-  }
-
-  // Graph is too small/loopy here — use fallback escape vector
-  return pickFleeTargetFallback(px, pz, obstacles, sceneBound, zones);
-}
-
-function distToNode(px: number, pz: number, graph: RoadGraph, nodeId: number): number {
-  const pos = graph.getNodePos(nodeId);
-  if (!pos) return Infinity;
-  const dx = pos.x - px;
-  const dz = pos.z - pz;
-  return Math.sqrt(dx * dx + dz * dz);
+  return pickRandomWanderTarget(px, pz, obstacles, sceneBound, rng);
 }
 
-/** Fallback flee when no road graph is available. */
+/** Fallback flee when the roads offer no way out: straight away from danger. */
 function pickFleeTargetFallback(
   px: number, pz: number,
   obstacles: Obstacle[], sceneBound: number,
   zones: DangerZone[],
+  rng: SeededRandom,
+  now: number,
 ): { x: number; z: number } {
-  const now = Date.now();
   let escX = 0;
   let escZ = 0;
   for (const zone of zones) {
@@ -259,12 +264,12 @@ function pickFleeTargetFallback(
     const dz = pz - zone.z;
     const dist = Math.sqrt(dx * dx + dz * dz);
     const weight = 1 / Math.max(dist, 0.1);
-    escX += (dist > 0.01 ? dx / dist : Math.random() - 0.5) * weight;
-    escZ += (dist > 0.01 ? dz / dist : Math.random() - 0.5) * weight;
+    escX += (dist > 0.01 ? dx / dist : rng.next() - 0.5) * weight;
+    escZ += (dist > 0.01 ? dz / dist : rng.next() - 0.5) * weight;
   }
   const escLen = Math.sqrt(escX * escX + escZ * escZ);
   if (escLen > 0.01) { escX /= escLen; escZ /= escLen; }
-  else { const a = Math.random() * Math.PI * 2; escX = Math.cos(a); escZ = Math.sin(a); }
+  else { const a = rng.next() * Math.PI * 2; escX = Math.cos(a); escZ = Math.sin(a); }
 
   let tx = Math.max(-sceneBound, Math.min(sceneBound, px + escX * WANDER_RADIUS));
   let tz = Math.max(-sceneBound, Math.min(sceneBound, pz + escZ * WANDER_RADIUS));
@@ -286,15 +291,205 @@ function pickFleeTargetFallback(
  */
 export function createAgentActionSystem(
   manager: AgentManager,
+  eventBus: EventBus,
+  rng: SeededRandom,
+  clock: SimClock,
   obstacles: Obstacle[] = [],
   sceneBound = 180,
   roadGraph: RoadGraph | null = null,
+  shelters: ShelterRegistry | null = null,
+  evacuation: EvacuationPlanner | null = null,
+  routing: RoutePlanner = new RoutePlanner(roadGraph, clock),
 ) {
+  // Sim time of the tick under way — what danger zones expire against
+  let now = clock();
   // Per-agent: time remaining before a flee target can be changed
   const fleeCommitCountdown = new Map<number, number>();
+  // Per-agent: time remaining before a helper gives an unreachable agent another try
+  const helpCooldown = new Map<number, number>();
+  // Agents already brought to safety — not picked up again
+  const rescued = new Set<number>();
+  // Leader eid → eid of the injured agent they are guiding to safety
+  const guides = new Map<number, number>();
+  const byEid = new Map<number, AgentRuntime>();
+  // Per-agent: planned route out of danger — the waypoint being walked to and those after it
+  const routes = routing.routes;
+  // Agents that have reached an evacuation point at least once (reported once each)
+  const evacuated = new Set<number>();
+
+  // A road ahead closed or slowed — don't wait for the routine re-check
+  eventBus.on("ROAD_BLOCKAGE", (e) => {
+    const ev = e as RoadBlockageEvent;
+    if (ev.state !== "cleared") routing.recheckThrough(ev.edge[0], ev.edge[1]);
+  });
+
+  /** Is someone already on their way to, carrying or guiding this agent? */
+  function isBeingHelped(patientEid: number): boolean {
+    if (AgentAction.actionType[patientEid] === ActionType.FOLLOW) return true;
+    for (const other of manager.agents) {
+      const oeid = other.eid;
+      if (AgentState.alive[oeid]! === 0) continue;
+      const action = AgentAction.actionType[oeid]!;
+      if ((action === ActionType.HELP_AGENT || action === ActionType.CARRY_INJURED) && AgentAction.targetEid[oeid] === patientEid) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Altruistic agents divert to the nearest seriously injured agent nobody
+   * is helping yet. Timid agents won't go near danger to do it.
+   */
+  function tryDivertToHelp(agent: AgentRuntime, px: number, pz: number, nearDanger: boolean): boolean {
+    const eid = agent.eid;
+    const { altruism, bravery } = agent.config.personality;
+    if (altruism < HELP_ALTRUISM_MIN || guides.has(eid)) return false;
+    if (AgentState.injured[eid]! & SERIOUS_INJURY) return false;
+    if (nearDanger && bravery < 0.5) return false;
+
+    const radius = HELP_RADIUS_BASE + HELP_RADIUS_ALTRUISM * altruism;
+    let best: AgentRuntime | null = null;
+    let bestDist = radius;
+    for (const other of manager.agents) {
+      const oeid = other.eid;
+      if (oeid === eid || AgentState.alive[oeid]! === 0) continue;
+      if (!(AgentState.injured[oeid]! & SERIOUS_INJURY) || helpCooldown.has(oeid) || rescued.has(oeid)) continue;
+      if (shelters?.isInside(oeid)) continue;
+      const ox = Position.x[oeid]!;
+      const oz = Position.z[oeid]!;
+      const d = Math.sqrt((ox - px) ** 2 + (oz - pz) ** 2);
+      if (d >= bestDist) continue;
+      if (bravery < 0.7 && isInDangerZone(ox, oz, agent.dangerZones, now)) continue;
+      if (isBeingHelped(oeid)) continue;
+      best = other;
+      bestDist = d;
+    }
+    if (!best) return false;
+
+    agentLog.log("help_divert", agent.config.name, {
+      patient: best.config.name,
+      distance: bestDist,
+      altruism,
+    });
+    manager.addEvent(agent.index, `${best.config.name} is hurt — going to help.`);
+    AgentAction.actionType[eid] = ActionType.HELP_AGENT;
+    AgentAction.targetEid[eid] = best.eid;
+    AgentAction.targetX[eid] = Position.x[best.eid]!;
+    AgentAction.targetZ[eid] = Position.z[best.eid]!;
+    AgentAction.progress[eid] = 0;
+    return true;
+  }
+
+  function setIdle(eid: number, progress = 0): void {
+    AgentAction.actionType[eid] = ActionType.IDLE;
+    AgentAction.targetEid[eid] = NO_TARGET;
+    AgentAction.progress[eid] = progress;
+  }
+
+  /** Helper brought the patient to safety — release both and record the rescue. */
+  function deliver(helper: AgentRuntime, patient: AgentRuntime, mode: "carried" | "guided"): void {
+    setIdle(helper.eid);
+    setIdle(patient.eid);
+    rescued.add(patient.eid);
+    const position: [number, number, number] = [Position.x[patient.eid]!, Position.y[patient.eid]!, Position.z[patient.eid]!];
+    eventBus.emit({ type: "AGENT_RESCUED", agentIndex: patient.index, rescuerIndex: helper.index, position, mode });
+    agentLog.log("rescue", helper.config.name, { patient: patient.config.name, mode, x: position[0], z: position[2] });
+    manager.addEvent(helper.index, `I got ${patient.config.name} to safety.`);
+    manager.addEvent(patient.index, `${helper.config.name} got me to safety.`);
+  }
+
+  /**
+   * Plan the agent's way out of danger over the roads: to the nearest evacuation
+   * point it can reach if there is one, else to the nearest road node clear of
+   * every danger zone it knows. Points the agent at the first waypoint and
+   * returns it — null when the roads offer no way out.
+   */
+  function planRoute(agent: AgentRuntime, px: number, pz: number): RouteWaypoint | null {
+    const eid = agent.eid;
+    routes.delete(eid);
+    const zones = agent.dangerZones;
+    const evac = evacuation?.plan(px, pz, zones, routing.edgeCost(zones));
+    const waypoints = evac?.waypoints ?? routing.planEscape(px, pz, zones);
+    if (!waypoints) return null;
+
+    const first = routing.follow(eid, evac?.point ?? null, waypoints);
+    AgentAction.targetX[eid] = first.x;
+    AgentAction.targetZ[eid] = first.z;
+    AgentAction.progress[eid] = 0;
+    agentLog.log(evac ? "evacuate" : "escape_route", agent.config.name, {
+      fromX: px, fromZ: pz,
+      destination: evac?.point.name ?? null,
+      waypoints: waypoints.length,
+    });
+    return first;
+  }
+
+  /** Where a fleeing agent should run: along a planned route, or straight away from danger. */
+  function fleeTarget(agent: AgentRuntime, px: number, pz: number): { x: number; z: number } {
+    fleeCommitCountdown.set(agent.eid, FLEE_COMMIT_TIME);
+    return planRoute(agent, px, pz) ?? pickFleeTargetFallback(px, pz, obstacles, sceneBound, agent.dangerZones, rng, now);
+  }
+
+  /** Reached a waypoint — head for the next one. False when there's no route left to follow. */
+  function nextWaypoint(eid: number): boolean {
+    const route = routes.get(eid);
+    if (!route) return false;
+    // Someone gave the agent a different target since — the route is stale
+    const onRoute = route.current.x === AgentAction.targetX[eid] && route.current.z === AgentAction.targetZ[eid];
+    const next = onRoute ? route.waypoints.shift() : undefined;
+    if (!next) {
+      routes.delete(eid);
+      return false;
+    }
+    route.current = next;
+    AgentAction.targetX[eid] = next.x;
+    AgentAction.targetZ[eid] = next.z;
+    AgentAction.progress[eid] = 0;
+    return true;
+  }
+
+  /** Step out of whatever building the agent reserved or entered, on the side facing its target. */
+  function leaveShelter(agent: AgentRuntime): void {
+    const eid = agent.eid;
+    const b = shelters?.buildingOf(eid);
+    if (!shelters || !b) return;
+    if (shelters.isInside(eid)) {
+      const door = shelters.doorPoint(b, AgentAction.targetX[eid]!, AgentAction.targetZ[eid]!);
+      Position.x[eid] = door.x;
+      Position.z[eid] = door.z;
+      agentLog.log("shelter_exit", agent.config.name, { building: b.name ?? null, x: door.x, z: door.z });
+    }
+    shelters.release(eid);
+  }
+
+  /** Leaders slow down so the injured agent they're guiding keeps up. */
+  function guidedSpeed(eid: number, speed: number): number {
+    const follower = guides.get(eid);
+    return follower === undefined ? speed : Math.min(speed, maxSpeed(follower) * GUIDE_SPEED_FACTOR);
+  }
+
+  /** A guiding leader reached their destination — a rescue if the follower kept up. */
+  function finishGuiding(leader: AgentRuntime): void {
+    const feid = guides.get(leader.eid);
+    if (feid === undefined) return;
+    guides.delete(leader.eid);
+    const follower = byEid.get(feid);
+    if (!follower || AgentState.alive[feid]! === 0 || AgentAction.actionType[feid] !== ActionType.FOLLOW) return;
+    const d = Math.sqrt((Position.x[feid]! - Position.x[leader.eid]!) ** 2 + (Position.z[feid]! - Position.z[leader.eid]!) ** 2);
+    if (d <= FOLLOW_DIST * 3) deliver(leader, follower, "guided");
+    else setIdle(feid);
+  }
 
   return (_world: any, dt: number) => {
-    const now = Date.now();
+    now = clock();
+
+    byEid.clear();
+    for (const agent of manager.agents) byEid.set(agent.eid, agent);
+    for (const [eid, left] of helpCooldown) {
+      if (left - dt <= 0) helpCooldown.delete(eid);
+      else helpCooldown.set(eid, left - dt);
+    }
 
     // Collect all agent danger zones for separation check
     const allDangerZones: DangerZone[] = [];
@@ -317,15 +512,53 @@ export function createAgentActionSystem(
       const commitLeft = fleeCommitCountdown.get(eid) ?? 0;
       if (commitLeft > 0) fleeCommitCountdown.set(eid, commitLeft - dt);
 
-      const action = AgentAction.actionType[eid]! as ActionType;
+      let action = AgentAction.actionType[eid]! as ActionType;
 
-      // Push agent out of any obstacle they're overlapping
-      {
+      // New orders while sheltering (or heading for shelter) — give up the spot
+      if (action !== ActionType.SHELTER) leaveShelter(agent);
+      // Routes are only followed while moving
+      if (action !== ActionType.WALK_TO && action !== ActionType.RUN_TO && action !== ActionType.CARRY_INJURED) routes.delete(eid);
+      const inside = shelters?.isInside(eid) ?? false;
+
+      // Push agent out of any obstacle they're overlapping (sheltering agents are meant to be inside one)
+      if (!inside) {
         const pushed = pushOutOfObstacles(Position.x[eid]!, Position.z[eid]!, obstacles);
         Position.x[eid] = pushed.x;
         Position.z[eid] = pushed.z;
       }
 
+      // Reached an evacuation point
+      const safeAt = evacuation?.arrivedAt(Position.x[eid]!, Position.z[eid]!) ?? null;
+      if (safeAt) {
+        if (!evacuated.has(eid)) {
+          evacuated.add(eid);
+          const position: [number, number, number] = [Position.x[eid]!, Position.y[eid]!, Position.z[eid]!];
+          eventBus.emit({ type: "AGENT_EVACUATED", agentIndex: agent.index, destinationId: safeAt.id, position });
+          agentLog.log("evacuated", agent.config.name, { destination: safeAt.name, x: position[0], z: position[2] });
+          manager.addEvent(agent.index, `Reached ${safeAt.name}.`);
+        }
+        if (routes.get(eid)?.point === safeAt) {
+          routes.delete(eid);
+          const patient = action === ActionType.CARRY_INJURED ? byEid.get(AgentAction.targetEid[eid]!) : undefined;
+          if (patient) deliver(agent, patient, "carried");
+          else {
+            setIdle(eid);
+            finishGuiding(agent);
+          }
+          action = ActionType.IDLE;
+        }
+      }
+
+      // Hazards along the rest of the route got worse (new zone, rising water, blocked road) — replan
+      if (routes.has(eid) && routing.needsReplan(eid, zones, dt)) {
+        const point = routes.get(eid)!.point;
+        const next = planRoute(agent, Position.x[eid]!, Position.z[eid]!);
+        agentLog.log("replan", agent.config.name, { from: point?.name ?? null, to: routes.get(eid)?.point?.name ?? null, found: next !== null });
+      }
+
+      // Pinned under rubble — can't move until a helper frees them
+      if (AgentState.trapped[eid]! === 1) continue;
+
       const px = Position.x[eid]!;
       const pz = Position.z[eid]!;
       const tx = AgentAction.targetX[eid]!;
@@ -339,13 +572,16 @@ export function createAgentActionSystem(
         case ActionType.IDLE: {
           AgentState.stamina[eid] = Math.min(100, AgentState.stamina[eid]! + STAMINA_REGEN * dt);
           const hasActiveDanger = zones.some(z => z.expiresAt > now);
-          const nearDanger = hasActiveDanger && minDangerDist(px, pz, zones) < WANDER_RADIUS;
+          const nearDanger = hasActiveDanger && minDangerDist(px, pz, zones, now) < WANDER_RADIUS;
           const idleThreshold = nearDanger ? 0.5 : WANDER_IDLE_TIME;
 
           AgentAction.progress[eid] = (AgentAction.progress[eid] ?? 0) + dt;
           if (AgentAction.progress[eid]! >= idleThreshold) {
-            if (nearDanger) {
-              const target = pickFleeTarget(px, pz, roadGraph, obstacles, sceneBound, zones);
+            if (tryDivertToHelp(agent, px, pz, nearDanger)) break;
+            // At an evacuation point: stay unless the danger actually reaches it
+            const staySafe = safeAt !== null && !isInDangerZone(px, pz, zones, now);
+            if (nearDanger && !staySafe) {
+              const target = fleeTarget(agent, px, pz);
               agentLog.log("auto_flee", agent.config.name, {
                 fromX: px, fromZ: pz,
                 targetX: target.x, targetZ: target.z,
@@ -353,9 +589,12 @@ export function createAgentActionSystem(
               AgentAction.targetX[eid] = target.x;
               AgentAction.targetZ[eid] = target.z;
               AgentAction.actionType[eid] = ActionType.RUN_TO;
-              fleeCommitCountdown.set(eid, FLEE_COMMIT_TIME);
+            } else if (AgentState.injured[eid]! & InjuryFlag.CRITICAL) {
+              // Too hurt to wander — stay put and wait for help
+            } else if (staySafe) {
+              // Wait at the evacuation point
             } else {
-              const target = pickWanderTarget(px, pz, roadGraph, obstacles, sceneBound);
+              const target = pickWanderTarget(px, pz, roadGraph, obstacles, sceneBound, rng);
               agentLog.log("auto_wander", agent.config.name, {
                 fromX: px, fromZ: pz,
                 targetX: target.x, targetZ: target.z,
@@ -370,9 +609,12 @@ export function createAgentActionSystem(
         }
 
         case ActionType.WALK_TO: {
+          const activeDanger = zones.some(z => z.expiresAt > now);
+          if (!guides.has(eid) && tryDivertToHelp(agent, px, pz, activeDanger && minDangerDist(px, pz, zones, now) < WANDER_RADIUS)) break;
+
           // If walk target is now inside a danger zone, switch to flee
-          if (isInDangerZone(tx, tz, zones) || (zones.some(z => z.expiresAt > now) && minDangerDist(px, pz, zones) < 5)) {
-            const safe = pickFleeTarget(px, pz, roadGraph, obstacles, sceneBound, zones);
+          if (isInDangerZone(tx, tz, zones, now) || (zones.some(z => z.expiresAt > now) && minDangerDist(px, pz, zones, now) < 5)) {
+            const safe = fleeTarget(agent, px, pz);
             agentLog.log("walk_danger_redirect", agent.config.name, {
               fromX: px, fromZ: pz,
               safeTargetX: safe.x, safeTargetZ: safe.z,
@@ -381,14 +623,14 @@ export function createAgentActionSystem(
             AgentAction.targetZ[eid] = safe.z;
             AgentAction.actionType[eid] = ActionType.RUN_TO;
             AgentAction.progress[eid] = 0;
-            fleeCommitCountdown.set(eid, FLEE_COMMIT_TIME);
             break;
           }
 
           if (dist > ARRIVAL_DIST) {
             const nx = dx / dist;
             const nz = dz / dist;
-            const result = moveWithCollision(px, pz, nx, nz, WALK_SPEED, dt, obstacles);
+            const speed = guidedSpeed(eid, Math.min(WALK_SPEED, maxSpeed(eid)));
+            const result = moveWithCollision(px, pz, nx, nz, speed, dt, obstacles);
             Position.x[eid] = result.x;
             Position.z[eid] = result.z;
             AgentFacing.yaw[eid] = Math.atan2(nx, nz);
@@ -401,7 +643,7 @@ export function createAgentActionSystem(
               const newDz = tz - result.z;
               const newDist = Math.sqrt(newDx * newDx + newDz * newDz);
               const closed = dist - newDist;
-              if (closed < WALK_SPEED * dt * STUCK_PROGRESS_RATIO) {
+              if (closed < speed * dt * STUCK_PROGRESS_RATIO) {
                 AgentAction.progress[eid] = (AgentAction.progress[eid] ?? 0) + dt;
                 if (AgentAction.progress[eid]! >= STUCK_TIME_THRESHOLD) {
                   AgentAction.actionType[eid] = ActionType.IDLE;
@@ -411,9 +653,10 @@ export function createAgentActionSystem(
                 AgentAction.progress[eid] = 0;
               }
             }
-          } else {
+          } else if (!nextWaypoint(eid)) {
             AgentAction.actionType[eid] = ActionType.IDLE;
             AgentAction.progress[eid] = 0;
+            finishGuiding(agent);
           }
           AgentState.stamina[eid] = Math.min(100, AgentState.stamina[eid]! + STAMINA_REGEN * dt);
           break;
@@ -422,17 +665,16 @@ export function createAgentActionSystem(
         case ActionType.RUN_TO: {
           if (dist > ARRIVAL_DIST) {
             const stamina = AgentState.stamina[eid]!;
-            const speed = stamina > 0 ? RUN_SPEED : WALK_SPEED;
+            const speed = guidedSpeed(eid, Math.min(stamina > 0 ? RUN_SPEED : WALK_SPEED, maxSpeed(eid)));
             let nx = dx / dist;
             let nz = dz / dist;
 
             // Only redirect if target is inside a danger zone AND commit window expired
             const canChangeTarget = (fleeCommitCountdown.get(eid) ?? 0) <= 0;
-            if (canChangeTarget && isInDangerZone(tx, tz, zones)) {
-              const safe = pickFleeTarget(px, pz, roadGraph, obstacles, sceneBound, zones);
+            if (canChangeTarget && isInDangerZone(tx, tz, zones, now)) {
+              const safe = fleeTarget(agent, px, pz);
               AgentAction.targetX[eid] = safe.x;
               AgentAction.targetZ[eid] = safe.z;
-              fleeCommitCountdown.set(eid, FLEE_COMMIT_TIME);
               const sdx = safe.x - px;
               const sdz = safe.z - pz;
               const sDist = Math.sqrt(sdx * sdx + sdz * sdz);
@@ -469,10 +711,231 @@ export function createAgentActionSystem(
                 AgentState.stamina[eid] = Math.min(100, stamina + STAMINA_REGEN * 0.5 * dt);
               }
             }
-          } else {
+          } else if (!nextWaypoint(eid)) {
             // Arrived at flee destination — go idle (will re-flee if still near danger)
             AgentAction.actionType[eid] = ActionType.IDLE;
             AgentAction.progress[eid] = 0;
+            finishGuiding(agent);
+          }
+          break;
+        }
+
+        case ActionType.HELP_AGENT: {
+          const patient = byEid.get(AgentAction.targetEid[eid]!);
+          if (!patient || AgentState.alive[patient.eid]! === 0 || !(AgentState.injured[patient.eid]! & SERIOUS_INJURY)) {
+            agentLog.log("help_abandoned", agent.config.name, { patient: patient?.config.name ?? null, reason: "patient_gone" });
+            setIdle(eid);
+            break;
+          }
+          const peid = patient.eid;
+          const hx = Position.x[peid]! - px;
+          const hz = Position.z[peid]! - pz;
+          const hDist = Math.sqrt(hx * hx + hz * hz);
+          AgentAction.targetX[eid] = Position.x[peid]!;
+          AgentAction.targetZ[eid] = Position.z[peid]!;
+
+          if (hDist > REACH_DIST) {
+            const stamina = AgentState.stamina[eid]!;
+            const speed = Math.min(stamina > 0 ? RUN_SPEED : WALK_SPEED, maxSpeed(eid));
+            const nx = hx / hDist;
+            const nz = hz / hDist;
+            const result = moveWithCollision(px, pz, nx, nz, speed, dt, obstacles);
+            Position.x[eid] = result.x;
+            Position.z[eid] = result.z;
+            AgentFacing.yaw[eid] = Math.atan2(nx, nz);
+            if (result.blocked) {
+              // Can't get there — leave them to someone else for a while
+              agentLog.log("help_abandoned", agent.config.name, { patient: patient.config.name, reason: "blocked" });
+              helpCooldown.set(peid, HELP_RETRY_TIME);
+              setIdle(eid, WANDER_IDLE_TIME);
+            } else if (speed > WALK_SPEED) {
+              AgentState.stamina[eid] = Math.max(0, stamina - STAMINA_DRAIN * dt);
+            }
+            break;
+          }
+
+          // Reached them: free them if trapped, then carry the critically injured, guide the rest
+          if (AgentState.trapped[peid]! === 1) {
+            AgentState.trapped[peid] = 0;
+            agentLog.log("freed", agent.config.name, { patient: patient.config.name });
+            manager.addEvent(patient.index, `${agent.config.name} pulled me out of the rubble.`);
+          }
+          shareDangerZones(agent, patient, now);
+          const safe = fleeTarget(agent, px, pz);
+          const carry = (AgentState.injured[peid]! & InjuryFlag.CRITICAL) !== 0;
+          AgentAction.actionType[eid] = carry ? ActionType.CARRY_INJURED : ActionType.WALK_TO;
+          AgentAction.targetX[eid] = safe.x;
+          AgentAction.targetZ[eid] = safe.z;
+          AgentAction.targetEid[eid] = carry ? peid : NO_TARGET;
+          AgentAction.progress[eid] = 0;
+          if (!carry) guides.set(eid, peid);
+
+          AgentAction.actionType[peid] = ActionType.FOLLOW;
+          AgentAction.targetEid[peid] = eid;
+          AgentAction.progress[peid] = 0;
+
+          agentLog.log(carry ? "carry_start" : "guide_start", agent.config.name, {
+            patient: patient.config.name,
+            targetX: safe.x, targetZ: safe.z,
+          });
+          manager.addEvent(patient.index, carry
+            ? `${agent.config.name} picked me up and is carrying me to safety.`
+            : `${agent.config.name} is helping me walk to safety.`);
+          break;
+        }
+
+        case ActionType.CARRY_INJURED: {
+          const patient = byEid.get(AgentAction.targetEid[eid]!);
+          if (!patient || AgentState.alive[patient.eid]! === 0) {
+            setIdle(eid);
+            break;
+          }
+          const peid = patient.eid;
+          if (dist <= ARRIVAL_DIST) {
+            if (!nextWaypoint(eid)) deliver(agent, patient, "carried");
+            break;
+          }
+
+          let nx = dx / dist;
+          let nz = dz / dist;
+          if (isInDangerZone(tx, tz, zones, now)) {
+            const safe = fleeTarget(agent, px, pz);
+            AgentAction.targetX[eid] = safe.x;
+            AgentAction.targetZ[eid] = safe.z;
+            const sdx = safe.x - px;
+            const sdz = safe.z - pz;
+            const sDist = Math.sqrt(sdx * sdx + sdz * sdz);
+            if (sDist > 0.01) { nx = sdx / sDist; nz = sdz / sDist; }
+          }
+
+          const result = moveWithCollision(px, pz, nx, nz, Math.min(CARRY_SPEED, maxSpeed(eid)), dt, obstacles);
+          if (result.blocked) {
+            agentLog.log("help_abandoned", agent.config.name, { patient: patient.config.name, reason: "blocked" });
+            setIdle(peid);
+            setIdle(eid, WANDER_IDLE_TIME);
+            break;
+          }
+          Position.x[eid] = result.x;
+          Position.z[eid] = result.z;
+          AgentFacing.yaw[eid] = Math.atan2(nx, nz);
+          Position.x[peid] = result.x - nx * 0.5;
+          Position.z[peid] = result.z - nz * 0.5;
+          AgentFacing.yaw[peid] = AgentFacing.yaw[eid]!;
+          AgentState.stamina[eid] = Math.max(0, AgentState.stamina[eid]! - STAMINA_DRAIN * 0.5 * dt);
+          shareDangerZones(agent, patient, now);
+          break;
+        }
+
+        case ActionType.FOLLOW: {
+          const leader = byEid.get(AgentAction.targetEid[eid]!);
+          if (!leader || AgentState.alive[leader.eid]! === 0) {
+            setIdle(eid);
+            break;
+          }
+          const leid = leader.eid;
+          const leaderAction = AgentAction.actionType[leid]!;
+          // Being carried — the carrier moves us
+          if (leaderAction === ActionType.CARRY_INJURED && AgentAction.targetEid[leid] === eid) break;
+          // Our guide stopped guiding (blocked, new orders) — fend for ourselves
+          if (guides.get(leid) === eid && leaderAction !== ActionType.WALK_TO && leaderAction !== ActionType.RUN_TO) {
+            guides.delete(leid);
+            setIdle(eid);
+            break;
+          }
+
+          const lx = Position.x[leid]! - px;
+          const lz = Position.z[leid]! - pz;
+          const lDist = Math.sqrt(lx * lx + lz * lz);
+          AgentAction.targetX[eid] = Position.x[leid]!;
+          AgentAction.targetZ[eid] = Position.z[leid]!;
+          shareDangerZones(leader, agent, now);
+
+          if (lDist > FOLLOW_DIST) {
+            const stamina = AgentState.stamina[eid]!;
+            const speed = Math.min(lDist > 10 && stamina > 0 ? RUN_SPEED : WALK_SPEED, maxSpeed(eid));
+            const nx = lx / lDist;
+            const nz = lz / lDist;
+            const result = moveWithCollision(px, pz, nx, nz, speed, dt, obstacles);
+            Position.x[eid] = result.x;
+            Position.z[eid] = result.z;
+            AgentFacing.yaw[eid] = Math.atan2(nx, nz);
+            if (speed > WALK_SPEED) {
+              AgentState.stamina[eid] = Math.max(0, stamina - STAMINA_DRAIN * dt);
+            } else {
+              AgentState.stamina[eid] = Math.min(100, stamina + STAMINA_REGEN * dt);
+            }
+          } else {
+            if (lDist > 0.01) AgentFacing.yaw[eid] = Math.atan2(lx / lDist, lz / lDist);
+            AgentState.stamina[eid] = Math.min(100, AgentState.stamina[eid]! + STAMINA_REGEN * dt);
+          }
+          break;
+        }
+
+        case ActionType.SHELTER: {
+          if (!shelters) {
+            setIdle(eid, WANDER_IDLE_TIME);
+            break;
+          }
+          if (inside) {
+            AgentState.stamina[eid] = Math.min(100, AgentState.stamina[eid]! + STAMINA_REGEN * dt);
+            break;
+          }
+
+          // Pick (or re-pick, if ours got damaged or filled up) the building nearest the target
+          let building = shelters.buildingOf(eid);
+          if (!building || building.destroyed || !shelters.isAvailable(building, eid)) {
+            const nearest = shelters.nearestAvailable(tx, tz, SHELTER_SEARCH_RADIUS, eid);
+            if (!nearest || !shelters.reserve(eid, nearest)) {
+              agentLog.log("shelter_unavailable", agent.config.name, { targetX: tx, targetZ: tz });
+              shelters.release(eid);
+              setIdle(eid, WANDER_IDLE_TIME);
+              break;
+            }
+            building = nearest;
+          }
+
+          const door = shelters.doorPoint(building, px, pz);
+          const ddx = door.x - px;
+          const ddz = door.z - pz;
+          const dDist = Math.sqrt(ddx * ddx + ddz * ddz);
+          if (dDist <= SHELTER_ENTRY_DIST) {
+            shelters.enter(eid);
+            Position.x[eid] = building.centerX;
+            Position.z[eid] = building.centerZ;
+            agentLog.log("shelter_enter", agent.config.name, {
+              building: building.name ?? null,
+              x: building.centerX, z: building.centerZ,
+            });
+            manager.addEvent(agent.index, `Took shelter inside ${building.name ?? "a building"}.`);
+            break;
+          }
+
+          const stamina = AgentState.stamina[eid]!;
+          const speed = Math.min(stamina > 0 ? RUN_SPEED : WALK_SPEED, maxSpeed(eid));
+          const nx = ddx / dDist;
+          const nz = ddz / dDist;
+          const result = moveWithCollision(px, pz, nx, nz, speed, dt, obstacles);
+          Position.x[eid] = result.x;
+          Position.z[eid] = result.z;
+          AgentFacing.yaw[eid] = Math.atan2(nx, nz);
+          if (result.blocked) {
+            shelters.release(eid);
+            setIdle(eid, WANDER_IDLE_TIME);
+            break;
+          }
+          // Stuck detection
+          const newDist = Math.sqrt((door.x - result.x) ** 2 + (door.z - result.z) ** 2);
+          if (dDist - newDist < speed * dt * STUCK_PROGRESS_RATIO) {
+            AgentAction.progress[eid] = (AgentAction.progress[eid] ?? 0) + dt;
+            if (AgentAction.progress[eid]! >= STUCK_TIME_THRESHOLD) {
+              shelters.release(eid);
+              setIdle(eid, WANDER_IDLE_TIME);
+            }
+          } else {
+            AgentAction.progress[eid] = 0;
+          }
+          if (speed > WALK_SPEED) {
+            AgentState.stamina[eid] = Math.max(0, stamina - STAMINA_DRAIN * dt);
           }
           break;
         }
@@ -480,12 +943,13 @@ export function createAgentActionSystem(
     }
 
     // Agent-agent separation — don't push agents into danger zones
-    const living = manager.getLiving();
+    const living = manager.getLiving().filter(a => !shelters?.isInside(a.eid));
     const sep = AGENT_RADIUS * 2;
     for (let i = 0; i < living.length; i++) {
       for (let j = i + 1; j < living.length; j++) {
         const a = living[i]!.eid;
         const b = living[j]!.eid;
+        if (isCarrying(a, b) || isCarrying(b, a)) continue;
         const ax = Position.x[a]!;
         const az = Position.z[a]!;
         const bx = Position.x[b]!;
@@ -499,13 +963,13 @@ export function createAgentActionSystem(
           const push = (sep - d) * 0.5 * AGENT_PUSH_STRENGTH * dt;
           const naX = ax - sx * push;
           const naZ = az - sz * push;
-          if (!collidesWithObstacle(naX, naZ, obstacles) && !isInDangerZone(naX, naZ, allDangerZones)) {
+          if (!collidesWithObstacle(naX, naZ, obstacles) && !isInDangerZone(naX, naZ, allDangerZones, now)) {
             Position.x[a] = naX;
             Position.z[a] = naZ;
           }
           const nbX = bx + sx * push;
           const nbZ = bz + sz * push;
-          if (!collidesWithObstacle(nbX, nbZ, obstacles) && !isInDangerZone(nbX, nbZ, allDangerZones)) {
+          if (!collidesWithObstacle(nbX, nbZ, obstacles) && !isInDangerZone(nbX, nbZ, allDangerZones, now)) {
             Position.x[b] = nbX;
             Position.z[b] = nbZ;
           }
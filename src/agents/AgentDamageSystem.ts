@@ -1,28 +1,86 @@
 import {
   Position,
   AgentState,
+  AgentAction,
+  ActionType,
+  InjuryFlag,
+  NO_TARGET,
 } from "../core/Components.ts";
 import type { EventBus, DisasterEvent } from "../core/EventBus.ts";
-import type { AgentManager } from "./AgentManager.ts";
+import type { AgentManager, AgentRuntime } from "./AgentManager.ts";
+import type { ShelterRegistry } from "./Shelters.ts";
+import type { SeededRandom } from "../core/Random.ts";
+import { vortexFromEvent, windSpeedAt } from "../disasters/vortex.ts";
 
 /** Global damage multiplier — increase to make sims deadlier for testing. */
 const DMG_SCALE = 3.0;
+/** Health below which an agent is majorly / critically injured. */
+const MAJOR_INJURY_HEALTH = 50;
+const CRITICAL_INJURY_HEALTH = 25;
+/** Chance an occupant is killed outright when their shelter collapses (otherwise trapped). */
+const SHELTER_COLLAPSE_KILL_CHANCE = 0.35;
+/** Trapped survivors are left with at most this much health. */
+const TRAPPED_HEALTH = 20;
 
 /**
  * Creates the agent damage ECS system.
  * Subscribes to EventBus hazards and applies damage/panic to agents.
+ * Agents sheltering in a building take reduced wind/shaking damage, but are
+ * killed or trapped if it comes down on them.
  */
 export function createAgentDamageSystem(
   manager: AgentManager,
   eventBus: EventBus,
+  rng: SeededRandom,
+  shelters: ShelterRegistry | null = null,
 ) {
   const pendingEvents: DisasterEvent[] = [];
 
+  /** The agent's shelter came down: killed outright, or pinned in the rubble by the door. */
+  function collapseOnOccupant(agent: AgentRuntime): void {
+    const eid = agent.eid;
+    const b = shelters?.buildingOf(eid);
+    if (!shelters || !b) return;
+    const door = shelters.doorPoint(b, Position.x[eid]!, Position.z[eid]!);
+    shelters.release(eid);
+    Position.x[eid] = door.x;
+    Position.z[eid] = door.z;
+    AgentAction.actionType[eid] = ActionType.IDLE;
+    AgentAction.targetEid[eid] = NO_TARGET;
+    AgentAction.progress[eid] = 0;
+
+    const health = AgentState.health[eid]!;
+    let damage: number;
+    if (rng.next() < SHELTER_COLLAPSE_KILL_CHANCE) {
+      damage = health;
+      manager.addEvent(agent.index, `${b.name ?? "The building"} collapsed on top of me!`);
+    } else {
+      damage = Math.max(0, health - TRAPPED_HEALTH);
+      AgentState.trapped[eid] = 1;
+      AgentState.injured[eid] = AgentState.injured[eid]! | InjuryFlag.MAJOR | InjuryFlag.CRITICAL;
+      manager.addEvent(agent.index, `${b.name ?? "The building"} collapsed — I'm trapped under the rubble!`);
+    }
+    AgentState.health[eid] = health - damage;
+    AgentState.panicLevel[eid] = 1;
+    eventBus.emit({ type: "AGENT_DAMAGED", agentIndex: agent.index, position: [door.x, Position.y[eid]!, door.z], damage, source: "SHELTER_COLLAPSE" });
+  }
+
   eventBus.on("*", (event) => {
     pendingEvents.push(event);
   });
 
   return (_world: any, dt: number) => {
+    // Shelters that ended up destroyed without their occupants seeing a STRUCTURE_COLLAPSE.
+    // The AGENT_DAMAGED this emits is queued, so the death check below still runs.
+    if (shelters) {
+      for (const agent of manager.agents) {
+        const eid = agent.eid;
+        if (AgentState.alive[eid]! === 1 && shelters.isInside(eid) && shelters.buildingOf(eid)!.destroyed) {
+          collapseOnOccupant(agent);
+        }
+      }
+    }
+
     while (pendingEvents.length > 0) {
       const event = pendingEvents.shift()!;
 
@@ -36,6 +94,11 @@ export function createAgentDamageSystem(
         switch (event.type) {
           case "STRUCTURE_COLLAPSE": {
             const [ex, _ey, ez] = event.position;
+            const shelter = shelters?.isInside(eid) ? shelters.buildingOf(eid) : null;
+            if (shelter && Math.abs(shelter.centerX - ex) < 1 && Math.abs(shelter.centerZ - ez) < 1) {
+              collapseOnOccupant(agent);
+              break;
+            }
             const dist = Math.sqrt((ax - ex) ** 2 + (az - ez) ** 2);
             const radius = 10;
             if (dist < radius) {
@@ -124,7 +187,7 @@ export function createAgentDamageSystem(
               const damage = 0.5 * intensity * falloff * DMG_SCALE;
               AgentState.health[eid] = AgentState.health[eid]! - damage;
               eventBus.emit({ type: "AGENT_DAMAGED", agentIndex: agent.index, position: [ax, Position.y[eid]!, az], damage, source: event.type });
-              if (Math.random() < 0.05) {
+              if (rng.next() < 0.05) {
                 AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + 0.1);
                 manager.addEvent(agent.index, `Smoke inhalation! Distance ${dist.toFixed(0)}m from fire.`);
               }
@@ -138,28 +201,22 @@ export function createAgentDamageSystem(
             const [cx, _cy, cz] = event.center;
             const dist = Math.sqrt((ax - cx) ** 2 + (az - cz) ** 2);
             const { coreRadius, outerRadius, maxWindSpeed } = event;
+            const exposure = shelters?.exposure(eid, "wind") ?? 1;
 
-            // Rankine vortex wind speed at agent position
-            let windSpeed: number;
-            if (dist < 0.1) {
-              windSpeed = maxWindSpeed * 0.7;
-            } else if (dist <= coreRadius) {
-              windSpeed = maxWindSpeed * (dist / coreRadius);
-            } else {
-              windSpeed = maxWindSpeed * (coreRadius / dist);
-            }
+            // The tornado's own wind field at the agent, right-flank asymmetry and all
+            const windSpeed = windSpeedAt(vortexFromEvent(event), ax, az);
 
             if (dist < coreRadius) {
               // Core vortex: quadratic + quartic severity
               const speedRatio = windSpeed / maxWindSpeed;
-              const damage = (10 * speedRatio * speedRatio + 12 * Math.pow(speedRatio, 4)) * WIND_DT * DMG_SCALE;
+              const damage = (10 * speedRatio * speedRatio + 12 * Math.pow(speedRatio, 4)) * WIND_DT * DMG_SCALE * exposure;
               AgentState.health[eid] = AgentState.health[eid]! - damage;
               AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + 0.3);
               eventBus.emit({ type: "AGENT_DAMAGED", agentIndex: agent.index, position: [ax, Position.y[eid]!, az], damage, source: event.type });
 
               // Debris hit chance scales with wind intensity
-              const debrisChance = 0.06 + 0.12 * speedRatio;
-              if (Math.random() < debrisChance) {
+              const debrisChance = (0.06 + 0.12 * speedRatio) * exposure;
+              if (rng.next() < debrisChance) {
                 const debrisDmg = (18 + 24 * speedRatio) * DMG_SCALE;
                 AgentState.health[eid] = AgentState.health[eid]! - debrisDmg;
                 AgentState.injured[eid] = AgentState.injured[eid]! | 1;
@@ -171,53 +228,64 @@ export function createAgentDamageSystem(
             } else if (dist < outerRadius) {
               // Outer vortex: lighter but still hazardous
               const speedRatio = windSpeed / maxWindSpeed;
-              const damage = (4 * speedRatio * speedRatio) * WIND_DT * DMG_SCALE;
+              const damage = (4 * speedRatio * speedRatio) * WIND_DT * DMG_SCALE * exposure;
               AgentState.health[eid] = AgentState.health[eid]! - damage;
               AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + 0.15);
               eventBus.emit({ type: "AGENT_DAMAGED", agentIndex: agent.index, position: [ax, Position.y[eid]!, az], damage, source: event.type });
-              if (Math.random() < 0.03) {
+              if (rng.next() < 0.03) {
                 manager.addEvent(agent.index, `Strong winds! Wind ${windSpeed.toFixed(0)} m/s, distance ${dist.toFixed(0)}m from tornado.`);
               }
             }
             break;
           }
 
+          case "AFTERSHOCK": {
+            // Damage comes with its GROUND_SHAKE; this is the jolt of it starting again
+            const shelter = shelters?.isInside(eid) ? shelters.buildingOf(eid) : null;
+            const inDamaged = !!shelter && shelter.damageLevel > 0.2;
+            AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + (inDamaged ? 0.4 : 0.2));
+            manager.addEvent(agent.index, inDamaged
+              ? `Aftershock! Magnitude ${event.magnitude.toFixed(1)} — ${shelter.name ?? "the damaged building"} is shaking again around me.`
+              : `Aftershock! Magnitude ${event.magnitude.toFixed(1)}.`);
+            break;
+          }
           case "GROUND_SHAKE": {
-            // NOTE: GROUND_SHAKE emits every 0.5s, so multiply by 0.5 for per-event damage.
+            // NOTE: GROUND_SHAKE emits every 0.5s for each patch of the scene — only the agent's own patch applies.
             const QUAKE_DT = 0.5;
+            const [px, , pz] = event.position;
+            if (Math.abs(ax - px) > event.halfSize || Math.abs(az - pz) > event.halfSize) break;
             const [ex, _ey, ez] = event.epicenter;
             const dist = Math.sqrt((ax - ex) ** 2 + (az - ez) ** 2);
-            const pga = event.pga;
-            const magnitude = event.magnitude;
+            const { magnitude, mmi } = event;
+            const shaking = event.pga * event.envelope; // g, right now
+            const exposure = shelters?.exposure(eid, "shake") ?? 1;
 
-            if (dist < 50) {
-              // Close range: ground shaking + falling objects
-              const magBoost = 0.8 + (magnitude - 5) * 0.25;
-              const damage = (4 * pga * magBoost) * QUAKE_DT * DMG_SCALE;
+            if (mmi >= 7.5) {
+              // Violent shaking: thrown off balance, furniture and facades coming down
+              const damage = (7 * shaking) * QUAKE_DT * DMG_SCALE * exposure;
               AgentState.health[eid] = AgentState.health[eid]! - damage;
-              AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + 0.3 * (1 - dist / 50));
+              AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + 0.3 * event.envelope);
               eventBus.emit({ type: "AGENT_DAMAGED", agentIndex: agent.index, position: [ax, Position.y[eid]!, az], damage, source: event.type });
 
-              // Debris hit chance scales with magnitude and proximity
-              const debrisChance = 0.08 + 0.05 * Math.max(0, magnitude - 6);
-              if (Math.random() < debrisChance) {
+              // Debris hit chance scales with the intensity and how hard it is shaking now
+              const debrisChance = (0.01 + 0.02 * (mmi - 7.5)) * event.envelope * exposure;
+              if (rng.next() < debrisChance) {
                 const debrisDamage = (18 + 10 * (magnitude - 6)) * DMG_SCALE;
                 AgentState.health[eid] = AgentState.health[eid]! - debrisDamage;
                 AgentState.injured[eid] = AgentState.injured[eid]! | 1;
                 eventBus.emit({ type: "AGENT_DAMAGED", agentIndex: agent.index, position: [ax, Position.y[eid]!, az], damage: debrisDamage, source: "QUAKE_DEBRIS" });
                 manager.addEvent(agent.index, `Hit by debris during earthquake! Magnitude ${magnitude.toFixed(1)}, ${dist.toFixed(0)}m from epicenter.`);
-              } else {
+              } else if (rng.next() < 0.1) {
                 manager.addEvent(agent.index, `Earthquake! Magnitude ${magnitude.toFixed(1)}, ${dist.toFixed(0)}m from epicenter.`);
               }
-            } else if (dist < 200) {
-              // Medium range: lighter shaking damage
-              const magBoost = 0.7 + (magnitude - 5) * 0.18;
-              const damage = (1.2 * pga * magBoost) * QUAKE_DT * DMG_SCALE;
+            } else if (mmi >= 5.5) {
+              // Strong shaking: hard to stand, loose objects falling
+              const damage = (2.5 * shaking) * QUAKE_DT * DMG_SCALE * exposure;
               AgentState.health[eid] = AgentState.health[eid]! - damage;
-              AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + 0.15 * (1 - dist / 200));
+              AgentState.panicLevel[eid] = Math.min(1, AgentState.panicLevel[eid]! + 0.15 * event.envelope);
               eventBus.emit({ type: "AGENT_DAMAGED", agentIndex: agent.index, position: [ax, Position.y[eid]!, az], damage, source: event.type });
 
-              if (Math.random() < 0.03) {
+              if (rng.next() < 0.03) {
                 manager.addEvent(agent.index, `Earthquake felt! Magnitude ${magnitude.toFixed(1)}.`);
               }
             }
@@ -225,10 +293,22 @@ export function createAgentDamageSystem(
           }
         }
 
+        // Escalate injuries as health drops (bits are never cleared)
+        const health = AgentState.health[eid]!;
+        const injured = AgentState.injured[eid]!;
+        if (health > 0 && health < CRITICAL_INJURY_HEALTH && !(injured & InjuryFlag.CRITICAL)) {
+          AgentState.injured[eid] = injured | InjuryFlag.MAJOR | InjuryFlag.CRITICAL;
+          manager.addEvent(agent.index, "I am badly hurt and can barely move.");
+        } else if (health > 0 && health < MAJOR_INJURY_HEALTH && !(injured & InjuryFlag.MAJOR)) {
+          AgentState.injured[eid] = injured | InjuryFlag.MAJOR;
+          manager.addEvent(agent.index, "I am hurt and can no longer run.");
+        }
+
         // Check for death
         if (AgentState.health[eid]! <= 0 && AgentState.alive[eid]! === 1) {
           AgentState.alive[eid] = 0;
           AgentState.health[eid] = 0;
+          shelters?.release(eid);
           manager.visuals.markDead(agent.index);
 
           eventBus.emit({
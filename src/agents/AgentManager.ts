@@ -8,6 +8,7 @@ import {
   Classification,
   ClassificationType,
   ActionType,
+  NO_TARGET,
 } from "../core/Components.ts";
 import type { SimWorld } from "../core/World.ts";
 import type { AgentConfig, AgentMemory, ParsedAction } from "./types.ts";
@@ -20,14 +21,22 @@ const ACTION_NAMES: Record<number, string> = {
   [ActionType.IDLE]: "IDLE",
   [ActionType.WALK_TO]: "WALK_TO",
   [ActionType.RUN_TO]: "RUN_TO",
+  [ActionType.HELP_AGENT]: "HELP_AGENT",
+  [ActionType.FOLLOW]: "FOLLOW",
+  [ActionType.CARRY_INJURED]: "CARRY_INJURED",
+  [ActionType.SHELTER]: "SHELTER",
 };
 
 /** Map ActionType → animation name for AgentVisuals */
 function actionToAnim(actionType: number): string {
   switch (actionType) {
     case ActionType.WALK_TO:
+    case ActionType.FOLLOW:
+    case ActionType.CARRY_INJURED:
       return "walk";
     case ActionType.RUN_TO:
+    case ActionType.HELP_AGENT:
+    case ActionType.SHELTER:
       return "run";
     default:
       return "idle";
@@ -46,10 +55,13 @@ export class AgentManager {
   readonly agents: AgentRuntime[] = [];
   readonly visuals: AgentVisuals;
   private world: SimWorld;
+  /** Headless runs skip meshes/cameras entirely (no GLB model is loaded). */
+  private headless: boolean;
 
-  constructor(world: SimWorld, scene: THREE.Scene) {
+  constructor(world: SimWorld, scene: THREE.Scene, options: { headless?: boolean } = {}) {
     this.world = world;
     this.visuals = new AgentVisuals(scene);
+    this.headless = options.headless ?? false;
   }
 
   /** Spawn a new agent entity with all components initialized. */
@@ -71,12 +83,13 @@ export class AgentManager {
     AgentState.panicLevel[eid] = 0;
     AgentState.injured[eid] = 0;
     AgentState.alive[eid] = 1;
+    AgentState.trapped[eid] = 0;
 
     // AgentAction
     AgentAction.actionType[eid] = ActionType.IDLE;
     AgentAction.targetX[eid] = 0;
     AgentAction.targetZ[eid] = 0;
-    AgentAction.targetEid[eid] = 0;
+    AgentAction.targetEid[eid] = NO_TARGET;
     AgentAction.progress[eid] = 0;
 
     // AgentFacing
@@ -86,8 +99,10 @@ export class AgentManager {
     Classification.type[eid] = ClassificationType.AGENT;
 
     // Create visual on its own layer to avoid flicker in perception renders
-    const layer = Math.min(31, 1 + index);
-    this.visuals.createAgent(config, layer);
+    if (!this.headless) {
+      const layer = Math.min(31, 1 + index);
+      this.visuals.createAgent(config, layer);
+    }
 
     const runtime: AgentRuntime = {
       config,
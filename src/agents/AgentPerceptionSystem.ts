@@ -89,6 +89,7 @@ export class AgentPerceptionSystem {
           stamina: AgentState.stamina[eid]!,
           panicLevel: AgentState.panicLevel[eid]!,
           injured: AgentState.injured[eid]!,
+          trapped: AgentState.trapped[eid]! === 1,
           positionX: Position.x[eid]!,
           positionZ: Position.z[eid]!,
           facingYaw: AgentFacing.yaw[eid]!,
@@ -96,6 +97,11 @@ export class AgentPerceptionSystem {
         memory: agent.memory,
         personality: agent.config.personality,
         name: agent.config.name,
+        // Filled in by SteppedSimulation
+        nearbyHazards: [],
+        roadNodes: [],
+        landmarks: [],
+        nearbyAgents: [],
       });
     }
 
@@ -0,0 +1,158 @@
+import * as THREE from "three";
+import type { AgentConfig } from "./types.ts";
+import type { Obstacle } from "./AgentActionSystem.ts";
+import type { RoadGraph } from "./RoadGraph.ts";
+import type { BuildingRecord } from "../layers.ts";
+
+// --- Obstacle collection from generated scene ---
+const OBSTACLE_PADDING = 3; // meters padding around buildings
+
+export function collectObstacles(group: THREE.Group, buildings: BuildingRecord[], sceneHalfSize: number): Obstacle[] {
+  const obstacles: Obstacle[] = [];
+  const box = new THREE.Box3();
+
+  // Buildings come from the registry — far chunks have no geometry yet (see streaming.ts)
+  for (const b of buildings) {
+    if (b.height <= 2) continue;
+    obstacles.push({
+      minX: b.centerX - b.halfX - OBSTACLE_PADDING,
+      maxX: b.centerX + b.halfX + OBSTACLE_PADDING,
+      minZ: b.centerZ - b.halfZ - OBSTACLE_PADDING,
+      maxZ: b.centerZ + b.halfZ + OBSTACLE_PADDING,
+    });
+  }
+
+  group.traverse((obj) => {
+    if (!(obj instanceof THREE.Mesh)) return;
+    const geom = obj.geometry;
+    if (!geom || obj.parent?.name !== "trees" || geom.type !== "SphereGeometry") return;
+
+    box.setFromObject(obj);
+    const pad = 1.5;
+    obstacles.push({
+      minX: box.min.x - pad,
+      maxX: box.max.x + pad,
+      minZ: box.min.z - pad,
+      maxZ: box.max.z + pad,
+    });
+  });
+
+  console.log(`[Agents] Collected ${obstacles.length} obstacles from scene`);
+  return obstacles;
+}
+
+/** Find an open position that doesn't collide with any obstacle. */
+export function findOpenPosition(
+  preferredX: number,
+  preferredZ: number,
+  obstacles: Obstacle[],
+  agentRadius: number,
+): { x: number; z: number } {
+  if (!collidesAny(preferredX, preferredZ, obstacles, agentRadius)) {
+    return { x: preferredX, z: preferredZ };
+  }
+  for (let r = 5; r < 100; r += 5) {
+    for (let a = 0; a < 8; a++) {
+      const angle = (a / 8) * Math.PI * 2;
+      const x = preferredX + Math.cos(angle) * r;
+      const z = preferredZ + Math.sin(angle) * r;
+      if (!collidesAny(x, z, obstacles, agentRadius)) {
+        return { x, z };
+      }
+    }
+  }
+  return { x: preferredX, z: preferredZ };
+}
+
+function collidesAny(x: number, z: number, obstacles: Obstacle[], radius: number): boolean {
+  for (const o of obstacles) {
+    const cx = Math.max(o.minX, Math.min(x, o.maxX));
+    const cz = Math.max(o.minZ, Math.min(z, o.maxZ));
+    const dx = x - cx;
+    const dz = z - cz;
+    if (dx * dx + dz * dz < radius * radius) return true;
+  }
+  return false;
+}
+
+/**
+ * Spawn positions for `count` agents: well-spread road nodes near the scene
+ * centre, falling back to a ring around the centre when roads are sparse.
+ */
+export function pickSpawnPositions(
+  count: number,
+  roadGraph: RoadGraph | null,
+  obstacles: Obstacle[],
+): { x: number; z: number }[] {
+  let spawnPositions: { x: number; z: number }[] = [];
+
+  if (roadGraph) {
+    const nearCenter = roadGraph.nodesNearCenter(35);
+    if (nearCenter.length >= count) {
+      const picked = roadGraph.spreadPick(nearCenter, count);
+      spawnPositions = picked.map(id => {
+        const pos = roadGraph.getNodePos(id)!;
+        return findOpenPosition(pos.x, pos.z, obstacles, 3);
+      });
+      console.log(`[Agents] Spawning on roads: ${spawnPositions.length} positions from ${nearCenter.length} candidates`);
+    }
+  }
+
+  // Fallback: ring around center
+  if (spawnPositions.length < count) {
+    const spawnDist = 30;
+    spawnPositions = Array.from({ length: count }, (_, i) => {
+      const angle = (i / count) * Math.PI * 2;
+      const ox = Math.cos(angle) * spawnDist;
+      const oz = Math.sin(angle) * spawnDist;
+      return findOpenPosition(ox, oz, obstacles, 3);
+    });
+    console.log("[Agents] Fallback: spawning in ring (not enough road nodes near center)");
+  }
+
+  return spawnPositions;
+}
+
+// Agent configs — 8 unique personalities with distinct colors
+export const AGENT_CONFIGS: Omit<AgentConfig, "spawnPosition">[] = [
+  {
+    name: "Alice",
+    color: 0xff4444,
+    personality: { bravery: 0.8, altruism: 0.6, awareness: 0.7, description: "a brave security guard" },
+  },
+  {
+    name: "Bob",
+    color: 0x4444ff,
+    personality: { bravery: 0.3, altruism: 0.5, awareness: 0.8, description: "a nervous bystander" },
+  },
+  {
+    name: "Carol",
+    color: 0x44ff44,
+    personality: { bravery: 0.5, altruism: 0.9, awareness: 0.6, description: "an analytical professor" },
+  },
+  {
+    name: "Dave",
+    color: 0xffaa00,
+    personality: { bravery: 0.6, altruism: 0.4, awareness: 0.5, description: "a practical delivery worker" },
+  },
+  {
+    name: "Eve",
+    color: 0xff44ff,
+    personality: { bravery: 0.9, altruism: 0.8, awareness: 0.9, description: "an experienced firefighter" },
+  },
+  {
+    name: "Frank",
+    color: 0x44ffff,
+    personality: { bravery: 0.2, altruism: 0.3, awareness: 0.6, description: "a panicky tourist" },
+  },
+  {
+    name: "Grace",
+    color: 0xffff44,
+    personality: { bravery: 0.7, altruism: 0.7, awareness: 0.5, description: "a resourceful paramedic" },
+  },
+  {
+    name: "Hank",
+    color: 0x88ff88,
+    personality: { bravery: 0.4, altruism: 0.6, awareness: 0.4, description: "a distracted jogger" },
+  },
+];
@@ -0,0 +1,151 @@
+import { lengthCost, type RoadGraph, type EdgeCostFn } from "./RoadGraph.ts";
+import type { DangerZone } from "./AgentActionSystem.ts";
+import { routeWaypoints, type RouteWaypoint } from "./RoutePlanner.ts";
+import type { SimClock } from "../core/World.ts";
+
+const DEFAULT_ARRIVAL_RADIUS = 10; // meters — close enough to count as having reached safety
+const ROAD_SNAP_RADIUS = 60;       // destinations farther than this from any road are walked to directly
+
+export type EvacuationKind = "assembly_point" | "shelter";
+
+/** A named place agents evacuate to — placed by the scenario author or tagged in OSM. */
+export interface EvacuationPoint {
+  id: string;
+  name: string;
+  kind: EvacuationKind;
+  x: number;
+  z: number;
+  radius: number; // agents within this many meters have arrived
+}
+
+/** A planned evacuation: waypoints along the roads, ending at the destination. */
+export interface EvacuationRoute {
+  point: EvacuationPoint;
+  waypoints: RouteWaypoint[];
+  length: number; // meters along the route
+}
+
+/**
+ * Validate scenario-authored evacuation points, e.g. the contents of a JSON file:
+ * `[{ "name": "North lawn", "x": 40, "z": -120, "kind": "assembly_point" }]`.
+ * `kind` defaults to assembly_point, `radius` to 10 m and `id` to the array position.
+ */
+export function parseEvacuationPoints(value: unknown): EvacuationPoint[] {
+  if (!Array.isArray(value)) throw new Error("evacuation points must be a JSON array");
+  return value.map((v, i) => {
+    if (!v || typeof v !== "object") throw new Error(`evacuation point ${i}: not an object`);
+    const o = v as Record<string, unknown>;
+    if (typeof o.name !== "string" || o.name.trim() === "") throw new Error(`evacuation point ${i}: missing name`);
+    if (typeof o.x !== "number" || typeof o.z !== "number" || !isFinite(o.x) || !isFinite(o.z)) {
+      throw new Error(`evacuation point ${i}: x and z must be numbers`);
+    }
+    const kind = o.kind ?? "assembly_point";
+    if (kind !== "assembly_point" && kind !== "shelter") throw new Error(`evacuation point ${i}: unknown kind ${String(kind)}`);
+    const radius = o.radius ?? DEFAULT_ARRIVAL_RADIUS;
+    if (typeof radius !== "number" || !(radius > 0)) throw new Error(`evacuation point ${i}: radius must be positive`);
+    return {
+      id: typeof o.id === "string" && o.id ? o.id : `E${i}`,
+      name: o.name.trim(),
+      kind,
+      x: o.x,
+      z: o.z,
+      radius,
+    };
+  });
+}
+
+/** An OSM amenity=shelter / emergency=assembly_point at local (x, z). */
+export function osmEvacuationPoint(osmId: unknown, tags: Record<string, unknown>, x: number, z: number): EvacuationPoint {
+  const kind: EvacuationKind = tags.emergency === "assembly_point" ? "assembly_point" : "shelter";
+  const name = typeof tags.name === "string" && tags.name ? tags.name : kind === "shelter" ? "Shelter" : "Assembly point";
+  return { id: `osm-${String(osmId)}`, name, kind, x, z, radius: DEFAULT_ARRIVAL_RADIUS };
+}
+
+function inActiveZone(x: number, z: number, zones: DangerZone[], now: number): boolean {
+  for (const zone of zones) {
+    if (zone.expiresAt < now) continue;
+    if ((x - zone.x) ** 2 + (z - zone.z) ** 2 < zone.radius * zone.radius) return true;
+  }
+  return false;
+}
+
+/**
+ * Routes agents to the nearest evacuation point they can reach, by cheapest
+ * path over the road graph, keeping out of the danger zones they know about.
+ */
+export class EvacuationPlanner {
+  readonly points: EvacuationPoint[];
+  private graph: RoadGraph | null;
+  /** Road node each destination is reached from (absent when it's far from any road). */
+  private entryNode = new Map<EvacuationPoint, number>();
+  private clock: SimClock;
+
+  constructor(points: EvacuationPoint[], graph: RoadGraph | null, clock: SimClock) {
+    this.points = points;
+    this.graph = graph;
+    this.clock = clock;
+    if (graph) {
+      for (const p of points) {
+        const id = graph.nearestNode(p.x, p.z);
+        const pos = graph.getNodePos(id);
+        if (pos && Math.hypot(pos.x - p.x, pos.z - p.z) <= ROAD_SNAP_RADIUS) this.entryNode.set(p, id);
+      }
+    }
+  }
+
+  /**
+   * Cheapest reachable destination from (x, z) under `cost` (see
+   * RoutePlanner.edgeCost), skipping any inside `zones`. Null if there is none.
+   */
+  plan(x: number, z: number, zones: DangerZone[], cost: EdgeCostFn = lengthCost): EvacuationRoute | null {
+    const now = this.clock();
+    const open = this.points.filter((p) => !inActiveZone(p.x, p.z, zones, now));
+    if (open.length === 0) return null;
+
+    const graph = this.graph;
+    const from = graph ? graph.nearestNode(x, z) : -1;
+    const fromPos = graph?.getNodePos(from);
+    const onRoads = !!graph && !!fromPos && Math.hypot(fromPos.x - x, fromPos.z - z) <= ROAD_SNAP_RADIUS;
+    if (graph && fromPos && onRoads) {
+      const byNode = new Map<number, EvacuationPoint>();
+      for (const p of open) {
+        const node = this.entryNode.get(p);
+        if (node !== undefined && !byNode.has(node)) byNode.set(node, p);
+      }
+      const found = graph.nearestOf(from, (n) => byNode.has(n.id), cost);
+      if (found) {
+        const point = byNode.get(found.target)!;
+        const waypoints = routeWaypoints(graph, [from, ...found.path], cost);
+        waypoints.push({ x: point.x, z: point.z, node: -1, cost: 0 });
+        let length = Math.hypot(fromPos.x - x, fromPos.z - z);
+        for (let i = 1; i < waypoints.length; i++) {
+          length += Math.hypot(waypoints[i]!.x - waypoints[i - 1]!.x, waypoints[i]!.z - waypoints[i - 1]!.z);
+        }
+        return { point, waypoints, length };
+      }
+    }
+
+    // Off the road network: straight to the closest open destination. On it, only to
+    // destinations the roads don't serve — the others just proved unreachable.
+    let best: EvacuationPoint | null = null;
+    let bestDist = Infinity;
+    for (const p of open) {
+      if (onRoads && this.entryNode.has(p)) continue;
+      const d = Math.hypot(p.x - x, p.z - z);
+      if (d < bestDist) {
+        bestDist = d;
+        best = p;
+      }
+    }
+    if (!best) return null;
+    return { point: best, waypoints: [{ x: best.x, z: best.z, node: -1, cost: 0 }], length: bestDist };
+  }
+
+  /** The destination (x, z) is inside, if any. */
+  arrivedAt(x: number, z: number): EvacuationPoint | null {
+    for (const p of this.points) {
+      if ((x - p.x) ** 2 + (z - p.z) ** 2 <= p.radius * p.radius) return p;
+    }
+    return null;
+  }
+}
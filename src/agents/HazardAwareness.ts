@@ -0,0 +1,73 @@
+import { Position, AgentState } from "../core/Components.ts";
+import type { EventBus } from "../core/EventBus.ts";
+import type { SimClock } from "../core/World.ts";
+import type { AgentManager } from "./AgentManager.ts";
+import { DANGER_ZONE_TTL, type DangerZone } from "./AgentActionSystem.ts";
+import { HazardTracker, type TrackedHazard } from "./HazardTracker.ts";
+import { agentLog } from "./AgentLogger.ts";
+
+const SIGHT_RANGE = 80;         // meters - how far an agent notices a hazard
+const SCAN_INTERVAL = 0.5;      // sim seconds between looks around
+const ZONE_MARGIN = 10;         // meters added around a fire, like a VLM-reported zone
+const FLOOD_DANGER_DEPTH = 0.3; // meters of water an agent won't wade into
+const SAME_ZONE_FRACTION = 0.25; // a hazard this close (× zone radius) to a known zone is that zone
+
+/** Radius of the danger zone an agent keeps around a hazard, or null when it isn't one to avoid. */
+function zoneRadius(h: Readonly<TrackedHazard>): number | null {
+  switch (h.type) {
+    case "FIRE_SPREAD":
+      return h.radius + ZONE_MARGIN;
+    case "FLOOD_LEVEL":
+      return h.intensity >= FLOOD_DANGER_DEPTH ? h.radius + ZONE_MARGIN / 2 : null;
+    case "WIND_FIELD_UPDATE":
+      return h.radius;
+    case "STRUCTURE_COLLAPSE":
+    case "GROUND_DISPLACEMENT":
+      return h.radius + ZONE_MARGIN / 2;
+    default:
+      return null; // shaking covers the whole scene — collapses and cracks are what to steer around
+  }
+}
+
+/**
+ * Creates the hazard awareness ECS system for runs with no VLM attached.
+ * Every living agent notes the hazards within sight — fires, deep water, the
+ * tornado, collapses and ground cracks — as danger zones, and keeps the ones
+ * still being reported fresh, so the fallback flee and routing logic in
+ * AgentActionSystem has the same picture SteppedSimulation builds from VLM calls.
+ */
+export function createHazardAwarenessSystem(manager: AgentManager, eventBus: EventBus, clock: SimClock) {
+  const hazards = new HazardTracker(eventBus);
+  let sinceScan = SCAN_INTERVAL;
+
+  function note(zones: DangerZone[], h: Readonly<TrackedHazard>, radius: number, now: number, name: string): void {
+    const known = zones.find((z) => Math.hypot(z.x - h.x, z.z - h.z) < Math.max(5, z.radius * SAME_ZONE_FRACTION));
+    if (known) {
+      // Same hazard — follow it if it moved, grow with it, and keep it in memory
+      known.x = h.x;
+      known.z = h.z;
+      known.radius = Math.max(known.radius, radius);
+      known.expiresAt = now + DANGER_ZONE_TTL;
+      return;
+    }
+    zones.push({ x: h.x, z: h.z, radius, expiresAt: now + DANGER_ZONE_TTL });
+    agentLog.log("danger_zone_added", name, { x: h.x, z: h.z, radius, source: h.type });
+  }
+
+  return (_world: any, dt: number) => {
+    sinceScan += dt;
+    if (sinceScan < SCAN_INTERVAL) return;
+    sinceScan = 0;
+
+    const now = clock();
+    hazards.advance(now);
+    for (const agent of manager.agents) {
+      const eid = agent.eid;
+      if (AgentState.alive[eid]! === 0) continue;
+      for (const h of hazards.within(Position.x[eid]!, Position.z[eid]!, SIGHT_RANGE)) {
+        const radius = zoneRadius(h);
+        if (radius !== null) note(agent.dangerZones, h, radius, now, agent.config.name);
+      }
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import type { EventBus, DisasterEvent } from "../core/EventBus.ts";
+import type { NearbyHazard } from "./types.ts";
+
+/** Hazards not re-reported within this many sim-seconds are forgotten. */
+const HAZARD_MEMORY_SEC = 10;
+/** Cap on hazards attached to one perception payload. */
+const MAX_NEARBY = 5;
+
+export interface TrackedHazard {
+  type: DisasterEvent["type"];
+  x: number;
+  z: number;
+  radius: number;    // hazard extent; distance is measured to this edge
+  intensity: number;
+  seenAt: number;    // sim time of the last report
+}
+
+/**
+ * Keeps the latest EventBus hazards (fires, flood samples, the tornado, the
+ * quake, collapses) so each perception payload can carry what is near the agent.
+ */
+export class HazardTracker {
+  private hazards = new Map<string, TrackedHazard>();
+  private simTime = 0;
+  private unsub: () => void;
+
+  constructor(eventBus: EventBus) {
+    this.unsub = eventBus.on("*", (event) => this.record(event));
+  }
+
+  /** Advance the tracker clock and forget stale hazards. */
+  advance(simTime: number): void {
+    this.simTime = simTime;
+    for (const [key, h] of this.hazards) {
+      if (simTime - h.seenAt > HAZARD_MEMORY_SEC) this.hazards.delete(key);
+    }
+  }
+
+  /** Hazards within `maxDist` of (x, z), nearest first. */
+  nearby(x: number, z: number, maxDist = 150): NearbyHazard[] {
+    const out: NearbyHazard[] = [];
+    for (const h of this.hazards.values()) {
+      const d = Math.max(0, Math.hypot(h.x - x, h.z - z) - h.radius);
+      if (d > maxDist) continue;
+      out.push({ type: h.type, x: h.x, z: h.z, distance: d, intensity: h.intensity });
+    }
+    out.sort((a, b) => a.distance - b.distance);
+    return out.slice(0, MAX_NEARBY);
+  }
+
+  /** Hazards whose edge is within `maxDist` of (x, z), with their full extent. */
+  within(x: number, z: number, maxDist: number): Readonly<TrackedHazard>[] {
+    const out: TrackedHazard[] = [];
+    for (const h of this.hazards.values()) {
+      if (Math.hypot(h.x - x, h.z - z) - h.radius <= maxDist) out.push(h);
+    }
+    return out;
+  }
+
+  dispose(): void {
+    this.unsub();
+    this.hazards.clear();
+  }
+
+  private record(event: DisasterEvent): void {
+    switch (event.type) {
+      case "FIRE_SPREAD": {
+        const [x, , z] = event.position;
+        this.put(`fire:${Math.round(x)}:${Math.round(z)}`, event.type, x, z, event.radius, event.intensity);
+        break;
+      }
+      case "FLOOD_LEVEL": {
+        const [x, , z] = event.position;
+        // Flood emits point samples — bucket to 10 m cells so the map stays small
+        this.put(`flood:${Math.round(x / 10)}:${Math.round(z / 10)}`, event.type, x, z, 5, event.waterHeight);
+        break;
+      }
+      case "WIND_FIELD_UPDATE": {
+        const [x, , z] = event.center;
+        this.put("wind", event.type, x, z, event.outerRadius, event.speed);
+        break;
+      }
+      case "GROUND_SHAKE": {
+        // One patch of the scene, at the strength it is shaking now
+        const [x, , z] = event.position;
+        this.put(`quake:${Math.round(x)}:${Math.round(z)}`, event.type, x, z, event.halfSize, event.pga * event.envelope);
+        break;
+      }
+      case "GROUND_DISPLACEMENT": {
+        const [x0, z0, x1, z1] = event.region;
+        const radius = Math.hypot(x1 - x0, z1 - z0) / 2;
+        this.put(`crack:${Math.round(x0)}:${Math.round(z0)}`, event.type, (x0 + x1) / 2, (z0 + z1) / 2, radius, event.maxDisplacement);
+        break;
+      }
+      case "STRUCTURE_COLLAPSE": {
+        const [x, , z] = event.position;
+        this.put(`collapse:${event.entityId}`, event.type, x, z, 10, event.fragmentCount);
+        break;
+      }
+      default:
+        break; // agent events aren't hazards
+    }
+  }
+
+  private put(key: string, type: DisasterEvent["type"], x: number, z: number, radius: number, intensity: number): void {
+    const prev = this.hazards.get(key);
+    if (prev) {
+      prev.x = x;
+      prev.z = z;
+      prev.radius = Math.max(prev.radius, radius);
+      prev.intensity = intensity;
+      prev.seenAt = this.simTime;
+    } else {
+      this.hazards.set(key, { type, x, z, radius, intensity, seenAt: this.simTime });
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import type { EventBus, RoadBlockageEvent } from "../core/EventBus.ts";
+import { getTerrainHeight, type BuildingRecord, type TreeRecord } from "../layers.ts";
+import type { RoadGraph } from "./RoadGraph.ts";
+
+export type BlockageCause = RoadBlockageEvent["cause"];
+
+/** Something lying on the ground that roads may run through: a rubble heap, a fallen tree, wreckage. */
+export interface Obstruction {
+  x: number;
+  z: number;
+  radius: number; // meters of ground it covers
+  height: number; // meters it rises above the ground
+}
+
+const SCAN_INTERVAL = 1.0;     // seconds between rescans of the sources
+const ROAD_HALF_WIDTH = 3;     // meters — obstructions this close to an edge's centerline lie on the road
+const BLOCK_HEIGHT = 1.0;      // meters — heaps this high close the road
+const SLOW_PER_METER = 4;      // lower heaps multiply travel cost by 1 + height × this
+const MIN_FACTOR = 1.25;       // anything slowing travel less than this is ignored
+const WATER_BLOCK_DEPTH = 1.0; // meters of water that close a road
+const INDEX_CELL = 10;         // meters per cell of the edge index
+const COLLAPSE_SPILL = 0.25;   // collapsed buildings spread rubble this fraction of their height past the footprint
+const MAX_SPILL = 10;          // meters
+
+/** Rubble where buildings have collapsed: the footprint plus what spilled into the street. */
+export function collapsedBuildingRubble(buildings: BuildingRecord[]): Obstruction[] {
+  return buildings
+    .filter((b) => b.destroyed)
+    .map((b) => ({
+      x: b.centerX,
+      z: b.centerZ,
+      radius: Math.max(b.halfX, b.halfZ) + Math.min(MAX_SPILL, b.height * COLLAPSE_SPILL),
+      height: Math.max(BLOCK_HEIGHT, b.height * 0.1),
+    }));
+}
+
+/** Trees snapped by wind or shaking, lying where they stood (uprooted ones fly off as debris). */
+export function fallenTrees(trees: TreeRecord[]): Obstruction[] {
+  return trees
+    .filter((t) => t.broken && !t.uprooted)
+    .map((t) => ({ x: t.x, z: t.z, radius: t.height * 0.4, height: 0.5 }));
+}
+
+interface IndexedEdge {
+  a: number;
+  b: number;
+  ax: number;
+  az: number;
+  bx: number;
+  bz: number;
+}
+
+interface EdgeCondition {
+  factor: number; // Infinity when closed
+  cause: BlockageCause;
+}
+
+function segmentDist(px: number, pz: number, e: IndexedEdge): number {
+  const dx = e.bx - e.ax;
+  const dz = e.bz - e.az;
+  const len2 = dx * dx + dz * dz;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((px - e.ax) * dx + (pz - e.az) * dz) / len2)) : 0;
+  return Math.hypot(px - (e.ax + t * dx), pz - (e.az + t * dz));
+}
+
+/**
+ * Road-blockage layer: periodically checks the road graph against rubble,
+ * debris, fallen trees and floodwater, slows or closes the edges they lie on
+ * (RoadGraph.setEdgeFactor) and emits a ROAD_BLOCKAGE event whenever an edge
+ * changes state, so routing, stats and the HUD can react.
+ */
+export class RoadBlockageLayer {
+  private graph: RoadGraph;
+  private eventBus: EventBus;
+  private sources: { cause: BlockageCause; source: () => Obstruction[] }[] = [];
+  private waterDepth: ((x: number, z: number) => number) | null = null;
+  private edges: IndexedEdge[] = [];
+  private index = new Map<string, number[]>(); // grid cell → indices into `edges`
+  private conditions = new Map<number, EdgeCondition>();
+  private sinceScan = 0;
+
+  constructor(graph: RoadGraph, eventBus: EventBus) {
+    this.graph = graph;
+    this.eventBus = eventBus;
+    for (const node of graph.nodes.values()) {
+      for (const otherId of node.edges) {
+        if (otherId < node.id) continue;
+        const other = graph.nodes.get(otherId)!;
+        const i = this.edges.push({ a: node.id, b: otherId, ax: node.x, az: node.z, bx: other.x, bz: other.z }) - 1;
+        // Register the edge in every cell its bounding box touches
+        for (let gx = Math.floor(Math.min(node.x, other.x) / INDEX_CELL); gx <= Math.floor(Math.max(node.x, other.x) / INDEX_CELL); gx++) {
+          for (let gz = Math.floor(Math.min(node.z, other.z) / INDEX_CELL); gz <= Math.floor(Math.max(node.z, other.z) / INDEX_CELL); gz++) {
+            const key = `${gx},${gz}`;
+            const bucket = this.index.get(key);
+            if (bucket) bucket.push(i);
+            else this.index.set(key, [i]);
+          }
+        }
+      }
+    }
+  }
+
+  /** Feed obstructions of one kind — polled on every scan. */
+  addSource(cause: BlockageCause, source: () => Obstruction[]): void {
+    this.sources.push({ cause, source });
+  }
+
+  /** Water depth (m) at a world point — roads deeper than 1 m are closed. */
+  setWaterDepth(sampler: ((x: number, z: number) => number) | null): void {
+    this.waterDepth = sampler;
+  }
+
+  get blockedCount(): number {
+    let n = 0;
+    for (const c of this.conditions.values()) if (c.factor === Infinity) n++;
+    return n;
+  }
+
+  get slowedCount(): number {
+    return this.conditions.size - this.blockedCount;
+  }
+
+  update(dt: number): void {
+    this.sinceScan += dt;
+    if (this.sinceScan < SCAN_INTERVAL) return;
+    this.sinceScan = 0;
+    this.scan();
+  }
+
+  private edgesNear(x: number, z: number, reach: number): number[] {
+    const seen = new Set<number>();
+    for (let gx = Math.floor((x - reach) / INDEX_CELL); gx <= Math.floor((x + reach) / INDEX_CELL); gx++) {
+      for (let gz = Math.floor((z - reach) / INDEX_CELL); gz <= Math.floor((z + reach) / INDEX_CELL); gz++) {
+        for (const i of this.index.get(`${gx},${gz}`) ?? []) seen.add(i);
+      }
+    }
+    return [...seen];
+  }
+
+  private scan(): void {
+    const next = new Map<number, EdgeCondition>();
+    const worsen = (i: number, factor: number, cause: BlockageCause) => {
+      const prev = next.get(i);
+      if (!prev || factor > prev.factor) next.set(i, { factor, cause });
+    };
+
+    for (const { cause, source } of this.sources) {
+      for (const o of source()) {
+        // Half-step quantization keeps growing heaps from re-announcing the same road every scan
+        const factor = o.height >= BLOCK_HEIGHT ? Infinity : Math.round((1 + o.height * SLOW_PER_METER) * 2) / 2;
+        if (factor < MIN_FACTOR) continue;
+        const reach = o.radius + ROAD_HALF_WIDTH;
+        for (const i of this.edgesNear(o.x, o.z, reach)) {
+          if (segmentDist(o.x, o.z, this.edges[i]!) <= reach) worsen(i, factor, cause);
+        }
+      }
+    }
+
+    const depthAt = this.waterDepth;
+    if (depthAt) {
+      this.edges.forEach((e, i) => {
+        const depth = Math.max(depthAt(e.ax, e.az), depthAt((e.ax + e.bx) / 2, (e.az + e.bz) / 2), depthAt(e.bx, e.bz));
+        if (depth >= WATER_BLOCK_DEPTH) worsen(i, Infinity, "water");
+      });
+    }
+
+    for (const [i, cond] of next) {
+      const prev = this.conditions.get(i);
+      if (prev && prev.factor === cond.factor) continue;
+      this.apply(i, cond.factor === Infinity ? "blocked" : "slowed", cond);
+    }
+    for (const [i, prev] of this.conditions) {
+      if (!next.has(i)) this.apply(i, "cleared", { factor: 1, cause: prev.cause });
+    }
+    this.conditions = next;
+  }
+
+  private apply(i: number, state: RoadBlockageEvent["state"], cond: EdgeCondition): void {
+    const e = this.edges[i]!;
+    const mx = (e.ax + e.bx) / 2;
+    const mz = (e.az + e.bz) / 2;
+    this.graph.setEdgeFactor(e.a, e.b, cond.factor);
+    this.eventBus.emit({
+      type: "ROAD_BLOCKAGE",
+      edge: [e.a, e.b],
+      position: [mx, getTerrainHeight(mx, mz), mz],
+      state,
+      factor: state === "slowed" ? cond.factor : 1,
+      cause: cond.cause,
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import type { RoadLine2D } from "../layers.ts";
-import type { DangerZone } from "./AgentActionSystem.ts";
+import type { SeededRandom } from "../core/Random.ts";
 
 export interface GraphNode {
   id: number;
@@ -9,9 +9,69 @@ export interface GraphNode {
   edges: Set<number>;
 }
 
+/**
+ * Cost of travelling the edge from → to, `length` meters long. Infinity makes
+ * the edge impassable. Costs must never be below `length` — shortestPath's
+ * straight-line heuristic relies on it.
+ */
+export type EdgeCostFn = (from: GraphNode, to: GraphNode, length: number) => number;
+
+/** Plain distance — the default edge cost. */
+export const lengthCost: EdgeCostFn = (_from, _to, length) => length;
+
 const SAMPLE_SPACING = 8;   // meters between waypoints along a road
 const MERGE_RADIUS = 3;     // meters — nodes within this are merged (forms intersections)
 
+/** Binary min-heap of node ids keyed by priority (for Dijkstra / A*). */
+class MinHeap {
+  private ids: number[] = [];
+  private keys: number[] = [];
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  push(id: number, key: number): void {
+    this.ids.push(id);
+    this.keys.push(key);
+    let i = this.ids.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent]! <= key) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  /** Remove and return the id with the smallest key. */
+  pop(): { id: number; key: number } {
+    const top = { id: this.ids[0]!, key: this.keys[0]! };
+    const lastId = this.ids.pop()!;
+    const lastKey = this.keys.pop()!;
+    if (this.ids.length > 0) {
+      this.ids[0] = lastId;
+      this.keys[0] = lastKey;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < this.keys.length && this.keys[l]! < this.keys[smallest]!) smallest = l;
+        if (r < this.keys.length && this.keys[r]! < this.keys[smallest]!) smallest = r;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.ids[a], this.ids[b]] = [this.ids[b]!, this.ids[a]!];
+    [this.keys[a], this.keys[b]] = [this.keys[b]!, this.keys[a]!];
+  }
+}
+
 /**
  * Road navigation graph built from RoadLine2D polylines.
  * Nodes are waypoints sampled along roads; edges connect consecutive waypoints.
@@ -20,9 +80,12 @@ export class RoadGraph {
   readonly nodes = new Map<number, GraphNode>();
   private nextId = 0;
   private grid = new Map<string, number[]>(); // spatial hash for nearest-node queries
+  private conditions = new Map<string, number>(); // edge key "lo-hi" → cost multiplier (Infinity = closed)
   private readonly GRID_CELL = 10; // meters per grid cell
+  private rng: SeededRandom;
 
-  constructor(roadLines: RoadLine2D[]) {
+  constructor(roadLines: RoadLine2D[], rng: SeededRandom) {
+    this.rng = rng;
     this.buildFromRoads(roadLines);
   }
 
@@ -171,7 +234,7 @@ export class RoadGraph {
       // Prefer edges not recently visited
       const fresh = edges.filter(e => !avoidSet.has(e) && !path.includes(e));
       const candidates = fresh.length > 0 ? fresh : edges;
-      const next = candidates[Math.floor(Math.random() * candidates.length)]!;
+      const next = candidates[Math.floor(this.rng.next() * candidates.length)]!;
       path.push(next);
       current = next;
     }
@@ -179,43 +242,97 @@ export class RoadGraph {
     return path;
   }
 
-  /** Flee route: greedy graph traversal maximizing distance from danger zones. */
-  fleeRoute(fromNode: number, dangerZones: DangerZone[], steps: number, avoid: number[] = []): number[] {
-    const avoidSet = new Set(avoid);
-    const now = Date.now();
-    const activeZones = dangerZones.filter(z => z.expiresAt > now);
-    if (activeZones.length === 0) return this.randomWalk(fromNode, steps, avoid);
-
-    const path: number[] = [];
-    let current = fromNode;
+  private edgeKey(a: number, b: number): string {
+    return a < b ? `${a}-${b}` : `${b}-${a}`;
+  }
 
-    for (let i = 0; i < steps; i++) {
-      const node = this.nodes.get(current);
-      if (!node || node.edges.size === 0) break;
+  /**
+   * Slow down or close the edge between two nodes, in both directions: every
+   * cost over it is multiplied by `factor` (≥ 1). Infinity closes it, 1 reopens it.
+   */
+  setEdgeFactor(a: number, b: number, factor: number): void {
+    const key = this.edgeKey(a, b);
+    if (factor <= 1) this.conditions.delete(key);
+    else this.conditions.set(key, factor);
+  }
 
-      const edges = [...node.edges];
-      let bestEdge = -1;
-      let bestScore = -Infinity;
-
-      for (const edgeId of edges) {
-        const edgeNode = this.nodes.get(edgeId)!;
-        const dangerDist = this.minDangerDist(edgeNode.x, edgeNode.z, activeZones);
-        // Penalize recently visited nodes to avoid loops
-        const penalty = (avoidSet.has(edgeId) || path.includes(edgeId)) ? -20 : 0;
-        const score = dangerDist + penalty;
-
-        if (score > bestScore) {
-          bestScore = score;
-          bestEdge = edgeId;
-        }
-      }
+  edgeFactor(a: number, b: number): number {
+    return this.conditions.size > 0 ? (this.conditions.get(this.edgeKey(a, b)) ?? 1) : 1;
+  }
 
-      if (bestEdge === -1) break;
-      path.push(bestEdge);
-      current = bestEdge;
+  /** Cost of each hop along `path` (node ids, start first), edge factors included — Infinity where there's no open edge. */
+  legCosts(path: number[], cost: EdgeCostFn = lengthCost): number[] {
+    const out: number[] = [];
+    for (let i = 1; i < path.length; i++) {
+      const a = this.nodes.get(path[i - 1]!)!;
+      const b = this.nodes.get(path[i]!)!;
+      out.push(a.edges.has(b.id) ? cost(a, b, Math.hypot(b.x - a.x, b.z - a.z)) * this.edgeFactor(a.id, b.id) : Infinity);
     }
+    return out;
+  }
 
-    return path;
+  /**
+   * A* from `fromNode` to `toNode` under `cost`. Returns the path (not including
+   * the start) and its total cost, or null if `toNode` can't be reached.
+   */
+  shortestPath(fromNode: number, toNode: number, cost: EdgeCostFn = lengthCost): { path: number[]; cost: number } | null {
+    const goal = this.nodes.get(toNode);
+    if (!this.nodes.has(fromNode) || !goal) return null;
+    const found = this.search(fromNode, (id) => id === toNode, cost, (n) => Math.hypot(goal.x - n.x, goal.z - n.z));
+    return found && { path: found.path, cost: found.cost };
+  }
+
+  /**
+   * Dijkstra from `fromNode` to the cheapest node for which `isTarget` holds.
+   * Returns that node, the path to it (not including the start) and its cost,
+   * or null if no target is reachable.
+   */
+  nearestOf(
+    fromNode: number,
+    isTarget: (node: GraphNode) => boolean,
+    cost: EdgeCostFn = lengthCost,
+  ): { target: number; path: number[]; cost: number } | null {
+    if (!this.nodes.has(fromNode)) return null;
+    return this.search(fromNode, (id) => isTarget(this.nodes.get(id)!), cost, () => 0);
+  }
+
+  /** Best-first search shared by shortestPath (A*) and nearestOf (Dijkstra, zero heuristic). */
+  private search(
+    fromNode: number,
+    isGoal: (id: number) => boolean,
+    cost: EdgeCostFn,
+    heuristic: (node: GraphNode) => number,
+  ): { target: number; path: number[]; cost: number } | null {
+    const dist = new Map<number, number>([[fromNode, 0]]);
+    const prev = new Map<number, number>();
+    const closed = new Set<number>();
+    const heap = new MinHeap();
+    heap.push(fromNode, heuristic(this.nodes.get(fromNode)!));
+
+    while (heap.size > 0) {
+      const { id } = heap.pop();
+      if (closed.has(id)) continue; // stale entry
+      closed.add(id);
+      const g = dist.get(id)!;
+      if (isGoal(id)) {
+        const path: number[] = [];
+        for (let at = id; at !== fromNode; at = prev.get(at)!) path.push(at);
+        return { target: id, path: path.reverse(), cost: g };
+      }
+      const node = this.nodes.get(id)!;
+      for (const nextId of node.edges) {
+        if (closed.has(nextId)) continue;
+        const factor = this.edgeFactor(id, nextId);
+        if (factor === Infinity) continue;
+        const next = this.nodes.get(nextId)!;
+        const d = g + cost(node, next, Math.hypot(next.x - node.x, next.z - node.z)) * factor;
+        if (d === Infinity || d >= (dist.get(nextId) ?? Infinity)) continue;
+        dist.set(nextId, d);
+        prev.set(nextId, id);
+        heap.push(nextId, d + heuristic(next));
+      }
+    }
+    return null;
   }
 
   /** Get all node IDs within `radius` meters of scene center (0,0). */
@@ -236,7 +353,7 @@ export class RoadGraph {
 
     const picked: number[] = [];
     // Start with a random candidate
-    picked.push(candidates[Math.floor(Math.random() * candidates.length)]!);
+    picked.push(candidates[Math.floor(this.rng.next() * candidates.length)]!);
 
     while (picked.length < count) {
       let bestId = -1;
@@ -280,8 +397,8 @@ export class RoadGraph {
     return nodeIds.map(id => {
       const node = this.nodes.get(id)!;
       return {
-        x: node.x + (Math.random() - 0.5) * jitter * 2,
-        z: node.z + (Math.random() - 0.5) * jitter * 2,
+        x: node.x + (this.rng.next() - 0.5) * jitter * 2,
+        z: node.z + (this.rng.next() - 0.5) * jitter * 2,
       };
     });
   }
@@ -291,14 +408,4 @@ export class RoadGraph {
     const node = this.nodes.get(nodeId);
     return node ? node.edges.size >= 3 : false;
   }
-
-  private minDangerDist(x: number, z: number, zones: DangerZone[]): number {
-    let minDist = Infinity;
-    for (const zone of zones) {
-      const dx = x - zone.x;
-      const dz = z - zone.z;
-      minDist = Math.min(minDist, Math.sqrt(dx * dx + dz * dz) - zone.radius);
-    }
-    return minDist;
-  }
 }
@@ -0,0 +1,70 @@
+import * as THREE from "three";
+import { Position } from "../core/Components.ts";
+import type { RoutePlanner } from "./RoutePlanner.ts";
+
+const LIFT = 1.5;              // meters above the terrain, so lines don't z-fight the roads
+const REFRESH_INTERVAL = 0.25; // seconds between geometry rebuilds
+const EVACUATE_COLOR = new THREE.Color(0x33dd77);
+const ESCAPE_COLOR = new THREE.Color(0xffaa22);
+
+/**
+ * Debug overlay: draws each agent's planned route as a polyline — green when
+ * heading for an evacuation point, orange when just getting clear of danger.
+ * Hidden until toggled.
+ */
+export class RouteOverlay {
+  private scene: THREE.Scene;
+  private routing: RoutePlanner;
+  private heightAt: (x: number, z: number) => number;
+  private lines: THREE.LineSegments;
+  private sinceRefresh = REFRESH_INTERVAL;
+
+  constructor(scene: THREE.Scene, routing: RoutePlanner, heightAt: (x: number, z: number) => number) {
+    this.scene = scene;
+    this.routing = routing;
+    this.heightAt = heightAt;
+    const material = new THREE.LineBasicMaterial({ vertexColors: true, depthTest: false, transparent: true });
+    this.lines = new THREE.LineSegments(new THREE.BufferGeometry(), material);
+    this.lines.renderOrder = 10;
+    this.lines.frustumCulled = false;
+    this.lines.visible = false;
+    scene.add(this.lines);
+  }
+
+  toggle(): void {
+    this.lines.visible = !this.lines.visible;
+    this.sinceRefresh = REFRESH_INTERVAL;
+  }
+
+  update(dt: number): void {
+    if (!this.lines.visible) return;
+    this.sinceRefresh += dt;
+    if (this.sinceRefresh < REFRESH_INTERVAL) return;
+    this.sinceRefresh = 0;
+
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const paths = this.routing.plannedPaths((eid) => ({ x: Position.x[eid]!, z: Position.z[eid]! }));
+    for (const { evacuating, points } of paths) {
+      const color = evacuating ? EVACUATE_COLOR : ESCAPE_COLOR;
+      for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1]!;
+        const b = points[i]!;
+        positions.push(a.x, this.heightAt(a.x, a.z) + LIFT, a.z, b.x, this.heightAt(b.x, b.z) + LIFT, b.z);
+        colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+    this.lines.geometry.dispose();
+    this.lines.geometry = geometry;
+  }
+
+  dispose(): void {
+    this.scene.remove(this.lines);
+    this.lines.geometry.dispose();
+    (this.lines.material as THREE.Material).dispose();
+  }
+}
@@ -0,0 +1,183 @@
+import type { RoadGraph, EdgeCostFn, GraphNode } from "./RoadGraph.ts";
+import type { DangerZone } from "./AgentActionSystem.ts";
+import type { EvacuationPoint } from "./Evacuation.ts";
+import type { SimClock } from "../core/World.ts";
+
+const ROAD_FACTOR = 1.25;      // pedestrians keep to footpaths where they can
+const DANGER_MARGIN = 25;      // meters — edges closer than this to a danger zone cost extra...
+const DANGER_WEIGHT = 3;       // ...up to this many times their length again at the zone's edge
+const IN_ZONE_FACTOR = 20;     // leaving a zone you're already in is slow going
+const FLOOD_WEIGHT = 5;        // extra cost per meter of water depth
+const WADE_LIMIT = 0.8;        // meters — water deeper than this can't be walked into
+const SAFE_CLEARANCE = 40;     // escape routes end at least this far from every danger zone
+const MIN_ESCAPE_DIST = 15;    // ...and at least this far from where the agent starts
+const ROAD_SNAP_RADIUS = 30;   // agents farther than this from a road don't route over the graph
+const RECHECK_INTERVAL = 1.0;  // seconds between hazard re-checks of a route
+const REPLAN_RATIO = 1.5;      // replan once the rest of a route costs this much more than planned
+
+/** Where a route goes next. `node` is -1 for points off the road graph. */
+export interface RouteWaypoint {
+  x: number;
+  z: number;
+  node: number;
+  cost: number; // planned cost of the hop into this waypoint (0 when either end is off the graph)
+}
+
+/** A route an agent is following. */
+export interface AgentRoute {
+  point: EvacuationPoint | null; // evacuation destination, null for a plain escape from danger
+  current: RouteWaypoint;        // waypoint the agent is walking to
+  waypoints: RouteWaypoint[];    // the ones after it
+  recheckIn: number;             // seconds until hazards are re-checked
+}
+
+function activeZones(zones: DangerZone[], now: number): DangerZone[] {
+  return zones.filter((z) => z.expiresAt >= now);
+}
+
+function zoneClearance(x: number, z: number, zones: DangerZone[]): number {
+  let min = Infinity;
+  for (const zone of zones) min = Math.min(min, Math.hypot(x - zone.x, z - zone.z) - zone.radius);
+  return min;
+}
+
+/** Waypoints along `path` (road node ids, start first), with each hop's cost under `cost`. */
+export function routeWaypoints(graph: RoadGraph, path: number[], cost: EdgeCostFn): RouteWaypoint[] {
+  const legs = graph.legCosts(path, cost);
+  return path.map((id, i) => {
+    const n = graph.nodes.get(id)!;
+    return { x: n.x, z: n.z, node: id, cost: i === 0 ? 0 : legs[i - 1]! };
+  });
+}
+
+/**
+ * Plans hazard-aware routes over the road graph and keeps each agent's current
+ * route, so routes can be re-checked as hazards change (and drawn for debugging).
+ */
+export class RoutePlanner {
+  readonly graph: RoadGraph | null;
+  /** Agent eid → the route it is following. */
+  readonly routes = new Map<number, AgentRoute>();
+  private floodDepth: ((x: number, z: number) => number) | null = null;
+  private clock: SimClock;
+
+  constructor(graph: RoadGraph | null, clock: SimClock) {
+    this.graph = graph;
+    this.clock = clock;
+  }
+
+  /** Water depth (m) at a world point — from the flood solver while a flood runs. */
+  setFloodDepth(sampler: ((x: number, z: number) => number) | null): void {
+    this.floodDepth = sampler;
+  }
+
+  /**
+   * Edge cost for an agent that knows about `zones`: length, weighted up on
+   * roads, near danger zones and in floodwater. Walking into a zone or deep
+   * water is impossible; walking out of one is only slow.
+   */
+  edgeCost(zones: DangerZone[]): EdgeCostFn {
+    const active = activeZones(zones, this.clock());
+    const depthAt = this.floodDepth;
+    return (from: GraphNode, to: GraphNode, length: number): number => {
+      let factor = from.isFootpath && to.isFootpath ? 1 : ROAD_FACTOR;
+
+      if (active.length > 0) {
+        const toClear = zoneClearance(to.x, to.z, active);
+        const fromClear = zoneClearance(from.x, from.z, active);
+        if (toClear < 0 && fromClear >= 0) return Infinity;
+        const midClear = zoneClearance((from.x + to.x) / 2, (from.z + to.z) / 2, active);
+        if (midClear < 0) factor += IN_ZONE_FACTOR;
+        else if (midClear < DANGER_MARGIN) factor += DANGER_WEIGHT * (1 - midClear / DANGER_MARGIN);
+      }
+
+      if (depthAt) {
+        const toDepth = depthAt(to.x, to.z);
+        if (toDepth > WADE_LIMIT && depthAt(from.x, from.z) <= WADE_LIMIT) return Infinity;
+        factor += FLOOD_WEIGHT * Math.max(toDepth, depthAt((from.x + to.x) / 2, (from.z + to.z) / 2));
+      }
+
+      return length * factor;
+    };
+  }
+
+  /** Road node an agent at (x, z) would start routing from, or -1 when it's off the roads. */
+  startNode(x: number, z: number): number {
+    if (!this.graph) return -1;
+    const id = this.graph.nearestNode(x, z);
+    const pos = this.graph.getNodePos(id);
+    return pos && Math.hypot(pos.x - x, pos.z - z) <= ROAD_SNAP_RADIUS ? id : -1;
+  }
+
+  /**
+   * Cheapest road route from (x, z) to a node clear of every zone in `zones`,
+   * or null when the agent is off the roads or boxed in.
+   */
+  planEscape(x: number, z: number, zones: DangerZone[]): RouteWaypoint[] | null {
+    const from = this.startNode(x, z);
+    if (from === -1) return null;
+    const active = activeZones(zones, this.clock());
+    const cost = this.edgeCost(active);
+    const found = this.graph!.nearestOf(from, (n) =>
+      Math.hypot(n.x - x, n.z - z) >= MIN_ESCAPE_DIST && zoneClearance(n.x, n.z, active) >= SAFE_CLEARANCE,
+    cost);
+    if (!found) return null;
+    return routeWaypoints(this.graph!, [from, ...found.path], cost);
+  }
+
+  /** Start `eid` on `waypoints`; returns the first one to walk to. */
+  follow(eid: number, point: EvacuationPoint | null, waypoints: RouteWaypoint[]): RouteWaypoint {
+    const [current, ...rest] = waypoints;
+    this.routes.set(eid, { point, current: current!, waypoints: rest, recheckIn: RECHECK_INTERVAL });
+    return current!;
+  }
+
+  /**
+   * Count down to `eid`'s next hazard check and, when it's due, re-cost only
+   * the road hops still ahead. True when they became impassable or much
+   * dearer than planned — the caller should plan a new route.
+   */
+  needsReplan(eid: number, zones: DangerZone[], dt: number): boolean {
+    const route = this.routes.get(eid);
+    if (!route || !this.graph) return false;
+    route.recheckIn -= dt;
+    if (route.recheckIn > 0) return false;
+    route.recheckIn = RECHECK_INTERVAL;
+
+    const cost = this.edgeCost(zones);
+    let planned = 0;
+    let now = 0;
+    let prev = route.current;
+    for (const w of route.waypoints) {
+      if (prev.node >= 0 && w.node >= 0) {
+        planned += w.cost;
+        now += this.graph.legCosts([prev.node, w.node], cost)[0]!;
+      }
+      prev = w;
+    }
+    return now === Infinity || now > planned * REPLAN_RATIO;
+  }
+
+  /** Bring forward the hazard check of every route still to walk the a–b road hop. */
+  recheckThrough(a: number, b: number): void {
+    for (const route of this.routes.values()) {
+      let prev = route.current;
+      for (const w of route.waypoints) {
+        if ((prev.node === a && w.node === b) || (prev.node === b && w.node === a)) {
+          route.recheckIn = 0;
+          break;
+        }
+        prev = w;
+      }
+    }
+  }
+
+  /** Remaining path of every route, starting from each agent's position — for the debug overlay. */
+  plannedPaths(position: (eid: number) => { x: number; z: number }): { eid: number; evacuating: boolean; points: { x: number; z: number }[] }[] {
+    return [...this.routes].map(([eid, route]) => ({
+      eid,
+      evacuating: route.point !== null,
+      points: [position(eid), route.current, ...route.waypoints],
+    }));
+  }
+}
@@ -0,0 +1,143 @@
+import type { BuildingRecord } from "../layers.ts";
+
+const AREA_PER_OCCUPANT = 10; // m² of ground floor per sheltering person
+const MIN_CAPACITY = 2;
+const MAX_CAPACITY = 50;
+/** Buildings this damaged are no longer offered as shelter. */
+const UNSAFE_DAMAGE = 0.6;
+/** Doors sit this far outside the footprint — clear of obstacle padding + agent radius. */
+const DOOR_CLEARANCE = 6;
+
+/** How many people a building takes and how well it shields them. */
+export interface ShelterInfo {
+  capacity: number;
+  windProtection: number;  // 0–1, fraction of WIND_FIELD_UPDATE damage blocked when undamaged
+  shakeProtection: number; // 0–1, fraction of GROUND_SHAKE damage blocked when undamaged
+}
+
+/** 0–1 rating of a fragility multiplier (vulnerability.ts) — 0.6 and below is flimsy, 1.4 and up solid. */
+function rating(resistance: number): number {
+  return Math.max(0, Math.min(1, (resistance - 0.6) / 0.8));
+}
+
+/** Capacity scales with footprint; protection with the building's wind / shaking fragility (tall buildings sway more). */
+export function shelterInfo(b: BuildingRecord): ShelterInfo {
+  const area = 4 * b.halfX * b.halfZ;
+  return {
+    capacity: Math.max(MIN_CAPACITY, Math.min(MAX_CAPACITY, Math.floor(area / AREA_PER_OCCUPANT))),
+    windProtection: 0.45 + 0.4 * rating(b.fragility.wind),
+    shakeProtection: 0.3 + 0.4 * rating(b.fragility.shaking) - (b.height > 30 ? 0.1 : 0),
+  };
+}
+
+interface Occupancy {
+  building: BuildingRecord;
+  inside: boolean; // false while still walking to the door
+}
+
+/**
+ * Tracks which agents are sheltering in (or heading for) which building,
+ * keyed by agent eid. Reservations count against capacity so two agents
+ * don't race for the last spot.
+ */
+export class ShelterRegistry {
+  private buildings: BuildingRecord[];
+  private info = new Map<BuildingRecord, ShelterInfo>();
+  private byAgent = new Map<number, Occupancy>();
+  private counts = new Map<BuildingRecord, number>();
+
+  constructor(buildings: BuildingRecord[]) {
+    this.buildings = buildings;
+  }
+
+  infoFor(b: BuildingRecord): ShelterInfo {
+    let info = this.info.get(b);
+    if (!info) {
+      info = shelterInfo(b);
+      this.info.set(b, info);
+    }
+    return info;
+  }
+
+  /** Standing, not too damaged, and with room — counting `eid`'s own spot as free. */
+  isAvailable(b: BuildingRecord, eid = -1): boolean {
+    if (b.destroyed || b.damageLevel >= UNSAFE_DAMAGE) return false;
+    if (this.byAgent.get(eid)?.building === b) return true;
+    return (this.counts.get(b) ?? 0) < this.infoFor(b).capacity;
+  }
+
+  /** Nearest available building, by distance from (x, z) to its footprint. */
+  nearestAvailable(x: number, z: number, maxDist: number, eid = -1): BuildingRecord | null {
+    let best: BuildingRecord | null = null;
+    let bestDist = maxDist;
+    for (const b of this.buildings) {
+      if (!this.isAvailable(b, eid)) continue;
+      const dx = Math.max(0, Math.abs(x - b.centerX) - b.halfX);
+      const dz = Math.max(0, Math.abs(z - b.centerZ) - b.halfZ);
+      const d = Math.sqrt(dx * dx + dz * dz);
+      if (d < bestDist) {
+        bestDist = d;
+        best = b;
+      }
+    }
+    return best;
+  }
+
+  /** Claim a spot in `b` for agent `eid` (releasing any previous one). */
+  reserve(eid: number, b: BuildingRecord): boolean {
+    if (this.byAgent.get(eid)?.building === b) return true;
+    if ((this.counts.get(b) ?? 0) >= this.infoFor(b).capacity) return false;
+    this.release(eid);
+    this.byAgent.set(eid, { building: b, inside: false });
+    this.counts.set(b, (this.counts.get(b) ?? 0) + 1);
+    return true;
+  }
+
+  enter(eid: number): void {
+    const occ = this.byAgent.get(eid);
+    if (occ) occ.inside = true;
+  }
+
+  release(eid: number): void {
+    const occ = this.byAgent.get(eid);
+    if (!occ) return;
+    this.byAgent.delete(eid);
+    this.counts.set(occ.building, Math.max(0, (this.counts.get(occ.building) ?? 1) - 1));
+  }
+
+  /** The building agent `eid` has reserved or entered. */
+  buildingOf(eid: number): BuildingRecord | null {
+    return this.byAgent.get(eid)?.building ?? null;
+  }
+
+  isInside(eid: number): boolean {
+    return this.byAgent.get(eid)?.inside ?? false;
+  }
+
+  /**
+   * Fraction of a wind / shaking hazard that reaches agent `eid` — 1 outdoors,
+   * less inside, with protection falling off as the building takes damage.
+   */
+  exposure(eid: number, hazard: "wind" | "shake"): number {
+    const occ = this.byAgent.get(eid);
+    if (!occ?.inside) return 1;
+    const info = this.infoFor(occ.building);
+    const protection = hazard === "wind" ? info.windProtection : info.shakeProtection;
+    return 1 - protection * (1 - occ.building.damageLevel);
+  }
+
+  /** Point just outside `b`'s footprint, on the side nearest (x, z). */
+  doorPoint(b: BuildingRecord, x: number, z: number): { x: number; z: number } {
+    const lx = Math.max(-b.halfX, Math.min(b.halfX, x - b.centerX));
+    const lz = Math.max(-b.halfZ, Math.min(b.halfZ, z - b.centerZ));
+    // Push out through whichever face is closest
+    const toX = b.halfX - Math.abs(lx);
+    const toZ = b.halfZ - Math.abs(lz);
+    if (toX <= toZ) {
+      const sx = lx >= 0 ? 1 : -1;
+      return { x: b.centerX + sx * (b.halfX + DOOR_CLEARANCE), z: b.centerZ + lz };
+    }
+    const sz = lz >= 0 ? 1 : -1;
+    return { x: b.centerX + lx, z: b.centerZ + sz * (b.halfZ + DOOR_CLEARANCE) };
+  }
+}
@@ -1,12 +1,16 @@
 import type { SimWorld } from "../core/World.ts";
-import type { AgentManager } from "./AgentManager.ts";
+import type { AgentManager, AgentRuntime } from "./AgentManager.ts";
 import type { AgentPerceptionSystem } from "./AgentPerceptionSystem.ts";
 import type { AgentRecorder } from "./AgentRecorder.ts";
 import { parseActionType } from "./PromptTemplates.ts";
-import type { PerceiveMessage, DecisionResponse, PerceptionPayload } from "./types.ts";
-import { AgentState, AgentAction, AgentFacing, Position, ActionType } from "../core/Components.ts";
+import type { PerceiveMessage, DecisionResponse, PerceptionPayload, AgentCandidate } from "./types.ts";
+import { AgentState, AgentAction, AgentFacing, Position, ActionType, NO_TARGET } from "../core/Components.ts";
 import type { EventBus, FireSpreadEvent } from "../core/EventBus.ts";
 import { agentLog } from "./AgentLogger.ts";
+import { DANGER_ZONE_TTL } from "./AgentActionSystem.ts";
+import { HazardTracker } from "./HazardTracker.ts";
+import { landmarkCandidates, relativeBearingDeg, roadNodeCandidates, type Landmark } from "./navigation.ts";
+import type { RoadGraph } from "./RoadGraph.ts";
 import type { ReplayRecorder } from "../replay/ReplayRecorder.ts";
 import type { SimulationStats, SimulationStatsData } from "../stats/SimulationStats.ts";
 
@@ -14,8 +18,43 @@ const ACTION_NAMES: Record<number, string> = {
   [ActionType.IDLE]: "IDLE",
   [ActionType.WALK_TO]: "WALK_TO",
   [ActionType.RUN_TO]: "RUN_TO",
+  [ActionType.HELP_AGENT]: "HELP_AGENT",
+  [ActionType.FOLLOW]: "FOLLOW",
+  [ActionType.CARRY_INJURED]: "CARRY_INJURED",
+  [ActionType.SHELTER]: "SHELTER",
 };
 
+const NEARBY_AGENT_RADIUS = 60; // other people further than this aren't offered as targets
+const MAX_NEARBY_AGENTS = 4;
+
+/** The nearest other living agents, for HELP_AGENT / FOLLOW targets. */
+function agentCandidates(self: AgentRuntime, agents: AgentRuntime[]): AgentCandidate[] {
+  const x = Position.x[self.eid]!;
+  const z = Position.z[self.eid]!;
+  const yaw = AgentFacing.yaw[self.eid]!;
+  const out: AgentCandidate[] = [];
+  for (const a of agents) {
+    const eid = a.eid;
+    if (a === self || AgentState.alive[eid]! === 0) continue;
+    const ax = Position.x[eid]!;
+    const az = Position.z[eid]!;
+    const distance = Math.hypot(ax - x, az - z);
+    if (distance > NEARBY_AGENT_RADIUS) continue;
+    out.push({
+      index: a.index,
+      name: a.config.name,
+      x: ax,
+      z: az,
+      distance,
+      bearingDeg: relativeBearingDeg(x, z, yaw, ax, az),
+      health: AgentState.health[eid]!,
+      injured: AgentState.injured[eid]!,
+      trapped: AgentState.trapped[eid]! === 1,
+    });
+  }
+  return out.sort((a, b) => a.distance - b.distance).slice(0, MAX_NEARBY_AGENTS);
+}
+
 export interface SteppedSimConfig {
   stepDurationSec: number;  // seconds of sim time per step
   enabled: boolean;
@@ -62,6 +101,11 @@ export class SteppedSimulation {
   private pendingPayloads = new Map<string, { payload: PerceptionPayload; simTime: number }>();
   /** Tracked fire sources from EventBus FIRE_SPREAD events. */
   private activeFireSources: { x: number; z: number; radius: number }[] = [];
+  /** Recent EventBus hazards, attached to each payload as `nearbyHazards`. */
+  private hazards: HazardTracker;
+  /** Road graph + landmarks offered to the VLM as decision targets. */
+  private roadGraph: RoadGraph | null = null;
+  private landmarks: Landmark[] = [];
   /** Replay recorder for persisting session data to IndexedDB. */
   private replayRecorder: ReplayRecorder;
   /** Stats collector. */
@@ -91,6 +135,7 @@ export class SteppedSimulation {
     this.stats = stats ?? null;
     this.onSimulationEnd = onSimulationEnd ?? null;
     this.maxDurationSec = config.maxDurationSec ?? 120;
+    this.hazards = new HazardTracker(eventBus);
 
     // Subscribe to FIRE_SPREAD events to track fire sources
     eventBus.on("FIRE_SPREAD", (event) => {
@@ -111,7 +156,7 @@ export class SteppedSimulation {
       // wandering back into an area that was safe when first recorded.
       for (const agent of this.manager.agents) {
         for (const zone of agent.dangerZones) {
-          if (zone.expiresAt < Date.now()) continue;
+          if (zone.expiresAt < this.world.time) continue;
           const dx = zone.x - fx;
           const dz = zone.z - fz;
           if (dx * dx + dz * dz < 25) { // same fire source (within 5m)
@@ -119,7 +164,7 @@ export class SteppedSimulation {
             if (newRadius > zone.radius) {
               zone.radius = newRadius;
               // Extend expiry since fire is still active
-              zone.expiresAt = Date.now() + 60_000;
+              zone.expiresAt = this.world.time + DANGER_ZONE_TTL;
             }
           }
         }
@@ -135,6 +180,16 @@ export class SteppedSimulation {
     });
   }
 
+  setNavigation(roadGraph: RoadGraph | null, landmarks: Landmark[]): void {
+    this.roadGraph = roadGraph;
+    this.landmarks = landmarks;
+  }
+
+  /** Hazards the decision prompt warns about — several joined with "+" as a cascade unfolds. */
+  setDisasterType(disasterType: string): void {
+    this.config.disasterType = disasterType;
+  }
+
   setLiveCamEnabled(enabled: boolean): void {
     this.liveCamEnabled = enabled;
   }
@@ -306,6 +361,7 @@ export class SteppedSimulation {
       this.tickInterval = null;
     }
     this.ws?.close();
+    this.hazards.dispose();
     await this.replayRecorder.finalize();
 
     // Finalize stats and notify callback
@@ -363,6 +419,16 @@ export class SteppedSimulation {
       this.step++;
       const captureSimTime = this.simTime;
 
+      this.hazards.advance(captureSimTime);
+      for (const p of payloads) {
+        const { positionX: x, positionZ: z, facingYaw: yaw } = p.state;
+        p.nearbyHazards = this.hazards.nearby(x, z);
+        p.roadNodes = roadNodeCandidates(x, z, yaw, this.roadGraph);
+        p.landmarks = landmarkCandidates(x, z, yaw, this.landmarks);
+        const self = this.manager.agents[p.agentIndex];
+        p.nearbyAgents = self ? agentCandidates(self, this.manager.agents) : [];
+      }
+
       // Store payloads for snapshot pairing when response arrives
       for (const p of payloads) {
         this.pendingPayloads.set(`${p.agentIndex}:${this.step}`, {
@@ -487,9 +553,11 @@ export class SteppedSimulation {
         this.saveSnapshot(pending.payload, dec.observation, step, pending.simTime);
       }
 
-      // Apply action: RUN_TO = DANGER detected, create danger zone and let action system flee via road graph
-      if (dec.action === "RUN_TO" && agent) {
-        const eid = agent.eid;
+      if (!agent) continue;
+      const eid = agent.eid;
+
+      // DANGER detected: create a per-agent danger zone the action system steers around
+      if (dec.danger) {
         const px = Position.x[eid]!;
         const pz = Position.z[eid]!;
         const yaw = AgentFacing.yaw[eid]!;
@@ -516,7 +584,7 @@ export class SteppedSimulation {
             x: bestFire.x,
             z: bestFire.z,
             radius: bestFire.radius + 10,
-            expiresAt: Date.now() + 60_000,
+            expiresAt: this.world.time + DANGER_ZONE_TTL,
           });
           agentLog.log("danger_zone_added", agentName, {
             fireX: bestFire.x, fireZ: bestFire.z,
@@ -527,21 +595,73 @@ export class SteppedSimulation {
           const estZ = pz + facingZ * 15;
           agent.dangerZones.push({
             x: estX, z: estZ, radius: 10,
-            expiresAt: Date.now() + 60_000,
+            expiresAt: this.world.time + DANGER_ZONE_TTL,
           });
           agentLog.log("danger_zone_added", agentName, {
             estX, estZ, radius: 10, source: "estimated",
           });
         }
+      }
 
-        // Set agent to IDLE with immediate re-evaluation — the action system
-        // will detect nearby danger zones and compute a flee route along roads
+      const other = dec.target?.type === "agent" ? this.manager.agents[dec.target.index] : undefined;
+      if (other && other !== agent && AgentState.alive[other.eid]! === 1 && (dec.action === "HELP_AGENT" || dec.action === "FOLLOW")) {
+        // Go to (or stay with) another person — the action system takes it from there
+        this.manager.addDecision(dec.agentIndex, `${dec.action} ${other.config.name}: ${dec.rationale}`);
+        this.manager.applyAction(dec.agentIndex, {
+          actionType: parseActionType(dec.action),
+          targetX: dec.targetX,
+          targetZ: dec.targetZ,
+          targetEid: other.eid,
+        });
+        agentLog.log("vlm_target", agentName, {
+          step,
+          action: dec.action,
+          target: dec.target,
+          rationale: dec.rationale,
+        });
+      } else if (dec.target && (dec.action === "WALK_TO" || dec.action === "RUN_TO")) {
+        // The VLM chose a destination — go there (the action system still
+        // redirects if the target turns out to be inside a danger zone)
+        this.manager.addDecision(dec.agentIndex, `${dec.action}: ${dec.rationale}`);
+        this.manager.applyAction(dec.agentIndex, {
+          actionType: parseActionType(dec.action),
+          targetX: dec.targetX,
+          targetZ: dec.targetZ,
+          targetEid: NO_TARGET,
+        });
+        agentLog.log("vlm_target", agentName, {
+          step,
+          action: dec.action,
+          target: dec.target,
+          targetX: dec.targetX,
+          targetZ: dec.targetZ,
+          rationale: dec.rationale,
+        });
+      } else if (dec.action === "SHELTER") {
+        // Head for a named building, or the one nearest the agent
+        const landmark = dec.target?.type === "landmark";
+        this.manager.addDecision(dec.agentIndex, `SHELTER: ${dec.rationale}`);
+        this.manager.applyAction(dec.agentIndex, {
+          actionType: ActionType.SHELTER,
+          targetX: landmark ? dec.targetX : Position.x[eid]!,
+          targetZ: landmark ? dec.targetZ : Position.z[eid]!,
+          targetEid: NO_TARGET,
+        });
+        agentLog.log("vlm_target", agentName, {
+          step,
+          action: dec.action,
+          target: dec.target,
+          rationale: dec.rationale,
+        });
+      } else if (dec.danger) {
+        // No usable target — set agent to IDLE with immediate re-evaluation so
+        // the action system computes a flee route along roads
         this.manager.addDecision(dec.agentIndex, `DANGER: ${dec.observation}`);
         this.manager.applyAction(dec.agentIndex, {
           actionType: ActionType.IDLE,
           targetX: 0,
           targetZ: 0,
-          targetEid: 0,
+          targetEid: NO_TARGET,
         });
         // Set progress high so action system immediately triggers flee
         AgentAction.progress[eid] = 10;
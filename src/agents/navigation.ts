@@ -0,0 +1,75 @@
+import type { BuildingRecord } from "../layers.ts";
+import type { RoadGraph } from "./RoadGraph.ts";
+import type { LandmarkCandidate, RoadNodeCandidate } from "./types.ts";
+
+const CANDIDATE_RADIUS = 120;  // meters — ignore places farther than this
+const MIN_NODE_DIST = 8;       // skip the node the agent is standing on
+const PREFERRED_NODE_DIST = 40; // per sector, pick the node closest to this range
+const ROAD_SECTORS = 6;        // one road-node option per 60° around the agent
+const MAX_LANDMARKS = 5;
+
+/** A named place agents can be told to go to. */
+export interface Landmark {
+  id: string;
+  name: string;
+  x: number;
+  z: number;
+}
+
+/**
+ * Bearing from (x, z) to (tx, tz) relative to `yaw` (atan2(dx, dz) convention),
+ * in degrees: 0 = straight ahead, positive = to the right, ±180 = behind.
+ */
+export function relativeBearingDeg(x: number, z: number, yaw: number, tx: number, tz: number): number {
+  let rel = Math.atan2(tx - x, tz - z) - yaw;
+  rel = Math.atan2(Math.sin(rel), Math.cos(rel));
+  // +X is on the agent's left at yaw 0, so flip the sign to make right positive
+  return (-rel * 180) / Math.PI;
+}
+
+/** Inverse of relativeBearingDeg: the point `distance` m away at `bearingDeg`. */
+export function pointAtBearing(
+  x: number, z: number, yaw: number,
+  bearingDeg: number, distance: number,
+): { x: number; z: number } {
+  const heading = yaw - (bearingDeg * Math.PI) / 180;
+  return { x: x + Math.sin(heading) * distance, z: z + Math.cos(heading) * distance };
+}
+
+/** Named, still-standing buildings become landmarks (one per name). */
+export function landmarksFromBuildings(buildings: BuildingRecord[]): Landmark[] {
+  const seen = new Set<string>();
+  const out: Landmark[] = [];
+  for (const b of buildings) {
+    if (!b.name || b.destroyed || seen.has(b.name)) continue;
+    seen.add(b.name);
+    out.push({ id: `L${out.length}`, name: b.name, x: b.centerX, z: b.centerZ });
+  }
+  return out;
+}
+
+/** Road nodes around the agent — at most one per sector, near a comfortable walking range. */
+export function roadNodeCandidates(x: number, z: number, yaw: number, graph: RoadGraph | null): RoadNodeCandidate[] {
+  if (!graph) return [];
+  const best: (RoadNodeCandidate | null)[] = new Array(ROAD_SECTORS).fill(null);
+  for (const [id, node] of graph.nodes) {
+    const distance = Math.hypot(node.x - x, node.z - z);
+    if (distance < MIN_NODE_DIST || distance > CANDIDATE_RADIUS) continue;
+    const bearingDeg = relativeBearingDeg(x, z, yaw, node.x, node.z);
+    const sector = Math.min(ROAD_SECTORS - 1, Math.floor(((bearingDeg + 180) / 360) * ROAD_SECTORS));
+    const cur = best[sector];
+    if (!cur || Math.abs(distance - PREFERRED_NODE_DIST) < Math.abs(cur.distance - PREFERRED_NODE_DIST)) {
+      best[sector] = { id, x: node.x, z: node.z, distance, bearingDeg };
+    }
+  }
+  return best.filter((c): c is RoadNodeCandidate => c !== null);
+}
+
+/** The nearest landmarks within range of the agent. */
+export function landmarkCandidates(x: number, z: number, yaw: number, landmarks: Landmark[]): LandmarkCandidate[] {
+  return landmarks
+    .map((l) => ({ ...l, distance: Math.hypot(l.x - x, l.z - z), bearingDeg: relativeBearingDeg(x, z, yaw, l.x, l.z) }))
+    .filter((l) => l.distance <= CANDIDATE_RADIUS)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_LANDMARKS);
+}
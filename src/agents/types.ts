@@ -1,4 +1,5 @@
 import type { ActionType } from "../core/Components.ts";
+import type { DisasterEvent } from "../core/EventBus.ts";
 
 /** Per-agent configuration set at spawn time. */
 export interface AgentConfig {
@@ -20,6 +21,54 @@ export interface AgentMemory {
   recentEvents: string[];  // disaster events witnessed
 }
 
+/** A recent EventBus hazard near an agent (see HazardTracker). */
+export interface NearbyHazard {
+  type: DisasterEvent["type"];
+  x: number;
+  z: number;
+  distance: number;  // meters from the agent to the hazard's edge (0 = inside)
+  intensity: number; // fire intensity, water height (m), wind speed (m/s), PGA (g), …
+}
+
+/** A road-graph node the agent could head for (bearing: degrees, 0 = ahead, + = right). */
+export interface RoadNodeCandidate {
+  id: number;
+  x: number;
+  z: number;
+  distance: number;
+  bearingDeg: number;
+}
+
+/** A named place the agent could head for. */
+export interface LandmarkCandidate {
+  id: string;
+  name: string;
+  x: number;
+  z: number;
+  distance: number;
+  bearingDeg: number;
+}
+
+/** Another living agent in view (for HELP_AGENT / FOLLOW). */
+export interface AgentCandidate {
+  index: number;     // agentIndex
+  name: string;
+  x: number;
+  z: number;
+  distance: number;
+  bearingDeg: number;
+  health: number;
+  injured: number;   // InjuryFlag bitmask
+  trapped: boolean;  // pinned under rubble — needs someone to free them
+}
+
+/** Where a decision wants the agent to go. */
+export type DecisionTarget =
+  | { type: "road_node"; id: number }
+  | { type: "landmark"; id: string }
+  | { type: "bearing"; bearingDeg: number; distance: number }
+  | { type: "agent"; index: number };
+
 /** Sent from client to server per agent per step. */
 export interface PerceptionPayload {
   agentIndex: number;
@@ -29,6 +78,7 @@ export interface PerceptionPayload {
     stamina: number;
     panicLevel: number;
     injured: number;
+    trapped: boolean;
     positionX: number;
     positionZ: number;
     facingYaw: number;
@@ -36,6 +86,10 @@ export interface PerceptionPayload {
   memory: AgentMemory;
   personality: AgentConfig["personality"];
   name: string;
+  nearbyHazards: NearbyHazard[];
+  roadNodes: RoadNodeCandidate[];
+  landmarks: LandmarkCandidate[];
+  nearbyAgents: AgentCandidate[];
 }
 
 /** Server returns one of these per agent per step. */
@@ -43,9 +97,12 @@ export interface DecisionResponse {
   agentIndex: number;
   observation: string; // VLM output
   action: string;      // action name
-  targetX: number;
+  targetX: number;     // resolved from `target` (0 when target is null)
   targetZ: number;
-  targetEntity: number;
+  targetEntity: number; // agentIndex for "agent" targets, else -1 (agent 0 is a valid target)
+  target: DecisionTarget | null;
+  danger: boolean;
+  rationale: string;
 }
 
 /** Parsed action ready to write into ECS. */
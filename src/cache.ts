@@ -1,63 +1,239 @@
-/** Server-side: SQLite cache for all GeoJSON layer data. */
+/**
+ * Server-side: SQLite chunk store for map features and elevation, plus a
+ * tile store for imagery.
+ *
+ * The world is cut into fixed CHUNK_DEG × CHUNK_DEG cells; each layer caches
+ * its data per cell, so any bounding box can be assembled from the cells it
+ * covers and overlapping areas share their cells. Each layer has its own
+ * schema version (older rows read as misses and are overwritten) and TTL.
+ */
 
 import { Database } from "bun:sqlite";
-import type { LayerData } from "./tiles.ts";
 
-const db = new Database("buildings.db", { create: true });
+export const CHUNK_DEG = 0.005; // ~550 m north–south
+
+/** Cached layers. `variant` tells data sets of one layer apart (e.g. Overpass vs a local extract). */
+export type ChunkLayer = "osm" | "elevation";
+
+/** Bump when the stored shape of a layer changes — older chunks are then refetched. */
+const SCHEMA_VERSION: Record<ChunkLayer, number> = {
+  osm: 2,   // 2: features carry _osmType
+  elevation: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TTL_MS: Record<ChunkLayer, number> = {
+  osm: 7 * DAY_MS,          // map edits
+  elevation: 90 * DAY_MS,   // terrain barely changes
+};
+
+// CACHE_DB points the cache at another file (or ":memory:"), e.g. for tests
+const db = new Database(process.env.CACHE_DB ?? "buildings.db", { create: true });
 
 db.run(`
-  CREATE TABLE IF NOT EXISTS cache (
-    key TEXT PRIMARY KEY,
+  CREATE TABLE IF NOT EXISTS chunks (
+    layer TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    cx INTEGER NOT NULL,
+    cy INTEGER NOT NULL,
+    version INTEGER NOT NULL,
     data TEXT NOT NULL,
-    fetched_at INTEGER NOT NULL
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (layer, variant, cx, cy)
   )
 `);
 
-// Migrate: drop old schema if it has `geojson` column instead of `data`
-try {
-  const info = db.query<{ name: string }, []>("PRAGMA table_info(cache)").all();
-  if (info.some((col) => col.name === "geojson")) {
-    db.run("DROP TABLE cache");
-    db.run(`
-      CREATE TABLE cache (
-        key TEXT PRIMARY KEY,
-        data TEXT NOT NULL,
-        fetched_at INTEGER NOT NULL
-      )
-    `);
-  }
-} catch {
-  // ignore
+// The whole-area cache this replaces can't be split into chunks
+db.run("DROP TABLE IF EXISTS cache");
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS tiles (
+    source TEXT NOT NULL,
+    z INTEGER NOT NULL,
+    x INTEGER NOT NULL,
+    y INTEGER NOT NULL,
+    content_type TEXT NOT NULL,
+    data BLOB NOT NULL,
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (source, z, x, y)
+  )
+`);
+
+const TILE_TTL_MS = 30 * DAY_MS;
+
+export interface ChunkKey {
+  cx: number; // column: floor(lon / CHUNK_DEG)
+  cy: number; // row: floor(lat / CHUNK_DEG)
 }
 
-const TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
 
-/** Round to 4 decimal places (~11m precision) to improve cache hit rate. */
-function cacheKey(lat: number, lon: number, size = 500): string {
-  return `${lat.toFixed(4)},${lon.toFixed(4)},${size}`;
+export function chunkBounds({ cx, cy }: ChunkKey): Bounds {
+  return { south: cy * CHUNK_DEG, north: (cy + 1) * CHUNK_DEG, west: cx * CHUNK_DEG, east: (cx + 1) * CHUNK_DEG };
 }
 
-export function getCached(lat: number, lon: number, size = 500): LayerData | null {
-  const key = cacheKey(lat, lon, size);
+/** Chunks a bounding box touches, west to east, south to north. */
+export function chunksCovering(b: Bounds): ChunkKey[] {
+  const keys: ChunkKey[] = [];
+  // Nudge inward so a box ending exactly on a chunk edge doesn't pull in the next chunk
+  const eps = 1e-9;
+  for (let cy = Math.floor(b.south / CHUNK_DEG + eps); cy <= Math.floor(b.north / CHUNK_DEG - eps); cy++) {
+    for (let cx = Math.floor(b.west / CHUNK_DEG + eps); cx <= Math.floor(b.east / CHUNK_DEG - eps); cx++) {
+      keys.push({ cx, cy });
+    }
+  }
+  return keys;
+}
+
+/** A chunk's cached data, or null when missing, expired or from an older schema. */
+export function getChunk<T>(layer: ChunkLayer, variant: string, key: ChunkKey): T | null {
   const row = db
-    .query<{ data: string; fetched_at: number }, [string]>(
-      "SELECT data, fetched_at FROM cache WHERE key = ?",
+    .query<{ data: string; version: number; fetched_at: number }, [string, string, number, number]>(
+      "SELECT data, version, fetched_at FROM chunks WHERE layer = ? AND variant = ? AND cx = ? AND cy = ?",
     )
-    .get(key);
+    .get(layer, variant, key.cx, key.cy);
 
   if (!row) return null;
-  if (Date.now() - row.fetched_at > TTL_MS) {
-    db.run("DELETE FROM cache WHERE key = ?", [key]);
-    return null;
+  if (row.version !== SCHEMA_VERSION[layer] || Date.now() - row.fetched_at > TTL_MS[layer]) return null;
+  return JSON.parse(row.data) as T;
+}
+
+export function putChunk(layer: ChunkLayer, variant: string, key: ChunkKey, data: unknown): void {
+  db.run(
+    "INSERT OR REPLACE INTO chunks (layer, variant, cx, cy, version, data, fetched_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    [layer, variant, key.cx, key.cy, SCHEMA_VERSION[layer], JSON.stringify(data), Date.now()],
+  );
+}
+
+/** Summary of the cached chunks of one layer and variant. */
+export interface CachedRegion extends Bounds {
+  layer: ChunkLayer;
+  variant: string;
+  chunks: number;
+  stale: number;       // expired or older schema — refetched on next use
+  bytes: number;
+  oldest: number;      // fetched_at, ms since epoch
+  newest: number;
+}
+
+export function listRegions(): CachedRegion[] {
+  const rows = db
+    .query<{ layer: ChunkLayer; variant: string; cx: number; cy: number; version: number; bytes: number; fetched_at: number }, []>(
+      "SELECT layer, variant, cx, cy, version, length(data) AS bytes, fetched_at FROM chunks",
+    )
+    .all();
+
+  const regions = new Map<string, CachedRegion>();
+  const now = Date.now();
+  for (const r of rows) {
+    const b = chunkBounds(r);
+    const id = `${r.layer}\u0000${r.variant}`;
+    let region = regions.get(id);
+    if (!region) {
+      region = { layer: r.layer, variant: r.variant, chunks: 0, stale: 0, bytes: 0, oldest: Infinity, newest: 0, ...b };
+      regions.set(id, region);
+    }
+    region.chunks++;
+    region.bytes += r.bytes;
+    if (r.version !== SCHEMA_VERSION[r.layer] || now - r.fetched_at > TTL_MS[r.layer]) region.stale++;
+    region.oldest = Math.min(region.oldest, r.fetched_at);
+    region.newest = Math.max(region.newest, r.fetched_at);
+    region.south = Math.min(region.south, b.south);
+    region.west = Math.min(region.west, b.west);
+    region.north = Math.max(region.north, b.north);
+    region.east = Math.max(region.east, b.east);
+  }
+  return [...regions.values()];
+}
+
+/** Delete cached chunks touching `bounds` (all of them when null), optionally of one layer only. Returns how many. */
+export function purgeChunks(bounds: Bounds | null, layer?: ChunkLayer): number {
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+  if (layer) {
+    where.push("layer = ?");
+    params.push(layer);
+  }
+  if (bounds) {
+    const keys = chunksCovering(bounds);
+    if (keys.length === 0) return 0;
+    where.push("cx BETWEEN ? AND ? AND cy BETWEEN ? AND ?");
+    params.push(keys[0]!.cx, keys[keys.length - 1]!.cx, keys[0]!.cy, keys[keys.length - 1]!.cy);
+  }
+  const sql = `DELETE FROM chunks${where.length > 0 ? ` WHERE ${where.join(" AND ")}` : ""}`;
+  return db.run(sql, params).changes;
+}
+
+// ─── Imagery tiles (XYZ addressing) ─────────────────────────────────────────
+
+export interface CachedTile {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export function getTile(source: string, z: number, x: number, y: number): CachedTile | null {
+  const row = db
+    .query<{ data: Uint8Array; content_type: string; fetched_at: number }, [string, number, number, number]>(
+      "SELECT data, content_type, fetched_at FROM tiles WHERE source = ? AND z = ? AND x = ? AND y = ?",
+    )
+    .get(source, z, x, y);
+
+  if (!row || Date.now() - row.fetched_at > TILE_TTL_MS) return null;
+  return { data: row.data, contentType: row.content_type };
+}
+
+export function putTile(source: string, z: number, x: number, y: number, tile: CachedTile): void {
+  db.run(
+    "INSERT OR REPLACE INTO tiles (source, z, x, y, content_type, data, fetched_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    [source, z, x, y, tile.contentType, tile.data, Date.now()],
+  );
+}
+
+/** Summary of the cached tiles of one imagery source. */
+export interface CachedTileSource {
+  source: string;
+  tiles: number;
+  stale: number;
+  bytes: number;
+  oldest: number;
+  newest: number;
+}
+
+export function listTileSources(): CachedTileSource[] {
+  return db
+    .query<CachedTileSource, [number]>(
+      `SELECT source, COUNT(*) AS tiles, SUM(fetched_at < ?) AS stale, SUM(length(data)) AS bytes,
+              MIN(fetched_at) AS oldest, MAX(fetched_at) AS newest
+       FROM tiles GROUP BY source`,
+    )
+    .all(Date.now() - TILE_TTL_MS);
+}
+
+/** Delete cached tiles touching `bounds` at any zoom (all of them when null). Returns how many. */
+export function purgeTiles(bounds: Bounds | null): number {
+  if (!bounds) return db.run("DELETE FROM tiles").changes;
+  let purged = 0;
+  for (let z = 0; z <= 22; z++) {
+    const [x0, y0] = tileAt(bounds.north, bounds.west, z);
+    const [x1, y1] = tileAt(bounds.south, bounds.east, z);
+    purged += db.run(
+      "DELETE FROM tiles WHERE z = ? AND x BETWEEN ? AND ? AND y BETWEEN ? AND ?",
+      [z, x0, x1, y0, y1],
+    ).changes;
   }
-  return JSON.parse(row.data) as LayerData;
+  return purged;
 }
 
-export function setCache(lat: number, lon: number, layers: LayerData, size = 500): void {
-  const key = cacheKey(lat, lon, size);
-  db.run("INSERT OR REPLACE INTO cache (key, data, fetched_at) VALUES (?, ?, ?)", [
-    key,
-    JSON.stringify(layers),
-    Date.now(),
-  ]);
+/** XYZ (Web Mercator) tile holding a point at zoom `z`. */
+function tileAt(lat: number, lon: number, z: number): [number, number] {
+  const n = 2 ** z;
+  const latRad = (lat * Math.PI) / 180;
+  const x = Math.floor(((lon + 180) / 360) * n);
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n);
+  return [Math.min(n - 1, Math.max(0, x)), Math.min(n - 1, Math.max(0, y))];
 }
@@ -56,6 +56,17 @@ export enum ActionType {
   IDLE = 0,
   WALK_TO = 1,
   RUN_TO = 2,
+  HELP_AGENT = 3,    // go to an injured agent (targetEid)
+  FOLLOW = 4,        // stay close behind another agent (targetEid)
+  CARRY_INJURED = 5, // carry targetEid to (targetX, targetZ)
+  SHELTER = 6,       // take cover in the building nearest (targetX, targetZ)
+}
+
+/** Bits of AgentState.injured. */
+export enum InjuryFlag {
+  MINOR = 1,
+  MAJOR = 2,    // can no longer run
+  CRITICAL = 4, // can barely move — needs carrying
 }
 
 export const Agent = {
@@ -66,15 +77,19 @@ export const AgentState = {
   health:     new Float32Array(MAX_ENTITIES),
   stamina:    new Float32Array(MAX_ENTITIES),
   panicLevel: new Float32Array(MAX_ENTITIES),
-  injured:    new Uint8Array(MAX_ENTITIES),   // bitmask: 1=minor, 2=major, 4=critical
+  injured:    new Uint8Array(MAX_ENTITIES),   // bitmask of InjuryFlag: 1=minor, 2=major, 4=critical
   alive:      new Uint8Array(MAX_ENTITIES),   // 1=alive, 0=dead
+  trapped:    new Uint8Array(MAX_ENTITIES),   // 1=pinned under rubble until someone frees them
 };
 
+/** AgentAction.targetEid of an action with no target — bitECS entity ids start at 0. */
+export const NO_TARGET = -1;
+
 export const AgentAction = {
   actionType: new Uint8Array(MAX_ENTITIES),
   targetX:    new Float64Array(MAX_ENTITIES),
   targetZ:    new Float64Array(MAX_ENTITIES),
-  targetEid:  new Uint32Array(MAX_ENTITIES),
+  targetEid:  new Int32Array(MAX_ENTITIES),
   progress:   new Float32Array(MAX_ENTITIES),
 };
 
@@ -1,10 +1,30 @@
+import type { VortexModel } from "../disasters/vortex.ts";
+
 export type Vec3 = [number, number, number];
 
+/** Shaking over one square patch of the scene — a quake emits one per patch, covering the scene. */
 export type GroundShakeEvent = {
   type: "GROUND_SHAKE";
   epicenter: Vec3;
+  rupture: [number, number] | null; // far end (x, z) of the rupture's surface trace; null for a point source
   magnitude: number;
-  pga: number;
+  position: Vec3;     // patch center
+  halfSize: number;   // patch half-width (m)
+  pga: number;        // peak ground acceleration there (g)
+  pgv: number;        // peak ground velocity (cm/s)
+  mmi: number;
+  envelope: number;   // share of the peak shaking right now, 0–1
+};
+
+/** A shock of an aftershock sequence begins; its shaking follows as GROUND_SHAKE. */
+export type AftershockEvent = {
+  type: "AFTERSHOCK";
+  epicenter: Vec3;
+  magnitude: number;
+  depthKm: number;
+  mainshockMagnitude: number;
+  sequenceIndex: number;   // 1 for the first aftershock
+  sequenceLength: number;  // aftershocks in the sequence
 };
 
 export type GroundDisplacementEvent = {
@@ -42,6 +62,8 @@ export type WindFieldUpdateEvent = {
   coreRadius: number;
   outerRadius: number;
   maxWindSpeed: number;
+  model: VortexModel;
+  translationSpeed: number;
 };
 
 export type AgentDamagedEvent = {
@@ -59,15 +81,43 @@ export type AgentDeathEvent = {
   position: Vec3;
 };
 
+export type AgentRescuedEvent = {
+  type: "AGENT_RESCUED";
+  agentIndex: number;   // the rescued agent
+  rescuerIndex: number;
+  position: Vec3;       // where they were delivered
+  mode: "carried" | "guided";
+};
+
+export type AgentEvacuatedEvent = {
+  type: "AGENT_EVACUATED";
+  agentIndex: number;
+  destinationId: string; // EvacuationPoint.id
+  position: Vec3;
+};
+
+export type RoadBlockageEvent = {
+  type: "ROAD_BLOCKAGE";
+  edge: [number, number];   // RoadGraph node ids
+  position: Vec3;           // edge midpoint
+  state: "blocked" | "slowed" | "cleared";
+  factor: number;           // travel-cost multiplier while slowed, else 1
+  cause: "collapse" | "rubble" | "debris" | "tree" | "water";
+};
+
 export type DisasterEvent =
   | GroundShakeEvent
+  | AftershockEvent
   | GroundDisplacementEvent
   | StructureCollapseEvent
   | FloodLevelEvent
   | FireSpreadEvent
   | WindFieldUpdateEvent
   | AgentDamagedEvent
-  | AgentDeathEvent;
+  | AgentDeathEvent
+  | AgentRescuedEvent
+  | AgentEvacuatedEvent
+  | RoadBlockageEvent;
 
 export type EventType = DisasterEvent["type"] | "*";
 export type EventListener = (event: DisasterEvent) => void;
@@ -0,0 +1,39 @@
+/** Fresh 32-bit seed for runs that didn't ask for one (the only Math.random left in sim code). */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32) >>> 0;
+}
+
+/** Stream id the cosmetic-only generator (SimWorld.visualRng) is split off the seed with. */
+export const VISUAL_STREAM = 1;
+
+/** Stream id a cascade's tsunami surge (TsunamiSurge) draws its debris and spray from. */
+export const TSUNAMI_STREAM = 2;
+
+/**
+ * Seedable PRNG (mulberry32). SimWorld owns one per run and hands it to every
+ * simulator and system, so the same seed replays the same random draws.
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Uniform float in [0, 1) — drop-in for Math.random(). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = Math.imul(this.state ^ (this.state >>> 15), 1 | this.state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** An independent generator seeded from this one's seed and `stream` — same seed, same split. */
+  split(stream: number): SeededRandom {
+    let h = Math.imul(this.seed ^ Math.imul(stream, 0x9e3779b1), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return new SeededRandom(h ^ (h >>> 16));
+  }
+}
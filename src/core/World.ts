@@ -14,12 +14,18 @@ import {
   AgentAction,
   AgentFacing,
 } from "./Components.ts";
+import { SeededRandom, VISUAL_STREAM } from "./Random.ts";
 
 export type SystemFn = (world: any, dt: number) => void;
 
+/** Reads the run's sim time (s) — see SimWorld.time. */
+export type SimClock = () => number;
+
 export interface SimWorldOptions {
   fixedDt?: number;
   maxTicksPerUpdate?: number;
+  /** PRNG seed for the run; random when omitted (read back via `seed`). */
+  seed?: number;
 }
 
 const ALL_COMPONENTS = [
@@ -41,6 +47,10 @@ const ALL_COMPONENTS = [
 export class SimWorld {
   readonly ecsWorld: ReturnType<typeof createWorld>;
   readonly fixedDt: number;
+  /** Shared PRNG — every simulator and system draws from this instead of Math.random. */
+  readonly rng: SeededRandom;
+  /** Cosmetic-only PRNG (particles, road cracks, idle car wander), split from the seed so rendering never shifts `rng`. */
+  readonly visualRng: SeededRandom;
 
   private _tick = 0;
   private _accumulator = 0;
@@ -56,6 +66,8 @@ export class SimWorld {
     this.ecsWorld = createWorld();
     this.fixedDt = options.fixedDt ?? 1 / 60;
     this._maxTicksPerUpdate = options.maxTicksPerUpdate ?? 10;
+    this.rng = new SeededRandom(options.seed);
+    this.visualRng = this.rng.split(VISUAL_STREAM);
 
     // Register all components
     for (const c of ALL_COMPONENTS) {
@@ -67,6 +79,15 @@ export class SimWorld {
     return this._tick;
   }
 
+  /** Sim seconds since the run started: fixed steps taken × fixedDt, whatever the wall clock or time scale. */
+  get time(): number {
+    return this._tick * this.fixedDt;
+  }
+
+  get seed(): number {
+    return this.rng.seed;
+  }
+
   get alpha(): number {
     return this._alpha;
   }
@@ -114,12 +135,8 @@ export class SimWorld {
 
     let ticks = 0;
     while (this._accumulator >= this.fixedDt && ticks < this._maxTicksPerUpdate) {
-      for (const name of this.systemOrder) {
-        const sys = this.systems.get(name);
-        if (sys) sys(this.ecsWorld, this.fixedDt);
-      }
+      this.step();
       this._accumulator -= this.fixedDt;
-      this._tick++;
       ticks++;
     }
 
@@ -130,6 +147,15 @@ export class SimWorld {
     this._alpha = this._accumulator / this.fixedDt;
   }
 
+  /** Run every system exactly once at fixedDt, bypassing the accumulator. */
+  step(): void {
+    for (const name of this.systemOrder) {
+      const sys = this.systems.get(name);
+      if (sys) sys(this.ecsWorld, this.fixedDt);
+    }
+    this._tick++;
+  }
+
   createEntity(): number {
     return addEntity(this.ecsWorld);
   }
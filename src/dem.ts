@@ -0,0 +1,602 @@
+/**
+ * Server-side: local elevation tiles — GeoTIFF DEMs and SRTM `.hgt` files —
+ * read at their native resolution and resampled onto an ElevationGrid.
+ *
+ * Only what a DEM needs is supported: single-band rasters (8–64 bit int or
+ * float), strips or tiles, no / LZW / Deflate compression with or without a
+ * predictor, in geographic coordinates (EPSG:4326, 4269, 4258) or UTM
+ * (EPSG:326xx, 327xx, 269xx, 258xx). Only the blocks covering the requested
+ * area are read from disk.
+ */
+
+import { readdirSync } from "fs";
+import { join, basename, extname } from "path";
+import { inflateSync } from "zlib";
+import type { ElevationGrid, ElevationSource } from "./elevation.ts";
+
+export const MIN_GRID_SIZE = 12;
+export const MAX_GRID_SIZE = 4097; // memory guard, not a resolution cap — 2 km at 1 m is 2001
+const MIN_SPACING_METERS = 1;     // never sample finer than this, whatever the DEM
+const DEM_EXTENSIONS = new Set([".tif", ".tiff", ".hgt"]);
+
+/** Coordinate system of a DEM's pixel grid. */
+export type DemCrs =
+  | { kind: "geographic" }                              // x = lon, y = lat (degrees)
+  | { kind: "utm"; zone: number; south: boolean };      // x = easting, y = northing (meters)
+
+/** A single-band elevation raster. Pixel (0, 0) is the north-west corner; rows run south. */
+export interface DemRaster {
+  readonly path: string;
+  readonly width: number;
+  readonly height: number;
+  readonly crs: DemCrs;
+  readonly originX: number; // CRS x of the outer corner of pixel (0, 0)
+  readonly originY: number; // CRS y of that corner
+  readonly scaleX: number;  // pixel width in CRS units
+  readonly scaleY: number;  // pixel height in CRS units (positive; y decreases down the rows)
+  /** Elevations (m) of a cols×rows window, row-major; NaN where the DEM has no data. */
+  readWindow(col0: number, row0: number, cols: number, rows: number): Promise<Float32Array>;
+}
+
+// ─── Projection ─────────────────────────────────────────────────────────────
+
+const DEG = Math.PI / 180;
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const UTM_K0 = 0.9996;
+
+/** WGS84 lat/lon → UTM easting/northing (Snyder's series; NAD83 and ETRS89 differ by under a meter). */
+export function toUtm(lat: number, lon: number, zone: number, south: boolean): { x: number; y: number } {
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const ep2 = e2 / (1 - e2);
+  const phi = lat * DEG;
+  const lam0 = (zone * 6 - 183) * DEG;
+  const sin = Math.sin(phi);
+  const cos = Math.cos(phi);
+  const tan = Math.tan(phi);
+
+  const n = WGS84_A / Math.sqrt(1 - e2 * sin * sin);
+  const t = tan * tan;
+  const c = ep2 * cos * cos;
+  const a = cos * (lon * DEG - lam0);
+  const m = WGS84_A * (
+    (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256) * phi
+    - ((3 * e2) / 8 + (3 * e2 * e2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * phi)
+    + ((15 * e2 * e2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * phi)
+    - ((35 * e2 ** 3) / 3072) * Math.sin(6 * phi)
+  );
+
+  const x = UTM_K0 * n * (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5) / 120) + 500000;
+  const y = UTM_K0 * (m + n * tan * ((a * a) / 2 + ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24
+    + ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6) / 720));
+  return { x, y: south ? y + 10000000 : y };
+}
+
+/** WGS84 lat/lon in a raster's CRS. */
+export function project(crs: DemCrs, lat: number, lon: number): { x: number; y: number } {
+  return crs.kind === "geographic" ? { x: lon, y: lat } : toUtm(lat, lon, crs.zone, crs.south);
+}
+
+function crsFromEpsg(code: number, path: string): DemCrs {
+  if (code === 4326 || code === 4269 || code === 4258) return { kind: "geographic" };
+  if (code >= 32601 && code <= 32660) return { kind: "utm", zone: code - 32600, south: false };
+  if (code >= 32701 && code <= 32760) return { kind: "utm", zone: code - 32700, south: true };
+  if (code >= 26901 && code <= 26923) return { kind: "utm", zone: code - 26900, south: false };
+  if (code >= 25828 && code <= 25838) return { kind: "utm", zone: code - 25800, south: false };
+  throw new Error(`${basename(path)}: unsupported CRS EPSG:${code} — reproject to EPSG:4326 or UTM`);
+}
+
+/** Ground size (m) of one pixel near `lat` — the smaller side. */
+export function pixelMeters(r: DemRaster, lat: number): number {
+  if (r.crs.kind === "utm") return Math.min(r.scaleX, r.scaleY);
+  const mPerDeg = DEG * WGS84_A;
+  return Math.min(r.scaleX * mPerDeg * Math.cos(lat * DEG), r.scaleY * mPerDeg);
+}
+
+// ─── SRTM .hgt ──────────────────────────────────────────────────────────────
+
+const HGT_VOID = -32768;
+
+/** SRTM tile: big-endian int16, 1201² (3″) or 3601² (1″) posts, named after its south-west corner. */
+class HgtRaster implements DemRaster {
+  readonly crs: DemCrs = { kind: "geographic" };
+  readonly width: number;
+  readonly height: number;
+  readonly originX: number;
+  readonly originY: number;
+  readonly scaleX: number;
+  readonly scaleY: number;
+
+  constructor(readonly path: string, fileSize: number) {
+    const m = /^([NS])(\d{2})([EW])(\d{3})/i.exec(basename(path));
+    if (!m) throw new Error(`${basename(path)}: .hgt name must look like N40W074.hgt`);
+    const lat = parseInt(m[2]!, 10) * (m[1]!.toUpperCase() === "S" ? -1 : 1);
+    const lon = parseInt(m[4]!, 10) * (m[3]!.toUpperCase() === "W" ? -1 : 1);
+    const posts = Math.round(Math.sqrt(fileSize / 2));
+    if (posts * posts * 2 !== fileSize) throw new Error(`${basename(path)}: not a square SRTM tile (${fileSize} bytes)`);
+    this.width = posts;
+    this.height = posts;
+    // Posts sit on whole degrees at the edges (pixel-is-point) — shift to the corner of post (0, 0)
+    this.scaleX = 1 / (posts - 1);
+    this.scaleY = 1 / (posts - 1);
+    this.originX = lon - this.scaleX / 2;
+    this.originY = lat + 1 + this.scaleY / 2;
+  }
+
+  async readWindow(col0: number, row0: number, cols: number, rows: number): Promise<Float32Array> {
+    const out = new Float32Array(cols * rows);
+    const rowBytes = this.width * 2;
+    const buf = await Bun.file(this.path).slice(row0 * rowBytes, (row0 + rows) * rowBytes).arrayBuffer();
+    const view = new DataView(buf);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const v = view.getInt16(r * rowBytes + (col0 + c) * 2, false);
+        out[r * cols + c] = v === HGT_VOID ? NaN : v;
+      }
+    }
+    return out;
+  }
+}
+
+// ─── GeoTIFF ────────────────────────────────────────────────────────────────
+
+const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  Predictor: 317,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  SampleFormat: 339,
+  ModelPixelScale: 33550,
+  ModelTiepoint: 33922,
+  GeoKeyDirectory: 34735,
+  GdalNodata: 42113,
+} as const;
+
+const GEOKEY = {
+  ModelType: 1024,
+  RasterType: 1025,
+  GeographicType: 2048,
+  ProjectedCSType: 3072,
+} as const;
+
+const TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type TagValue = number[] | string;
+
+async function readBytes(path: string, offset: number, length: number): Promise<DataView> {
+  return new DataView(await Bun.file(path).slice(offset, offset + length).arrayBuffer());
+}
+
+function readValue(view: DataView, at: number, type: number, le: boolean): number {
+  switch (type) {
+    case 3: return view.getUint16(at, le);
+    case 4: return view.getUint32(at, le);
+    case 5: return view.getUint32(at, le) / view.getUint32(at + 4, le);
+    case 6: return view.getInt8(at);
+    case 8: return view.getInt16(at, le);
+    case 9: return view.getInt32(at, le);
+    case 10: return view.getInt32(at, le) / view.getInt32(at + 4, le);
+    case 11: return view.getFloat32(at, le);
+    case 12: return view.getFloat64(at, le);
+    default: return view.getUint8(at);
+  }
+}
+
+/** Tags of the first IFD (the full-resolution image; overviews follow it). */
+async function readIfd(path: string): Promise<{ tags: Map<number, TagValue>; le: boolean }> {
+  const header = await readBytes(path, 0, 8);
+  const order = String.fromCharCode(header.getUint8(0), header.getUint8(1));
+  if (order !== "II" && order !== "MM") throw new Error(`${basename(path)}: not a TIFF file`);
+  const le = order === "II";
+  const magic = header.getUint16(2, le);
+  if (magic === 43) throw new Error(`${basename(path)}: BigTIFF is not supported — convert with gdal_translate`);
+  if (magic !== 42) throw new Error(`${basename(path)}: not a TIFF file`);
+
+  const ifdOffset = header.getUint32(4, le);
+  const count = (await readBytes(path, ifdOffset, 2)).getUint16(0, le);
+  const entries = await readBytes(path, ifdOffset + 2, count * 12);
+  const tags = new Map<number, TagValue>();
+  for (let i = 0; i < count; i++) {
+    const at = i * 12;
+    const tag = entries.getUint16(at, le);
+    const type = entries.getUint16(at + 2, le);
+    const n = entries.getUint32(at + 4, le);
+    const size = (TYPE_SIZE[type] ?? 1) * n;
+    const [view, base] = size <= 4
+      ? [entries, at + 8]
+      : [await readBytes(path, entries.getUint32(at + 8, le), size), 0];
+    if (type === 2) {
+      let s = "";
+      for (let k = 0; k < n; k++) s += String.fromCharCode(view.getUint8(base + k));
+      tags.set(tag, s.replace(/\0+$/, ""));
+    } else {
+      const values: number[] = [];
+      for (let k = 0; k < n; k++) values.push(readValue(view, base + k * (TYPE_SIZE[type] ?? 1), type, le));
+      tags.set(tag, values);
+    }
+  }
+  return { tags, le };
+}
+
+/** TIFF LZW (MSB-first codes, early code-width change). */
+function decodeLzw(src: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  let outPos = 0;
+  let bitPos = 0;
+  let codeLen = 9;
+  let table: Uint8Array[] = [];
+  const reset = () => {
+    table = [];
+    for (let i = 0; i < 258; i++) table.push(Uint8Array.of(i));
+    codeLen = 9;
+  };
+  const extend = (a: Uint8Array, b: number) => {
+    const e = new Uint8Array(a.length + 1);
+    e.set(a);
+    e[a.length] = b;
+    return e;
+  };
+
+  reset();
+  let prev: Uint8Array | null = null;
+  while (bitPos + codeLen <= src.length * 8 && outPos < size) {
+    const byte = bitPos >> 3;
+    const chunk = ((src[byte] ?? 0) << 16) | ((src[byte + 1] ?? 0) << 8) | (src[byte + 2] ?? 0);
+    const code = (chunk >> (24 - (bitPos & 7) - codeLen)) & ((1 << codeLen) - 1);
+    bitPos += codeLen;
+    if (code === 257) break;
+    if (code === 256) {
+      reset();
+      prev = null;
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < table.length) entry = table[code]!;
+    else if (prev) entry = extend(prev, prev[0]!);
+    else break;
+    out.set(entry.subarray(0, size - outPos), outPos);
+    outPos += entry.length;
+    if (prev) table.push(extend(prev, entry[0]!));
+    prev = entry;
+    if (table.length + 1 >= 1 << codeLen && codeLen < 12) codeLen++;
+  }
+  return out;
+}
+
+/** Single-band GeoTIFF DEM, read block by block. */
+class GeoTiffRaster implements DemRaster {
+  readonly crs: DemCrs;
+  readonly width: number;
+  readonly height: number;
+  readonly originX: number;
+  readonly originY: number;
+  readonly scaleX: number;
+  readonly scaleY: number;
+
+  private le: boolean;
+  private bits: number;
+  private format: number;     // 1 uint, 2 int, 3 float
+  private compression: number;
+  private predictor: number;
+  private nodata: number | null;
+  private blockWidth: number;
+  private blockHeight: number;
+  private blocksAcross: number;
+  private offsets: number[];
+  private byteCounts: number[];
+
+  private constructor(readonly path: string, tags: Map<number, TagValue>, le: boolean) {
+    const nums = (tag: number): number[] | undefined => {
+      const v = tags.get(tag);
+      return Array.isArray(v) ? v : undefined;
+    };
+    const num = (tag: number, fallback?: number): number => {
+      const v = nums(tag)?.[0] ?? fallback;
+      if (v === undefined) throw new Error(`${basename(path)}: missing TIFF tag ${tag}`);
+      return v;
+    };
+
+    this.le = le;
+    this.width = num(TAG.ImageWidth);
+    this.height = num(TAG.ImageLength);
+    if (num(TAG.SamplesPerPixel, 1) !== 1) throw new Error(`${basename(path)}: DEM must have a single band`);
+    this.bits = num(TAG.BitsPerSample, 8);
+    this.format = num(TAG.SampleFormat, 1);
+    this.compression = num(TAG.Compression, 1);
+    if (![1, 5, 8, 32946].includes(this.compression)) {
+      throw new Error(`${basename(path)}: unsupported compression ${this.compression} (use none, LZW or Deflate)`);
+    }
+    this.predictor = num(TAG.Predictor, 1);
+
+    const nodata = tags.get(TAG.GdalNodata);
+    this.nodata = typeof nodata === "string" && nodata.trim() !== "" ? parseFloat(nodata) : null;
+
+    if (tags.has(TAG.TileWidth)) {
+      this.blockWidth = num(TAG.TileWidth);
+      this.blockHeight = num(TAG.TileLength);
+      this.offsets = nums(TAG.TileOffsets) ?? [];
+      this.byteCounts = nums(TAG.TileByteCounts) ?? [];
+    } else {
+      this.blockWidth = this.width;
+      this.blockHeight = Math.min(this.height, num(TAG.RowsPerStrip, this.height));
+      this.offsets = nums(TAG.StripOffsets) ?? [];
+      this.byteCounts = nums(TAG.StripByteCounts) ?? [];
+    }
+    this.blocksAcross = Math.ceil(this.width / this.blockWidth);
+
+    const scale = nums(TAG.ModelPixelScale);
+    const tie = nums(TAG.ModelTiepoint);
+    if (!scale || !tie) throw new Error(`${basename(path)}: no georeferencing (ModelPixelScale / ModelTiepoint)`);
+    this.scaleX = scale[0]!;
+    this.scaleY = scale[1]!;
+
+    // GeoKey directory: 4-short header, then [key, location, count, value] per key
+    const keys = new Map<number, number>();
+    const dir = nums(TAG.GeoKeyDirectory) ?? [];
+    for (let i = 4; i + 3 < dir.length; i += 4) {
+      if (dir[i + 1] === 0) keys.set(dir[i]!, dir[i + 3]!);
+    }
+    const modelType = keys.get(GEOKEY.ModelType) ?? 2;
+    this.crs = crsFromEpsg(modelType === 1 ? (keys.get(GEOKEY.ProjectedCSType) ?? 0) : (keys.get(GEOKEY.GeographicType) ?? 4326), path);
+
+    // Tiepoint maps raster (i, j) to model (x, y); pixel-is-point rasters tie pixel centers
+    const pointShift = keys.get(GEOKEY.RasterType) === 2 ? 0.5 : 0;
+    this.originX = tie[3]! - (tie[0]! + pointShift) * this.scaleX;
+    this.originY = tie[4]! + (tie[1]! + pointShift) * this.scaleY;
+  }
+
+  static async open(path: string): Promise<GeoTiffRaster> {
+    const { tags, le } = await readIfd(path);
+    return new GeoTiffRaster(path, tags, le);
+  }
+
+  async readWindow(col0: number, row0: number, cols: number, rows: number): Promise<Float32Array> {
+    const out = new Float32Array(cols * rows).fill(NaN);
+    const bx0 = Math.floor(col0 / this.blockWidth);
+    const bx1 = Math.floor((col0 + cols - 1) / this.blockWidth);
+    const by0 = Math.floor(row0 / this.blockHeight);
+    const by1 = Math.floor((row0 + rows - 1) / this.blockHeight);
+    for (let by = by0; by <= by1; by++) {
+      for (let bx = bx0; bx <= bx1; bx++) {
+        const block = await this.readBlock(by * this.blocksAcross + bx);
+        if (!block) continue;
+        const left = bx * this.blockWidth;
+        const top = by * this.blockHeight;
+        for (let r = Math.max(row0, top); r < Math.min(row0 + rows, top + this.blockHeight, this.height); r++) {
+          for (let c = Math.max(col0, left); c < Math.min(col0 + cols, left + this.blockWidth, this.width); c++) {
+            const v = block[(r - top) * this.blockWidth + (c - left)]!;
+            out[(r - row0) * cols + (c - col0)] = v === this.nodata || !Number.isFinite(v) ? NaN : v;
+          }
+        }
+      }
+    }
+    return out;
+  }
+
+  /** One strip or tile as sample values (blockWidth × blockHeight). */
+  private async readBlock(index: number): Promise<Float64Array | null> {
+    const offset = this.offsets[index];
+    const byteCount = this.byteCounts[index];
+    if (offset === undefined || !byteCount) return null;
+    const bytesPer = this.bits / 8;
+    const size = this.blockWidth * this.blockHeight * bytesPer;
+
+    const raw = new Uint8Array(await Bun.file(this.path).slice(offset, offset + byteCount).arrayBuffer());
+    let bytes: Uint8Array = this.compression === 1 ? raw
+      : this.compression === 5 ? decodeLzw(raw, size)
+      : new Uint8Array(inflateSync(raw));
+    if (bytes.length < size) {
+      const padded = new Uint8Array(size);
+      padded.set(bytes);
+      bytes = padded;
+    }
+
+    // Floating-point predictor: per row, undo byte differencing then regroup the byte planes (stored MSB first)
+    let le = this.le;
+    if (this.predictor === 3) {
+      const rowBytes = this.blockWidth * bytesPer;
+      const regrouped = new Uint8Array(size);
+      for (let r = 0; r < this.blockHeight; r++) {
+        const row = bytes.subarray(r * rowBytes, (r + 1) * rowBytes);
+        for (let i = 1; i < rowBytes; i++) row[i] = (row[i]! + row[i - 1]!) & 0xff;
+        for (let i = 0; i < this.blockWidth; i++) {
+          for (let b = 0; b < bytesPer; b++) regrouped[r * rowBytes + i * bytesPer + b] = row[b * this.blockWidth + i]!;
+        }
+      }
+      bytes = regrouped;
+      le = false;
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, size);
+    const n = this.blockWidth * this.blockHeight;
+    const values = new Float64Array(n);
+    for (let i = 0; i < n; i++) values[i] = this.sample(view, i * bytesPer, le);
+
+    // Horizontal predictor: integer differences along each row, wrapping at the sample width
+    if (this.predictor === 2) {
+      const wrap = 2 ** this.bits;
+      const half = wrap / 2;
+      for (let r = 0; r < this.blockHeight; r++) {
+        for (let c = 1; c < this.blockWidth; c++) {
+          const i = r * this.blockWidth + c;
+          let v = (values[i]! + values[i - 1]!) % wrap;
+          if (this.format === 2) v = v >= half ? v - wrap : v < -half ? v + wrap : v;
+          else if (v < 0) v += wrap;
+          values[i] = v;
+        }
+      }
+    }
+    return values;
+  }
+
+  private sample(view: DataView, at: number, le: boolean): number {
+    if (this.format === 3) return this.bits === 64 ? view.getFloat64(at, le) : view.getFloat32(at, le);
+    const signed = this.format === 2;
+    switch (this.bits) {
+      case 8: return signed ? view.getInt8(at) : view.getUint8(at);
+      case 16: return signed ? view.getInt16(at, le) : view.getUint16(at, le);
+      case 32: return signed ? view.getInt32(at, le) : view.getUint32(at, le);
+      default: throw new Error(`${basename(this.path)}: unsupported sample size ${this.bits} bits`);
+    }
+  }
+}
+
+/** Open a DEM file by extension. */
+export async function openDem(path: string): Promise<DemRaster> {
+  if (extname(path).toLowerCase() === ".hgt") return new HgtRaster(path, Bun.file(path).size);
+  return GeoTiffRaster.open(path);
+}
+
+// ─── Resampling ─────────────────────────────────────────────────────────────
+
+/** Replace NaN voids with the nearest valid value along the row, else along the column. */
+function fillVoids(values: number[][]): void {
+  const n = values.length;
+  const nearest = (get: (i: number) => number, at: number): number => {
+    for (let d = 1; d < n; d++) {
+      if (at - d >= 0 && !Number.isNaN(get(at - d))) return get(at - d);
+      if (at + d < n && !Number.isNaN(get(at + d))) return get(at + d);
+    }
+    return NaN;
+  };
+  const filled = values.map((row, r) => row.map((v, c) => {
+    if (!Number.isNaN(v)) return v;
+    const along = nearest((i) => row[i]!, c);
+    return Number.isNaN(along) ? nearest((i) => values[i]![c]!, r) : along;
+  }));
+  let sum = 0;
+  let count = 0;
+  for (const row of filled) for (const v of row) if (!Number.isNaN(v)) { sum += v; count++; }
+  const mean = count > 0 ? sum / count : 0;
+  filled.forEach((row, r) => row.forEach((v, c) => { values[r]![c] = Number.isNaN(v) ? mean : v; }));
+}
+
+/**
+ * Elevation from DEM files in a directory (searched recursively). Where
+ * tiles overlap, the finest one wins; the grid is sampled at the finest
+ * native resolution among the tiles that cover the area. Areas the files
+ * don't cover go to `fallback`, if given.
+ */
+export class LocalDemSource implements ElevationSource {
+  readonly name: string;
+  private dir: string;
+  private fallback: ElevationSource | null;
+  private rasters: Promise<DemRaster[]> | null = null;
+
+  constructor(dir: string, fallback: ElevationSource | null = null) {
+    this.dir = dir;
+    this.fallback = fallback;
+    this.name = fallback ? `local DEM (${dir}), else ${fallback.name}` : `local DEM (${dir})`;
+  }
+
+  async fetchGrid(south: number, west: number, north: number, east: number): Promise<ElevationGrid> {
+    if (!this.fallback) return this.readGrid(south, west, north, east);
+    try {
+      return await this.readGrid(south, west, north, east);
+    } catch (err) {
+      console.warn(`[DEM] ${(err as Error).message} — using ${this.fallback.name}`);
+      return this.fallback.fetchGrid(south, west, north, east);
+    }
+  }
+
+  /** Grid from the local files only; throws when they don't cover the area. */
+  async readGrid(south: number, west: number, north: number, east: number): Promise<ElevationGrid> {
+    const latMid = (south + north) / 2;
+    const covering: { raster: DemRaster; col0: number; row0: number; cols: number; rows: number }[] = [];
+    for (const raster of await this.index()) {
+      // Window of pixels under the bbox (corners projected into the raster's CRS), plus a pixel of margin
+      const corners = [project(raster.crs, south, west), project(raster.crs, south, east), project(raster.crs, north, west), project(raster.crs, north, east)];
+      const col0 = Math.max(0, Math.floor(Math.min(...corners.map((p) => (p.x - raster.originX) / raster.scaleX))) - 1);
+      const col1 = Math.min(raster.width - 1, Math.ceil(Math.max(...corners.map((p) => (p.x - raster.originX) / raster.scaleX))) + 1);
+      const row0 = Math.max(0, Math.floor(Math.min(...corners.map((p) => (raster.originY - p.y) / raster.scaleY))) - 1);
+      const row1 = Math.min(raster.height - 1, Math.ceil(Math.max(...corners.map((p) => (raster.originY - p.y) / raster.scaleY))) + 1);
+      if (col1 < col0 || row1 < row0) continue;
+      covering.push({ raster, col0, row0, cols: col1 - col0 + 1, rows: row1 - row0 + 1 });
+    }
+    if (covering.length === 0) {
+      throw new Error(`No DEM in ${this.dir} covers (${south.toFixed(4)}, ${west.toFixed(4)}) – (${north.toFixed(4)}, ${east.toFixed(4)})`);
+    }
+    covering.sort((a, b) => pixelMeters(a.raster, latMid) - pixelMeters(b.raster, latMid));
+
+    const spacing = Math.max(MIN_SPACING_METERS, pixelMeters(covering[0]!.raster, latMid));
+    const mPerDeg = DEG * WGS84_A;
+    const longestSide = Math.max((east - west) * mPerDeg * Math.cos(latMid * DEG), (north - south) * mPerDeg);
+    const gridSize = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(longestSide / spacing) + 1));
+    const latStep = (north - south) / (gridSize - 1);
+    const lonStep = (east - west) / (gridSize - 1);
+
+    const values: number[][] = Array.from({ length: gridSize }, () => new Array(gridSize).fill(NaN));
+    let missing = gridSize * gridSize;
+    for (const { raster, col0, row0, cols, rows } of covering) {
+      if (missing === 0) break;
+      const window = await raster.readWindow(col0, row0, cols, rows);
+      const at = (c: number, r: number) => window[r * cols + c]!;
+      for (let row = 0; row < gridSize; row++) {
+        for (let col = 0; col < gridSize; col++) {
+          if (!Number.isNaN(values[row]![col]!)) continue;
+          const p = project(raster.crs, south + row * latStep, west + col * lonStep);
+          // Fractional position between pixel centers, relative to the window
+          const fx = (p.x - raster.originX) / raster.scaleX - 0.5 - col0;
+          const fy = (raster.originY - p.y) / raster.scaleY - 0.5 - row0;
+          const c0 = Math.max(0, Math.min(cols - 2, Math.floor(fx)));
+          const r0 = Math.max(0, Math.min(rows - 2, Math.floor(fy)));
+          if (fx < -0.5 || fy < -0.5 || fx > cols - 0.5 || fy > rows - 0.5 || cols < 2 || rows < 2) continue;
+          const tx = Math.max(0, Math.min(1, fx - c0));
+          const ty = Math.max(0, Math.min(1, fy - r0));
+          const v = (at(c0, r0) * (1 - tx) + at(c0 + 1, r0) * tx) * (1 - ty) + (at(c0, r0 + 1) * (1 - tx) + at(c0 + 1, r0 + 1) * tx) * ty;
+          // Bilinear is NaN next to a void — fall back to the nearest post
+          const e = Number.isNaN(v) ? at(Math.round(fx) === c0 + 1 ? c0 + 1 : c0, Math.round(fy) === r0 + 1 ? r0 + 1 : r0) : v;
+          if (Number.isNaN(e)) continue;
+          values[row]![col] = Math.round(e * 100) / 100;
+          missing--;
+        }
+      }
+    }
+    if (missing === gridSize * gridSize) throw new Error(`DEMs in ${this.dir} have no data over the requested area`);
+    if (missing > 0) {
+      console.warn(`[DEM] ${missing} of ${gridSize * gridSize} samples had no data — filled from neighbours`);
+      fillVoids(values);
+    }
+
+    console.log(`[DEM] ${gridSize}x${gridSize} grid at ${spacing.toFixed(1)} m from ${covering.map((c) => basename(c.raster.path)).join(", ")}`);
+    return {
+      geojson: { type: "FeatureCollection", features: [] },
+      gridSize,
+      south,
+      north,
+      west,
+      east,
+      values,
+      source: "local-dem",
+    };
+  }
+
+  /** Headers of every DEM file under the directory, read once. */
+  private index(): Promise<DemRaster[]> {
+    this.rasters ??= (async () => {
+      const files = (readdirSync(this.dir, { recursive: true }) as string[])
+        .filter((f) => DEM_EXTENSIONS.has(extname(f).toLowerCase()))
+        .map((f) => join(this.dir, f));
+      const rasters: DemRaster[] = [];
+      for (const file of files) {
+        try {
+          rasters.push(await openDem(file));
+        } catch (err) {
+          console.warn(`[DEM] Skipping ${file}: ${(err as Error).message}`);
+        }
+      }
+      console.log(`[DEM] Indexed ${rasters.length} DEM file${rasters.length === 1 ? "" : "s"} in ${this.dir}`);
+      return rasters;
+    })();
+    return this.rasters;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Aftershock sequences — how many shocks follow a mainshock, when and how
+ * big, after Reasenberg & Jones (1989): Gutenberg–Richter magnitudes, with a
+ * rate that decays by the Omori–Utsu law
+ *
+ *   λ(t, M) = 10^(a + b·(Mm − M)) · (t + c)^−p     (t in days)
+ *
+ * Shocks are placed around the mainshock rupture, or around its epicenter
+ * for a point source, over a zone as long as the rupture would be.
+ *
+ * Real sequences run for days to years. A scenario squeezes the first `days`
+ * into `windowSec` of sim time, keeping the order and the early clustering.
+ */
+
+import type { SeededRandom } from "../core/Random.ts";
+import { ruptureLengthMeters, type QuakeSource } from "./groundMotion.ts";
+
+/** Reasenberg & Jones sequence parameters. */
+export interface SequenceParams {
+  a: number;
+  b: number;  // Gutenberg–Richter b-value
+  p: number;  // Omori–Utsu decay exponent
+  c: number;  // Omori–Utsu time offset (days)
+}
+
+/** Generic California sequence (Reasenberg & Jones, 1989). */
+export const GENERIC_SEQUENCE: SequenceParams = { a: -1.67, b: 0.91, p: 1.08, c: 0.05 };
+
+export interface SequenceOptions {
+  days: number;          // stretch of the real sequence to generate
+  windowSec: number;     // sim seconds it is squeezed into
+  minMagnitude: number;  // smallest aftershock generated
+  params?: SequenceParams;
+}
+
+export interface Aftershock {
+  time: number;       // sim seconds after the mainshock
+  magnitude: number;
+  x: number;          // epicenter, scene meters
+  z: number;
+  depthKm: number;
+}
+
+/** Hard cap, so a low `minMagnitude` can't flood the scene. */
+const MAX_AFTERSHOCKS = 40;
+
+/** Expected number of aftershocks of at least `minMagnitude` between days `t0` and `t1`. */
+export function expectedAftershocks(mainshock: number, minMagnitude: number, t0: number, t1: number, params = GENERIC_SEQUENCE): number {
+  const { a, b, p, c } = params;
+  const productivity = Math.pow(10, a + b * (mainshock - minMagnitude));
+  const decay = p === 1
+    ? Math.log((t1 + c) / (t0 + c))
+    : (Math.pow(t1 + c, 1 - p) - Math.pow(t0 + c, 1 - p)) / (1 - p);
+  return productivity * decay;
+}
+
+/** A random aftershock sequence for the mainshock, soonest first. */
+export function aftershockSequence(mainshock: QuakeSource, opts: SequenceOptions, rng: SeededRandom): Aftershock[] {
+  const params = opts.params ?? GENERIC_SEQUENCE;
+  const maxMagnitude = mainshock.magnitude;
+  if (opts.minMagnitude >= maxMagnitude) return [];
+  const count = Math.min(MAX_AFTERSHOCKS, poisson(expectedAftershocks(maxMagnitude, opts.minMagnitude, 0, opts.days, params), rng));
+
+  const shocks: Aftershock[] = [];
+  for (let i = 0; i < count; i++) {
+    const days = omoriTime(params, opts.days, rng.next());
+    const { x, z } = aftershockEpicenter(mainshock, rng);
+    shocks.push({
+      time: (days / opts.days) * opts.windowSec,
+      magnitude: gutenbergRichter(params.b, opts.minMagnitude, maxMagnitude, rng.next()),
+      x,
+      z,
+      depthKm: Math.max(1, Math.min(40, mainshock.depthKm + 3 * gaussian(rng))),
+    });
+  }
+  return shocks.sort((s1, s2) => s1.time - s2.time);
+}
+
+/** Time (days) of an aftershock, drawn from the Omori–Utsu rate over [0, days]. */
+function omoriTime({ p, c }: SequenceParams, days: number, u: number): number {
+  if (p === 1) return c * Math.pow((days + c) / c, u) - c;
+  const q = 1 - p;
+  const lo = Math.pow(c, q);
+  return Math.pow(lo + u * (Math.pow(days + c, q) - lo), 1 / q) - c;
+}
+
+/** Magnitude from a Gutenberg–Richter distribution truncated to [min, max]. */
+function gutenbergRichter(b: number, min: number, max: number, u: number): number {
+  return min - Math.log10(1 - u * (1 - Math.pow(10, -b * (max - min)))) / b;
+}
+
+/** Somewhere along the rupture, scattered a tenth of its length across it — or around a point source's epicenter. */
+function aftershockEpicenter(src: QuakeSource, rng: SeededRandom): { x: number; z: number } {
+  const length = ruptureLengthMeters(src.magnitude);
+  if (!src.rupture) {
+    return { x: src.x + (length / 4) * gaussian(rng), z: src.z + (length / 4) * gaussian(rng) };
+  }
+  const t = rng.next();
+  const spread = Math.max(1000, length / 10);
+  return {
+    x: src.x + (src.rupture.x1 - src.x) * t + spread * gaussian(rng),
+    z: src.z + (src.rupture.z1 - src.z) * t + spread * gaussian(rng),
+  };
+}
+
+/** Knuth's Poisson sampler — the expected counts here are small. */
+function poisson(mean: number, rng: SeededRandom): number {
+  const limit = Math.exp(-mean);
+  let n = 0;
+  for (let prod = rng.next(); prod > limit; prod *= rng.next()) n++;
+  return n;
+}
+
+/** Standard normal draw (Box–Muller). */
+function gaussian(rng: SeededRandom): number {
+  const u = Math.max(1e-12, rng.next());
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng.next());
+}
@@ -0,0 +1,194 @@
+/**
+ * Cascading hazards — watches the EventBus while a primary disaster runs and
+ * starts the secondary hazards it sets off: fires at buildings damaged by
+ * shaking, a tsunami surge after a large offshore quake.
+ */
+
+import type { EventBus, GroundShakeEvent } from "../core/EventBus.ts";
+import type { SeededRandom } from "../core/Random.ts";
+import { buildingRegistry, landCoverRef } from "../layers.ts";
+import { LandCover } from "../landcover.ts";
+
+export type HazardKind = "earthquake" | "tornado" | "flood" | "fire" | "tsunami";
+
+/** GROUND_SHAKE at or above `minPga` may set damaged buildings alight (broken gas lines, downed wires). */
+export interface ShakeIgnitionTrigger {
+  type: "shake_ignition";
+  minPga: number;
+  minDamage: number;     // BuildingRecord.damageLevel a building needs before it can ignite
+  chance: number;        // per damaged building, per GROUND_SHAKE event, scaled by its ignition fragility
+  maxIgnitions: number;
+}
+
+/**
+ * A quake of at least `minMagnitude` sends a surge ashore `delaySec` later if
+ * it is offshore: its epicenter or rupture lies over water in the scene, or no
+ * more than `maxOffshoreKm` beyond the scene edge where that edge is water.
+ */
+export interface OffshoreSurgeTrigger {
+  type: "offshore_surge";
+  minMagnitude: number;
+  delaySec: number;
+  maxOffshoreKm: number;
+}
+
+export type CascadeTrigger = ShakeIgnitionTrigger | OffshoreSurgeTrigger;
+
+/** How the cascade starts the hazards it triggers — wired to the simulators by the caller. */
+export interface CascadeHooks {
+  ignite(x: number, z: number): void;
+  surge(x: number, z: number, magnitude: number): void;
+}
+
+const SHAKE_IGNITION: ShakeIgnitionTrigger = { type: "shake_ignition", minPga: 0.3, minDamage: 0.4, chance: 0.02, maxIgnitions: 6 };
+const OFFSHORE_SURGE: OffshoreSurgeTrigger = { type: "offshore_surge", minMagnitude: 7.0, delaySec: 20, maxOffshoreKm: 150 };
+
+/** Built-in cascading scenarios: each starts with an earthquake. */
+export const CASCADES = {
+  "quake-fire": [SHAKE_IGNITION],
+  "quake-tsunami": [OFFSHORE_SURGE, SHAKE_IGNITION],
+} satisfies Record<string, CascadeTrigger[]>;
+
+export type CascadeId = keyof typeof CASCADES;
+
+const SHORE_MARGIN = 15;     // meters inside the scene edge where a surge comes ashore
+const RUPTURE_SAMPLES = 16;  // points checked along a rupture trace for water
+
+/** Wave height (m) of the surge raised by a quake of `magnitude`: M7 → 10, M9 and up → 30. */
+export function surgeHeight(magnitude: number): number {
+  return Math.max(10, Math.min(30, 10 + (magnitude - 7) * 10));
+}
+
+/**
+ * Where a surge from an offshore epicenter comes ashore: the scene edge in
+ * the epicenter's direction from the scene center.
+ */
+export function landfall(epicenterX: number, epicenterZ: number, sceneHalfSize: number): { x: number; z: number } {
+  const reach = Math.max(Math.abs(epicenterX), Math.abs(epicenterZ));
+  if (reach < 1e-6) return { x: sceneHalfSize - SHORE_MARGIN, z: 0 };
+  const t = (sceneHalfSize - SHORE_MARGIN) / reach;
+  return { x: epicenterX * t, z: epicenterZ * t };
+}
+
+function isWater(x: number, z: number): boolean {
+  return landCoverRef?.classAt(x, z) === LandCover.WATER;
+}
+
+/**
+ * Where the surge from a quake starts, or null when the quake is onshore: the
+ * first point of the epicenter and rupture trace that is over water inside the
+ * scene, or the landfall of one within `maxOffshoreKm` when the scene edge
+ * facing it is water.
+ */
+export function offshoreSurgeOrigin(ev: GroundShakeEvent, sceneHalfSize: number, maxOffshoreKm: number): { x: number; z: number } | null {
+  const [ex, , ez] = ev.epicenter;
+  const points = [{ x: ex, z: ez }];
+  if (ev.rupture) {
+    const [rx, rz] = ev.rupture;
+    for (let i = 1; i <= RUPTURE_SAMPLES; i++) {
+      const t = i / RUPTURE_SAMPLES;
+      points.push({ x: ex + (rx - ex) * t, z: ez + (rz - ez) * t });
+    }
+  }
+  for (const p of points) {
+    const inScene = Math.max(Math.abs(p.x), Math.abs(p.z)) <= sceneHalfSize - SHORE_MARGIN;
+    if (inScene) {
+      if (isWater(p.x, p.z)) return p;
+      continue;
+    }
+    const shore = landfall(p.x, p.z, sceneHalfSize);
+    if (isWater(shore.x, shore.z) && Math.hypot(p.x - shore.x, p.z - shore.z) <= maxOffshoreKm * 1000) return shore;
+  }
+  return null;
+}
+
+/**
+ * Runs the triggers of one cascading scenario. `active` is the set of hazards
+ * under way (the primary first), e.g. for the agents' danger prompts.
+ */
+export class HazardCascade {
+  readonly active = new Set<HazardKind>();
+
+  private triggers: CascadeTrigger[];
+  private hooks: CascadeHooks;
+  private rng: SeededRandom;
+  private sceneHalfSize: number;
+  private onChange: ((label: string) => void) | null;
+  private ignited = new Set<number>(); // indices into buildingRegistry
+  private pendingSurge: { x: number; z: number; magnitude: number; in: number } | null = null; // where it comes ashore
+  private surgeChecked = false;
+  private unsub: () => void;
+
+  constructor(
+    eventBus: EventBus,
+    rng: SeededRandom,
+    primary: HazardKind,
+    triggers: CascadeTrigger[],
+    hooks: CascadeHooks,
+    sceneHalfSize: number,
+    onChange: ((label: string) => void) | null = null,
+  ) {
+    this.rng = rng;
+    this.triggers = triggers;
+    this.hooks = hooks;
+    this.sceneHalfSize = sceneHalfSize;
+    this.onChange = onChange;
+    this.active.add(primary);
+    this.unsub = eventBus.on("GROUND_SHAKE", (e) => this.onShake(e as GroundShakeEvent));
+  }
+
+  /** Active hazards joined with "+", primary first — the form the decision prompt takes. */
+  get label(): string {
+    return [...this.active].join("+");
+  }
+
+  /** Advance delayed triggers by `dt` sim-seconds. */
+  update(dt: number): void {
+    const surge = this.pendingSurge;
+    if (!surge) return;
+    surge.in -= dt;
+    if (surge.in > 0) return;
+    this.pendingSurge = null;
+    console.log(`[Cascade] M${surge.magnitude.toFixed(1)} offshore quake — surge coming ashore at (${surge.x.toFixed(0)}, ${surge.z.toFixed(0)})`);
+    this.hooks.surge(surge.x, surge.z, surge.magnitude);
+    this.activate("tsunami");
+  }
+
+  dispose(): void {
+    this.unsub();
+    this.pendingSurge = null;
+  }
+
+  private onShake(ev: GroundShakeEvent): void {
+    for (const trigger of this.triggers) {
+      if (trigger.type === "shake_ignition") this.igniteDamaged(trigger, ev);
+      else if (!this.surgeChecked && ev.magnitude >= trigger.minMagnitude) {
+        // One look per quake: its shaking arrives as many patches, all with the same source
+        this.surgeChecked = true;
+        const origin = offshoreSurgeOrigin(ev, this.sceneHalfSize, trigger.maxOffshoreKm);
+        if (origin) this.pendingSurge = { ...origin, magnitude: ev.magnitude, in: trigger.delaySec };
+        else console.log(`[Cascade] M${ev.magnitude.toFixed(1)} quake is onshore — no surge`);
+      }
+    }
+  }
+
+  private igniteDamaged(trigger: ShakeIgnitionTrigger, ev: GroundShakeEvent): void {
+    if (ev.pga < trigger.minPga) return;
+    const [px, , pz] = ev.position;
+    buildingRegistry.forEach((b, i) => {
+      if (this.ignited.size >= trigger.maxIgnitions || this.ignited.has(i)) return;
+      if (Math.abs(b.centerX - px) > ev.halfSize || Math.abs(b.centerZ - pz) > ev.halfSize) return;
+      if (b.damageLevel < trigger.minDamage || this.rng.next() >= trigger.chance * b.fragility.ignition) return;
+      this.ignited.add(i);
+      console.log(`[Cascade] Shaking ignited building ${i} (damage ${(b.damageLevel * 100).toFixed(0)}%)`);
+      this.hooks.ignite(b.centerX, b.centerZ);
+      this.activate("fire");
+    });
+  }
+
+  private activate(kind: HazardKind): void {
+    if (this.active.has(kind)) return;
+    this.active.add(kind);
+    this.onChange?.(this.label);
+  }
+}
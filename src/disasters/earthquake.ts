@@ -1,5 +1,5 @@
 import * as THREE from "three";
-import type { BuildingRecord, TreeRecord, CarRecord } from "../layers.ts";
+import { editableGeometry, type BuildingRecord, type TreeRecord, type CarRecord } from "../layers.ts";
 import {
   getTerrainHeight,
   treeRegistry,
@@ -11,16 +11,44 @@ import {
   terrainMeshRef,
   roadLinesRef,
   sceneGroupRef,
+  buildingStreamerRef,
+  vs30Ref,
 } from "../layers.ts";
 import type { EventBus } from "../core/EventBus.ts";
-
-// Allen et al. (2012) IPE for active shallow crustal regions (OpenQuake implementation)
-const IPE_COEFF = {
-  c0: 3.95,
-  c1: 0.913,
-  c2: -1.107,
-  c3: 0.813,
-};
+import { SeededRandom } from "../core/Random.ts";
+import {
+  ShakeMap,
+  SyntheticMotion,
+  ipeIntensity,
+  responseSpectrum,
+  ruptureAlong,
+  ruptureLengthMeters,
+  REFERENCE_VS30,
+  type GroundMotion,
+  type QuakeSource,
+} from "./groundMotion.ts";
+import { aftershockSequence, type Aftershock } from "./aftershocks.ts";
+
+const S_WAVE_SPEED = 3500;      // m/s — delays the record across the scene
+const SHAKE_EVENT_PATCHES = 8;  // GROUND_SHAKE patches per scene side
+
+// Aftershock sequences: the first AFTERSHOCK_DAYS squeezed into AFTERSHOCK_WINDOW sim seconds,
+// down to AFTERSHOCK_RANGE magnitude units below the mainshock (about six shocks whatever its size)
+const AFTERSHOCK_DAYS = 3;
+const AFTERSHOCK_WINDOW = 120;
+const AFTERSHOCK_RANGE = 2;
+
+/**
+ * MMI at which an intact building starts taking damage. One damaged by an
+ * earlier shock gives way lower, by DAMAGED_ONSET_DROP at full damage.
+ */
+const DAMAGE_ONSET_MMI = 6.0;
+const DAMAGED_ONSET_DROP = 1.0;
+
+/** How long a shock of this magnitude shakes (s). */
+function shockDuration(magnitude: number): number {
+  return 8 + (magnitude - 4) * 6;
+}
 
 function smoothstep(edge0: number, edge1: number, x: number) {
   const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
@@ -34,9 +62,18 @@ export class EarthquakeSimulator {
   duration = 20;
   time = 0;
   affectedRadiusKm = 0;
+  depthKm = 10;
+  /** Strike of a finite-fault rupture (degrees clockwise from north), or null for a point source. */
+  strike: number | null = null;
+  /** Follow the mainshock with an aftershock sequence. */
+  aftershocks = false;
+  /** Shock under way: 0 for the mainshock, then 1, 2, … through the sequence. */
+  shockNumber = 0;
+  /** Aftershocks in the current sequence. */
+  sequenceLength = 0;
 
   private scene: THREE.Scene;
-  private shakeSeed = Math.random() * 100;
+  private shakeSeed = 0;
   private rubbleGroup: THREE.Group;
   private terrainBasePos: THREE.Vector3 | null = null;
   private sceneBasePos: THREE.Vector3 | null = null;
@@ -70,7 +107,17 @@ export class EarthquakeSimulator {
   private glassMat: THREE.MeshPhongMaterial;
   private crackedRoads = new Set<number>();
   private eventBus: EventBus | null = null;
+  private rng = new SeededRandom();
+  private visualRng = new SeededRandom();
   private lastEventEmit = 0;
+  private shakeMap: ShakeMap | null = null;
+  private motion: SyntheticMotion | null = null;
+  private source: QuakeSource | null = null;
+  private mainshock: QuakeSource | null = null;
+  private pendingAftershocks: Aftershock[] = [];
+  /** Each building's damage when the shock under way began, taken on its first update. */
+  private priorDamage: Map<BuildingRecord, number> | null = null;
+  private sequenceTime = 0;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
@@ -94,28 +141,115 @@ export class EarthquakeSimulator {
     this.eventBus = eb;
   }
 
+  /**
+   * Use the run's shared PRNG (SimWorld.rng) for every draw the sim depends on —
+   * including falling debris, whose heaps close roads (rubblePiles).
+   */
+  setRng(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
+  /** Road cracks, facade chips, collapse rubble meshes and camera shake draw from the cosmetic stream (SimWorld.visualRng). */
+  setVisualRng(rng: SeededRandom) {
+    this.visualRng = rng;
+  }
+
   setMagnitude(mag: number) {
     this.magnitude = Math.max(4.0, Math.min(9.5, mag));
-    this.duration = 8 + (this.magnitude - 4) * 6;
+    this.duration = shockDuration(this.magnitude);
     this.affectedRadiusKm = this.solveRadiusForMMI(4.0);
   }
 
+  /** Hypocentral depth (km). */
+  setDepth(km: number) {
+    this.depthKm = Math.max(1, Math.min(40, km));
+    this.affectedRadiusKm = this.solveRadiusForMMI(4.0);
+  }
+
+  /** Rupture along a strike (degrees clockwise from north) from the epicenter, or null for a point source. */
+  setStrike(deg: number | null) {
+    this.strike = deg === null ? null : ((deg % 360) + 360) % 360;
+  }
+
+  /** Generate an aftershock sequence after the next mainshock. */
+  setAftershocks(enabled: boolean) {
+    this.aftershocks = enabled;
+  }
+
+  /** PGA / PGV / MMI over the scene for the shock under way, or null before one is spawned. */
+  getShakeMap(): ShakeMap | null {
+    return this.shakeMap;
+  }
+
+  /** Surface rupture length (m) for the magnitude — only a finite fault has one. */
+  get ruptureLength(): number {
+    return this.strike === null ? 0 : ruptureLengthMeters(this.magnitude);
+  }
+
   getGroundShakeY(): number {
     return this.groundShakeY;
   }
 
+  /**
+   * Rubble heaps lying on the ground, one per pile cell, with the height of the
+   * tallest piece above the terrain. Read from the grounded debris rather than
+   * pileMap so the heaps outlive the shaking.
+   */
+  rubblePiles(): { x: number; z: number; radius: number; height: number }[] {
+    const piles = new Map<string, { x: number; z: number; radius: number; height: number }>();
+    for (const d of this.debris) {
+      if (!d.grounded) continue;
+      const { x, y, z } = d.mesh.position;
+      const height = y - getTerrainHeight(x, z) + 0.3 * d.mesh.scale.y;
+      const key = this.getPileKey(x, z);
+      const pile = piles.get(key);
+      if (pile) pile.height = Math.max(pile.height, height);
+      else piles.set(key, { x, z, radius: this.pileCellSize / 2, height });
+    }
+    return [...piles.values()];
+  }
+
   spawn(pos: THREE.Vector3) {
-    this.position.copy(pos);
-    this.position.y = getTerrainHeight(pos.x, pos.z);
-    this.time = 0;
+    this.shakeSeed = this.visualRng.next() * 100;
     this.active = true;
     this.crackedRoads.clear();
     this.pileMap.clear();
     resetCarsToBase();
+
+    const source: QuakeSource = {
+      magnitude: this.magnitude,
+      x: pos.x,
+      z: pos.z,
+      depthKm: this.depthKm,
+      rupture: this.strike === null ? null : ruptureAlong(pos.x, pos.z, this.strike, this.ruptureLength),
+    };
+    this.mainshock = source;
+    this.shockNumber = 0;
+    this.sequenceTime = 0;
+    this.pendingAftershocks = this.aftershocks
+      ? aftershockSequence(source, { days: AFTERSHOCK_DAYS, windowSec: AFTERSHOCK_WINDOW, minMagnitude: Math.max(4, this.magnitude - AFTERSHOCK_RANGE) }, this.rng)
+      : [];
+    this.sequenceLength = this.pendingAftershocks.length;
+    this.startShock(source);
+    if (this.sequenceLength > 0) {
+      const largest = Math.max(...this.pendingAftershocks.map((a) => a.magnitude));
+      console.log(`[Earthquake] ${this.sequenceLength} aftershocks to follow over ${AFTERSHOCK_WINDOW}s (${AFTERSHOCK_DAYS} days of sequence), largest M${largest.toFixed(1)}`);
+    }
+  }
+
+  /** True while a shock is under way — false between aftershocks. */
+  get shaking(): boolean {
+    return this.active && this.time <= this.duration;
   }
 
   despawn() {
     this.active = false;
+    this.pendingAftershocks = [];
+    // Back to the mainshock's settings once a sequence has run
+    if (this.mainshock && this.shockNumber > 0) {
+      this.setMagnitude(this.mainshock.magnitude);
+      this.position.set(this.mainshock.x, getTerrainHeight(this.mainshock.x, this.mainshock.z), this.mainshock.z);
+    }
     resetCarsToBase();
     this.groundShakeY = 0;
     this.pileMap.clear();
@@ -129,30 +263,34 @@ export class EarthquakeSimulator {
   update(dt: number, buildings: BuildingRecord[]) {
     if (this.active) {
       this.time += dt;
+      this.sequenceTime += dt;
       if (this.time > this.duration) {
-        this.despawn();
+        // Shock over: end the quake, or start the next aftershock once it is due
+        this.groundShakeY = 0;
+        const next = this.pendingAftershocks[0];
+        if (!next) this.despawn();
+        else if (this.sequenceTime >= next.time) this.startAftershock(this.pendingAftershocks.shift()!);
       }
     }
 
-    // Ground shake + effects only while active
-    if (this.active) {
+    // Ground shake + effects only while a shock is under way
+    if (this.shaking) {
       this.updateGroundShake(dt);
       this.paintRoadCracks(dt);
-      this.updateBuildings(dt, buildings);
+      // Buildings already damaged give way down to MMI 5 (a unit of headroom for soft sites
+      // on intact ones) — make sure their chunks have geometry; the rest aren't visited
+      const rupture = this.source?.rupture;
+      const ruptureLength = rupture ? Math.hypot(rupture.x1 - this.position.x, rupture.z1 - this.position.z) : 0;
+      const reach = this.solveRadiusForMMI(DAMAGE_ONSET_MMI - DAMAGED_ONSET_DROP) * 1000 + ruptureLength;
+      buildingStreamerRef?.activate(this.position.x, this.position.z, reach);
+      this.updateBuildings(dt, buildingStreamerRef?.activeBuildings ?? buildings);
       this.updateTrees(dt);
       this.updateCars(dt);
 
-      // Emit GROUND_SHAKE event for agent damage system
+      // Emit GROUND_SHAKE events for the agent damage system, one per patch of the scene
       if (this.eventBus && this.time - this.lastEventEmit >= 0.5) {
         this.lastEventEmit = this.time;
-        const shake = this.getShakeVector(this.position.x, this.position.z);
-        const pga = shake.length();
-        this.eventBus.emit({
-          type: "GROUND_SHAKE",
-          epicenter: [this.position.x, this.position.y, this.position.z],
-          magnitude: this.magnitude,
-          pga,
-        });
+        this.emitShake(this.eventBus);
       }
     }
 
@@ -165,19 +303,86 @@ export class EarthquakeSimulator {
     }
   }
 
-  private getMMIAtDistanceKm(rKm: number): number {
-    const { c0, c1, c2, c3 } = IPE_COEFF;
-    const term = Math.sqrt(rKm * rKm + Math.pow(1 + c3 * Math.exp(this.magnitude - 5), 2));
-    const mmi = c0 + c1 * this.magnitude + c2 * Math.log(term);
-    return Math.max(1, Math.min(10, mmi));
+  /** Shaking of one shock: its shake map and record, from the source. */
+  private startShock(source: QuakeSource) {
+    this.source = source;
+    this.magnitude = source.magnitude;
+    this.duration = shockDuration(source.magnitude);
+    this.position.set(source.x, getTerrainHeight(source.x, source.z), source.z);
+    this.time = 0;
+    this.lastEventEmit = 0;
+    this.priorDamage = null;
+
+    const bounds = terrainBoundsRef ?? { xMin: source.x - 500, zMin: source.z - 500, width: 1000, depth: 1000 };
+    this.shakeMap = new ShakeMap(source, bounds, (x, z) => vs30Ref?.at(x, z) ?? REFERENCE_VS30);
+    // One record for the scene, its spectrum from the shaking at the epicenter
+    const epicentral = this.shakeMap.at(source.x, source.z);
+    this.motion = new SyntheticMotion((T) => responseSpectrum(epicentral.pga, epicentral.pgv, T), this.duration, this.rng);
+
+    let minPga = Infinity, maxPga = 0;
+    for (const v of this.shakeMap.pga) { minPga = Math.min(minPga, v); maxPga = Math.max(maxPga, v); }
+    const rupture = source.rupture;
+    const fault = rupture
+      ? `${(Math.hypot(rupture.x1 - source.x, rupture.z1 - source.z) / 1000).toFixed(1)} km rupture toward ${this.strike!.toFixed(0)}°`
+      : "point source";
+    const shock = this.shockNumber > 0 ? `Aftershock ${this.shockNumber}/${this.sequenceLength} ` : "";
+    console.log(
+      `[Earthquake] ${shock}M${source.magnitude.toFixed(1)} at ${source.depthKm.toFixed(0)} km, ${fault} — ` +
+      `PGA ${minPga.toFixed(2)}–${maxPga.toFixed(2)} g over the scene (Vs30 from ${vs30Ref?.source ?? "reference rock"})`,
+    );
+  }
+
+  private startAftershock(shock: Aftershock) {
+    this.shockNumber++;
+    this.startShock({ magnitude: shock.magnitude, x: shock.x, z: shock.z, depthKm: shock.depthKm, rupture: null });
+    this.eventBus?.emit({
+      type: "AFTERSHOCK",
+      epicenter: [this.position.x, this.position.y, this.position.z],
+      magnitude: shock.magnitude,
+      depthKm: shock.depthKm,
+      mainshockMagnitude: this.mainshock!.magnitude,
+      sequenceIndex: this.shockNumber,
+      sequenceLength: this.sequenceLength,
+    });
+  }
+
+  private emitShake(eventBus: EventBus) {
+    const map = this.shakeMap!;
+    const envelope = this.motion!.envelope(this.time);
+    const patch = (Math.max(map.width, map.height) * map.cellSize) / SHAKE_EVENT_PATCHES;
+    for (let z = map.zMin + patch / 2; z < map.zMin + map.height * map.cellSize; z += patch) {
+      for (let x = map.xMin + patch / 2; x < map.xMin + map.width * map.cellSize; x += patch) {
+        const m = map.at(x, z);
+        eventBus.emit({
+          type: "GROUND_SHAKE",
+          epicenter: [this.position.x, this.position.y, this.position.z],
+          rupture: this.source?.rupture ? [this.source.rupture.x1, this.source.rupture.z1] : null,
+          magnitude: this.magnitude,
+          position: [x, getTerrainHeight(x, z), z],
+          halfSize: patch / 2,
+          pga: m.pga,
+          pgv: m.pgv,
+          mmi: m.mmi,
+          envelope,
+        });
+      }
+    }
+  }
+
+  /** Shaking at a point for the current quake. */
+  private motionAt(x: number, z: number): GroundMotion {
+    return this.shakeMap?.at(x, z) ?? { mmi: 1, pga: 0, pgv: 0, vs30: REFERENCE_VS30 };
   }
 
+  /** Epicentral distance (km) out to which a point source at this depth is felt at `targetMMI` on rock. */
   private solveRadiusForMMI(targetMMI: number): number {
-    let lo = 0.1;
+    const mmiAt = (rKm: number) => ipeIntensity(this.magnitude, Math.hypot(rKm, this.depthKm));
+    if (mmiAt(0) <= targetMMI) return 0;
+    let lo = 0;
     let hi = 300;
     for (let i = 0; i < 32; i++) {
       const mid = (lo + hi) / 2;
-      if (this.getMMIAtDistanceKm(mid) > targetMMI) {
+      if (mmiAt(mid) > targetMMI) {
         lo = mid;
       } else {
         hi = mid;
@@ -186,26 +391,15 @@ export class EarthquakeSimulator {
     return lo;
   }
 
+  /**
+   * Ground acceleration (g) at a point right now: the synthetic record scaled
+   * to the site's PGA, arriving later the farther the site is from the epicenter.
+   */
   private getShakeVector(x: number, z: number): THREE.Vector3 {
-    const dx = x - this.position.x;
-    const dz = z - this.position.z;
-    const rKm = Math.sqrt(dx * dx + dz * dz) / 1000;
-    const mmi = this.getMMIAtDistanceKm(rKm);
-    if (mmi < 4.5) return new THREE.Vector3();
-
-    const t = this.time / this.duration;
-    const env = smoothstep(0.0, 0.12, t) * (1 - smoothstep(0.82, 1.0, t));
-    const intensity = (mmi - 4.5) / 5.5;
-    const amp = intensity * env * (0.8 + 0.12 * this.magnitude);
-
-    const f1 = 1.2 + 0.08 * this.magnitude;
-    const f2 = 2.6 + 0.12 * this.magnitude;
-    const phase = this.shakeSeed + x * 0.01 + z * 0.008;
-
-    const sx = Math.sin(this.time * f1 + phase) + 0.45 * Math.sin(this.time * f2 + phase * 1.7);
-    const sz = Math.cos(this.time * (f1 * 1.1) + phase * 0.9) + 0.45 * Math.cos(this.time * (f2 * 1.2) + phase * 1.3);
-    const sy = 0.28 * Math.sin(this.time * (f1 * 0.5) + phase * 0.7);
-    return new THREE.Vector3(sx * amp, sy * amp * 0.6, sz * amp);
+    const out = new THREE.Vector3();
+    if (!this.motion) return out;
+    const delay = Math.hypot(x - this.position.x, z - this.position.z) / S_WAVE_SPEED;
+    return this.motion.at(this.time - delay, out).multiplyScalar(this.motionAt(x, z).pga);
   }
 
   getCameraJitter(): THREE.Vector3 {
@@ -245,8 +439,7 @@ export class EarthquakeSimulator {
 
     if (this.magnitude < 7.0) return;
 
-    const rKm = 0.1;
-    const mmi = this.getMMIAtDistanceKm(rKm);
+    const mmi = this.motionAt(this.position.x, this.position.z).mmi;
     if (mmi < 7.0) return;
 
     const t = this.time / this.duration;
@@ -265,13 +458,13 @@ export class EarthquakeSimulator {
     if (roads.length === 0) return;
 
     // Rare: only a couple of visible road cracks per quake
-    if (Math.random() > 0.08) return;
+    if (this.visualRng.next() > 0.08) return;
     const crackCount = 1 + Math.floor(1 * magScale * intensity);
     for (let i = 0; i < crackCount; i++) {
-      let roadIdx = Math.floor(Math.random() * roads.length);
+      let roadIdx = Math.floor(this.visualRng.next() * roads.length);
       let guard = 0;
       while (this.crackedRoads.has(roadIdx) && guard < 20) {
-        roadIdx = Math.floor(Math.random() * roads.length);
+        roadIdx = Math.floor(this.visualRng.next() * roads.length);
         guard++;
       }
       if (this.crackedRoads.has(roadIdx)) break;
@@ -279,28 +472,28 @@ export class EarthquakeSimulator {
 
       const road = roads[roadIdx]!;
       if (road.points.length < 2) continue;
-      const idx = Math.floor(Math.random() * (road.points.length - 1));
+      const idx = Math.floor(this.visualRng.next() * (road.points.length - 1));
       const p0 = road.points[idx]!;
       const p1 = road.points[idx + 1]!;
-      const tL = Math.random();
+      const tL = this.visualRng.next();
       const wx = p0[0] + (p1[0] - p0[0]) * tL;
       const wz = p0[1] + (p1[1] - p0[1]) * tL;
       const uu = (wx - b.xMin) / b.width;
       const vv = (wz - b.zMin) / b.depth;
       const x0 = uu * TEX;
       const y0 = vv * TEX;
-      const ang = Math.atan2(p1[1] - p0[1], p1[0] - p0[0]) + (Math.random() - 0.5) * 0.6;
-      const len = r * (0.3 + Math.random() * 0.6) * magScale;
+      const ang = Math.atan2(p1[1] - p0[1], p1[0] - p0[0]) + (this.visualRng.next() - 0.5) * 0.6;
+      const len = r * (0.3 + this.visualRng.next() * 0.6) * magScale;
 
-      ctx.lineWidth = 1.6 + Math.random() * 2.6 * magScale;
+      ctx.lineWidth = 1.6 + this.visualRng.next() * 2.6 * magScale;
       ctx.strokeStyle = "#151515";
       ctx.globalAlpha = 0.20 + intensity * env * 0.35;
       ctx.beginPath();
       ctx.moveTo(x0, y0);
-      const segs = 5 + Math.floor(Math.random() * 4);
+      const segs = 5 + Math.floor(this.visualRng.next() * 4);
       for (let s = 1; s <= segs; s++) {
         const tSeg = s / segs;
-        const wiggle = (Math.random() - 0.5) * 0.8;
+        const wiggle = (this.visualRng.next() - 0.5) * 0.8;
         const px = x0 + Math.cos(ang + wiggle) * len * tSeg;
         const py = y0 + Math.sin(ang + wiggle) * len * tSeg;
         ctx.lineTo(px, py);
@@ -315,17 +508,19 @@ export class EarthquakeSimulator {
   }
 
   private updateBuildings(dt: number, buildings: BuildingRecord[]) {
+    // Chunks join as the shaking reaches them; a building's damage when first visited is its prior damage
+    const prior = (this.priorDamage ??= new Map());
     for (const b of buildings) {
+      if (!prior.has(b)) prior.set(b, b.damageLevel);
       if (b.destroyed) continue;
-      const dx = b.centerX - this.position.x;
-      const dz = b.centerZ - this.position.z;
-      const rKm = Math.sqrt(dx * dx + dz * dz) / 1000;
-      const mmi = this.getMMIAtDistanceKm(rKm);
-      if (mmi < 6.0) continue;
+      const mmi = this.motionAt(b.centerX, b.centerZ).mmi;
+      // A frame cracked by an earlier shock gives way to shaking it would have ridden out intact
+      const onset = DAMAGE_ONSET_MMI - DAMAGED_ONSET_DROP * (prior.get(b) ?? 0);
+      if (mmi < onset) continue;
 
       const prev = b.damageLevel;
-      const damageIntensity = Math.pow((mmi - 6.0) / 4.0, 1.4);
-      const damageRate = damageIntensity * 0.10 / b.structuralStrength;
+      const damageIntensity = Math.pow((mmi - onset) / 4.0, 1.4);
+      const damageRate = damageIntensity * 0.10 / b.fragility.shaking;
       b.damageLevel = Math.min(1, b.damageLevel + damageRate * dt);
       this.applyDamage(b);
 
@@ -337,18 +532,18 @@ export class EarthquakeSimulator {
       const centerLive = bboxLive.getCenter(new THREE.Vector3());
       const sizeLive = bboxLive.getSize(new THREE.Vector3());
 
-      if (Math.random() < debrisChance) {
+      if (this.rng.next() < debrisChance) {
         // Favor higher floors (windows) using live bounds
-        const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.70 + Math.random() * 0.25);
+        const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.70 + this.rng.next() * 0.25);
         const count = Math.max(1, Math.floor((3 + 3 * magFactor) * quakeFade));
 
         // Spawn debris from actual building AABB edges
-        const side = Math.random() < 0.5 ? "x" : "z";
-        const sign = Math.random() < 0.5 ? -1 : 1;
+        const side = this.rng.next() < 0.5 ? "x" : "z";
+        const sign = this.rng.next() < 0.5 ? -1 : 1;
         const edgeOffset = (side === "x" ? sizeLive.x : sizeLive.z) * 0.5 * sign;
 
-        const dx = side === "x" ? edgeOffset : (Math.random() - 0.5) * sizeLive.x * 0.8;
-        const dz = side === "z" ? edgeOffset : (Math.random() - 0.5) * sizeLive.z * 0.8;
+        const dx = side === "x" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.x * 0.8;
+        const dz = side === "z" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.z * 0.8;
 
         const outward = side === "x" ? { nx: sign, nz: 0 } : { nx: 0, nz: sign };
         const minOffset = 0.3; // spawn just outside the face
@@ -364,23 +559,23 @@ export class EarthquakeSimulator {
       }
 
       // Occasional chunk break-off (right pyramid / cube)
-      if (this.magnitude >= 6.5 && mmi >= 6.5 && b.damageLevel >= 0.6 && Math.random() < 0.01 * damageIntensity) {
-        const side = Math.random() < 0.5 ? "x" : "z";
-        const sign = Math.random() < 0.5 ? -1 : 1;
+      if (this.magnitude >= 6.5 && mmi >= 6.5 && b.damageLevel >= 0.6 && this.rng.next() < 0.01 * damageIntensity) {
+        const side = this.rng.next() < 0.5 ? "x" : "z";
+        const sign = this.rng.next() < 0.5 ? -1 : 1;
         const edgeOffset = (side === "x" ? sizeLive.x : sizeLive.z) * 0.5 * sign;
-        const dx = side === "x" ? edgeOffset : (Math.random() - 0.5) * sizeLive.x * 0.8;
-        const dz = side === "z" ? edgeOffset : (Math.random() - 0.5) * sizeLive.z * 0.8;
+        const dx = side === "x" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.x * 0.8;
+        const dz = side === "z" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.z * 0.8;
         const outward = side === "x" ? { nx: sign, nz: 0 } : { nx: 0, nz: sign };
         const minOffset = 0.5;
-        const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.5 + Math.random() * 0.3);
+        const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.5 + this.rng.next() * 0.3);
         this.spawnChunkDebris(centerLive.x + dx, centerLive.z + dz, sideY, this.concreteMat, outward, minOffset);
       }
 
       // Base failure tilt (more common than full collapse) for 6.5+
-      if (this.magnitude >= 6.5 && mmi >= 6.5 && b.damageLevel >= 0.35 && Math.random() < 0.05 * damageIntensity) {
+      if (this.magnitude >= 6.5 && mmi >= 6.5 && b.damageLevel >= 0.35 && this.rng.next() < 0.05 * damageIntensity) {
         if (b.tiltTargetX === undefined && b.tiltTargetZ === undefined) {
-          const tilt = (Math.random() - 0.5) * 0.22;
-          if (Math.random() < 0.5) {
+          const tilt = (this.rng.next() - 0.5) * 0.22;
+          if (this.rng.next() < 0.5) {
             b.tiltTargetX = tilt;
             b.tiltTargetZ = 0;
           } else {
@@ -416,12 +611,14 @@ export class EarthquakeSimulator {
       // Begin progressive collapse when damage is high enough
       // M6.5+: buildings with 85%+ damage start collapsing
       // M7.5+: 75%+ damage; M8.0+: taller buildings at 70%+
-      const collapseThreshold = this.magnitude >= 8.0 ? 0.70
-        : this.magnitude >= 7.5 ? 0.75
-        : this.magnitude >= 6.5 ? 0.85
+      // Aftershocks finish off what the mainshock left standing, so its magnitude sets the bar
+      const sequenceMagnitude = Math.max(this.magnitude, this.mainshock?.magnitude ?? 0);
+      const collapseThreshold = sequenceMagnitude >= 8.0 ? 0.70
+        : sequenceMagnitude >= 7.5 ? 0.75
+        : sequenceMagnitude >= 6.5 ? 0.85
         : 1.1; // never for < M6.5
       const alreadyCollapsing = this.collapsing.some((c) => c.building === b);
-      if (!alreadyCollapsing && b.damageLevel >= collapseThreshold && mmi >= 6.5 && Math.random() < 0.08 * damageIntensity) {
+      if (!alreadyCollapsing && b.damageLevel >= collapseThreshold && mmi >= onset + 0.5 && this.rng.next() < 0.08 * damageIntensity) {
         this.collapsing.push({
           building: b,
           progress: 0,
@@ -444,17 +641,17 @@ export class EarthquakeSimulator {
       // Strong quakes: tall buildings shower glass and some concrete
       if (this.magnitude >= 7.5 && mmi >= 7.5 && b.height >= 40) {
         const showerChance = 0.06 * damageIntensity * magFactor;
-        if (Math.random() < showerChance) {
-          const side = Math.random() < 0.5 ? "x" : "z";
-          const sign = Math.random() < 0.5 ? -1 : 1;
+        if (this.rng.next() < showerChance) {
+          const side = this.rng.next() < 0.5 ? "x" : "z";
+          const sign = this.rng.next() < 0.5 ? -1 : 1;
           const edgeOffset = (side === "x" ? sizeLive.x : sizeLive.z) * 0.5 * sign;
-          const dx = side === "x" ? edgeOffset : (Math.random() - 0.5) * sizeLive.x * 0.8;
-          const dz = side === "z" ? edgeOffset : (Math.random() - 0.5) * sizeLive.z * 0.8;
+          const dx = side === "x" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.x * 0.8;
+          const dz = side === "z" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.z * 0.8;
           const outward = side === "x" ? { nx: sign, nz: 0 } : { nx: 0, nz: sign };
           const minOffset = 0.3;
-          const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.75 + Math.random() * 0.2);
+          const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.75 + this.rng.next() * 0.2);
           this.spawnDebrisBurst(centerLive.x + dx, centerLive.z + dz, sideY, Math.max(3, Math.floor((8 + 6 * magFactor) * quakeFade)), this.glassMat, outward, minOffset);
-          if (Math.random() < 0.35) {
+          if (this.rng.next() < 0.35) {
             this.spawnDebrisBurst(centerLive.x + dx, centerLive.z + dz, sideY, Math.max(2, Math.floor((3 + 3 * magFactor) * quakeFade)), this.concreteMat, outward, minOffset);
           }
         }
@@ -500,11 +697,11 @@ export class EarthquakeSimulator {
       if (c.progress >= c.nextFragment) {
         c.nextFragment += 0.5;
         const frontY = c.baseY + c.height * (1 - c.progress);
-        const side = Math.floor(Math.random() * 4);
+        const side = Math.floor(this.rng.next() * 4);
         const isX = side < 2;
         const sign = (side % 2 === 0) ? 1 : -1;
-        const ex = isX ? c.halfX * sign : (Math.random() - 0.5) * c.halfX;
-        const ez = isX ? (Math.random() - 0.5) * c.halfZ : c.halfZ * sign;
+        const ex = isX ? c.halfX * sign : (this.rng.next() - 0.5) * c.halfX;
+        const ez = isX ? (this.rng.next() - 0.5) * c.halfZ : c.halfZ * sign;
         const outward = isX ? { nx: sign, nz: 0 } : { nx: 0, nz: sign };
         this.spawnChunkDebris(c.cx + ex, c.cz + ez, frontY, this.concreteMat, outward, 0.3);
       }
@@ -521,30 +718,30 @@ export class EarthquakeSimulator {
 
   private spawnRubble(x: number, z: number, count: number) {
     for (let i = 0; i < count; i++) {
-      const geo = Math.random() < 0.5
-        ? new THREE.BoxGeometry(1.6 + Math.random() * 1.6, 0.4 + Math.random() * 0.6, 1.2 + Math.random() * 1.8)
-        : new THREE.ConeGeometry(0.6 + Math.random() * 0.6, 1.0 + Math.random() * 1.2, 4);
+      const geo = this.visualRng.next() < 0.5
+        ? new THREE.BoxGeometry(1.6 + this.visualRng.next() * 1.6, 0.4 + this.visualRng.next() * 0.6, 1.2 + this.visualRng.next() * 1.8)
+        : new THREE.ConeGeometry(0.6 + this.visualRng.next() * 0.6, 1.0 + this.visualRng.next() * 1.2, 4);
       const mat = new THREE.MeshPhongMaterial({ color: 0x777777, emissive: 0x2b2b2b, emissiveIntensity: 0.15 });
       const mesh = new THREE.Mesh(geo, mat);
-      const rx = x + (Math.random() - 0.5) * 10;
-      const rz = z + (Math.random() - 0.5) * 10;
+      const rx = x + (this.visualRng.next() - 0.5) * 10;
+      const rz = z + (this.visualRng.next() - 0.5) * 10;
       const ry = getTerrainHeight(rx, rz) + 0.05;
       mesh.position.set(rx, ry, rz);
-      mesh.rotation.set(Math.random() * 0.6, Math.random() * Math.PI * 2, Math.random() * 0.6);
+      mesh.rotation.set(this.visualRng.next() * 0.6, this.visualRng.next() * Math.PI * 2, this.visualRng.next() * 0.6);
       this.rubbleGroup.add(mesh);
     }
   }
 
   private spawnCollapseChunks(x: number, z: number, y: number, count: number) {
     for (let i = 0; i < count; i++) {
-      const geo = new THREE.BoxGeometry(3.0 + Math.random() * 3.5, 1.0 + Math.random() * 1.6, 2.5 + Math.random() * 3.0);
+      const geo = new THREE.BoxGeometry(3.0 + this.visualRng.next() * 3.5, 1.0 + this.visualRng.next() * 1.6, 2.5 + this.visualRng.next() * 3.0);
       const mat = new THREE.MeshPhongMaterial({ color: 0x707070, emissive: 0x2a2a2a, emissiveIntensity: 0.18 });
       const mesh = new THREE.Mesh(geo, mat);
-      const rx = x + (Math.random() - 0.5) * 12;
-      const rz = z + (Math.random() - 0.5) * 12;
+      const rx = x + (this.visualRng.next() - 0.5) * 12;
+      const rz = z + (this.visualRng.next() - 0.5) * 12;
       const ry = getTerrainHeight(rx, rz) + 0.05;
       mesh.position.set(rx, ry, rz);
-      mesh.rotation.set((Math.random() - 0.5) * 0.6, Math.random() * Math.PI * 2, (Math.random() - 0.5) * 0.6);
+      mesh.rotation.set((this.visualRng.next() - 0.5) * 0.6, this.visualRng.next() * Math.PI * 2, (this.visualRng.next() - 0.5) * 0.6);
       this.rubbleGroup.add(mesh);
     }
   }
@@ -561,42 +758,42 @@ export class EarthquakeSimulator {
     for (let i = 0; i < count; i++) {
       const isGlass = mat === this.glassMat;
       const geo = isGlass
-        ? (Math.random() < 0.6 ? this.debrisGeos[0]! : this.debrisGeos[1]!)
+        ? (this.rng.next() < 0.6 ? this.debrisGeos[0]! : this.debrisGeos[1]!)
         : this.debrisGeos[2 + (i % (this.debrisGeos.length - 2))]!;
       const mesh = new THREE.Mesh(geo, mat);
-      const outX = outward ? outward.nx * (minOffset + 0.2 + Math.random() * 0.6) : 0;
-      const outZ = outward ? outward.nz * (minOffset + 0.2 + Math.random() * 0.6) : 0;
+      const outX = outward ? outward.nx * (minOffset + 0.2 + this.rng.next() * 0.6) : 0;
+      const outZ = outward ? outward.nz * (minOffset + 0.2 + this.rng.next() * 0.6) : 0;
       mesh.position.set(
-        x + outX + (Math.random() - 0.5) * 0.8,
-        y + (Math.random() - 0.5) * 0.4,
-        z + outZ + (Math.random() - 0.5) * 0.8,
+        x + outX + (this.rng.next() - 0.5) * 0.8,
+        y + (this.rng.next() - 0.5) * 0.4,
+        z + outZ + (this.rng.next() - 0.5) * 0.8,
       );
       if (isGlass) {
         mesh.rotation.set(
-          (Math.random() - 0.5) * 0.4,
-          Math.random() * Math.PI,
-          (Math.random() - 0.5) * 0.4,
+          (this.rng.next() - 0.5) * 0.4,
+          this.rng.next() * Math.PI,
+          (this.rng.next() - 0.5) * 0.4,
         );
       } else {
-        mesh.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
+        mesh.rotation.set(this.rng.next() * Math.PI, this.rng.next() * Math.PI, this.rng.next() * Math.PI);
       }
-      mesh.scale.setScalar(0.6 + Math.random() * 1.4);
+      mesh.scale.setScalar(0.6 + this.rng.next() * 1.4);
       this.rubbleGroup.add(mesh);
       this.debris.push({
         mesh,
         velocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 6,
-          -0.5 + Math.random() * 0.4,
-          (Math.random() - 0.5) * 6,
+          (this.rng.next() - 0.5) * 6,
+          -0.5 + this.rng.next() * 0.4,
+          (this.rng.next() - 0.5) * 6,
         ),
         life: 0,
-        ttl: 6 + Math.random() * 6,
+        ttl: 6 + this.rng.next() * 6,
       });
     }
   }
 
   private chipBuilding(b: BuildingRecord, strength: number) {
-    const geom = b.mesh.geometry as THREE.BufferGeometry;
+    const geom = editableGeometry(b.mesh);
     if (!geom.attributes.position) return;
     geom.computeBoundingBox();
     const bb = geom.boundingBox!;
@@ -605,18 +802,18 @@ export class EarthquakeSimulator {
     if (size.x === 0 || size.y === 0 || size.z === 0) return;
 
     const chipSize = new THREE.Vector3(
-      size.x * (0.05 + Math.random() * 0.05),
-      size.y * (0.08 + Math.random() * 0.10),
-      size.z * (0.05 + Math.random() * 0.05),
+      size.x * (0.05 + this.visualRng.next() * 0.05),
+      size.y * (0.08 + this.visualRng.next() * 0.10),
+      size.z * (0.05 + this.visualRng.next() * 0.05),
     ).multiplyScalar(strength);
 
-    const cornerX = Math.random() < 0.5 ? bb.min.x : bb.max.x - chipSize.x;
-    const cornerZ = Math.random() < 0.5 ? bb.min.z : bb.max.z - chipSize.z;
-    const cornerY = bb.min.y + size.y * (0.2 + Math.random() * 0.6);
+    const cornerX = this.visualRng.next() < 0.5 ? bb.min.x : bb.max.x - chipSize.x;
+    const cornerZ = this.visualRng.next() < 0.5 ? bb.min.z : bb.max.z - chipSize.z;
+    const cornerY = bb.min.y + size.y * (0.2 + this.visualRng.next() * 0.6);
 
     const cx = (bb.min.x + bb.max.x) / 2;
     const cz = (bb.min.z + bb.max.z) / 2;
-    const chipDepth = Math.min(size.x, size.z) * (0.04 + Math.random() * 0.04) * strength;
+    const chipDepth = Math.min(size.x, size.z) * (0.04 + this.visualRng.next() * 0.04) * strength;
 
     const pos = geom.attributes.position as THREE.BufferAttribute;
     for (let i = 0; i < pos.count; i++) {
@@ -641,7 +838,7 @@ export class EarthquakeSimulator {
   }
 
   private chipBuildingToMatchDebris(b: BuildingRecord, debrisScale: number) {
-    const geom = b.mesh.geometry as THREE.BufferGeometry;
+    const geom = editableGeometry(b.mesh);
     if (!geom.attributes.position) return;
     geom.computeBoundingBox();
     const bb = geom.boundingBox!;
@@ -655,9 +852,9 @@ export class EarthquakeSimulator {
       Math.min(size.z * 0.18, debrisScale * 2.5),
     );
 
-    const cornerX = Math.random() < 0.5 ? bb.min.x : bb.max.x - chipSize.x;
-    const cornerZ = Math.random() < 0.5 ? bb.min.z : bb.max.z - chipSize.z;
-    const cornerY = bb.min.y + size.y * (0.3 + Math.random() * 0.5);
+    const cornerX = this.visualRng.next() < 0.5 ? bb.min.x : bb.max.x - chipSize.x;
+    const cornerZ = this.visualRng.next() < 0.5 ? bb.min.z : bb.max.z - chipSize.z;
+    const cornerY = bb.min.y + size.y * (0.3 + this.visualRng.next() * 0.5);
 
     const cx = (bb.min.x + bb.max.x) / 2;
     const cz = (bb.min.z + bb.max.z) / 2;
@@ -693,28 +890,28 @@ export class EarthquakeSimulator {
     outward?: { nx: number; nz: number },
     minOffset = 0,
   ) {
-    const geoIdx = 3 + Math.floor(Math.random() * 2); // chunk/wedge
+    const geoIdx = 3 + Math.floor(this.rng.next() * 2); // chunk/wedge
     const geo = this.debrisGeos[geoIdx]!;
     const mesh = new THREE.Mesh(geo, mat);
-    const outX = outward ? outward.nx * (minOffset + 0.3 + Math.random() * 0.8) : 0;
-    const outZ = outward ? outward.nz * (minOffset + 0.3 + Math.random() * 0.8) : 0;
+    const outX = outward ? outward.nx * (minOffset + 0.3 + this.rng.next() * 0.8) : 0;
+    const outZ = outward ? outward.nz * (minOffset + 0.3 + this.rng.next() * 0.8) : 0;
     mesh.position.set(
-      x + outX + (Math.random() - 0.5) * 0.6,
-      y + (Math.random() - 0.5) * 0.3,
-      z + outZ + (Math.random() - 0.5) * 0.6,
+      x + outX + (this.rng.next() - 0.5) * 0.6,
+      y + (this.rng.next() - 0.5) * 0.3,
+      z + outZ + (this.rng.next() - 0.5) * 0.6,
     );
-    mesh.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
-    mesh.scale.setScalar(1.0 + Math.random() * 1.2);
+    mesh.rotation.set(this.rng.next() * Math.PI, this.rng.next() * Math.PI, this.rng.next() * Math.PI);
+    mesh.scale.setScalar(1.0 + this.rng.next() * 1.2);
     this.rubbleGroup.add(mesh);
     this.debris.push({
       mesh,
       velocity: new THREE.Vector3(
-        (Math.random() - 0.5) * 5,
-        -0.6 + Math.random() * 0.3,
-        (Math.random() - 0.5) * 5,
+        (this.rng.next() - 0.5) * 5,
+        -0.6 + this.rng.next() * 0.3,
+        (this.rng.next() - 0.5) * 5,
       ),
       life: 0,
-      ttl: 8 + Math.random() * 6,
+      ttl: 8 + this.rng.next() * 6,
     });
   }
 
@@ -742,7 +939,7 @@ export class EarthquakeSimulator {
         const px = d.mesh.position.x;
         const py = d.mesh.position.y;
         const pz = d.mesh.position.z;
-        for (const b of buildings) {
+        for (const b of buildingStreamerRef?.buildingsNear(px, pz, 0.4) ?? buildings) {
           if (b.destroyed) continue;
           const byMin = b.baseY;
           const byMax = b.baseY + b.height;
@@ -799,7 +996,7 @@ export class EarthquakeSimulator {
         d.velocity.set(0, 0, 0);
         d.grounded = true;
         // Keep grounded debris visible longer for agent perception.
-        d.ttl = Math.max(d.ttl, 60 + Math.random() * 40);
+        d.ttl = Math.max(d.ttl, 60 + this.rng.next() * 40);
       }
     }
   }
@@ -825,10 +1022,7 @@ export class EarthquakeSimulator {
   private updateTrees(dt: number) {
     for (const tree of treeRegistry as TreeRecord[]) {
       if (tree.uprooted) continue;
-      const dx = tree.x - this.position.x;
-      const dz = tree.z - this.position.z;
-      const rKm = Math.sqrt(dx * dx + dz * dz) / 1000;
-      const mmi = this.getMMIAtDistanceKm(rKm);
+      const mmi = this.motionAt(tree.x, tree.z).mmi;
       if (this.magnitude < 7.0 || mmi < 6.5) continue;
 
       const sway = 0.03 + (mmi - 5.5) * 0.03;
@@ -836,18 +1030,18 @@ export class EarthquakeSimulator {
       tree.trunkMesh.rotation.x = Math.cos(this.time * 2.6 + tree.z * 0.1) * sway;
       tree.canopyMesh.rotation.y += 0.02 * dt;
 
-      if (!tree.broken && mmi >= 7.0 && Math.random() < 0.01 * dt) {
+      if (!tree.broken && mmi >= 7.0 && this.rng.next() < 0.01 * dt) {
         tree.broken = true;
         const groundY = getTerrainHeight(tree.x, tree.z);
         tree.trunkMesh.scale.y = 0.45;
         tree.trunkMesh.position.y = groundY + 1.0;
-        tree.trunkMesh.rotation.z = (Math.random() - 0.5) * 0.8;
-        tree.trunkMesh.rotation.x = (Math.random() - 0.5) * 0.6;
+        tree.trunkMesh.rotation.z = (this.rng.next() - 0.5) * 0.8;
+        tree.trunkMesh.rotation.x = (this.rng.next() - 0.5) * 0.6;
         tree.canopyMesh.position.y = groundY + 0.6;
         tree.canopyMesh.rotation.set(
-          (Math.random() - 0.5) * 0.8,
-          Math.random() * Math.PI * 2,
-          (Math.random() - 0.5) * 0.8,
+          (this.rng.next() - 0.5) * 0.8,
+          this.rng.next() * Math.PI * 2,
+          (this.rng.next() - 0.5) * 0.8,
         );
       }
     }
@@ -856,10 +1050,7 @@ export class EarthquakeSimulator {
   private updateCars(dt: number) {
     for (const car of carRegistry as CarRecord[]) {
       if (car.uprooted) continue;
-      const dx = car.x - this.position.x;
-      const dz = car.z - this.position.z;
-      const rKm = Math.sqrt(dx * dx + dz * dz) / 1000;
-      const mmi = this.getMMIAtDistanceKm(rKm);
+      const mmi = this.motionAt(car.x, car.z).mmi;
       if (mmi < 5.5) continue;
 
       const shake = this.getShakeVector(car.x, car.z);
@@ -868,10 +1059,10 @@ export class EarthquakeSimulator {
       const y = getTerrainHeight(car.x, car.z);
       car.mesh.position.set(car.x, y, car.z);
 
-      if (!car.tipped && mmi >= 7.5 && Math.random() < 0.015 * dt) {
+      if (!car.tipped && mmi >= 7.5 && this.rng.next() < 0.015 * dt) {
         car.tipped = true;
         car.speed = 0;
-        car.mesh.rotation.z = (Math.random() < 0.5 ? -1 : 1) * (Math.PI / 2.2);
+        car.mesh.rotation.z = (this.rng.next() < 0.5 ? -1 : 1) * (Math.PI / 2.2);
       }
     }
   }
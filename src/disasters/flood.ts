@@ -2,7 +2,8 @@ import * as THREE from "three";
 import type { LayerData, BuildingFeature } from "../tiles.ts";
 import { metersPerDegree } from "../tiles.ts";
 import type { EventBus } from "../core/EventBus.ts";
-import { sceneGroupRef, treeRegistry, type TreeRecord } from "../layers.ts";
+import { SeededRandom } from "../core/Random.ts";
+import { buildingRegistry, landCoverRef, sceneGroupRef, treeRegistry, type TreeRecord } from "../layers.ts";
 
 interface FloodInitContext {
   layers: LayerData;
@@ -23,6 +24,9 @@ interface FloodRaster {
   dz: number;
   terrain: Float32Array;
   obstacle: Uint8Array;
+  /** Per-cell multiplier on `manningN` and infiltration rate (m/s) from the land cover; null → the global params. */
+  roughness: Float32Array | null;
+  infiltration: Float32Array | null;
   sourceIndex: number;
   sourceX: number;
   sourceZ: number;
@@ -152,6 +156,21 @@ function buildFloodRaster(
   const buildingPolys = extractBuildingPolygons(layers.buildings.features, centerLat, centerLon);
   rasterizeObstacles(obstacle, buildingPolys, width, height, xMin, zMin, dx, dz);
 
+  let roughness: Float32Array | null = null;
+  let infiltration: Float32Array | null = null;
+  if (landCoverRef) {
+    roughness = new Float32Array(width * height);
+    infiltration = new Float32Array(width * height);
+    for (let j = 0; j < height; j++) {
+      const z = zMin + j * dz;
+      for (let i = 0; i < width; i++) {
+        const x = xMin + i * dx;
+        roughness[j * width + i] = landCoverRef.roughnessAt(x, z);
+        infiltration[j * width + i] = landCoverRef.infiltrationAt(x, z);
+      }
+    }
+  }
+
   const centerI = Math.floor(width * 0.5);
   const centerJ = Math.floor(height * 0.5);
 
@@ -181,6 +200,8 @@ function buildFloodRaster(
     dz,
     terrain,
     obstacle,
+    roughness,
+    infiltration,
     sourceIndex,
     sourceX,
     sourceZ,
@@ -403,6 +424,8 @@ class ShallowWaterSolver {
   readonly dz: number;
   readonly terrain: Float32Array;
   readonly obstacle: Uint8Array;
+  private readonly roughness: Float32Array | null;
+  private readonly infiltration: Float32Array | null;
 
   depth: Float32Array;
   mx: Float32Array;
@@ -454,6 +477,8 @@ class ShallowWaterSolver {
     this.dz = raster.dz;
     this.terrain = raster.terrain;
     this.obstacle = raster.obstacle;
+    this.roughness = raster.roughness;
+    this.infiltration = raster.infiltration;
 
     this.depth = new Float32Array(this.width * this.height);
     this.mx = new Float32Array(this.width * this.height);
@@ -879,8 +904,9 @@ class ShallowWaterSolver {
         if (this.params.rainRate > 0) {
           nh += this.params.rainRate * dt;
         }
-        if (this.params.infiltrationRate > 0) {
-          nh -= this.params.infiltrationRate * dt;
+        const infiltration = this.infiltration ? this.infiltration[idx]! : this.params.infiltrationRate;
+        if (infiltration > 0) {
+          nh -= infiltration * dt;
         }
         if (this.params.drainageRate > 0) {
           nh *= Math.max(0, 1 - this.params.drainageRate * dt);
@@ -933,7 +959,8 @@ class ShallowWaterSolver {
 
         const speed = Math.sqrt(u * u + v * v);
         if (speed > 0) {
-          const drag = (g * this.params.manningN * this.params.manningN * speed) /
+          const n = this.roughness ? this.params.manningN * this.roughness[idx]! : this.params.manningN;
+          const drag = (g * n * n * speed) /
             Math.pow(Math.max(nh, 0.01), 1.3333333333);
           const damp = Math.max(0, 1 - drag * dt);
           u *= damp;
@@ -1284,6 +1311,11 @@ interface SweptTree {
 class FloodTreeSystem {
   private sweptTrees: SweptTree[] = [];
   private checkTimer = 0;
+  private rng: SeededRandom;
+
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
+  }
 
   update(dt: number, solver: ShallowWaterSolver, surface: FloodWaterSurface) {
     this.checkTimer += dt;
@@ -1328,7 +1360,7 @@ class FloodTreeSystem {
           vx: state.u * 0.6,
           vz: state.v * 0.6,
           vy: 0,
-          rotSpeed: (Math.random() - 0.5) * 2,
+          rotSpeed: (this.rng.next() - 0.5) * 2,
           lifetime: 0,
         });
 
@@ -1395,8 +1427,59 @@ class FloodTreeSystem {
   }
 }
 
+// --- Building damage (hydrodynamic load) ---
+
+const HYDRO_CHECK_INTERVAL = 0.5; // seconds between building checks
+const HYDRO_ONSET = 1.0;          // m³/s² of depth × speed² where walls start to fail...
+const HYDRO_COLLAPSE = 12.0;      // ...and where an average building is swept away
+const HYDRO_DAMAGE_RATE = 0.15;   // damage per second at collapse-level load
+
+class FloodBuildingSystem {
+  private checkTimer = 0;
+
+  update(dt: number, solver: ShallowWaterSolver, eventBus: EventBus | null) {
+    this.checkTimer += dt;
+    if (this.checkTimer < HYDRO_CHECK_INTERVAL) return;
+    const step = this.checkTimer;
+    this.checkTimer = 0;
+
+    for (const b of buildingRegistry) {
+      if (b.destroyed) continue;
+      // Buildings are obstacles in the raster — read the water just outside each wall
+      let load = 0;
+      for (const [ox, oz] of [[b.halfX + 1, 0], [-b.halfX - 1, 0], [0, b.halfZ + 1], [0, -b.halfZ - 1]] as const) {
+        const state = solver.sampleStateAtWorld(b.centerX + ox, b.centerZ + oz, false, 0);
+        if (state.obstacle) continue;
+        load = Math.max(load, state.depth * (state.u * state.u + state.v * state.v));
+        b.peakFloodDepth = Math.max(b.peakFloodDepth, state.depth);
+      }
+      // Timber houses go long before concrete does (vulnerability.ts)
+      const effective = load / b.fragility.hydro;
+      if (effective < HYDRO_ONSET) continue;
+
+      const intensity = Math.min(1, (effective - HYDRO_ONSET) / (HYDRO_COLLAPSE - HYDRO_ONSET));
+      b.damageLevel = Math.min(1, b.damageLevel + intensity * HYDRO_DAMAGE_RATE * step);
+      if (b.damageLevel < 1) continue;
+
+      // Swept away: the footprint opens up to the flow
+      b.destroyed = true;
+      b.mesh.visible = false;
+      solver.clearObstaclesInAabb(b.centerX - b.halfX, b.centerX + b.halfX, b.centerZ - b.halfZ, b.centerZ + b.halfZ);
+      eventBus?.emit({
+        type: "STRUCTURE_COLLAPSE",
+        entityId: 0,
+        position: [b.centerX, b.baseY, b.centerZ],
+        fragmentCount: 0,
+      });
+      console.log(`[Flood] ${b.attributes.type} building at (${b.centerX.toFixed(0)}, ${b.centerZ.toFixed(0)}) swept away`);
+    }
+  }
+}
+
 // --- FloodSimulator (top-level manager) ---
 
+const SOAK_INTERVAL = 2.0; // seconds between marking flooded ground cells wet
+
 export class FloodSimulator {
   active = false;
   running = false;
@@ -1407,11 +1490,14 @@ export class FloodSimulator {
   private scene: THREE.Scene;
   private context: FloodInitContext | null = null;
   private eventBus: EventBus | null = null;
+  private rng = new SeededRandom();
   private targetVolume = 50000; // m³ — tunable parameter
   private solver: ShallowWaterSolver | null = null;
   private surface: FloodWaterSurface | null = null;
   private treeSystem: FloodTreeSystem | null = null;
+  private buildingSystem: FloodBuildingSystem | null = null;
   private lastEmit = 0;
+  private soakTimer = 0;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
@@ -1421,6 +1507,11 @@ export class FloodSimulator {
     this.eventBus = bus;
   }
 
+  /** Use the run's shared PRNG (SimWorld.rng) for every random draw. */
+  setRng(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
   setTerrainContext(
     layers: LayerData,
     centerLat: number,
@@ -1467,8 +1558,8 @@ export class FloodSimulator {
         sourceRadiusCells: 3,
         cfl: 0.62,
         maxSubsteps: 32,
-        manningN: 0.003,
-        infiltrationRate: 0,
+        manningN: 0.003,        // open urban ground — the land cover scales it per cell
+        infiltrationRate: 0,    // used only without a land-cover map
         drainageRate: 0,
         rainRate: 0,
       });
@@ -1479,7 +1570,8 @@ export class FloodSimulator {
       this.surface.updateFromSolver(this.solver, 0);
       console.log("[Flood] surface created");
 
-      this.treeSystem = new FloodTreeSystem();
+      this.treeSystem = new FloodTreeSystem(this.rng);
+      this.buildingSystem = new FloodBuildingSystem();
 
       const parent = this.context.parent ?? sceneGroupRef ?? this.scene;
       parent.add(this.surface.mesh);
@@ -1488,12 +1580,21 @@ export class FloodSimulator {
       this.active = true;
       this.running = true;
       this.lastEmit = 0;
+      this.soakTimer = 0;
       console.log("[Flood] spawn complete, target volume:", this.targetVolume, "m³");
     } catch (err) {
       console.error("[Flood] spawn failed:", err);
     }
   }
 
+  /** Water depth (m) at a world point — 0 outside the simulated area or when no flood is running. */
+  depthAt(x: number, z: number): number {
+    const solver = this.solver;
+    if (!this.active || !solver) return 0;
+    if (x < solver.xMin || x > solver.xMax || z < solver.zMin || z > solver.zMax) return 0;
+    return solver.sampleStateAtWorld(x, z, false).depth;
+  }
+
   despawn() {
     this.active = false;
     this.running = false;
@@ -1520,6 +1621,14 @@ export class FloodSimulator {
     if (this.treeSystem) {
       this.treeSystem.update(dt, this.solver, this.surface);
     }
+    this.buildingSystem?.update(dt, this.solver, this.eventBus);
+
+    // Flooded ground stays too wet to burn (landcover.ts)
+    this.soakTimer += dt;
+    if (landCoverRef && this.soakTimer >= SOAK_INTERVAL) {
+      this.soakTimer = 0;
+      landCoverRef.soak((x, z) => this.depthAt(x, z));
+    }
 
     const stats = this.solver.stats;
     if (stats.wetCellCount > 0) {
@@ -1543,6 +1652,7 @@ export class FloodSimulator {
   }
 
   private disposeInternal() {
+    this.buildingSystem = null;
     if (this.treeSystem) {
       this.treeSystem.dispose();
       this.treeSystem = null;
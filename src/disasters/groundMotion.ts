@@ -0,0 +1,300 @@
+/**
+ * Earthquake ground motion — the shaking each point of the scene gets, and a
+ * synthetic record of it.
+ *
+ *   - Source: a point at hypocentral depth, or a finite fault — a rupture line
+ *     running from the hypocenter along strike, as long as Wells & Coppersmith
+ *     (1994) give for the magnitude.
+ *   - Intensity: Allen et al. (2012) IPE on rupture distance, converted to PGA
+ *     and PGV with the Worden et al. (2012) GMICE.
+ *   - Directivity: sites the rupture runs toward get stronger long-period
+ *     motion, sites behind it weaker (after Somerville et al., 1997).
+ *   - Site: Vs30 amplification after Borcherdt (1994), weakening as the rock
+ *     motion grows (soil nonlinearity); MMI is recomputed from the result.
+ *   - Time history: random-phase sinusoids whose power follows a Newmark–Hall
+ *     response spectrum, under a build-up / strong-motion / decay envelope,
+ *     scaled to each site's PGA.
+ */
+
+import type { SeededRandom } from "../core/Random.ts";
+
+// Allen et al. (2012) IPE for active shallow crustal regions, rupture distance (OpenQuake implementation)
+const IPE_COEFF = {
+  c0: 3.95,
+  c1: 0.913,
+  c2: -1.107,
+  c3: 0.813,
+};
+
+// Worden et al. (2012) GMICE: MMI = c1 + c2·log10(Y) up to log10(Y) = t1, c3 + c4·log10(Y) above
+const GMICE_PGA = { c1: 1.78, c2: 1.55, c3: -1.60, c4: 3.70, t1: 1.57, t2: 4.22 }; // Y in cm/s²
+const GMICE_PGV = { c1: 3.78, c2: 1.47, c3: 2.89, c4: 3.16, t1: 0.53, t2: 4.56 }; // Y in cm/s
+
+const G = 981; // cm/s²
+
+/** Vs30 (m/s) the IPE's motion is taken to be on — the B/C site-class boundary. */
+export const REFERENCE_VS30 = 760;
+
+// Borcherdt (1994) amplification exponents, by input rock PGA (g)
+const BORCHERDT_PGA = [0.1, 0.2, 0.3, 0.4];
+const BORCHERDT_MA = [0.35, 0.25, 0.10, -0.05]; // short period (PGA)
+const BORCHERDT_MV = [0.65, 0.60, 0.53, 0.45];  // mid period (PGV)
+
+// Directivity: ln factor = coeff · (min(X cosθ, saturation) − neutral)
+const DIRECTIVITY_PGV = 0.9;
+const DIRECTIVITY_PGA = 0.3;
+const XCOS_SATURATION = 0.6;
+const XCOS_NEUTRAL = 0.2;
+
+/** Where the rupture starts, and for a finite fault, where it runs. */
+export interface QuakeSource {
+  magnitude: number;
+  x: number;          // epicenter, scene meters
+  z: number;
+  depthKm: number;    // hypocentral depth
+  /** Surface projection of the rupture line, from the epicenter; null for a point source. */
+  rupture: { x1: number; z1: number } | null;
+}
+
+/** Shaking at a site. */
+export interface GroundMotion {
+  mmi: number;
+  pga: number;        // g
+  pgv: number;        // cm/s
+  vs30: number;       // m/s
+}
+
+/** Surface rupture length (m) for a magnitude, Wells & Coppersmith (1994), all slip types. */
+export function ruptureLengthMeters(magnitude: number): number {
+  return Math.pow(10, -3.22 + 0.69 * magnitude) * 1000;
+}
+
+/** The rupture line for a fault breaking from (x, z) along `strikeDeg` (clockwise from north). */
+export function ruptureAlong(x: number, z: number, strikeDeg: number, lengthMeters: number): { x1: number; z1: number } {
+  const s = (strikeDeg * Math.PI) / 180;
+  return { x1: x + Math.sin(s) * lengthMeters, z1: z - Math.cos(s) * lengthMeters };
+}
+
+/** Allen et al. (2012) MMI at a rupture distance. */
+export function ipeIntensity(magnitude: number, rRupKm: number): number {
+  const { c0, c1, c2, c3 } = IPE_COEFF;
+  const term = Math.sqrt(rRupKm * rRupKm + Math.pow(1 + c3 * Math.exp(magnitude - 5), 2));
+  return Math.max(1, Math.min(10, c0 + c1 * magnitude + c2 * Math.log(term)));
+}
+
+function gmiceInverse(c: typeof GMICE_PGA, mmi: number): number {
+  return Math.pow(10, mmi <= c.t2 ? (mmi - c.c1) / c.c2 : (mmi - c.c3) / c.c4);
+}
+
+function gmiceForward(c: typeof GMICE_PGA, y: number): number {
+  const l = Math.log10(Math.max(y, 1e-6));
+  return l <= c.t1 ? c.c1 + c.c2 * l : c.c3 + c.c4 * l;
+}
+
+/** MMI from PGA (g) and PGV (cm/s): PGA-based below VI, PGV-based above VII, blended between. */
+export function intensityFromMotion(pga: number, pgv: number): number {
+  const fromPga = gmiceForward(GMICE_PGA, pga * G);
+  const fromPgv = gmiceForward(GMICE_PGV, pgv);
+  const w = Math.max(0, Math.min(1, (fromPga - 6) / 1));
+  return Math.max(1, Math.min(10, fromPga + (fromPgv - fromPga) * w));
+}
+
+function interpolate(xs: number[], ys: number[], x: number): number {
+  if (x <= xs[0]!) return ys[0]!;
+  for (let i = 1; i < xs.length; i++) {
+    if (x <= xs[i]!) {
+      const t = (x - xs[i - 1]!) / (xs[i]! - xs[i - 1]!);
+      return ys[i - 1]! + (ys[i]! - ys[i - 1]!) * t;
+    }
+  }
+  return ys[ys.length - 1]!;
+}
+
+/** Site amplification of PGA and PGV for a Vs30, given the rock PGA (g). */
+export function siteAmplification(vs30: number, rockPga: number): { pga: number; pgv: number } {
+  const ratio = REFERENCE_VS30 / Math.max(vs30, 90);
+  return {
+    pga: Math.pow(ratio, interpolate(BORCHERDT_PGA, BORCHERDT_MA, rockPga)),
+    pgv: Math.pow(ratio, interpolate(BORCHERDT_PGA, BORCHERDT_MV, rockPga)),
+  };
+}
+
+/** Horizontal distance (m) from a site to the rupture's surface projection, and X cosθ for directivity. */
+function ruptureGeometry(src: QuakeSource, x: number, z: number): { distance: number; xCos: number } {
+  if (!src.rupture) return { distance: Math.hypot(x - src.x, z - src.z), xCos: XCOS_NEUTRAL };
+  const dx = src.rupture.x1 - src.x;
+  const dz = src.rupture.z1 - src.z;
+  const length = Math.hypot(dx, dz) || 1;
+  const sx = x - src.x;
+  const sz = z - src.z;
+  const along = (sx * dx + sz * dz) / length;
+  const t = Math.max(0, Math.min(length, along));
+  const distance = Math.hypot(sx - (dx / length) * t, sz - (dz / length) * t);
+  // X: share of the rupture between the hypocenter and the site; θ: angle off strike
+  const r = Math.hypot(sx, sz);
+  const cos = r > 1 ? along / r : 1;
+  return { distance, xCos: (t / length) * cos };
+}
+
+/** Peak shaking at a site on ground of the given Vs30. */
+export function groundMotionAt(src: QuakeSource, x: number, z: number, vs30 = REFERENCE_VS30): GroundMotion {
+  const { distance, xCos } = ruptureGeometry(src, x, z);
+  const rRupKm = Math.hypot(distance / 1000, src.depthKm);
+  const rockMmi = ipeIntensity(src.magnitude, rRupKm);
+  let pga = gmiceInverse(GMICE_PGA, rockMmi) / G;
+  let pgv = gmiceInverse(GMICE_PGV, rockMmi);
+
+  if (src.rupture) {
+    const d = Math.min(xCos, XCOS_SATURATION) - XCOS_NEUTRAL;
+    pga *= Math.exp(DIRECTIVITY_PGA * d);
+    pgv *= Math.exp(DIRECTIVITY_PGV * d);
+  }
+
+  const amp = siteAmplification(vs30, pga);
+  pga *= amp.pga;
+  pgv *= amp.pgv;
+  return { mmi: intensityFromMotion(pga, pgv), pga, pgv, vs30 };
+}
+
+/**
+ * 5 %-damped pseudo-acceleration (g) at a period, after Newmark & Hall: PGA
+ * at short periods, rising to 2.71 × PGA, then capped by 2.30 × PGV.
+ */
+export function responseSpectrum(pga: number, pgv: number, periodSec: number): number {
+  const T = Math.max(periodSec, 1e-3);
+  const plateau = 2.71 * pga;
+  const velocityBound = (2.30 * pgv * 2 * Math.PI) / T / G;
+  if (T <= 0.03) return pga;
+  if (T < 0.125) {
+    const t = Math.log(T / 0.03) / Math.log(0.125 / 0.03);
+    return Math.min(pga * Math.pow(plateau / pga, t), velocityBound);
+  }
+  return Math.min(plateau, velocityBound);
+}
+
+// ─── Synthetic time history ─────────────────────────────────────────────────
+
+const COMPONENTS = 40;
+const F_MIN = 0.2;  // Hz
+const F_MAX = 20;
+const DAMPING = 0.05;
+const RISE = 0.1;   // share of the duration building up
+const STRONG = 0.5; // share of the duration by the end of strong motion
+const TAIL = 0.05;  // envelope left at the end
+
+/**
+ * A three-component acceleration record with unit horizontal peak, its
+ * frequency content matched to a response spectrum (power spectral density
+ * after Vanmarcke: G(ω) ≈ 4ζ / (πω) · Sa(ω)²).
+ */
+export class SyntheticMotion {
+  readonly duration: number;
+  private omega = new Float32Array(COMPONENTS);
+  private amp = new Float32Array(COMPONENTS);
+  private phase: Float32Array[];
+  private scale = 1;
+
+  constructor(spectrum: (periodSec: number) => number, duration: number, rng: SeededRandom) {
+    this.duration = duration;
+    const ratio = Math.pow(F_MAX / F_MIN, 1 / (COMPONENTS - 1));
+    for (let k = 0; k < COMPONENTS; k++) {
+      const f = F_MIN * Math.pow(ratio, k);
+      const w = 2 * Math.PI * f;
+      const psd = ((4 * DAMPING) / (Math.PI * w)) * spectrum(1 / f) ** 2;
+      this.omega[k] = w;
+      this.amp[k] = Math.sqrt(2 * psd * w * (ratio - 1));
+    }
+    this.phase = [0, 1, 2].map(() => Float32Array.from({ length: COMPONENTS }, () => rng.next() * 2 * Math.PI));
+
+    // Normalize so the stronger horizontal component peaks at 1
+    let peak = 0;
+    for (let t = 0; t < duration; t += 0.01) {
+      const env = this.envelope(t);
+      peak = Math.max(peak, Math.abs(this.component(0, t)) * env, Math.abs(this.component(1, t)) * env);
+    }
+    this.scale = peak > 0 ? 1 / peak : 0;
+  }
+
+  /** Build-up, strong motion and exponential decay (Jennings-style), 0–1. */
+  envelope(t: number): number {
+    const d = this.duration;
+    if (t <= 0 || t >= d) return 0;
+    if (t < RISE * d) return (t / (RISE * d)) ** 2;
+    if (t < STRONG * d) return 1;
+    return Math.exp((Math.log(TAIL) * (t - STRONG * d)) / ((1 - STRONG) * d));
+  }
+
+  /** Acceleration per unit PGA at time t: east (x), up (y, two-thirds of horizontal) and south (z). */
+  at<T extends { x: number; y: number; z: number }>(t: number, out: T): T {
+    const s = this.envelope(t) * this.scale;
+    out.x = this.component(0, t) * s;
+    out.z = this.component(1, t) * s;
+    out.y = this.component(2, t) * s * (2 / 3);
+    return out;
+  }
+
+  private component(i: number, t: number): number {
+    const phase = this.phase[i]!;
+    let a = 0;
+    for (let k = 0; k < COMPONENTS; k++) a += this.amp[k]! * Math.sin(this.omega[k]! * t + phase[k]!);
+    return a;
+  }
+}
+
+// ─── Shake map ──────────────────────────────────────────────────────────────
+
+const SHAKE_MAP_MAX_CELLS = 96; // per axis
+const SHAKE_MAP_MIN_CELL = 10;  // m
+
+/** PGA / PGV / MMI over the scene, row-major from (xMin, zMin), for lookups and the overlay. */
+export class ShakeMap {
+  readonly xMin: number;
+  readonly zMin: number;
+  readonly cellSize: number;
+  readonly width: number;
+  readonly height: number;
+  readonly pga: Float32Array;
+  readonly pgv: Float32Array;
+  readonly mmi: Float32Array;
+  readonly vs30: Float32Array;
+
+  constructor(
+    private readonly src: QuakeSource,
+    bounds: { xMin: number; zMin: number; width: number; depth: number },
+    private readonly vs30At: (x: number, z: number) => number,
+  ) {
+    this.xMin = bounds.xMin;
+    this.zMin = bounds.zMin;
+    this.cellSize = Math.max(SHAKE_MAP_MIN_CELL, Math.max(bounds.width, bounds.depth) / SHAKE_MAP_MAX_CELLS);
+    this.width = Math.max(1, Math.ceil(bounds.width / this.cellSize));
+    this.height = Math.max(1, Math.ceil(bounds.depth / this.cellSize));
+    const n = this.width * this.height;
+    this.pga = new Float32Array(n);
+    this.pgv = new Float32Array(n);
+    this.mmi = new Float32Array(n);
+    this.vs30 = new Float32Array(n);
+    for (let j = 0; j < this.height; j++) {
+      for (let i = 0; i < this.width; i++) {
+        const x = this.xMin + (i + 0.5) * this.cellSize;
+        const z = this.zMin + (j + 0.5) * this.cellSize;
+        const m = groundMotionAt(src, x, z, vs30At(x, z));
+        const idx = j * this.width + i;
+        this.pga[idx] = m.pga;
+        this.pgv[idx] = m.pgv;
+        this.mmi[idx] = m.mmi;
+        this.vs30[idx] = m.vs30;
+      }
+    }
+  }
+
+  /** Shaking at a point — the cell's values inside the map, computed directly outside it. */
+  at(x: number, z: number): GroundMotion {
+    const i = Math.floor((x - this.xMin) / this.cellSize);
+    const j = Math.floor((z - this.zMin) / this.cellSize);
+    if (i < 0 || j < 0 || i >= this.width || j >= this.height) {
+      return groundMotionAt(this.src, x, z, this.vs30At(x, z));
+    }
+    const idx = j * this.width + i;
+    return { mmi: this.mmi[idx]!, pga: this.pga[idx]!, pgv: this.pgv[idx]!, vs30: this.vs30[idx]! };
+  }
+}
@@ -1,9 +1,11 @@
 /**
- * Tornado Simulator — Rankine vortex wind field, progressive building damage,
- * tree uprooting, debris capture & orbit physics, and particle-based funnel.
+ * Tornado Simulator — analytic vortex wind field (vortex.ts), progressive
+ * building damage, tree uprooting, debris capture & orbit physics, and
+ * particle-based funnel.
  *
  * Physics references:
- *   - Rankine vortex: inner solid-body rotation, outer irrotational flow
+ *   - Rankine, Burgers–Rott and Sullivan two-cell vortices, with translation,
+ *     surface inflow and a boundary-layer profile
  *   - Enhanced Fujita Scale (EF0-EF5) wind speed thresholds
  *   - Progressive failure: roof covering → roof structure → walls → collapse
  *   - Debris flight: drag-coupled to vortex wind, captured items orbit funnel
@@ -20,7 +22,7 @@ import {
   Fn, Discard,
   varying,
 } from "three/tsl";
-import type { BuildingRecord, TreeRecord, CarRecord } from "../layers.ts";
+import { editableGeometry, type BuildingRecord, type TreeRecord, type CarRecord } from "../layers.ts";
 import {
   getTerrainHeight,
   terrainCanvasRef,
@@ -28,9 +30,13 @@ import {
   terrainBoundsRef,
   treeRegistry,
   carRegistry,
+  buildingStreamerRef,
 } from "../layers.ts";
 import type { EventBus } from "../core/EventBus.ts";
+import { SeededRandom } from "../core/Random.ts";
 import * as GPU from "./tornadoCompute.ts";
+import { TrackFollower, type TornadoTrack, type TrackState } from "./tornadoTrack.ts";
+import { windAt, windSpeedAt, type VortexModel, type VortexState } from "./vortex.ts";
 
 // ─── Enhanced Fujita Scale ──────────────────────────────────────────────────
 
@@ -48,6 +54,11 @@ export const EF_SCALE = [
 const EF_PATH_WIDTH_YARDS = [50, 90, 77, 233, 310, 600];
 const YARDS_TO_METERS = 0.9144;
 
+/** Median damage-path width for an EF rating (meters). */
+function efPathWidthMeters(efRating: number): number {
+  return EF_PATH_WIDTH_YARDS[Math.max(0, Math.min(5, Math.round(efRating)))]! * YARDS_TO_METERS;
+}
+
 // Wind speed thresholds for progressive structural failure (m/s)
 const DMG = {
   roofCovering:    30,
@@ -172,6 +183,14 @@ export class TornadoSimulator {
   private outerRadius = 200;
   private translationSpeed = 15;
   private heading = 0;
+  /** Scripted path to follow instead of wandering; null drifts freely. */
+  private track: TornadoTrack | null = null;
+  private follower: TrackFollower | null = null;
+  private ratingBeforeTrack = 3;
+  /** The wind field as of this frame — the one every damage and debris calculation reads. */
+  private vortex: VortexState = {
+    model: "rankine", x: 0, y: 0, z: 0, maxWindSpeed: 74, coreRadius: 50, heading: 0, translationSpeed: 15,
+  };
 
   /* ── Three.js scene objects ── */
   private scene: THREE.Scene;
@@ -204,9 +223,9 @@ export class TornadoSimulator {
   private bendDir = new THREE.Vector2(1, 0);
   private bendTarget = new THREE.Vector2(1, 0);
   private bendStrength = 0;
-  private bendSeedA = Math.random() * 10;
-  private bendSeedB = Math.random() * 10;
-  private ropeSeed = Math.random() * 10;
+  private bendSeedA = 0;
+  private bendSeedB = 0;
+  private ropeSeed = 0;
   private leanTimer = 0;
   private leanDir = new THREE.Vector2(1, 0);
   private leanStrength = 0;
@@ -224,6 +243,7 @@ export class TornadoSimulator {
 
   /* ── EventBus ── */
   private eventBus: EventBus | null = null;
+  private rng = new SeededRandom();
   private lastEventEmit = 0;
 
   /* ── building collapse queue ── */
@@ -247,9 +267,10 @@ export class TornadoSimulator {
   // Constructor
   // ─────────────────────────────────────────────────────────────────────────
 
-  private renderer: WebGPURenderer;
+  /** Null in headless runs — funnel particles are visual only and skip the GPU dispatch. */
+  private renderer: WebGPURenderer | null;
 
-  constructor(scene: THREE.Scene, renderer: WebGPURenderer) {
+  constructor(scene: THREE.Scene, renderer: WebGPURenderer | null) {
     this.scene = scene;
     this.renderer = renderer;
 
@@ -309,6 +330,11 @@ export class TornadoSimulator {
     this.eventBus = eb;
   }
 
+  /** Use the run's shared PRNG (SimWorld.rng) for every random draw. */
+  setRng(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
   setEFRating(rating: number) {
     this.efRating = Math.max(0, Math.min(5, Math.round(rating)));
     this.maxWindSpeed = EF_SCALE[this.efRating]!.speedMs;
@@ -355,6 +381,24 @@ export class TornadoSimulator {
     if (this.active && reinit) this.initFunnel();
   }
 
+  /**
+   * Follow a scripted or historical track from the next spawn, trimmed to the
+   * loaded terrain, with its rating and path width taking over from the EF
+   * setting. Null goes back to a free-wandering tornado.
+   */
+  setTrack(track: TornadoTrack | null) {
+    this.track = track && track.points.length >= 2 ? track : null;
+  }
+
+  /** Switch the analytic wind field; takes effect at once, even mid-run. */
+  setVortexModel(model: VortexModel) {
+    this.vortex.model = model;
+  }
+
+  getVortexModel(): VortexModel {
+    return this.vortex.model;
+  }
+
   setTranslationSpeed(speed: number) {
     this.translationSpeed = Math.max(0, Math.min(60, speed));
   }
@@ -368,6 +412,21 @@ export class TornadoSimulator {
     return this.pathWidthMeters;
   }
 
+  /** Wreckage the vortex has dropped, binned into 2 m cells with the height of the tallest piece. */
+  groundedDebris(): { x: number; z: number; radius: number; height: number }[] {
+    const cells = new Map<string, { x: number; z: number; radius: number; height: number }>();
+    for (const d of this.debris) {
+      if (!d.grounded) continue;
+      const { x, y, z } = d.mesh.position;
+      const height = y - getTerrainHeight(x, z) + (d.radius ?? 0.3);
+      const key = `${Math.round(x / 2)},${Math.round(z / 2)}`;
+      const cell = cells.get(key);
+      if (cell) cell.height = Math.max(cell.height, height);
+      else cells.set(key, { x, z, radius: Math.max(1, d.radius ?? 1), height });
+    }
+    return [...cells.values()];
+  }
+
   /** Approximate top of the wall-cloud base for camera bounding. */
   getCloudCeilingY(): number {
     return this.position.y + FUNNEL_HEIGHT + 90 * this.cloudScale;
@@ -375,8 +434,23 @@ export class TornadoSimulator {
 
   spawn(pos: THREE.Vector3) {
     this.position.copy(pos);
-    this.position.y = getTerrainHeight(pos.x, pos.z);
-    this.heading = Math.random() * Math.PI * 2;
+    this.heading = this.rng.next() * Math.PI * 2;
+    if (this.track) {
+      if (!this.follower) this.ratingBeforeTrack = this.efRating;
+      this.follower = new TrackFollower(this.track, { efRating: this.ratingBeforeTrack, widthFor: efPathWidthMeters });
+      const b = terrainBoundsRef;
+      if (b && !this.follower.clipTo((x, z) => x >= b.xMin && x <= b.xMax && z >= b.zMin && z <= b.zMax)) {
+        console.warn("[Tornado] Track never crosses the loaded area — following all of it");
+      }
+      this.applyTrackState(this.follower.reset());
+    } else if (this.follower) {
+      this.follower = null;
+      this.setEFRating(this.ratingBeforeTrack);
+    }
+    this.position.y = getTerrainHeight(this.position.x, this.position.z);
+    this.bendSeedA = this.rng.next() * 10;
+    this.bendSeedB = this.rng.next() * 10;
+    this.ropeSeed = this.rng.next() * 10;
     this.active = true;
     this.time = 0;
     this.buildingsDamaged = 0;
@@ -385,11 +459,17 @@ export class TornadoSimulator {
     this.tornadoGroup.position.copy(this.position);
     this.updateFunnelAppearance();
     this.initFunnel();
+    this.syncVortex();
   }
 
   despawn() {
     this.active = false;
     this.tornadoGroup.visible = false;
+    if (this.follower) {
+      // Back to the EF setting the track overrode
+      this.follower = null;
+      this.setEFRating(this.ratingBeforeTrack);
+    }
     // Remove airborne debris, keep grounded (they'll TTL out)
     for (let i = this.debris.length - 1; i >= 0; i -= 3) {
       if (!this.debris[i]!.grounded) this.removeDebris(i);
@@ -403,6 +483,7 @@ export class TornadoSimulator {
     this.collapsing.length = 0;
     this.buildingsDamaged = 0;
     this.buildingsDestroyed = 0;
+    this.prevDamage.clear();
   }
 
   /** Main tick — dispatches GPU compute shaders, then runs CPU-side mesh work. */
@@ -413,10 +494,13 @@ export class TornadoSimulator {
     if (!this.active) return;
     this.time += dt;
     this.updateMovement(dt);
+    if (!this.active) return; // lifted at the end of its track or left the terrain
+    this.syncVortex();
     this.updateFunnel(dt);
 
     // ── GPU compute: funnel particles only (12k particles, too heavy for CPU) ──
     GPU.syncUniforms({
+      vortex: this.vortex,
       position: this.position,
       maxWindSpeed: this.maxWindSpeed,
       coreRadius: this.coreRadius,
@@ -434,10 +518,12 @@ export class TornadoSimulator {
       leanDir: this.leanDir,
       leanStrength: this.leanStrength,
     });
-    this.renderer.compute(GPU.computeFunnelParticles);
+    this.renderer?.compute(GPU.computeFunnelParticles);
 
     // ── CPU-side simulation ──
-    this.updateBuildingMeshes(dt, buildings);
+    // Only chunks the funnel reaches need building geometry, or a look at their buildings
+    buildingStreamerRef?.activate(this.position.x, this.position.z, this.outerRadius);
+    this.updateBuildingMeshes(dt, buildingStreamerRef?.activeBuildings ?? buildings);
     this.updateDebris(dt, buildings);
     this.updateTrees();
     this.updateCars();
@@ -460,25 +546,41 @@ export class TornadoSimulator {
         coreRadius: this.coreRadius,
         outerRadius: this.outerRadius,
         maxWindSpeed: this.maxWindSpeed,
+        model: this.vortex.model,
+        translationSpeed: this.translationSpeed,
       });
     }
   }
 
+  private syncVortex() {
+    const v = this.vortex;
+    v.x = this.position.x;
+    v.y = this.position.y;
+    v.z = this.position.z;
+    v.maxWindSpeed = this.maxWindSpeed;
+    v.coreRadius = this.coreRadius;
+    v.heading = this.heading;
+    v.translationSpeed = this.translationSpeed;
+  }
+
+  /** Horizontal wind at 10 m above a point, translation and all — what damage is rated against. */
   getWindSpeedAtGround(x: number, z: number): number {
     if (!this.active) return 0;
-    const dx = x - this.position.x;
-    const dz = z - this.position.z;
-    const r = Math.sqrt(dx * dx + dz * dz);
-    if (r < 0.1) return this.maxWindSpeed * 0.7;
-    let vTan: number;
-    if (r <= this.coreRadius) {
-      vTan = this.maxWindSpeed * (r / this.coreRadius);
-    } else {
-      vTan = this.maxWindSpeed * (this.coreRadius / r);
+    return windSpeedAt(this.vortex, x, z);
+  }
+
+  /** Strongest ground wind around the core ring — on the right flank for a moving tornado. */
+  getPeakWindSpeed(): number {
+    if (!this.active) return 0;
+    let peak = 0;
+    for (let i = 0; i < 32; i++) {
+      const a = (i / 32) * Math.PI * 2;
+      for (const scale of [0.8, 1, 1.25]) {
+        const r = this.coreRadius * scale;
+        peak = Math.max(peak, this.getWindSpeedAtGround(this.position.x + Math.cos(a) * r, this.position.z + Math.sin(a) * r));
+      }
     }
-    const inflowFactor = r <= this.coreRadius ? 0.2 : 0.4 * (this.coreRadius / r);
-    const vRad = vTan * inflowFactor;
-    return Math.sqrt(vTan * vTan + vRad * vRad);
+    return peak;
   }
 
   getCameraShake(camPos: THREE.Vector3): THREE.Vector3 {
@@ -488,54 +590,18 @@ export class TornadoSimulator {
     if (dist > maxDist) return new THREE.Vector3();
     const intensity = Math.pow(1 - dist / maxDist, 2) * 2.0;
     return new THREE.Vector3(
-      (Math.random() - 0.5) * intensity,
-      (Math.random() - 0.5) * intensity * 0.5,
-      (Math.random() - 0.5) * intensity,
+      (this.rng.next() - 0.5) * intensity,
+      (this.rng.next() - 0.5) * intensity * 0.5,
+      (this.rng.next() - 0.5) * intensity,
     );
   }
 
   // ─────────────────────────────────────────────────────────────────────────
-  // Wind field (Rankine vortex + inflow + updraft)
+  // Wind field (vortex.ts: rotation + inflow + updraft + translation)
   // ─────────────────────────────────────────────────────────────────────────
 
   private getWindVector(x: number, y: number, z: number): THREE.Vector3 {
-    const dx = x - this.position.x;
-    const dz = z - this.position.z;
-    const r = Math.sqrt(dx * dx + dz * dz);
-
-    if (r < 0.1) return new THREE.Vector3(0, this.maxWindSpeed * 0.5, 0);
-
-    let vTan: number;
-    if (r <= this.coreRadius) {
-      vTan = this.maxWindSpeed * (r / this.coreRadius);
-    } else {
-      vTan = this.maxWindSpeed * (this.coreRadius / r);
-    }
-
-    const nx = dx / r;
-    const nz = dz / r;
-    const tx = -nz;
-    const tz = nx;
-
-    // Gentler inflow so captured debris orbits longer before spiralling in
-    const inflowFactor = r <= this.coreRadius ? 0.15 : 0.35;
-    const vRad = -vTan * inflowFactor;
-
-    // Stronger updraft in core (keeps debris aloft)
-    let vUp: number;
-    if (r <= this.coreRadius) {
-      vUp = this.maxWindSpeed * 0.6 * (1 - r * 0.5 / this.coreRadius);
-    } else {
-      vUp = this.maxWindSpeed * 0.15 * (this.coreRadius / r);
-    }
-
-    const hFactor = Math.max(0, 1 - y / (FUNNEL_HEIGHT * 1.5));
-
-    return new THREE.Vector3(
-      (tx * vTan + nx * vRad) * hFactor + this.translationSpeed * Math.cos(this.heading),
-      vUp * hFactor,
-      (tz * vTan + nz * vRad) * hFactor + this.translationSpeed * Math.sin(this.heading),
-    );
+    return windAt(this.vortex, x, y, z, new THREE.Vector3());
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -645,7 +711,8 @@ export class TornadoSimulator {
     // ── Fragment: FBM noise wind patterns ──
     const h = heightNorm;
     const angle = uvNode.x.mul(6.2832); // 0→2π around circumference
-    const windU = angle.mul(1.5).add(uTime.mul(2.5)).add(h.mul(3.0));
+    // Streaks run counter-clockwise seen from above, with the cyclonic wind
+    const windU = angle.mul(1.5).sub(uTime.mul(2.5)).add(h.mul(3.0));
     const windV = h.mul(8.0).sub(uTime.mul(1.8));
 
     // Multi-octave noise for turbulent wind texture
@@ -735,14 +802,14 @@ export class TornadoSimulator {
     const ringCount = 30;
     for (let i = 0; i < ringCount; i++) {
       const a = (i / ringCount) * Math.PI * 2;
-      const rr = ringR + (Math.random() - 0.5) * 30;
+      const rr = ringR + (this.rng.next() - 0.5) * 30;
       cloudDefs.push({
         x: Math.cos(a) * rr,
         z: Math.sin(a) * rr,
-        y: 6 + (Math.random() - 0.5) * 16,
-        sx: 120 + Math.random() * 40,
-        sy: (24 + Math.random() * 18) * yMul,
-        sz: (110 + Math.random() * 40) * zMul,
+        y: 6 + (this.rng.next() - 0.5) * 16,
+        sx: 120 + this.rng.next() * 40,
+        sy: (24 + this.rng.next() * 18) * yMul,
+        sz: (110 + this.rng.next() * 40) * zMul,
         mat: cloudMat,
       });
     }
@@ -752,14 +819,14 @@ export class TornadoSimulator {
     const fringeCount = 26;
     for (let i = 0; i < fringeCount; i++) {
       const a = (i / fringeCount) * Math.PI * 2;
-      const rr = fringeR + (Math.random() - 0.5) * 40;
+      const rr = fringeR + (this.rng.next() - 0.5) * 40;
       cloudDefs.push({
         x: Math.cos(a) * rr,
         z: Math.sin(a) * rr,
-        y: 10 + (Math.random() - 0.5) * 20,
-        sx: 90 + Math.random() * 30,
-        sy: (18 + Math.random() * 14) * yMul,
-        sz: (90 + Math.random() * 30) * zMul,
+        y: 10 + (this.rng.next() - 0.5) * 20,
+        sx: 90 + this.rng.next() * 30,
+        sy: (18 + this.rng.next() * 14) * yMul,
+        sz: (90 + this.rng.next() * 30) * zMul,
         mat: cloudMat,
       });
     }
@@ -768,15 +835,15 @@ export class TornadoSimulator {
     const canopyCount = 24;
     const canopyR = 240;
     for (let i = 0; i < canopyCount; i++) {
-      const a = (i / canopyCount) * Math.PI * 2 + Math.random() * 0.2;
-      const rr = canopyR + (Math.random() - 0.5) * 35;
+      const a = (i / canopyCount) * Math.PI * 2 + this.rng.next() * 0.2;
+      const rr = canopyR + (this.rng.next() - 0.5) * 35;
       cloudDefs.push({
         x: Math.cos(a) * rr,
         z: Math.sin(a) * rr,
-        y: 32 + Math.random() * 16,
-        sx: 110 + Math.random() * 35,
-        sy: (22 + Math.random() * 16) * yMul,
-        sz: (120 + Math.random() * 45) * zMul,
+        y: 32 + this.rng.next() * 16,
+        sx: 110 + this.rng.next() * 35,
+        sy: (22 + this.rng.next() * 16) * yMul,
+        sz: (120 + this.rng.next() * 45) * zMul,
         mat: cloudMat,
       });
     }
@@ -784,15 +851,15 @@ export class TornadoSimulator {
     // Bottom hanging wisps to connect funnel
     const wispCount = 14;
     for (let i = 0; i < wispCount; i++) {
-      const a = (i / wispCount) * Math.PI * 2 + Math.random() * 0.4;
-      const rr = 45 + Math.random() * 25;
+      const a = (i / wispCount) * Math.PI * 2 + this.rng.next() * 0.4;
+      const rr = 45 + this.rng.next() * 25;
       cloudDefs.push({
         x: Math.cos(a) * rr,
         z: Math.sin(a) * rr,
-        y: -28 + Math.random() * 10,
-        sx: 55 + Math.random() * 20,
-        sy: (35 + Math.random() * 20) * yMul,
-        sz: (55 + Math.random() * 20) * zMul,
+        y: -28 + this.rng.next() * 10,
+        sx: 55 + this.rng.next() * 20,
+        sy: (35 + this.rng.next() * 20) * yMul,
+        sz: (55 + this.rng.next() * 20) * zMul,
         mat: innerMat,
       });
     }
@@ -801,15 +868,15 @@ export class TornadoSimulator {
     const crownCount = 18;
     const crownR = 340;
     for (let i = 0; i < crownCount; i++) {
-      const a = (i / crownCount) * Math.PI * 2 + Math.random() * 0.2;
-      const rr = crownR + (Math.random() - 0.5) * 50;
+      const a = (i / crownCount) * Math.PI * 2 + this.rng.next() * 0.2;
+      const rr = crownR + (this.rng.next() - 0.5) * 50;
       cloudDefs.push({
         x: Math.cos(a) * rr,
         z: Math.sin(a) * rr,
-        y: 18 + Math.random() * 20,
-        sx: 95 + Math.random() * 35,
-        sy: (18 + Math.random() * 14) * yMul,
-        sz: (120 + Math.random() * 50) * zMul,
+        y: 18 + this.rng.next() * 20,
+        sx: 95 + this.rng.next() * 35,
+        sy: (18 + this.rng.next() * 14) * yMul,
+        sz: (120 + this.rng.next() * 50) * zMul,
         mat: cloudMat,
       });
     }
@@ -849,42 +916,42 @@ export class TornadoSimulator {
     const osc2Data = new Float32Array(FUNNEL_PARTICLES * 4);
 
     for (let i = 0; i < FUNNEL_PARTICLES; i++) {
-      const roll = Math.random();
+      const roll = this.rng.next();
       const isGroundDust = roll < 0.18;
       const isFunnelWall = roll >= 0.18 && roll < 0.58;
 
       let height: number, baseRadius: number, angularSpeed: number;
 
       if (isGroundDust) {
-        height = Math.random() * 15;
-        baseRadius = this.coreRadius * (0.5 + Math.random() * 3.0);
-        angularSpeed = (this.maxWindSpeed / Math.max(baseRadius, 1)) * (0.4 + Math.random() * 0.5);
+        height = this.rng.next() * 15;
+        baseRadius = this.coreRadius * (0.5 + this.rng.next() * 3.0);
+        angularSpeed = (this.maxWindSpeed / Math.max(baseRadius, 1)) * (0.4 + this.rng.next() * 0.5);
       } else if (isFunnelWall) {
-        const t = Math.random();
+        const t = this.rng.next();
         height = Math.pow(t, 0.35) * FUNNEL_HEIGHT;
         const funnelR = this.coreRadius * (0.12 + 0.88 * Math.pow(height / FUNNEL_HEIGHT, 0.45));
-        baseRadius = funnelR * (0.90 + Math.random() * 0.20);
-        angularSpeed = this.maxWindSpeed / this.coreRadius * (0.9 + Math.random() * 0.2);
+        baseRadius = funnelR * (0.90 + this.rng.next() * 0.20);
+        angularSpeed = this.maxWindSpeed / this.coreRadius * (0.9 + this.rng.next() * 0.2);
       } else {
-        const t = Math.random();
+        const t = this.rng.next();
         height = Math.pow(t, 0.4) * FUNNEL_HEIGHT;
         const funnelR = this.coreRadius * (0.12 + 0.88 * Math.pow(height / FUNNEL_HEIGHT, 0.45));
-        baseRadius = funnelR * (0.15 + Math.random() * 0.80);
+        baseRadius = funnelR * (0.15 + this.rng.next() * 0.80);
         if (baseRadius <= this.coreRadius) {
           angularSpeed = this.maxWindSpeed / this.coreRadius;
         } else {
           angularSpeed = (this.maxWindSpeed * this.coreRadius) / (baseRadius * baseRadius);
         }
-        angularSpeed *= 0.8 + Math.random() * 0.4;
+        angularSpeed *= 0.8 + this.rng.next() * 0.4;
       }
 
-      const angle = Math.random() * Math.PI * 2;
-      const radOscAmp = baseRadius * (0.03 + Math.random() * 0.12);
-      const radOscFreq = 1 + Math.random() * 3;
-      const radOscPhase = Math.random() * Math.PI * 2;
-      const vertOscAmp = 1.0 + Math.random() * 5;
-      const vertOscFreq = 0.5 + Math.random() * 2.5;
-      const vertOscPhase = Math.random() * Math.PI * 2;
+      const angle = this.rng.next() * Math.PI * 2;
+      const radOscAmp = baseRadius * (0.03 + this.rng.next() * 0.12);
+      const radOscFreq = 1 + this.rng.next() * 3;
+      const radOscPhase = this.rng.next() * Math.PI * 2;
+      const vertOscAmp = 1.0 + this.rng.next() * 5;
+      const vertOscFreq = 0.5 + this.rng.next() * 2.5;
+      const vertOscPhase = this.rng.next() * Math.PI * 2;
 
       this.funnelData.push({
         baseRadius, height, angle, angularSpeed,
@@ -914,22 +981,22 @@ export class TornadoSimulator {
       const alphaMul = 1.0 + ef * 0.10;
 
       if (isGroundDust) {
-        sArr[i] = (30 + Math.random() * 22) * sizeScale;
-        aArr[i] = (0.50 + Math.random() * 0.35) * alphaMul;
-        cArr[i * 3]     = (0.10 + Math.random() * 0.08) * darkMul;
-        cArr[i * 3 + 1] = (0.08 + Math.random() * 0.06) * darkMul;
-        cArr[i * 3 + 2] = (0.06 + Math.random() * 0.04) * darkMul;
+        sArr[i] = (30 + this.rng.next() * 22) * sizeScale;
+        aArr[i] = (0.50 + this.rng.next() * 0.35) * alphaMul;
+        cArr[i * 3]     = (0.10 + this.rng.next() * 0.08) * darkMul;
+        cArr[i * 3 + 1] = (0.08 + this.rng.next() * 0.06) * darkMul;
+        cArr[i * 3 + 2] = (0.06 + this.rng.next() * 0.04) * darkMul;
       } else if (isFunnelWall) {
-        sArr[i] = (10 + (1 - hNorm) * 16 + Math.random() * 6) * sizeScale;
+        sArr[i] = (10 + (1 - hNorm) * 16 + this.rng.next() * 6) * sizeScale;
         aArr[i] = (0.45 + (1 - hNorm) * 0.40) * alphaMul;
-        const b = (0.12 + hNorm * 0.14 + (Math.random() - 0.5) * 0.04) * darkMul;
+        const b = (0.12 + hNorm * 0.14 + (this.rng.next() - 0.5) * 0.04) * darkMul;
         cArr[i * 3]     = b;
         cArr[i * 3 + 1] = b;
         cArr[i * 3 + 2] = b + 0.04 * darkMul;
       } else {
-        sArr[i] = (6 + (1 - hNorm) * 12 + Math.random() * 4) * sizeScale;
+        sArr[i] = (6 + (1 - hNorm) * 12 + this.rng.next() * 4) * sizeScale;
         aArr[i] = (0.25 + (1 - hNorm) * 0.50) * alphaMul;
-        const b = (0.10 + hNorm * 0.16 + (Math.random() - 0.5) * 0.05) * darkMul;
+        const b = (0.10 + hNorm * 0.16 + (this.rng.next() - 0.5) * 0.05) * darkMul;
         cArr[i * 3]     = b;
         cArr[i * 3 + 1] = b;
         cArr[i * 3 + 2] = b + 0.03 * darkMul;
@@ -981,7 +1048,7 @@ export class TornadoSimulator {
       a1[i * 4]     = b.halfX;
       a1[i * 4 + 1] = b.halfZ;
       a1[i * 4 + 2] = b.width;
-      a1[i * 4 + 3] = b.structuralStrength;
+      a1[i * 4 + 3] = b.fragility.wind;
       a2[i * 4]     = b.damageLevel;
       a2[i * 4 + 1] = b.destroyed ? 1.0 : 0.0;
       a2[i * 4 + 2] = 0;
@@ -1040,9 +1107,9 @@ export class TornadoSimulator {
       a2[i * 4 + 1] = d.life;
       a2[i * 4 + 2] = d.mass;
       a2[i * 4 + 3] = flags;
-      ex[i * 4]     = d.orbitRadius ?? (this.coreRadius * (0.7 + Math.random() * 0.7));
-      ex[i * 4 + 1] = d.orbitHeight ?? (this.position.y + FUNNEL_HEIGHT * (0.25 + Math.random() * 0.35));
-      ex[i * 4 + 2] = d.orbitDrift ?? ((Math.random() - 0.5) * 0.25);
+      ex[i * 4]     = d.orbitRadius ?? (this.coreRadius * (0.7 + this.rng.next() * 0.7));
+      ex[i * 4 + 1] = d.orbitHeight ?? (this.position.y + FUNNEL_HEIGHT * (0.25 + this.rng.next() * 0.35));
+      ex[i * 4 + 2] = d.orbitDrift ?? ((this.rng.next() - 0.5) * 0.25);
       ex[i * 4 + 3] = d.radius ?? 1.5;
     }
     s0Attr.needsUpdate = true;
@@ -1148,7 +1215,7 @@ export class TornadoSimulator {
   }
 
   private applyEfRadius() {
-    this.pathWidthMeters = EF_PATH_WIDTH_YARDS[this.efRating]! * YARDS_TO_METERS;
+    this.pathWidthMeters = efPathWidthMeters(this.efRating);
     // Model uses outerRadius = coreRadius * 4, so damage-path diameter ≈ outerRadius * 2.
     const core = this.pathWidthMeters / 8;
     this.setCoreRadius(core, false);
@@ -1173,10 +1240,10 @@ export class TornadoSimulator {
     // Random visible lean impulses
     this.leanTimer -= dt;
     if (this.leanTimer <= 0) {
-      const ang = Math.random() * Math.PI * 2;
+      const ang = this.rng.next() * Math.PI * 2;
       this.leanDir.set(Math.cos(ang), Math.sin(ang));
-      this.leanStrength = base * (0.35 + Math.random() * 0.45);
-      this.leanTimer = 2.0 + Math.random() * 4.0;
+      this.leanStrength = base * (0.35 + this.rng.next() * 0.45);
+      this.leanTimer = 2.0 + this.rng.next() * 4.0;
     }
     const lean = this.leanStrength * (0.6 + 0.4 * Math.sin(t * 1.6 + this.ropeSeed));
 
@@ -1203,19 +1270,24 @@ export class TornadoSimulator {
   // ─────────────────────────────────────────────────────────────────────────
 
   private updateMovement(dt: number) {
+    if (this.follower) {
+      const state = this.follower.advance(this.translationSpeed * dt, this.rng);
+      // The tornado lifts at the end of its track
+      if (!state) this.despawn();
+      else this.applyTrackState(state);
+      return;
+    }
+
     // Erratic heading drift — real tornadoes wander unpredictably
-    this.heading += (Math.random() - 0.5) * 1.2 * dt;
+    this.heading += (this.rng.next() - 0.5) * 1.2 * dt;
     // Occasional sharp direction change (≈ every 3–6 seconds on average)
-    if (Math.random() < 0.004) {
-      this.heading += (Math.random() - 0.5) * Math.PI * 0.6;
+    if (this.rng.next() < 0.004) {
+      this.heading += (this.rng.next() - 0.5) * Math.PI * 0.6;
     }
 
     this.position.x += Math.cos(this.heading) * this.translationSpeed * dt;
     this.position.z += Math.sin(this.heading) * this.translationSpeed * dt;
-    this.position.y = getTerrainHeight(this.position.x, this.position.z);
-    this.tornadoGroup.position.copy(this.position);
-    this.tornadoGroup.rotation.z = Math.sin(this.heading) * 0.06;
-    this.tornadoGroup.rotation.x = -Math.cos(this.heading) * 0.06;
+    this.placeFunnel();
 
     // Self-terminate if the tornado leaves the loaded terrain area
     if (terrainBoundsRef) {
@@ -1230,6 +1302,33 @@ export class TornadoSimulator {
     }
   }
 
+  private placeFunnel() {
+    this.position.y = getTerrainHeight(this.position.x, this.position.z);
+    this.tornadoGroup.position.copy(this.position);
+    this.tornadoGroup.rotation.z = Math.sin(this.heading) * 0.06;
+    this.tornadoGroup.rotation.x = -Math.cos(this.heading) * 0.06;
+  }
+
+  /** Move to a point on the track and take on its (interpolated) wind speed and path width. */
+  private applyTrackState(state: TrackState) {
+    this.position.x = state.x;
+    this.position.z = state.z;
+    this.heading = state.heading;
+    this.placeFunnel();
+
+    const lo = Math.floor(state.efRating), hi = Math.min(5, lo + 1);
+    this.maxWindSpeed = THREE.MathUtils.lerp(EF_SCALE[lo]!.speedMs, EF_SCALE[hi]!.speedMs, state.efRating - lo);
+    const rating = Math.round(state.efRating);
+    if (rating !== this.efRating) {
+      this.efRating = rating;
+      this.updateFunnelAppearance();
+    }
+    // Resizing rescales the funnel meshes, so skip changes too small to see
+    this.pathWidthMeters = state.widthMeters;
+    const core = state.widthMeters / 8;
+    if (Math.abs(core - this.coreRadius) > this.coreRadius * 0.02) this.setCoreRadius(core, false);
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Tree uprooting
   // ─────────────────────────────────────────────────────────────────────────
@@ -1253,13 +1352,13 @@ export class TornadoSimulator {
         const groundY = getTerrainHeight(tree.x, tree.z);
         tree.trunkMesh.scale.y = 0.45;
         tree.trunkMesh.position.y = groundY + 1.0;
-        tree.trunkMesh.rotation.z = (Math.random() - 0.5) * 0.6;
-        tree.trunkMesh.rotation.x = (Math.random() - 0.5) * 0.4;
+        tree.trunkMesh.rotation.z = (this.rng.next() - 0.5) * 0.6;
+        tree.trunkMesh.rotation.x = (this.rng.next() - 0.5) * 0.4;
         tree.canopyMesh.position.y = groundY + 0.6;
         tree.canopyMesh.rotation.set(
-          (Math.random() - 0.5) * 0.8,
-          Math.random() * Math.PI * 2,
-          (Math.random() - 0.5) * 0.8,
+          (this.rng.next() - 0.5) * 0.8,
+          this.rng.next() * Math.PI * 2,
+          (this.rng.next() - 0.5) * 0.8,
         );
         continue;
       }
@@ -1281,14 +1380,14 @@ export class TornadoSimulator {
       this.debris.push({
         mesh,
         velocity: new THREE.Vector3(
-          wind.x * 0.2 + (Math.random() - 0.5) * 10,
-          8 + Math.random() * 15,
-          wind.z * 0.2 + (Math.random() - 0.5) * 10,
+          wind.x * 0.2 + (this.rng.next() - 0.5) * 10,
+          8 + this.rng.next() * 15,
+          wind.z * 0.2 + (this.rng.next() - 0.5) * 10,
         ),
         angularVel: new THREE.Vector3(
-          (Math.random() - 0.5) * 4,
-          (Math.random() - 0.5) * 4,
-          (Math.random() - 0.5) * 4,
+          (this.rng.next() - 0.5) * 4,
+          (this.rng.next() - 0.5) * 4,
+          (this.rng.next() - 0.5) * 4,
         ),
         life: 0,
         grounded: false,
@@ -1328,14 +1427,14 @@ export class TornadoSimulator {
       this.debris.push({
         mesh,
         velocity: new THREE.Vector3(
-          wind.x * 0.25 + (Math.random() - 0.5) * 6,
-          12 + Math.random() * 18,
-          wind.z * 0.25 + (Math.random() - 0.5) * 6,
+          wind.x * 0.25 + (this.rng.next() - 0.5) * 6,
+          12 + this.rng.next() * 18,
+          wind.z * 0.25 + (this.rng.next() - 0.5) * 6,
         ),
         angularVel: new THREE.Vector3(
-          (Math.random() - 0.5) * 2.0,
-          (Math.random() - 0.5) * 2.0,
-          (Math.random() - 0.5) * 2.0,
+          (this.rng.next() - 0.5) * 2.0,
+          (this.rng.next() - 0.5) * 2.0,
+          (this.rng.next() - 0.5) * 2.0,
         ),
         life: 0,
         grounded: false,
@@ -1368,7 +1467,7 @@ export class TornadoSimulator {
     const cx = b.centerX;
     const cy = b.baseY;
     const cz = b.centerZ;
-    b.mesh.geometry.translate(-cx, -cy, -cz);
+    editableGeometry(b.mesh).translate(-cx, -cy, -cz);
     b.mesh.position.set(cx, cy, cz);
   }
 
@@ -1383,11 +1482,7 @@ export class TornadoSimulator {
   private updateBuildingMeshes(dt: number, buildings: BuildingRecord[]) {
     let damaged = 0;
     let destroyed = 0;
-    // Track previous damage for debris spawning thresholds
-    if (!this._prevDamage) this._prevDamage = new Float32Array(512);
-
-    for (let idx = 0; idx < buildings.length; idx++) {
-      const b = buildings[idx]!;
+    for (const b of buildings) {
       if (b.damageLevel > 0) damaged++;
       if (b.destroyed) { destroyed++; continue; }
 
@@ -1396,7 +1491,8 @@ export class TornadoSimulator {
       if (dx * dx + dz * dz > this.outerRadius * this.outerRadius) continue;
 
       const windSpeed = this.getWindSpeedAtGround(b.centerX, b.centerZ);
-      const effectiveSpeed = windSpeed / b.structuralStrength;
+      if (windSpeed > b.peakWindSpeed) b.peakWindSpeed = windSpeed;
+      const effectiveSpeed = windSpeed / b.fragility.wind;
       if (effectiveSpeed < DMG.roofCovering * 0.8) continue;
 
       // CPU-side damage progression
@@ -1407,7 +1503,7 @@ export class TornadoSimulator {
       const damageRate = Math.pow(intensity, 2.6) * efScale * 0.35;
       b.damageLevel = Math.min(1, b.damageLevel + damageRate * dt);
 
-      const prev = this._prevDamage[idx] ?? 0;
+      const prev = this.prevDamage.get(b) ?? 0;
 
       // Small, low buildings can be ripped whole from foundations in EF4-5
       const floors = Math.max(1, Math.round(b.height / 3));
@@ -1418,11 +1514,11 @@ export class TornadoSimulator {
         effectiveSpeed >= DMG.totalCollapse &&
         prev < 0.60 &&
         b.damageLevel >= 0.60 &&
-        Math.random() < 0.12
+        this.rng.next() < 0.12
       ) {
         this.uprootBuilding(b);
         destroyed++;
-        this._prevDamage[idx] = b.damageLevel;
+        this.prevDamage.set(b, b.damageLevel);
         continue;
       }
 
@@ -1447,7 +1543,7 @@ export class TornadoSimulator {
         !alreadyCollapsing &&
         b.damageLevel >= collapseThreshold &&
         effectiveSpeed >= DMG.partialCollapse &&
-        Math.random() < 0.06 * (b.damageLevel - collapseThreshold + 0.1)
+        this.rng.next() < 0.06 * (b.damageLevel - collapseThreshold + 0.1)
       ) {
         const bboxC = new THREE.Box3().setFromObject(b.mesh);
         const centerC = bboxC.getCenter(new THREE.Vector3());
@@ -1470,13 +1566,14 @@ export class TornadoSimulator {
         });
       }
 
-      this._prevDamage[idx] = b.damageLevel;
+      this.prevDamage.set(b, b.damageLevel);
     }
 
     this.buildingsDamaged = damaged;
     this.buildingsDestroyed = destroyed;
   }
-  private _prevDamage: Float32Array | null = null;
+  /** Damage each building had last frame, for debris spawning thresholds. */
+  private prevDamage = new Map<BuildingRecord, number>();
 
   /**
    * Progressive building collapse — sinks buildings into the ground over ~3s,
@@ -1500,17 +1597,17 @@ export class TornadoSimulator {
 
       // Spawn fragment burst from a random side at each progress step
       if (c.progress >= c.nextFragment) {
-        c.nextFragment += 0.20 + Math.random() * 0.10;
+        c.nextFragment += 0.20 + this.rng.next() * 0.10;
         const frontY = c.baseY + c.height * (1 - c.progress);
-        const side = Math.floor(Math.random() * 4);
+        const side = Math.floor(this.rng.next() * 4);
         const isX = side < 2;
         const sign = (side % 2 === 0) ? 1 : -1;
-        const ex = isX ? c.halfX * sign : (Math.random() - 0.5) * c.halfX * 1.6;
-        const ez = isX ? (Math.random() - 0.5) * c.halfZ * 1.6 : c.halfZ * sign;
+        const ex = isX ? c.halfX * sign : (this.rng.next() - 0.5) * c.halfX * 1.6;
+        const ez = isX ? (this.rng.next() - 0.5) * c.halfZ * 1.6 : c.halfZ * sign;
         // Spawn chunk debris at the collapse front
-        const geoIdx = Math.floor(Math.random() * this.debrisGeos.length);
+        const geoIdx = Math.floor(this.rng.next() * this.debrisGeos.length);
         this.spawnBuildingFragment(
-          c.cx + ex, frontY + Math.random() * 2, c.cz + ez,
+          c.cx + ex, frontY + this.rng.next() * 2, c.cz + ez,
           geoIdx, b.originalColor,
         );
         this.spawnGroundRubble(c.cx, c.cz, 1, this.rubbleMat, 3, [0.2, 0.5]);
@@ -1564,9 +1661,9 @@ export class TornadoSimulator {
 
     // Tornado base failure tilt when damaged
     const tiltChance = 0.01 + b.damageLevel * 0.04;
-    if (b.damageLevel >= 0.35 && effectiveSpeed >= DMG.wallPanels && Math.random() < tiltChance) {
-      const tilt = (Math.random() - 0.5) * (0.12 + b.damageLevel * 0.25);
-      if (Math.random() < 0.5) {
+    if (b.damageLevel >= 0.35 && effectiveSpeed >= DMG.wallPanels && this.rng.next() < tiltChance) {
+      const tilt = (this.rng.next() - 0.5) * (0.12 + b.damageLevel * 0.25);
+      if (this.rng.next() < 0.5) {
         b.tiltTargetX = tilt;
         b.tiltTargetZ = 0;
       } else {
@@ -1579,20 +1676,20 @@ export class TornadoSimulator {
   private maybeSpawnBuildingChunk(b: BuildingRecord, effectiveSpeed: number) {
     if (b.damageLevel < 0.6 || effectiveSpeed < DMG.partialCollapse) return;
     const chunkChance = (0.004 + b.damageLevel * 0.02) * (0.6 + this.efRating * 0.15);
-    if (this.efRating < 2 || Math.random() > chunkChance) return;
+    if (this.efRating < 2 || this.rng.next() > chunkChance) return;
 
     const bboxLive = new THREE.Box3().setFromObject(b.mesh);
     const centerLive = bboxLive.getCenter(new THREE.Vector3());
     const sizeLive = bboxLive.getSize(new THREE.Vector3());
-    const side = Math.random() < 0.5 ? "x" : "z";
-    const sign = Math.random() < 0.5 ? -1 : 1;
+    const side = this.rng.next() < 0.5 ? "x" : "z";
+    const sign = this.rng.next() < 0.5 ? -1 : 1;
     const edgeOffset = (side === "x" ? sizeLive.x : sizeLive.z) * 0.6 * sign;
-    const dx = side === "x" ? edgeOffset : (Math.random() - 0.5) * sizeLive.x * 0.5;
-    const dz = side === "z" ? edgeOffset : (Math.random() - 0.5) * sizeLive.z * 0.5;
-    const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.5 + Math.random() * 0.3);
+    const dx = side === "x" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.x * 0.5;
+    const dz = side === "z" ? edgeOffset : (this.rng.next() - 0.5) * sizeLive.z * 0.5;
+    const sideY = bboxLive.min.y + (bboxLive.max.y - bboxLive.min.y) * (0.5 + this.rng.next() * 0.3);
 
     const sizeScale = 0.8 + b.damageLevel * 1.2;
-    const chunkGeo = Math.random() < 0.5
+    const chunkGeo = this.rng.next() < 0.5
       ? new THREE.BoxGeometry(1.6 * sizeScale, 1.2 * sizeScale, 1.4 * sizeScale)
       : new THREE.ConeGeometry(0.9 * sizeScale, 1.6 * sizeScale, 4);
     const chunkMat = new THREE.MeshPhongMaterial({
@@ -1603,8 +1700,8 @@ export class TornadoSimulator {
     (chunkMat as any).userData = { isFragment: true };
     const mesh = new THREE.Mesh(chunkGeo, chunkMat);
     mesh.position.set(centerLive.x + dx, sideY, centerLive.z + dz);
-    mesh.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
-    mesh.scale.setScalar(0.9 + Math.random() * 0.8);
+    mesh.rotation.set(this.rng.next() * Math.PI, this.rng.next() * Math.PI, this.rng.next() * Math.PI);
+    mesh.scale.setScalar(0.9 + this.rng.next() * 0.8);
     mesh.castShadow = true;
     this.debrisGroup.add(mesh);
 
@@ -1612,14 +1709,14 @@ export class TornadoSimulator {
     this.debris.push({
       mesh,
       velocity: new THREE.Vector3(
-        wind.x * 0.3 + (Math.random() - 0.5) * 6,
-        8 + Math.random() * 10,
-        wind.z * 0.3 + (Math.random() - 0.5) * 6,
+        wind.x * 0.3 + (this.rng.next() - 0.5) * 6,
+        8 + this.rng.next() * 10,
+        wind.z * 0.3 + (this.rng.next() - 0.5) * 6,
       ),
       angularVel: new THREE.Vector3(
-        (Math.random() - 0.5) * 2,
-        (Math.random() - 0.5) * 2,
-        (Math.random() - 0.5) * 2,
+        (this.rng.next() - 0.5) * 2,
+        (this.rng.next() - 0.5) * 2,
+        (this.rng.next() - 0.5) * 2,
       ),
       life: 0,
       grounded: false,
@@ -1658,14 +1755,14 @@ export class TornadoSimulator {
     this.debris.push({
       mesh,
       velocity: new THREE.Vector3(
-        wind.x * 0.3 + (Math.random() - 0.5) * 8,
-        20 + Math.random() * 25,
-        wind.z * 0.3 + (Math.random() - 0.5) * 8,
+        wind.x * 0.3 + (this.rng.next() - 0.5) * 8,
+        20 + this.rng.next() * 25,
+        wind.z * 0.3 + (this.rng.next() - 0.5) * 8,
       ),
       angularVel: new THREE.Vector3(
-        (Math.random() - 0.5) * 2.5,
-        (Math.random() - 0.5) * 2.5,
-        (Math.random() - 0.5) * 2.5,
+        (this.rng.next() - 0.5) * 2.5,
+        (this.rng.next() - 0.5) * 2.5,
+        (this.rng.next() - 0.5) * 2.5,
       ),
       life: 0,
       grounded: false,
@@ -1688,14 +1785,14 @@ export class TornadoSimulator {
     for (const t of thresholds) {
       if (prevDmg < t && b.damageLevel >= t) {
         this.chipBuilding(b, 0.8);
-        const count = Math.max(1, Math.floor((1 + Math.random() * 2) * debrisScale));
+        const count = Math.max(1, Math.floor((1 + this.rng.next() * 2) * debrisScale));
         for (let i = 0; i < count; i++) {
-          const geoIdx = Math.floor(Math.random() * this.debrisGeos.length);
-          const fragY = b.baseY + b.height * Math.max(0.1, 1 - b.damageLevel) * (0.3 + Math.random() * 0.7);
+          const geoIdx = Math.floor(this.rng.next() * this.debrisGeos.length);
+          const fragY = b.baseY + b.height * Math.max(0.1, 1 - b.damageLevel) * (0.3 + this.rng.next() * 0.7);
           this.spawnBuildingFragment(
-            b.centerX + (Math.random() - 0.5) * 10,
+            b.centerX + (this.rng.next() - 0.5) * 10,
             fragY,
-            b.centerZ + (Math.random() - 0.5) * 10,
+            b.centerZ + (this.rng.next() - 0.5) * 10,
             geoIdx,
             b.originalColor,
           );
@@ -1705,7 +1802,7 @@ export class TornadoSimulator {
   }
 
   private chipBuilding(b: BuildingRecord, strength: number) {
-    const geom = b.mesh.geometry as THREE.BufferGeometry;
+    const geom = editableGeometry(b.mesh);
     if (!geom.attributes.position) return;
     geom.computeBoundingBox();
     const bb = geom.boundingBox!;
@@ -1714,18 +1811,18 @@ export class TornadoSimulator {
     if (size.x === 0 || size.y === 0 || size.z === 0) return;
 
     const chipSize = new THREE.Vector3(
-      size.x * (0.05 + Math.random() * 0.05),
-      size.y * (0.08 + Math.random() * 0.10),
-      size.z * (0.05 + Math.random() * 0.05),
+      size.x * (0.05 + this.rng.next() * 0.05),
+      size.y * (0.08 + this.rng.next() * 0.10),
+      size.z * (0.05 + this.rng.next() * 0.05),
     ).multiplyScalar(strength);
 
-    const cornerX = Math.random() < 0.5 ? bb.min.x : bb.max.x - chipSize.x;
-    const cornerZ = Math.random() < 0.5 ? bb.min.z : bb.max.z - chipSize.z;
-    const cornerY = bb.min.y + size.y * (0.2 + Math.random() * 0.6);
+    const cornerX = this.rng.next() < 0.5 ? bb.min.x : bb.max.x - chipSize.x;
+    const cornerZ = this.rng.next() < 0.5 ? bb.min.z : bb.max.z - chipSize.z;
+    const cornerY = bb.min.y + size.y * (0.2 + this.rng.next() * 0.6);
 
     const cx = (bb.min.x + bb.max.x) / 2;
     const cz = (bb.min.z + bb.max.z) / 2;
-    const chipDepth = Math.min(size.x, size.z) * (0.04 + Math.random() * 0.04) * strength;
+    const chipDepth = Math.min(size.x, size.z) * (0.04 + this.rng.next() * 0.04) * strength;
 
     const pos = geom.attributes.position as THREE.BufferAttribute;
     for (let i = 0; i < pos.count; i++) {
@@ -1781,13 +1878,13 @@ export class TornadoSimulator {
 
     const geo = this.debrisGeos[geoIdx % this.debrisGeos.length]!;
     // Bright, saturated color so fragments pop against the dark storm sky
-    const fragColor = buildingColor.clone().lerp(new THREE.Color(0x666666), Math.random() * 0.15);
+    const fragColor = buildingColor.clone().lerp(new THREE.Color(0x666666), this.rng.next() * 0.15);
     const mat = new THREE.MeshPhongMaterial({ color: fragColor, emissive: fragColor, emissiveIntensity: 0.3 });
     (mat as any).userData = { isFragment: true };
     const mesh = new THREE.Mesh(geo, mat);
     mesh.position.set(x, y, z);
-    mesh.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
-    mesh.scale.setScalar(1.5 + Math.random() * 2.5);
+    mesh.rotation.set(this.rng.next() * Math.PI, this.rng.next() * Math.PI, this.rng.next() * Math.PI);
+    mesh.scale.setScalar(1.5 + this.rng.next() * 2.5);
     mesh.castShadow = true;
     this.debrisGroup.add(mesh);
 
@@ -1797,14 +1894,14 @@ export class TornadoSimulator {
     this.debris.push({
       mesh,
       velocity: new THREE.Vector3(
-        wind.x * 0.4 + (Math.random() - 0.5) * 10,
-        wind.y * 0.3 + 15 + Math.random() * 25,
-        wind.z * 0.4 + (Math.random() - 0.5) * 10,
+        wind.x * 0.4 + (this.rng.next() - 0.5) * 10,
+        wind.y * 0.3 + 15 + this.rng.next() * 25,
+        wind.z * 0.4 + (this.rng.next() - 0.5) * 10,
       ),
       angularVel: new THREE.Vector3(
-        (Math.random() - 0.5) * 6,
-        (Math.random() - 0.5) * 6,
-        (Math.random() - 0.5) * 6,
+        (this.rng.next() - 0.5) * 6,
+        (this.rng.next() - 0.5) * 6,
+        (this.rng.next() - 0.5) * 6,
       ),
       life: 0,
       grounded: false,
@@ -1844,9 +1941,9 @@ export class TornadoSimulator {
         if (ws > 20 / d.mass) {
           d.captured = true;
           if (d.orbitRadius === undefined) {
-            d.orbitRadius = this.coreRadius * (0.7 + Math.random() * 0.7);
-            d.orbitHeight = this.position.y + FUNNEL_HEIGHT * (0.25 + Math.random() * 0.35);
-            d.orbitDrift = (Math.random() - 0.5) * 0.25;
+            d.orbitRadius = this.coreRadius * (0.7 + this.rng.next() * 0.7);
+            d.orbitHeight = this.position.y + FUNNEL_HEIGHT * (0.25 + this.rng.next() * 0.35);
+            d.orbitDrift = (this.rng.next() - 0.5) * 0.25;
           }
         }
       }
@@ -1885,13 +1982,13 @@ export class TornadoSimulator {
           d.velocity.z += pushZ;
         }
 
-        if (!d.lockCaptured && d.allowSpinOut !== false && this.efRating >= 3 && Math.random() < 0.0006) {
+        if (!d.lockCaptured && d.allowSpinOut !== false && this.efRating >= 3 && this.rng.next() < 0.0006) {
           const out = Math.max(distToVortex, 1);
           const nx = dx / out;
           const nz = dz / out;
-          d.velocity.x += nx * (12 + Math.random() * 10);
-          d.velocity.y += 6 + Math.random() * 6;
-          d.velocity.z += nz * (12 + Math.random() * 10);
+          d.velocity.x += nx * (12 + this.rng.next() * 10);
+          d.velocity.y += 6 + this.rng.next() * 6;
+          d.velocity.z += nz * (12 + this.rng.next() * 10);
           d.captured = false;
         }
       }
@@ -1900,7 +1997,7 @@ export class TornadoSimulator {
       pos.y += d.velocity.y * dt;
       pos.z += d.velocity.z * dt;
 
-      for (const b of buildings) {
+      for (const b of buildingStreamerRef?.buildingsNear(pos.x, pos.z, d.radius ?? 1.5) ?? buildings) {
         if (b.destroyed) continue;
         const dxB = pos.x - b.centerX;
         const dzB = pos.z - b.centerZ;
@@ -1919,9 +2016,9 @@ export class TornadoSimulator {
             d.velocity.z -= 1.6 * vn * nz;
           }
           d.velocity.y *= 0.6;
-          d.angularVel.x += (Math.random() - 0.5) * 0.6;
-          d.angularVel.y += (Math.random() - 0.5) * 0.6;
-          d.angularVel.z += (Math.random() - 0.5) * 0.6;
+          d.angularVel.x += (this.rng.next() - 0.5) * 0.6;
+          d.angularVel.y += (this.rng.next() - 0.5) * 0.6;
+          d.angularVel.z += (this.rng.next() - 0.5) * 0.6;
           if (Math.abs(vn) > 10) b.damageLevel = Math.min(1, b.damageLevel + 0.02);
         }
       }
@@ -1959,21 +2056,21 @@ export class TornadoSimulator {
 
   private spawnDirtDebris() {
     const scale = this.getDebrisScale();
-    const count = Math.max(1, Math.floor((1 + Math.random() * 3) * scale));
+    const count = Math.max(1, Math.floor((1 + this.rng.next() * 3) * scale));
     for (let i = 0; i < count; i++) {
       if (this.debris.length >= MAX_DEBRIS) this.removeDebris(0);
 
       // Spawn near the tornado base, scattered within core radius
-      const angle = Math.random() * Math.PI * 2;
-      const dist  = Math.random() * this.coreRadius * 1.5;
+      const angle = this.rng.next() * Math.PI * 2;
+      const dist  = this.rng.next() * this.coreRadius * 1.5;
       const x = this.position.x + Math.cos(angle) * dist;
       const z = this.position.z + Math.sin(angle) * dist;
       const y = getTerrainHeight(x, z);
 
       const mesh = new THREE.Mesh(this.dirtGeo, this.dirtMat);
       mesh.position.set(x, y, z);
-      mesh.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
-      mesh.scale.setScalar(0.8 + Math.random() * 1.8);
+      mesh.rotation.set(this.rng.next() * Math.PI, this.rng.next() * Math.PI, this.rng.next() * Math.PI);
+      mesh.scale.setScalar(0.8 + this.rng.next() * 1.8);
       mesh.castShadow = true;
       this.debrisGroup.add(mesh);
 
@@ -1981,14 +2078,14 @@ export class TornadoSimulator {
       this.debris.push({
         mesh,
         velocity: new THREE.Vector3(
-          wind.x * 0.2 + (Math.random() - 0.5) * 6,
-          12 + Math.random() * 20,
-          wind.z * 0.2 + (Math.random() - 0.5) * 6,
+          wind.x * 0.2 + (this.rng.next() - 0.5) * 6,
+          12 + this.rng.next() * 20,
+          wind.z * 0.2 + (this.rng.next() - 0.5) * 6,
         ),
         angularVel: new THREE.Vector3(
-          (Math.random() - 0.5) * 5,
-          (Math.random() - 0.5) * 5,
-          (Math.random() - 0.5) * 5,
+          (this.rng.next() - 0.5) * 5,
+          (this.rng.next() - 0.5) * 5,
+          (this.rng.next() - 0.5) * 5,
         ),
         life: 0,
         grounded: false,
@@ -2010,16 +2107,16 @@ export class TornadoSimulator {
     for (let i = 0; i < count; i++) {
       if (this.debris.length >= MAX_DEBRIS) this.removeDebris(0);
 
-      const geoIdx = Math.floor(Math.random() * this.debrisGeos.length);
+      const geoIdx = Math.floor(this.rng.next() * this.debrisGeos.length);
       const geo = this.debrisGeos[geoIdx]!;
-      const rx = x + (Math.random() - 0.5) * spread;
-      const rz = z + (Math.random() - 0.5) * spread;
+      const rx = x + (this.rng.next() - 0.5) * spread;
+      const rz = z + (this.rng.next() - 0.5) * spread;
       const gy = getTerrainHeight(rx, rz);
 
       const mesh = new THREE.Mesh(geo, mat);
-      mesh.position.set(rx, gy + 0.15 + Math.random() * 0.4, rz);
-      mesh.rotation.set(Math.random() * 0.4, Math.random() * Math.PI * 2, Math.random() * 0.4);
-      mesh.scale.setScalar(scaleRange[0] + Math.random() * (scaleRange[1] - scaleRange[0]));
+      mesh.position.set(rx, gy + 0.15 + this.rng.next() * 0.4, rz);
+      mesh.rotation.set(this.rng.next() * 0.4, this.rng.next() * Math.PI * 2, this.rng.next() * 0.4);
+      mesh.scale.setScalar(scaleRange[0] + this.rng.next() * (scaleRange[1] - scaleRange[0]));
       this.debrisGroup.add(mesh);
 
       this.debris.push({
@@ -2066,12 +2163,12 @@ export class TornadoSimulator {
     ctx.fill();
     // Scattered gouge marks around the path
     for (let i = 0; i < 5; i++) {
-      const ox = (Math.random() - 0.5) * r * 2;
-      const oz = (Math.random() - 0.5) * r * 2;
-      ctx.globalAlpha = 0.10 + Math.random() * 0.06;
+      const ox = (this.rng.next() - 0.5) * r * 2;
+      const oz = (this.rng.next() - 0.5) * r * 2;
+      ctx.globalAlpha = 0.10 + this.rng.next() * 0.06;
       ctx.fillStyle = "#3a2415";
       ctx.beginPath();
-      ctx.arc(cx + ox, cy + oz, r * (0.22 + Math.random() * 0.35), 0, Math.PI * 2);
+      ctx.arc(cx + ox, cy + oz, r * (0.22 + this.rng.next() * 0.35), 0, Math.PI * 2);
       ctx.fill();
     }
     ctx.restore();
@@ -7,10 +7,14 @@
 import * as THREE from "three";
 import {
   Fn, instanceIndex, uniform, float, int, vec2, vec3,
-  sin, cos, sqrt, abs, clamp, max, min, pow, select,
+  sin, cos, sqrt, abs, clamp, max, min, pow, exp, select,
   If, Loop, Continue, Return,
   instancedArray,
 } from "three/tsl";
+import {
+  VORTEX_MODELS, VORTEX_PROFILES, SULLIVAN_X_CORE, INFLOW_ANGLE, INFLOW_DEPTH, REFERENCE_HEIGHT,
+  PEAK_HEIGHT, BOUNDARY_LAYER_EXPONENT, FIELD_TOP, rotationalSpeed, type VortexState,
+} from "./vortex.ts";
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -48,6 +52,12 @@ export const uDebrisCount = uniform(0);
 export const uLeanDirX = uniform(0.0);
 export const uLeanDirY = uniform(0.0);
 export const uLeanStrength = uniform(0.0);
+// Vortex model (index into VORTEX_MODELS) and its tangential profile constants
+export const uVortexModel = uniform(0.0);
+export const uRotWind = uniform(59.0);
+export const uProfileC = uniform(1.0);
+export const uProfileA = uniform(1.0);
+export const uProfileP = uniform(1.0);
 
 // ─── Storage Buffers ────────────────────────────────────────────────────────
 
@@ -73,67 +83,81 @@ export const debrisExtra = instancedArray(MAX_DEBRIS, "vec4");
 
 // Buildings: 3 vec4 per building
 // slot0: (centerX, centerZ, baseY, height)
-// slot1: (halfX, halfZ, width, structuralStrength)
+// slot1: (halfX, halfZ, width, wind fragility)
 // slot2: (damageLevel, destroyed, 0, 0)
 export const buildingSlot0 = instancedArray(MAX_BUILDINGS, "vec4");
 export const buildingSlot1 = instancedArray(MAX_BUILDINGS, "vec4");
 export const buildingSlot2 = instancedArray(MAX_BUILDINGS, "vec4");
 
-// ─── TSL Helper: Rankine vortex wind field ──────────────────────────────────
+// ─── TSL Helper: vortex wind field (mirrors vortex.ts) ──────────────────────
 
-/** Reusable TSL function: wind speed at ground level (scalar). */
-const windSpeedAtGround = Fn(([px, pz]: [any, any]) => {
-  const dx = float(px).sub(uVortexPosX);
-  const dz = float(pz).sub(uVortexPosZ);
-  const r = sqrt(dx.mul(dx).add(dz.mul(dz)));
-  const rSafe = max(r, 0.1);
+const isRankine = () => uVortexModel.lessThan(0.5);
+const isSullivan = () => uVortexModel.greaterThan(1.5);
+
+/** Tangential wind at ρ relative to its peak. */
+const tangentialProfile = Fn(([rho]: [any]) => {
+  const rankine = select(rho.lessThanEqual(1.0), rho, float(1.0).div(rho));
+  const profile = uProfileC.div(rho).mul(float(1.0).sub(exp(uProfileA.negate().mul(pow(rho, uProfileP)))));
+  return select(isRankine(), rankine, profile);
+});
 
-  const vTanCore = uMaxWind.mul(rSafe.div(uCoreRadius));
-  const vTanOuter = uMaxWind.mul(uCoreRadius.div(rSafe));
-  const vTan = select(r.lessThanEqual(uCoreRadius), vTanCore, vTanOuter);
+/** Scale on the inflow angle; negative is outflow. */
+const radialProfile = Fn(([rho]: [any]) => {
+  const x = float(SULLIVAN_X_CORE).mul(rho).mul(rho);
+  const sullivanCore = SULLIVAN_X_CORE - 3 * (1 - Math.exp(-SULLIVAN_X_CORE));
+  const sullivan = clamp(x.sub(float(3.0).mul(float(1.0).sub(exp(x.negate())))).div(sullivanCore), -1.0, 1.0);
+  const burgers = float(1.0).sub(exp(rho.mul(rho).negate()));
+  return select(isRankine(), min(rho, 1.0), select(isSullivan(), sullivan, burgers));
+});
 
-  const inflowCore = float(0.2);
-  const inflowOuter = float(0.4).mul(uCoreRadius.div(rSafe));
-  const inflowFactor = select(r.lessThanEqual(uCoreRadius), inflowCore, inflowOuter);
-  const vRad = vTan.mul(inflowFactor);
+/** Vertical wind at ρ as a fraction of the peak rotation. */
+const updraftProfile = Fn(([rho]: [any]) => {
+  const rankine = select(rho.lessThanEqual(1.0), float(0.6).mul(float(1.0).sub(rho.mul(0.5))), float(0.15).div(rho));
+  const core = exp(rho.mul(rho).negate());
+  const burgers = core.mul(0.6).add(float(0.15).div(max(rho, 1.0)).mul(float(1.0).sub(core)));
+  const sullivan = float(0.3).mul(float(1.0).sub(float(3.0).mul(exp(float(-SULLIVAN_X_CORE).mul(rho).mul(rho))))).div(max(rho, 1.0));
+  return select(isRankine(), rankine, select(isSullivan(), sullivan, burgers));
+});
 
-  return sqrt(vTan.mul(vTan).add(vRad.mul(vRad)));
+/** Horizontal wind at height h above ground relative to 10 m. */
+const heightProfile = Fn(([h]: [any]) => {
+  const z = max(h, 1.0);
+  const below = pow(z.div(REFERENCE_HEIGHT), BOUNDARY_LAYER_EXPONENT);
+  const peak = Math.pow(PEAK_HEIGHT / REFERENCE_HEIGHT, BOUNDARY_LAYER_EXPONENT);
+  const above = max(float(0.0), float(1.0).sub(z.sub(PEAK_HEIGHT).div(FIELD_TOP - PEAK_HEIGHT))).mul(peak);
+  return select(z.lessThanEqual(PEAK_HEIGHT), below, above);
 });
 
-/** Reusable TSL function: full 3D wind vector. */
+/** Reusable TSL function: full 3D ground-relative wind vector. */
 const windVector = Fn(([px, py, pz]: [any, any, any]) => {
   const dx = float(px).sub(uVortexPosX);
   const dz = float(pz).sub(uVortexPosZ);
   const r = sqrt(dx.mul(dx).add(dz.mul(dz)));
-
-  // At center: pure updraft
+  const h = max(float(py).sub(uVortexPosY), 0.0);
   const rSafe = max(r, 0.1);
-
-  const vTanCore = uMaxWind.mul(rSafe.div(uCoreRadius));
-  const vTanOuter = uMaxWind.mul(uCoreRadius.div(rSafe));
-  const vTan = select(r.lessThanEqual(uCoreRadius), vTanCore, vTanOuter);
-
+  const rho = rSafe.div(uCoreRadius);
   const nx = dx.div(rSafe);
   const nz = dz.div(rSafe);
-  const tx = nz.negate();
-  const tz = nx;
-
-  const inflowFactor = select(r.lessThanEqual(uCoreRadius), float(0.15), float(0.35));
-  const vRad = vTan.negate().mul(inflowFactor);
 
-  const vUpCore = uMaxWind.mul(0.6).mul(float(1.0).sub(r.mul(0.5).div(uCoreRadius)));
-  const vUpOuter = uMaxWind.mul(0.15).mul(uCoreRadius.div(rSafe));
-  const vUp = select(r.lessThanEqual(uCoreRadius), vUpCore, vUpOuter);
+  // At the center only the updraft and translation remain
+  const speed = select(r.lessThan(0.1), float(0.0), uRotWind.mul(tangentialProfile(rho)).mul(heightProfile(float(py).sub(uVortexPosY))));
+  const inflow = float(INFLOW_ANGLE).mul(max(float(0.0), float(1.0).sub(h.div(INFLOW_DEPTH)))).mul(radialProfile(rho));
+  const c = cos(inflow);
+  const s = sin(inflow);
 
-  const hFactor = max(float(0.0), float(1.0).sub(float(py).div(float(FUNNEL_HEIGHT).mul(1.5))));
-
-  const windX = tx.mul(vTan).add(nx.mul(vRad)).mul(hFactor).add(uTransSpeed.mul(cos(uHeading)));
-  const windY = vUp.mul(hFactor);
-  const windZ = tz.mul(vTan).add(nz.mul(vRad)).mul(hFactor).add(uTransSpeed.mul(sin(uHeading)));
+  const windX = speed.mul(nz.mul(c).sub(nx.mul(s))).add(uTransSpeed.mul(cos(uHeading)));
+  const windY = uRotWind.mul(updraftProfile(rho)).mul(max(float(0.0), float(1.0).sub(h.div(FIELD_TOP))));
+  const windZ = speed.mul(nx.negate().mul(c).sub(nz.mul(s))).add(uTransSpeed.mul(sin(uHeading)));
 
   return vec3(windX, windY, windZ);
 });
 
+/** Reusable TSL function: horizontal wind speed at 10 m above a point. */
+const windSpeedAtGround = Fn(([px, pz]: [any, any]) => {
+  const w = windVector(px, uVortexPosY.add(REFERENCE_HEIGHT), pz);
+  return sqrt(w.x.mul(w.x).add(w.z.mul(w.z)));
+});
+
 /** TSL bend offset calculation (mirrors CPU getBendOffset). */
 const bendOffset = Fn(([h]: [any]) => {
   const hNorm = clamp(float(h).div(float(FUNNEL_HEIGHT)), 0.0, 1.0);
@@ -166,8 +190,8 @@ export const computeFunnelParticles = Fn(() => {
   const vertOscFreq = osc2.x;
   const vertOscPhase = osc2.y;
 
-  // Update angle
-  const newAngle = angle.add(angularSpeed.mul(uDt));
+  // Update angle — decreasing, so the funnel turns counter-clockwise seen from above (cyclonic)
+  const newAngle = angle.sub(angularSpeed.mul(uDt));
   params.z.assign(newAngle);
 
   // Compute height with vertical oscillation
@@ -202,7 +226,7 @@ export const computeBuildingDamage = Fn(() => {
   const centerX = s0.x;
   const centerZ = s0.y;
   const height = s0.w;
-  const structuralStrength = s1.w;
+  const windResistance = s1.w;
   const damageLevel = s2.x;
   const destroyed = s2.y;
 
@@ -223,7 +247,7 @@ export const computeBuildingDamage = Fn(() => {
 
   // Wind speed at building
   const ws = windSpeedAtGround(centerX, centerZ);
-  const effectiveSpeed = ws.div(structuralStrength);
+  const effectiveSpeed = ws.div(windResistance);
 
   If(effectiveSpeed.lessThan(float(DMG_ROOF_COVERING).mul(0.8)), () => {
     Return();
@@ -467,6 +491,7 @@ export const computeDebrisCollisions = Fn(() => {
 
 /** Update all vortex uniforms from CPU state before compute dispatch. */
 export function syncUniforms(state: {
+  vortex: VortexState;
   position: THREE.Vector3;
   maxWindSpeed: number;
   coreRadius: number;
@@ -504,4 +529,10 @@ export function syncUniforms(state: {
   uLeanDirX.value = state.leanDir.x;
   uLeanDirY.value = state.leanDir.y;
   uLeanStrength.value = state.leanStrength;
+  const profile = VORTEX_PROFILES[state.vortex.model];
+  uVortexModel.value = VORTEX_MODELS.indexOf(state.vortex.model);
+  uRotWind.value = rotationalSpeed(state.vortex);
+  uProfileC.value = profile.c;
+  uProfileA.value = profile.a;
+  uProfileP.value = profile.p;
 }
@@ -0,0 +1,349 @@
+/**
+ * Tornado damage survey — rates the run the way NWS survey teams rate a real
+ * tornado, from the damage it left rather than the wind it had.
+ *
+ * Each building is matched to an Enhanced Fujita damage indicator (DI) from
+ * its OSM tags and size. Its damage is read off as a degree of damage (DOD)
+ * on that indicator's scale, and the DOD's expected wind becomes the
+ * building's EF estimate, shifted toward the lower or upper bound for weak
+ * or sturdy construction. The tornado is rated by its highest estimate.
+ *
+ * Each survey entry also carries the peak wind the building actually felt, so
+ * the survey can be checked against the simulated field.
+ */
+
+import type { BuildingRecord } from "../layers.ts";
+import { EF_SCALE } from "./tornado.ts";
+
+const MS_TO_MPH = 2.237;
+
+/** One degree of damage: what it looks like and the 3 s gust (mph) that does it. */
+interface DegreeOfDamage {
+  description: string;
+  expected: number;
+  lower: number;
+  upper: number;
+}
+
+export interface DamageIndicator {
+  number: number;   // DI number on the EF scale
+  code: string;
+  name: string;
+  degrees: DegreeOfDamage[];
+}
+
+const dod = (description: string, expected: number, lower: number, upper: number): DegreeOfDamage =>
+  ({ description, expected, lower, upper });
+
+// Wind speeds from the EF-scale damage indicator tables (Texas Tech WSEC, 2006)
+const SBO: DamageIndicator = {
+  number: 1, code: "SBO", name: "Small barns or farm outbuildings",
+  degrees: [
+    dod("Threshold of visible damage", 62, 53, 78),
+    dod("Loss of wood or metal roof panels", 74, 61, 91),
+    dod("Collapse of doors", 83, 68, 102),
+    dod("Major loss of roof panels", 91, 74, 110),
+    dod("Uplift or collapse of roof structure", 97, 81, 116),
+    dod("Collapse of walls", 101, 84, 120),
+    dod("Overturning or sliding of entire structure", 104, 87, 124),
+    dod("Total destruction of building", 112, 93, 134),
+  ],
+};
+
+const FR12: DamageIndicator = {
+  number: 2, code: "FR12", name: "One- or two-family residences",
+  degrees: [
+    dod("Threshold of visible damage", 65, 53, 80),
+    dod("Loss of roof covering material (<20%), gutters and/or awning; loss of vinyl or metal siding", 79, 63, 97),
+    dod("Broken glass in doors and windows", 96, 79, 114),
+    dod("Uplift of roof deck and loss of significant roof covering material (>20%); collapse of chimney; garage doors collapse", 97, 81, 116),
+    dod("Entire house shifts off foundation", 121, 103, 141),
+    dod("Large sections of roof structure removed; most walls remain standing", 122, 104, 142),
+    dod("Exterior walls collapsed", 132, 113, 153),
+    dod("Most walls collapsed, except small interior rooms", 152, 127, 178),
+    dod("All walls collapsed", 170, 142, 198),
+    dod("Destruction of engineered and/or well constructed residence; slab swept clean", 200, 165, 220),
+  ],
+};
+
+const MHSW: DamageIndicator = {
+  number: 3, code: "MHSW", name: "Manufactured home – single wide",
+  degrees: [
+    dod("Threshold of visible damage", 61, 51, 76),
+    dod("Loss of shingles or partial uplift of one-piece metal roof covering", 74, 61, 92),
+    dod("Unit slides off CMU block piers", 87, 72, 103),
+    dod("Removal of entire roof structure leaving most walls standing", 89, 73, 112),
+    dod("Unit rolls on its side or upside down; remains essentially intact", 98, 84, 114),
+    dod("Destruction of roof and walls leaving floor and undercarriage in place", 105, 87, 123),
+    dod("Unit rolls or vaults; roof and walls separate from floor and undercarriage", 109, 88, 128),
+    dod("Undercarriage separates from unit; rolls, tumbles and is badly bent", 118, 97, 137),
+  ],
+};
+
+const ACT: DamageIndicator = {
+  number: 5, code: "ACT", name: "Apartments, condos, townhouses (3 stories or less)",
+  degrees: [
+    dod("Threshold of visible damage", 65, 55, 80),
+    dod("Loss of roof covering (<20%)", 79, 65, 97),
+    dod("Uplift of roof deck and loss of significant roof covering (>20%)", 97, 80, 117),
+    dod("Uplift or collapse of roof structure", 113, 95, 136),
+    dod("Most top-story walls collapsed", 128, 108, 148),
+    dod("Top two stories collapsed or destroyed", 150, 127, 173),
+  ],
+};
+
+const SM: DamageIndicator = {
+  number: 10, code: "SM", name: "Strip mall",
+  degrees: [
+    dod("Threshold of visible damage", 65, 54, 81),
+    dod("Uplift of roof covering at eaves and corners (<20%)", 76, 63, 92),
+    dod("Broken glass in storefronts and doors", 86, 71, 104),
+    dod("Uplift of roof deck; loss of significant roof covering (>20%)", 99, 82, 119),
+    dod("Collapse of facade, parapets or canopy", 107, 89, 128),
+    dod("Collapse of exterior walls", 122, 102, 145),
+    dod("Complete destruction of all or a large part of the building", 150, 126, 174),
+  ],
+};
+
+const LIRB: DamageIndicator = {
+  number: 11, code: "LIRB", name: "Large isolated retail building",
+  degrees: [
+    dod("Threshold of visible damage", 66, 56, 82),
+    dod("Uplift of roof covering (<20%)", 80, 66, 97),
+    dod("Loss of roof covering (>20%); failure of loading doors", 94, 78, 114),
+    dod("Uplift of roof deck; collapse of canopies and parapets", 107, 89, 128),
+    dod("Collapse of long-span roof structure", 122, 102, 145),
+    dod("Collapse of exterior walls", 135, 113, 160),
+    dod("Complete destruction of all or a large part of the building", 157, 133, 182),
+  ],
+};
+
+const ES: DamageIndicator = {
+  number: 14, code: "ES", name: "Elementary school (single story)",
+  degrees: [
+    dod("Threshold of visible damage", 65, 55, 80),
+    dod("Loss of roof covering (<20%)", 80, 66, 97),
+    dod("Broken windows", 90, 76, 108),
+    dod("Uplift of metal roof decking; loss of significant roof covering (>20%)", 104, 87, 124),
+    dod("Damage to or loss of wall cladding", 112, 94, 133),
+    dod("Collapse of tall masonry walls at gym, cafeteria or auditorium", 118, 98, 140),
+    dod("Uplift or collapse of roof structure", 127, 106, 150),
+    dod("Collapse of exterior walls in classrooms", 146, 122, 171),
+    dod("Total destruction of a large section of building", 170, 142, 200),
+  ],
+};
+
+const LRB: DamageIndicator = {
+  number: 16, code: "LRB", name: "Low-rise building (1–4 stories)",
+  degrees: [
+    dod("Threshold of visible damage", 65, 55, 80),
+    dod("Loss of roof covering (<20%)", 82, 67, 99),
+    dod("Broken glass in windows and doors", 94, 78, 113),
+    dod("Uplift of roof deck; loss of significant roof covering (>20%)", 106, 88, 127),
+    dod("Damage to curtain walls or other wall cladding", 115, 97, 137),
+    dod("Uplift of lightweight roof structure", 128, 108, 151),
+    dod("Significant damage to exterior walls", 145, 122, 169),
+    dod("Collapse of top story", 168, 141, 195),
+    dod("Significant structural deformation or collapse of most of the building", 196, 167, 220),
+  ],
+};
+
+const MRB: DamageIndicator = {
+  number: 17, code: "MRB", name: "Mid-rise building (5–20 stories)",
+  degrees: [
+    dod("Threshold of visible damage", 67, 56, 83),
+    dod("Loss of roof covering (<20%)", 83, 69, 100),
+    dod("Broken glass in windows and doors", 97, 81, 115),
+    dod("Damage to curtain walls or other wall cladding", 118, 99, 140),
+    dod("Uplift of roof deck; collapse of rooftop equipment and penthouses", 131, 110, 155),
+    dod("Significant damage to exterior walls", 150, 126, 175),
+    dod("Significant structural deformation", 178, 151, 205),
+    dod("Collapse of all or a large part of the building", 205, 175, 230),
+  ],
+};
+
+const IB: DamageIndicator = {
+  number: 19, code: "IB", name: "Institutional building (hospital, government or university)",
+  degrees: [
+    dod("Threshold of visible damage", 67, 56, 84),
+    dod("Loss of roof covering (<20%)", 83, 69, 101),
+    dod("Broken glass in windows and doors", 96, 80, 115),
+    dod("Uplift of roof deck; loss of significant roof covering (>20%)", 110, 92, 131),
+    dod("Damage to curtain walls or other wall cladding", 121, 102, 143),
+    dod("Uplift or collapse of roof structure", 135, 113, 159),
+    dod("Significant damage to exterior walls", 155, 131, 181),
+    dod("Significant structural deformation or collapse of most of the building", 196, 167, 224),
+  ],
+};
+
+const MBS: DamageIndicator = {
+  number: 20, code: "MBS", name: "Metal building system",
+  degrees: [
+    dod("Threshold of visible damage", 67, 54, 83),
+    dod("Inward or outward collapse of overhead doors", 83, 69, 99),
+    dod("Metal roof or wall panels pulled from the building", 89, 73, 109),
+    dod("Column anchorage failed", 107, 89, 128),
+    dod("Buckling of roof purlins", 108, 90, 130),
+    dod("Failure of X-braces in the lateral load resisting system", 118, 100, 140),
+    dod("Progressive collapse of rigid frames", 120, 100, 143),
+    dod("Total destruction of building", 132, 112, 153),
+  ],
+};
+
+const WHB: DamageIndicator = {
+  number: 22, code: "WHB", name: "Warehouse building (tilt-up walls or heavy timber)",
+  degrees: [
+    dod("Threshold of visible damage", 65, 54, 80),
+    dod("Loss of roof covering (<20%)", 81, 67, 98),
+    dod("Collapse of overhead doors", 94, 79, 112),
+    dod("Uplift of roof deck; loss of significant roof covering (>20%)", 107, 90, 128),
+    dod("Collapse of long-span roof structure", 121, 101, 144),
+    dod("Collapse of tilt-up or masonry walls", 133, 112, 157),
+    dod("Total destruction of a large section of building", 157, 133, 182),
+  ],
+};
+
+export const DAMAGE_INDICATORS: DamageIndicator[] = [SBO, FR12, MHSW, ACT, SM, LIRB, ES, LRB, MRB, IB, MBS, WHB];
+
+const OUTBUILDINGS = new Set(["barn", "shed", "farm_auxiliary", "stable", "cowshed", "hut", "cabin", "garage", "garages", "carport", "greenhouse", "roof"]);
+const HOUSES = new Set(["house", "detached", "semidetached_house", "bungalow", "farm", "villa"]);
+const APARTMENTS = new Set(["apartments", "terrace", "residential", "dormitory", "hotel"]);
+const RETAIL = new Set(["retail", "commercial", "supermarket", "kiosk"]);
+const SCHOOLS = new Set(["school", "kindergarten"]);
+const INSTITUTIONS = new Set(["hospital", "university", "college", "government", "civic", "public", "fire_station"]);
+const INDUSTRIAL = new Set(["industrial", "warehouse", "hangar", "manufacture"]);
+
+const STORY_HEIGHT = 3.5;
+
+/** The damage indicator a building is surveyed against, from its OSM type, construction and size. */
+export function damageIndicator(b: BuildingRecord): DamageIndicator {
+  const { type, construction } = b.attributes;
+  const stories = b.attributes.levels ?? Math.max(1, Math.round(b.height / STORY_HEIGHT));
+  if (type === "static_caravan") return MHSW;
+  if (OUTBUILDINGS.has(type)) return SBO;
+  // Towers over 20 stories are rated on the mid-rise scale too
+  if (stories > 4) return INSTITUTIONS.has(type) && stories <= 20 ? IB : MRB;
+  if (INSTITUTIONS.has(type)) return IB;
+  if (SCHOOLS.has(type)) return stories <= 1 ? ES : LRB;
+  if (INDUSTRIAL.has(type)) return construction === "steel" ? MBS : WHB;
+  if (RETAIL.has(type)) return b.width > 80 ? LIRB : stories <= 2 ? SM : LRB;
+  if (APARTMENTS.has(type)) return stories <= 3 ? ACT : LRB;
+  if (HOUSES.has(type)) return FR12;
+  // Untagged ("yes"): a small low building is most likely a house
+  if (stories <= 2 && b.width <= 25) return FR12;
+  return LRB;
+}
+
+/**
+ * The degree of damage (1-based) a building shows, or 0 when untouched.
+ * Destroyed is the indicator's last degree; partial damage spreads over the
+ * rest in proportion to `damageLevel`.
+ */
+export function degreeOfDamage(di: DamageIndicator, b: BuildingRecord): number {
+  const n = di.degrees.length;
+  if (b.destroyed) return n;
+  if (b.damageLevel <= 0) return 0;
+  return Math.max(1, Math.min(n - 1, Math.ceil(b.damageLevel * (n - 1))));
+}
+
+/** EF rating for a 3 s gust in mph, or null below EF0. */
+export function efRatingForMph(mph: number): number | null {
+  if (mph < EF_SCALE[0]!.minMph) return null;
+  for (let r = EF_SCALE.length - 1; r >= 0; r--) {
+    if (mph >= EF_SCALE[r]!.minMph) return r;
+  }
+  return null;
+}
+
+export interface SurveyedBuilding {
+  index: number;           // into buildingRegistry
+  osmId: number | null;
+  osmType: string | null;
+  name: string | null;
+  indicator: string;       // DI code, e.g. "FR12"
+  indicatorNumber: number;
+  degreeOfDamage: number;
+  damage: string;          // the DOD's description
+  expectedMph: number;
+  lowerMph: number;
+  upperMph: number;
+  estimatedMph: number;    // expected, adjusted for build quality within the bounds
+  efRating: number | null; // null when below EF0
+  peakWindMph: number;     // what the simulated field actually reached at the building
+  actualEfRating: number | null;
+}
+
+export interface DamageSurvey {
+  /** Highest EF estimate — the rating the tornado gets. */
+  rating: number | null;
+  /** Buildings the tornado's winds reached. */
+  exposed: number;
+  /** Damaged buildings, per estimated EF rating (index 0–5). */
+  byRating: number[];
+  /** Damaged, but below the EF0 threshold for their indicator. */
+  belowEF0: number;
+  /** Share of damaged buildings whose EF estimate matches the EF of the wind they felt. */
+  agreement: number;
+  /** Mean of estimated minus actual peak wind over damaged buildings (mph). */
+  meanErrorMph: number;
+  buildings: SurveyedBuilding[];
+}
+
+/** Survey one building, or null when the tornado's winds never reached it. */
+export function surveyBuilding(b: BuildingRecord, index: number): SurveyedBuilding | null {
+  if (b.peakWindSpeed <= 0) return null;
+  const di = damageIndicator(b);
+  const degree = degreeOfDamage(di, b);
+  const peakWindMph = b.peakWindSpeed * MS_TO_MPH;
+  const d = degree > 0 ? di.degrees[degree - 1]! : null;
+  // A sturdy building needed more wind for the same damage, a weak one less
+  const estimatedMph = d ? Math.max(d.lower, Math.min(d.upper, d.expected * b.fragility.wind)) : 0;
+  return {
+    index,
+    osmId: b.osmId ?? null,
+    osmType: b.osmType ?? null,
+    name: b.name ?? null,
+    indicator: di.code,
+    indicatorNumber: di.number,
+    degreeOfDamage: degree,
+    damage: d?.description ?? "No damage",
+    expectedMph: d?.expected ?? 0,
+    lowerMph: d?.lower ?? 0,
+    upperMph: d?.upper ?? 0,
+    estimatedMph: Math.round(estimatedMph),
+    efRating: d ? efRatingForMph(estimatedMph) : null,
+    peakWindMph: Math.round(peakWindMph),
+    actualEfRating: efRatingForMph(peakWindMph),
+  };
+}
+
+/** Survey every building the tornado reached. */
+export function damageSurvey(buildings: BuildingRecord[]): DamageSurvey {
+  const surveyed: SurveyedBuilding[] = [];
+  const byRating = [0, 0, 0, 0, 0, 0];
+  let belowEF0 = 0, damaged = 0, agree = 0, error = 0;
+  let rating: number | null = null;
+
+  buildings.forEach((b, i) => {
+    const s = surveyBuilding(b, i);
+    if (!s) return;
+    surveyed.push(s);
+    if (s.degreeOfDamage === 0) return;
+    damaged++;
+    error += s.estimatedMph - s.peakWindMph;
+    if (s.efRating === s.actualEfRating) agree++;
+    if (s.efRating === null) { belowEF0++; return; }
+    byRating[s.efRating]!++;
+    if (rating === null || s.efRating > rating) rating = s.efRating;
+  });
+
+  return {
+    rating,
+    exposed: surveyed.length,
+    byRating,
+    belowEF0,
+    agreement: damaged > 0 ? agree / damaged : 0,
+    meanErrorMph: damaged > 0 ? error / damaged : 0,
+    buildings: surveyed,
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Tornado tracks — the ground path a scripted or historical tornado follows,
+ * with its EF rating and damage-path width along the way.
+ *
+ * A track is a polyline clicked on the map, or one read from a damage-path file:
+ *   - GeoJSON LineStrings (SPC tornado paths, NWS Damage Assessment Toolkit
+ *     tracks), one or more features in path order. Each is rated by its
+ *     `mag` / `efscale` / `ef` property and sized by `wid` (yards) or `width_m`.
+ *     Features sharing an SPC `om` number are one tornado; features without
+ *     one must join end to start.
+ *   - NOAA Storm Events CSV, one straight segment per row from
+ *     BEGIN_LAT/BEGIN_LON to END_LAT/END_LON, rated by TOR_F_SCALE and sized
+ *     by TOR_WIDTH (yards). Rows of one EPISODE_ID that pick up where another
+ *     ends (a tornado split at county lines) are chained into one track.
+ * A file holding more than one tornado is rejected.
+ * Each segment keeps its own rating and width up to where the next one
+ * starts; between vertices that differ (a clicked track) they're interpolated.
+ */
+
+import { metersPerDegree } from "../tiles.ts";
+import type { BuildingFeature } from "../tiles.ts";
+import { splitCsvLine } from "../geocode.ts";
+import type { SeededRandom } from "../core/Random.ts";
+
+const YARDS_TO_METERS = 0.9144;
+/** Storm Events rows whose end and begin are this close (degrees, ≈ 1 km) continue the same tornado. */
+const SEGMENT_JOIN_DEGREES = 0.01;
+
+/** Fraction of each meter travelled the tornado may drift sideways (≈ 8° off the line). */
+const DRIFT_PER_METER = 0.15;
+/** How strongly the drift is pulled back toward the line, per meter travelled. */
+const DRIFT_RETURN = 0.004;
+
+export interface TrackPoint {
+  x: number;
+  z: number;
+  /** EF rating here; absent takes the simulator's current rating. */
+  efRating?: number;
+  /** Damage-path width here (m); absent takes the median for the rating. */
+  widthMeters?: number;
+}
+
+export interface TornadoTrack {
+  points: TrackPoint[];
+  /** Largest sideways wander off the line (m); 0 follows it exactly. */
+  deviationMeters: number;
+}
+
+/** Where the tornado is on its track, and how strong and wide it is there. */
+export interface TrackState {
+  x: number;
+  z: number;
+  heading: number;
+  /** Fractional between vertices of different rating. */
+  efRating: number;
+  widthMeters: number;
+}
+
+/**
+ * Read a track file (GeoJSON or NOAA Storm Events CSV) into local XZ meters
+ * around the scene center.
+ */
+export function parseTrack(text: string, centerLat: number, centerLon: number, deviationMeters = 0): TornadoTrack {
+  const lonLat = text.trimStart().startsWith("{") ? geoJsonTrack(JSON.parse(text)) : stormEventsTrack(text);
+  if (lonLat.length < 2) throw new Error("track needs at least two points");
+
+  const mpd = metersPerDegree(centerLat);
+  const points = lonLat.map(({ lon, lat, efRating, widthMeters }) => ({
+    x: (lon - centerLon) * mpd.lon,
+    z: -(lat - centerLat) * mpd.lat,
+    ...(efRating !== undefined && { efRating }),
+    ...(widthMeters !== undefined && { widthMeters }),
+  }));
+  return { points, deviationMeters: Math.max(0, deviationMeters) };
+}
+
+interface LonLatPoint {
+  lon: number;
+  lat: number;
+  efRating?: number;
+  widthMeters?: number;
+}
+
+function geoJsonTrack(value: unknown): LonLatPoint[] {
+  const o = value as { type?: string; features?: BuildingFeature[] };
+  const features = o.type === "FeatureCollection" ? o.features ?? [] : o.type === "Feature" ? [value as BuildingFeature] : [];
+  const segments: TrackSegment[] = [];
+  features.forEach((f, i) => {
+    const lines = f.geometry?.type === "LineString" ? [f.geometry.coordinates as number[][]]
+      : f.geometry?.type === "MultiLineString" ? f.geometry.coordinates as number[][][]
+      : [];
+    const props = f.properties ?? {};
+    const efRating = parseRating(props.efscale ?? props.ef ?? props.ef_rating ?? props.mag ?? props.TOR_F_SCALE);
+    const widthMeters = parseWidth(props);
+    const points: LonLatPoint[] = [];
+    for (const line of lines) {
+      for (const [lon, lat] of line) {
+        if (typeof lon !== "number" || typeof lat !== "number") continue;
+        points.push({ lon, lat, efRating, widthMeters });
+      }
+    }
+    if (points.length === 0) return;
+    // SPC paths number each tornado (`om`) within its year (`yr`)
+    const om = props.om != null ? String(props.om) : "";
+    segments.push({
+      id: om ? `om ${om}` : `feature ${i + 1}`,
+      tornado: om && `${props.yr ?? ""}/${om}`,
+      episode: "",
+      points,
+    });
+  });
+  if (segments.length === 0) throw new Error("GeoJSON track has no LineString features");
+  return singleTornado(groupSegments(segments), "GeoJSON track", "features");
+}
+
+/** A piece of a tornado path: one Storm Events row, or one GeoJSON feature's points. */
+interface TrackSegment {
+  id: string;       // EVENT_ID or SPC `om`, else the row or feature number
+  tornado: string;  // id shared by every piece of one tornado, empty when the file has none
+  episode: string;  // EPISODE_ID, empty when the file has none
+  points: LonLatPoint[];
+}
+
+function stormEventsTrack(text: string): LonLatPoint[] {
+  const rows = text.split(/\r?\n/).filter((l) => l.trim() !== "").map(splitCsvLine);
+  const header = (rows.shift() ?? []).map((h) => h.trim().toUpperCase());
+  const col = (name: string) => header.indexOf(name);
+  const [iBLat, iBLon, iELat, iELon] = [col("BEGIN_LAT"), col("BEGIN_LON"), col("END_LAT"), col("END_LON")];
+  if (iBLat < 0 || iBLon < 0 || iELat < 0 || iELon < 0) {
+    throw new Error("Storm Events CSV needs BEGIN_LAT, BEGIN_LON, END_LAT and END_LON columns");
+  }
+  const [iScale, iWidth, iType, iEvent, iEpisode] = [col("TOR_F_SCALE"), col("TOR_WIDTH"), col("EVENT_TYPE"), col("EVENT_ID"), col("EPISODE_ID")];
+
+  const segments: TrackSegment[] = [];
+  rows.forEach((r, row) => {
+    if (iType >= 0 && r[iType]?.trim().toLowerCase() !== "tornado") return;
+    const [bLat, bLon, eLat, eLon] = [iBLat, iBLon, iELat, iELon].map((i) => parseFloat(r[i] ?? ""));
+    if ([bLat, bLon, eLat, eLon].some((v) => isNaN(v!))) return;
+    const efRating = parseRating(r[iScale]);
+    const yards = parseFloat(r[iWidth] ?? "");
+    const widthMeters = yards > 0 ? yards * YARDS_TO_METERS : undefined;
+    segments.push({
+      id: r[iEvent]?.trim() || `row ${row + 2}`,
+      tornado: "",
+      episode: r[iEpisode]?.trim() ?? "",
+      points: [{ lon: bLon!, lat: bLat!, efRating, widthMeters }, { lon: eLon!, lat: eLat!, efRating, widthMeters }],
+    });
+  });
+  return singleTornado(groupSegments(segments), "Storm Events CSV", "rows");
+}
+
+/** The one tornado's points, or an error naming every tornado the file holds. */
+function singleTornado(tornadoes: TrackSegment[][], file: string, pieces: string): LonLatPoint[] {
+  if (tornadoes.length > 1) {
+    const ids = tornadoes.map((t) => t.map((s) => s.id).join("+")).join(", ");
+    throw new Error(`${file} holds ${tornadoes.length} separate tornadoes (${ids}) — keep the ${pieces} of one`);
+  }
+  return (tornadoes[0] ?? []).flatMap((s) => s.points);
+}
+
+/**
+ * Group path pieces into tornadoes. Pieces carrying a tornado id belong to
+ * that tornado, in file order; the rest are chained: a piece of the same
+ * episode that begins where another ends carries on the same path.
+ */
+function groupSegments(segments: TrackSegment[]): TrackSegment[][] {
+  const byTornado = new Map<string, TrackSegment[]>();
+  const loose: TrackSegment[] = [];
+  for (const s of segments) {
+    if (!s.tornado) loose.push(s);
+    else if (byTornado.has(s.tornado)) byTornado.get(s.tornado)!.push(s);
+    else byTornado.set(s.tornado, [s]);
+  }
+  return [...byTornado.values(), ...chainSegments(loose)];
+}
+
+/** Chain pieces end to start, in path order whatever order they came in. */
+function chainSegments(segments: TrackSegment[]): TrackSegment[][] {
+  const continues = (prev: TrackSegment, next: TrackSegment) => {
+    const end = prev.points.at(-1)!, begin = next.points[0]!;
+    return prev.episode === next.episode &&
+      Math.abs(end.lat - begin.lat) <= SEGMENT_JOIN_DEGREES &&
+      Math.abs(end.lon - begin.lon) <= SEGMENT_JOIN_DEGREES;
+  };
+
+  const remaining = [...segments];
+  const chains: TrackSegment[][] = [];
+  while (remaining.length > 0) {
+    // Start from a piece nothing leads into, so pieces in any order chain up
+    const head = remaining.find((s) => !remaining.some((o) => o !== s && continues(o, s))) ?? remaining[0]!;
+    remaining.splice(remaining.indexOf(head), 1);
+    const chain = [head];
+    for (let next = remaining.find((s) => continues(head, s)); next; next = remaining.find((s) => continues(chain.at(-1)!, s))) {
+      remaining.splice(remaining.indexOf(next), 1);
+      chain.push(next);
+    }
+    chains.push(chain);
+  }
+  return chains;
+}
+
+/** "EF3", "F2", "3" or 3 → 3; "EFU", -9 and the like → undefined. */
+function parseRating(v: unknown): number | undefined {
+  const m = /^\s*E?F?\s*(\d)\s*$/i.exec(String(v ?? ""));
+  if (!m) return undefined;
+  const r = parseInt(m[1]!);
+  return r <= 5 ? r : undefined;
+}
+
+function parseWidth(props: Record<string, unknown>): number | undefined {
+  const meters = Number(props.width_m);
+  if (meters > 0) return meters;
+  const yards = Number(props.wid ?? props.width ?? props.TOR_WIDTH);
+  return yards > 0 ? yards * YARDS_TO_METERS : undefined;
+}
+
+/**
+ * Walks a track by distance travelled. With a deviation set, the tornado
+ * drifts sideways off the line in a bounded random walk.
+ */
+export class TrackFollower {
+  readonly length: number;
+  /** Distance along the line (m) where the run starts and ends. */
+  start = 0;
+  end: number;
+  private distance = 0;
+  private offset = 0;
+  private points: Required<TrackPoint>[];
+  private cumulative: number[];
+  private deviation: number;
+
+  /** `defaults` fills in the rating and width of vertices that don't carry them. */
+  constructor(track: TornadoTrack, defaults: { efRating: number; widthFor: (efRating: number) => number }) {
+    this.points = track.points.map((p) => {
+      const efRating = p.efRating ?? defaults.efRating;
+      return { x: p.x, z: p.z, efRating, widthMeters: p.widthMeters ?? defaults.widthFor(efRating) };
+    });
+    this.deviation = track.deviationMeters;
+    this.cumulative = [0];
+    for (let i = 1; i < this.points.length; i++) {
+      const a = this.points[i - 1]!, b = this.points[i]!;
+      this.cumulative.push(this.cumulative[i - 1]! + Math.hypot(b.x - a.x, b.z - a.z));
+    }
+    this.length = this.cumulative[this.cumulative.length - 1]!;
+    this.end = this.length;
+  }
+
+  /**
+   * Trim the run to where the track is inside an area (the loaded scene), so
+   * a long historical path doesn't spend minutes crossing empty country.
+   * Returns false, leaving the full track, when it never enters the area.
+   */
+  clipTo(inside: (x: number, z: number) => boolean, step = 5): boolean {
+    let first = -1, last = -1;
+    for (let d = 0; d <= this.length + step; d += step) {
+      const p = this.pointAt(Math.min(d, this.length));
+      if (!inside(p.x, p.z)) continue;
+      if (first < 0) first = d;
+      last = Math.min(d, this.length);
+    }
+    if (first < 0) return false;
+    this.start = Math.max(0, first - step);
+    this.end = Math.min(this.length, last + step);
+    return true;
+  }
+
+  /** Back to the start of the run. */
+  reset(): TrackState {
+    this.distance = this.start;
+    this.offset = 0;
+    return this.state(this.distance, this.pointAt(this.distance + 1));
+  }
+
+  /** Move `meters` along the track; null once past its end. */
+  advance(meters: number, rng: SeededRandom): TrackState | null {
+    if (this.distance >= this.end) return null;
+    const before = this.positionAt(this.distance);
+    this.distance = Math.min(this.end, this.distance + meters);
+    if (this.deviation > 0) {
+      this.offset += (rng.next() - 0.5) * 2 * DRIFT_PER_METER * meters - this.offset * DRIFT_RETURN * meters;
+      this.offset = Math.max(-this.deviation, Math.min(this.deviation, this.offset));
+    }
+    return this.state(this.distance, before, true);
+  }
+
+  private state(distance: number, ref: { x: number; z: number }, refIsBehind = false): TrackState {
+    const p = this.pointAt(distance);
+    const pos = this.positionAt(distance);
+    // Heading from the last position (or toward the next point when standing still)
+    const dx = refIsBehind ? pos.x - ref.x : ref.x - pos.x;
+    const dz = refIsBehind ? pos.z - ref.z : ref.z - pos.z;
+    const heading = Math.hypot(dx, dz) > 1e-6 ? Math.atan2(dz, dx) : Math.atan2(p.dz, p.dx);
+    return { x: pos.x, z: pos.z, heading, efRating: p.efRating, widthMeters: p.widthMeters };
+  }
+
+  /** On the line plus the current sideways drift. */
+  private positionAt(distance: number): { x: number; z: number } {
+    const p = this.pointAt(distance);
+    const len = Math.hypot(p.dx, p.dz) || 1;
+    return { x: p.x - (p.dz / len) * this.offset, z: p.z + (p.dx / len) * this.offset };
+  }
+
+  /** The point on the line at a distance along it, with the segment direction and interpolated attributes. */
+  private pointAt(distance: number) {
+    // Where segments meet, the zero-length step between their end vertices is skipped
+    let i = 1;
+    while (i < this.cumulative.length - 1 && (this.cumulative[i]! < distance || this.cumulative[i] === this.cumulative[i - 1])) i++;
+    const a = this.points[i - 1]!, b = this.points[i]!;
+    const segment = this.cumulative[i]! - this.cumulative[i - 1]!;
+    const t = segment > 0 ? Math.max(0, Math.min(1, (distance - this.cumulative[i - 1]!) / segment)) : 0;
+    return {
+      x: a.x + (b.x - a.x) * t,
+      z: a.z + (b.z - a.z) * t,
+      dx: b.x - a.x,
+      dz: b.z - a.z,
+      efRating: a.efRating + (b.efRating - a.efRating) * t,
+      widthMeters: a.widthMeters + (b.widthMeters - a.widthMeters) * t,
+    };
+  }
+}
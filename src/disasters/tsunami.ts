@@ -0,0 +1,144 @@
+/**
+ * Tsunami surge — runs the wave model in disasters/tsunami/ (TsunamiSystem)
+ * when a cascade sends a surge ashore, and couples it to the agent sim the
+ * way FloodSimulator does: FLOOD_LEVEL samples wherever the wave is deep,
+ * swept-away buildings marked in buildingRegistry, and a depth query for
+ * route costs.
+ */
+
+import * as THREE from "three";
+import { TsunamiSystem } from "../../disasters/tsunami/TsunamiSystem.ts";
+import { createHydroState } from "../../disasters/tsunami/TsunamiTypes.ts";
+import type { DisasterContext } from "../../disasters/types.ts";
+import type { EventBus } from "../core/EventBus.ts";
+import { SeededRandom, TSUNAMI_STREAM } from "../core/Random.ts";
+import { buildingRegistry, buildingStreamerRef, landCoverRef, type BuildingRecord } from "../layers.ts";
+
+const EMIT_INTERVAL = 0.5;   // seconds between FLOOD_LEVEL sweeps — the cadence AgentDamageSystem assumes
+const SAMPLE_SPACING = 28;   // meters between FLOOD_LEVEL samples, so their 20 m damage reach covers the gaps
+const MIN_EMIT_DEPTH = 0.3;  // shallower water does agents no harm
+const SOAK_INTERVAL = 2.0;   // seconds between marking flooded ground cells wet
+
+export class TsunamiSurge {
+  active = false;
+
+  private context: DisasterContext | null = null;
+  private sceneHalfSize = 0;
+  private eventBus: EventBus | null = null;
+  private rng = new SeededRandom();
+  private system: TsunamiSystem | null = null;
+  private records = new Map<THREE.Mesh, BuildingRecord>();
+  private readonly hydro = createHydroState();
+  private emitTimer = 0;
+  private soakTimer = 0;
+
+  /** Scene the wave runs over; `context.parent` must hold the "terrain" mesh. */
+  setContext(context: DisasterContext, sceneHalfSize: number) {
+    this.context = context;
+    this.sceneHalfSize = sceneHalfSize;
+  }
+
+  setEventBus(bus: EventBus | null) {
+    this.eventBus = bus;
+  }
+
+  /**
+   * Debris and spray draw from a stream split off the run's PRNG, so a seed
+   * replays the surge without shifting anyone else's draws.
+   */
+  setRng(rng: SeededRandom) {
+    this.rng = rng.split(TSUNAMI_STREAM);
+  }
+
+  /** Send a wave `waveHeight` meters high ashore at (x, z), heading for the scene center. */
+  spawn(x: number, z: number, waveHeight: number) {
+    this.despawn();
+    if (!this.context) {
+      console.warn("[Tsunami] no context — aborting spawn");
+      return;
+    }
+
+    // A surge crosses the whole scene: build every chunk so each building is a target
+    buildingStreamerRef?.activate(0, 0, Infinity);
+    const standing = buildingRegistry.filter((b) => !b.destroyed);
+    this.records = new Map(standing.map((b) => [b.mesh, b]));
+
+    const rng = this.rng;
+    try {
+      this.system = new TsunamiSystem(this.context, {
+        random: () => rng.next(),
+        buildings: standing.map((b) => b.mesh),
+        onDestroyed: (mesh) => this.sweptAway(mesh),
+      });
+    } catch (err) {
+      console.error("[Tsunami] spawn failed:", err);
+      return;
+    }
+    this.system.setControl("wave_height", waveHeight);
+    this.system.setWaveDirection(-x, -z);
+    this.system.start();
+    this.active = true;
+    this.emitTimer = 0;
+    this.soakTimer = 0;
+    console.log(`[Tsunami] ${waveHeight.toFixed(1)} m wave coming ashore at (${x.toFixed(0)}, ${z.toFixed(0)})`);
+  }
+
+  /** Water depth (m) at a world point — 0 when no surge is running. */
+  depthAt(x: number, z: number): number {
+    if (!this.active || !this.system) return 0;
+    return this.system.sampleHydro(x, z, this.hydro).depth;
+  }
+
+  despawn() {
+    this.active = false;
+    this.records.clear();
+    if (!this.system) return;
+    this.system.dispose();
+    this.system = null;
+    console.log("[Tsunami] despawned");
+  }
+
+  update(dt: number) {
+    if (!this.active || !this.system) return;
+    this.system.update(dt);
+
+    // Flooded ground stays too wet to burn (landcover.ts)
+    this.soakTimer += dt;
+    if (landCoverRef && this.soakTimer >= SOAK_INTERVAL) {
+      this.soakTimer = 0;
+      landCoverRef.soak((x, z) => this.depthAt(x, z));
+    }
+
+    this.emitTimer += dt;
+    if (!this.eventBus || this.emitTimer < EMIT_INTERVAL) return;
+    this.emitTimer = 0;
+    const half = this.sceneHalfSize;
+    for (let x = -half + SAMPLE_SPACING / 2; x < half; x += SAMPLE_SPACING) {
+      for (let z = -half + SAMPLE_SPACING / 2; z < half; z += SAMPLE_SPACING) {
+        const state = this.system.sampleHydro(x, z, this.hydro);
+        if (state.depth < MIN_EMIT_DEPTH) continue;
+        this.eventBus.emit({
+          type: "FLOOD_LEVEL",
+          position: [x, state.surfaceY, z],
+          waterHeight: state.depth,
+          velocity: [state.vx, 0, state.vz],
+        });
+      }
+    }
+  }
+
+  private sweptAway(mesh: THREE.Mesh) {
+    const b = this.records.get(mesh);
+    if (!b || b.destroyed) return;
+    b.damageLevel = 1;
+    b.destroyed = true;
+    b.peakFloodDepth = Math.max(b.peakFloodDepth, this.depthAt(b.centerX, b.centerZ));
+    this.eventBus?.emit({
+      type: "STRUCTURE_COLLAPSE",
+      entityId: 0,
+      position: [b.centerX, b.baseY, b.centerZ],
+      fragmentCount: 0,
+    });
+    console.log(`[Tsunami] ${b.attributes.type} building at (${b.centerX.toFixed(0)}, ${b.centerZ.toFixed(0)}) swept away`);
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Analytic tornado vortex models — the one wind field that building and tree
+ * damage, debris, agent injuries and the GPU kernels (tornadoCompute.ts, which
+ * mirrors these formulas in TSL) all evaluate.
+ *
+ *   - Rankine: solid-body core inside potential flow, with a sharp peak at the
+ *     core radius.
+ *   - Burgers–Rott: one-cell viscous vortex, V ∝ (1 − e^(−αρ²)) / ρ.
+ *   - Sullivan (Baker–Sullivan two-cell): a downdraft on the axis with outflow
+ *     near it, inside a ring of updraft and inflow.
+ *
+ * Rotation is cyclonic (counter-clockwise seen from above). The tornado's
+ * translation adds to the storm-relative wind, so the right flank gets the
+ * full EF speed and the left flank that much less. Near the ground, friction
+ * turns the flow inward by the inflow angle. The tangential wind follows a
+ * boundary-layer profile that peaks a few tens of meters up.
+ */
+
+import type { WindFieldUpdateEvent } from "../core/EventBus.ts";
+
+export const VORTEX_MODELS = ["rankine", "burgers-rott", "sullivan"] as const;
+export type VortexModel = (typeof VORTEX_MODELS)[number];
+
+/**
+ * Tangential profile V / Vrot = c / ρ · (1 − exp(−a ρ^p)), ρ = r / core radius,
+ * peaking at 1 on the core radius. Rankine's piecewise profile doesn't use it.
+ */
+export const VORTEX_PROFILES: Record<VortexModel, { c: number; a: number; p: number }> = {
+  rankine: { c: 1, a: 1, p: 1 },
+  "burgers-rott": { c: 1.39795, a: 1.25643, p: 2 },
+  sullivan: { c: 1.1328, a: 2.1, p: 3.75 }, // fit to Sullivan's H(x) integral, within 2 %
+};
+
+/** Sullivan's similarity variable x = a r² / 2ν at the core radius. */
+export const SULLIVAN_X_CORE = 6.24;
+/** Sullivan's −x + 3(1 − e^(−x)) at the core radius, normalizing its radial flow. */
+const SULLIVAN_RADIAL_CORE = SULLIVAN_X_CORE - 3 * (1 - Math.exp(-SULLIVAN_X_CORE));
+
+export const INFLOW_ANGLE = (25 * Math.PI) / 180; // near-surface inflow, turning to pure rotation by INFLOW_DEPTH
+export const INFLOW_DEPTH = 100;                  // m
+export const REFERENCE_HEIGHT = 10;               // m — EF speeds are 3 s gusts at 10 m
+export const PEAK_HEIGHT = 40;                    // m — top of the frictional boundary layer
+export const BOUNDARY_LAYER_EXPONENT = 0.14;
+export const FIELD_TOP = 420;                     // m — wind dies out above the funnel
+/** Share of the EF speed always left to rotation, however fast the tornado moves. */
+export const MIN_ROTATION_SHARE = 0.5;
+
+/** Everything the wind field depends on, in local scene meters. */
+export interface VortexState {
+  model: VortexModel;
+  x: number;
+  y: number;                // ground under the vortex center
+  z: number;
+  maxWindSpeed: number;     // peak ground-relative wind at 10 m (the EF speed)
+  coreRadius: number;       // radius of maximum winds
+  heading: number;          // direction of travel, radians from +X toward +Z
+  translationSpeed: number;
+}
+
+/** Peak storm-relative rotation: the EF speed less what the translation contributes. */
+export function rotationalSpeed(v: VortexState): number {
+  return Math.max(v.maxWindSpeed - v.translationSpeed, v.maxWindSpeed * MIN_ROTATION_SHARE);
+}
+
+/** Tangential wind at ρ = r / core radius, relative to its peak. */
+export function tangentialProfile(model: VortexModel, rho: number): number {
+  if (model === "rankine") return rho <= 1 ? rho : 1 / rho;
+  const { c, a, p } = VORTEX_PROFILES[model];
+  return rho < 1e-3 ? 0 : (c / rho) * (1 - Math.exp(-a * Math.pow(rho, p)));
+}
+
+/** Scale on the inflow angle: 1 is full inflow, negative is outflow (the two-cell core). */
+export function radialProfile(model: VortexModel, rho: number): number {
+  switch (model) {
+    case "rankine": return Math.min(rho, 1);
+    case "burgers-rott": return 1 - Math.exp(-rho * rho);
+    case "sullivan": {
+      const x = SULLIVAN_X_CORE * rho * rho;
+      return Math.max(-1, Math.min(1, (x - 3 * (1 - Math.exp(-x))) / SULLIVAN_RADIAL_CORE));
+    }
+  }
+}
+
+/** Vertical wind at ρ as a fraction of the peak rotation; negative is a downdraft. */
+export function updraftProfile(model: VortexModel, rho: number): number {
+  switch (model) {
+    case "rankine": return rho <= 1 ? 0.6 * (1 - 0.5 * rho) : 0.15 / rho;
+    case "burgers-rott": {
+      const core = Math.exp(-rho * rho);
+      return 0.6 * core + (0.15 / Math.max(rho, 1)) * (1 - core);
+    }
+    case "sullivan": return (0.3 * (1 - 3 * Math.exp(-SULLIVAN_X_CORE * rho * rho))) / Math.max(rho, 1);
+  }
+}
+
+/** Horizontal wind at a height above ground relative to 10 m: a power law up to the peak, fading above it. */
+export function heightProfile(h: number): number {
+  const z = Math.max(h, 1);
+  if (z <= PEAK_HEIGHT) return Math.pow(z / REFERENCE_HEIGHT, BOUNDARY_LAYER_EXPONENT);
+  const peak = Math.pow(PEAK_HEIGHT / REFERENCE_HEIGHT, BOUNDARY_LAYER_EXPONENT);
+  return peak * Math.max(0, 1 - (z - PEAK_HEIGHT) / (FIELD_TOP - PEAK_HEIGHT));
+}
+
+/**
+ * Ground-relative wind (m/s) at a world point: rotation turned inward by the
+ * inflow angle, the updraft, and the translation.
+ */
+export function windAt<T extends { x: number; y: number; z: number }>(v: VortexState, x: number, y: number, z: number, out: T): T {
+  const dx = x - v.x;
+  const dz = z - v.z;
+  const r = Math.sqrt(dx * dx + dz * dz);
+  const h = y - v.y;
+  const rho = r / v.coreRadius;
+  const vRot = rotationalSpeed(v);
+  const tx = Math.cos(v.heading) * v.translationSpeed;
+  const tz = Math.sin(v.heading) * v.translationSpeed;
+
+  out.y = vRot * updraftProfile(v.model, rho) * Math.max(0, 1 - Math.max(h, 0) / FIELD_TOP);
+  if (r < 0.1) {
+    out.x = tx;
+    out.z = tz;
+    return out;
+  }
+  const nx = dx / r, nz = dz / r;
+  // Cyclonic tangent, turned toward the axis by the (signed) inflow angle
+  const speed = vRot * tangentialProfile(v.model, rho) * heightProfile(h);
+  const inflow = INFLOW_ANGLE * Math.max(0, 1 - Math.max(h, 0) / INFLOW_DEPTH) * radialProfile(v.model, rho);
+  const c = Math.cos(inflow), s = Math.sin(inflow);
+  out.x = speed * (nz * c - nx * s) + tx;
+  out.z = speed * (-nx * c - nz * s) + tz;
+  return out;
+}
+
+const scratch = { x: 0, y: 0, z: 0 };
+
+/** Horizontal ground-relative wind speed at 10 m above a point — what EF damage is rated against. */
+export function windSpeedAt(v: VortexState, x: number, z: number): number {
+  const w = windAt(v, x, v.y + REFERENCE_HEIGHT, z, scratch);
+  return Math.hypot(w.x, w.z);
+}
+
+/** The vortex a WIND_FIELD_UPDATE describes. */
+export function vortexFromEvent(e: WindFieldUpdateEvent): VortexState {
+  return {
+    model: e.model,
+    x: e.center[0],
+    y: e.center[1],
+    z: e.center[2],
+    maxWindSpeed: e.maxWindSpeed,
+    coreRadius: e.coreRadius,
+    heading: Math.atan2(e.direction[2], e.direction[0]),
+    translationSpeed: e.translationSpeed,
+  };
+}
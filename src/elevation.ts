@@ -1,10 +1,25 @@
-/** Server-side: query OpenTopoData for a grid of elevation points, return as GeoJSON. */
+/** Server-side: elevation grids for an area — from OpenTopoData or local DEM files. */
 
 import type { FeatureCollection } from "./tiles.ts";
+import { LocalDemSource } from "./dem.ts";
 
 const OPENTOPODATA_URL = "https://api.opentopodata.org/v1/ned10m";
 const MAX_PER_REQUEST = 100; // OpenTopoData limit
 const REQUEST_INTERVAL_MS = 1100; // Public API limit is 1 request/second
+const MAX_GRID_SIZE = 64; // 41 requests — the public API allows 1000 a day
+
+/** Earliest time the next OpenTopoData request may go out, shared by every caller — the limit is per client. */
+let nextRequestAt = 0;
+
+/** Wait for the next free request slot; slots are claimed before sleeping, so concurrent callers queue up. */
+async function throttle(): Promise<void> {
+  const at = Math.max(Date.now(), nextRequestAt);
+  nextRequestAt = at + REQUEST_INTERVAL_MS;
+  const waitMs = at - Date.now();
+  if (waitMs > 0) {
+    await Bun.sleep(waitMs);
+  }
+}
 
 export interface ElevationGrid {
   geojson: FeatureCollection;
@@ -15,6 +30,14 @@ export interface ElevationGrid {
   east: number;
   /** Row-major [row][col] elevation values in meters. */
   values: number[][];
+  /** Where the values came from — "opentopodata" or "local-dem". */
+  source?: string;
+}
+
+/** Anything that can fill an ElevationGrid for a bounding box. */
+export interface ElevationSource {
+  readonly name: string;
+  fetchGrid(south: number, west: number, north: number, east: number): Promise<ElevationGrid>;
 }
 
 interface OpenTopoResult {
@@ -28,8 +51,9 @@ interface OpenTopoResponse {
 }
 
 /**
- * Fetch a 10x10 elevation grid covering the bounding box.
- * Uses OpenTopoData batch API — entire grid in 1 request.
+ * Fetch an elevation grid covering the bounding box from the OpenTopoData
+ * batch API, 100 points per request. Throws if any batch fails, so a
+ * partial grid is never mistaken for flat ground.
  */
 export async function fetchElevationGrid(
   south: number,
@@ -59,30 +83,22 @@ export async function fetchElevationGrid(
     new Array(gridSize).fill(0),
   );
   const features: FeatureCollection["features"] = [];
-  let lastRequestAt = 0;
 
   for (let i = 0; i < queries.length; i += MAX_PER_REQUEST) {
-    const now = Date.now();
-    const waitMs = lastRequestAt + REQUEST_INTERVAL_MS - now;
-    if (waitMs > 0) {
-      await Bun.sleep(waitMs);
-    }
+    await throttle();
 
     const batch = queries.slice(i, i + MAX_PER_REQUEST);
     const locations = batch.map((q) => `${q.lat},${q.lon}`).join("|");
     const url = `${OPENTOPODATA_URL}?locations=${locations}`;
 
     const res = await fetch(url);
-    lastRequestAt = Date.now();
     if (!res.ok) {
-      console.error(`OpenTopoData error: ${res.status} ${await res.text()}`);
-      continue;
+      throw new Error(`OpenTopoData error: ${res.status} ${await res.text()}`);
     }
 
     const data = (await res.json()) as OpenTopoResponse;
     if (data.status !== "OK") {
-      console.error(`OpenTopoData status: ${data.status}`);
-      continue;
+      throw new Error(`OpenTopoData status: ${data.status}`);
     }
 
     for (let j = 0; j < data.results.length; j++) {
@@ -115,6 +131,7 @@ export async function fetchElevationGrid(
     west,
     east,
     values,
+    source: "opentopodata",
   };
 }
 
@@ -130,5 +147,38 @@ function chooseGridSize(south: number, west: number, north: number, east: number
   // Aim for ~25m sampling while keeping OpenTopoData request volume reasonable.
   const targetSpacingMeters = 25;
   const gridSize = Math.round(longestSide / targetSpacingMeters) + 1;
-  return Math.max(12, Math.min(24, gridSize));
+  return Math.max(12, Math.min(MAX_GRID_SIZE, gridSize));
+}
+
+/** The public OpenTopoData `ned10m` dataset (US only, rate limited, coarse grid). */
+export class OpenTopoDataSource implements ElevationSource {
+  readonly name = "OpenTopoData ned10m";
+
+  fetchGrid(south: number, west: number, north: number, east: number): Promise<ElevationGrid> {
+    return fetchElevationGrid(south, west, north, east);
+  }
+}
+
+/**
+ * Pick the elevation source from the environment:
+ *
+ *   ELEVATION_SOURCE=opentopodata   public API, ~25 m grid (default without DEM_DIR)
+ *   ELEVATION_SOURCE=local          GeoTIFF / SRTM .hgt files under DEM_DIR, native resolution, offline
+ *   ELEVATION_SOURCE=auto           local where DEM_DIR covers the area, else OpenTopoData (default with DEM_DIR)
+ */
+export function createElevationSource(env: Record<string, string | undefined> = process.env): ElevationSource {
+  const kind = (env.ELEVATION_SOURCE ?? (env.DEM_DIR ? "auto" : "opentopodata")).toLowerCase();
+
+  switch (kind) {
+    case "opentopodata":
+      return new OpenTopoDataSource();
+    case "local":
+    case "auto":
+      if (!env.DEM_DIR) {
+        throw new Error(`ELEVATION_SOURCE=${kind} needs DEM_DIR`);
+      }
+      return new LocalDemSource(env.DEM_DIR, kind === "auto" ? new OpenTopoDataSource() : null);
+    default:
+      throw new Error(`Unknown ELEVATION_SOURCE "${kind}" (expected opentopodata | local | auto)`);
+  }
 }
@@ -0,0 +1,452 @@
+/**
+ * Server-side: turn what a user types into candidate scene centers.
+ *
+ * Coordinates are recognised before any lookup — raw `lat,lon` strings,
+ * Google Maps links (short goo.gl links are followed first) and Open Location
+ * Codes ("plus codes", full or short with a locality). Everything else goes to
+ * the configured geocoder: Nominatim, Photon or a local gazetteer file.
+ * Results come back ranked best-first with a 0..1 `score`, so the landing page
+ * can offer a choice when the top hits are close ("Springfield").
+ */
+
+import type { Bounds } from "./cache.ts";
+
+const USER_AGENT = "opendisaster/1.0 (https://github.com/theodorechapman/opendisaster)";
+const DEFAULT_LIMIT = 8;
+const DUPLICATE_RADIUS_M = 1000;    // hits closer than this to a better one are the same place
+const AMBIGUOUS_SCORE_RATIO = 0.5;  // a runner-up within this fraction of the best makes the query ambiguous
+
+export interface GeocodeResult {
+  lat: number;
+  lon: number;
+  name: string;
+  /** Extent of the place, when the source knows it. */
+  bbox?: Bounds;
+  /** Place class from the source ("city", "house", "plus_code", …). */
+  kind?: string;
+  /** Relevance, 0..1 — results are sorted by it. */
+  score: number;
+  /** Which geocoder (or parser) produced it. */
+  source: string;
+}
+
+export interface GeocodeResponse {
+  results: GeocodeResult[];
+  /** More than one plausible place — ask rather than take the first. */
+  ambiguous: boolean;
+}
+
+export interface Geocoder {
+  readonly name: string;
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+}
+
+/** Ranked candidates for a query. Coordinates and plus codes resolve without the geocoder (short plus codes use it for their locality). */
+export async function geocode(geocoder: Geocoder, query: string, limit = DEFAULT_LIMIT): Promise<GeocodeResponse> {
+  const q = query.trim();
+  const direct = parseLatLon(q) ?? (await parseMapsUrl(q)) ?? (await parsePlusCode(geocoder, q));
+  if (direct) return { results: [direct], ambiguous: false };
+
+  const results = dedupe((await geocoder.search(q, limit)).sort((a, b) => b.score - a.score));
+  const [first, second] = results;
+  return { results, ambiguous: !!first && !!second && second.score >= first.score * AMBIGUOUS_SCORE_RATIO };
+}
+
+// ─── Coordinates ───
+
+function coordinateResult(lat: number, lon: number, source: string, kind = "coordinates"): GeocodeResult | null {
+  if (!isFinite(lat) || !isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon, name: `${lat.toFixed(5)}, ${lon.toFixed(5)}`, kind, score: 1, source };
+}
+
+/** "40.7484, -73.9857", "40.7484 -73.9857" or "40.7484N 73.9857W". */
+export function parseLatLon(q: string): GeocodeResult | null {
+  const m = q.match(/^(-?\d+(?:\.\d+)?)\s*°?\s*([NS])?\s*[,;\s]\s*(-?\d+(?:\.\d+)?)\s*°?\s*([EW])?$/i);
+  if (!m) return null;
+  const lat = parseFloat(m[1]!) * (m[2]?.toUpperCase() === "S" ? -1 : 1);
+  const lon = parseFloat(m[3]!) * (m[4]?.toUpperCase() === "W" ? -1 : 1);
+  return coordinateResult(lat, lon, "coordinates");
+}
+
+/** Google Maps short-link hosts — the only ones the server will fetch on a user's behalf. */
+const SHORT_LINK_HOSTS = new Set(["goo.gl", "maps.app.goo.gl"]);
+const MAX_SHORT_LINK_HOPS = 5;
+
+/** Coordinates in a Google Maps link: the dropped pin (`!3d…!4d…`), then `@lat,lon`, `q=` or `ll=`. */
+async function parseMapsUrl(q: string): Promise<GeocodeResult | null> {
+  if (!/^https?:\/\//i.test(q)) return null;
+  let url = q;
+  let parsed: URL;
+  try {
+    parsed = new URL(q);
+  } catch {
+    return null;
+  }
+  if (SHORT_LINK_HOSTS.has(parsed.hostname)) {
+    try {
+      url = await expandShortLink(parsed);
+    } catch {
+      // fall through to the geocoder with the link as typed
+    }
+  }
+  const pin = url.match(/!3d(-?\d+\.?\d*)!4d(-?\d+\.?\d*)/);
+  const m = pin ??
+    url.match(/@(-?\d+\.?\d*),(-?\d+\.?\d*)/) ??
+    url.match(/[?&]q=(-?\d+\.?\d*),(-?\d+\.?\d*)/) ??
+    url.match(/[?&]ll=(-?\d+\.?\d*),(-?\d+\.?\d*)/);
+  return m ? coordinateResult(parseFloat(m[1]!), parseFloat(m[2]!), "maps-url") : null;
+}
+
+/**
+ * Where a short link points. Redirects are followed by hand, and only while
+ * they stay on a short-link host — the destination itself is never fetched.
+ */
+async function expandShortLink(link: URL): Promise<string> {
+  let current = link;
+  for (let hop = 0; hop < MAX_SHORT_LINK_HOPS && /^https?:$/.test(current.protocol) && SHORT_LINK_HOSTS.has(current.hostname); hop++) {
+    const location = (await fetch(current, { redirect: "manual" })).headers.get("location");
+    if (!location) break;
+    current = new URL(location, current);
+  }
+  return current.href;
+}
+
+// ─── Open Location Codes ───
+
+const OLC_ALPHABET = "23456789CFGHJMPQRVWX";
+const OLC_SEPARATOR_AT = 8;
+const OLC_PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+
+/**
+ * A plus code: "87G8Q2PQ+VX" decodes on its own; "Q2PQ+VX New York" is
+ * recovered against the geocoder's best hit for the locality.
+ */
+async function parsePlusCode(geocoder: Geocoder, q: string): Promise<GeocodeResult | null> {
+  const m = q.match(/^([23456789CFGHJMPQRVWX0]{2,8}\+[23456789CFGHJMPQRVWX]*)(?:[\s,]+(.+))?$/i);
+  if (!m) return null;
+  const code = m[1]!.toUpperCase();
+  const locality = m[2]?.trim();
+  const sep = code.indexOf("+");
+  if (sep % 2 === 1 || code.length - sep - 1 === 1) return null;
+
+  let area: { lat: number; lon: number } | null;
+  if (sep === OLC_SEPARATOR_AT) {
+    area = decodeOlc(code);
+  } else {
+    if (!locality || code.includes("0")) return null;
+    const [reference] = (await geocoder.search(locality, 1));
+    if (!reference) return null;
+    area = recoverShortOlc(code, reference.lat, reference.lon);
+  }
+  if (!area) return null;
+  const result = coordinateResult(area.lat, area.lon, "plus-code", "plus_code");
+  return result && { ...result, name: locality ? `${code} ${locality}` : code };
+}
+
+/** Center of a full code's area, or null if it isn't one. */
+function decodeOlc(code: string): { lat: number; lon: number } | null {
+  const digits = code.replace("+", "").replace(/0+$/, "");
+  let lat = -90, lon = -180;
+  let latRes = 0, lonRes = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const v = OLC_ALPHABET.indexOf(digits[i]!);
+    if (v < 0) return null;
+    if (i < 10) {
+      const res = OLC_PAIR_RESOLUTIONS[i >> 1]!;
+      if (i % 2 === 0) { lat += v * res; latRes = res; } else { lon += v * res; lonRes = res; }
+    } else {
+      // Grid refinement: 4 columns × 5 rows per character
+      latRes /= 5; lonRes /= 4;
+      lat += Math.floor(v / 4) * latRes;
+      lon += (v % 4) * lonRes;
+    }
+  }
+  if (digits.length % 2 === 1 && digits.length < 10) return null;
+  return { lat: Math.min(90, lat + latRes / 2), lon: lon + lonRes / 2 };
+}
+
+/** The leading pair digits of the full code for a point. */
+function encodeOlcPrefix(lat: number, lon: number, length: number): string {
+  let la = Math.min(179.999999, Math.max(0, lat + 90));
+  let lo = ((lon + 180) % 360 + 360) % 360;
+  let out = "";
+  for (let i = 0; i < length; i += 2) {
+    const res = OLC_PAIR_RESOLUTIONS[i >> 1]!;
+    const dLat = Math.floor(la / res), dLon = Math.floor(lo / res);
+    out += OLC_ALPHABET[dLat]! + OLC_ALPHABET[dLon]!;
+    la -= dLat * res;
+    lo -= dLon * res;
+  }
+  return out.slice(0, length);
+}
+
+/** The full code nearest the reference point that ends in `short` (per the OLC spec's recoverNearest). */
+function recoverShortOlc(short: string, refLat: number, refLon: number): { lat: number; lon: number } | null {
+  const padding = OLC_SEPARATOR_AT - short.indexOf("+");
+  const area = decodeOlc(encodeOlcPrefix(refLat, refLon, padding) + short);
+  if (!area) return null;
+  const resolution = 20 ** (2 - padding / 2);
+  const half = resolution / 2;
+  let { lat, lon } = area;
+  if (refLat + half < lat && lat - resolution >= -90) lat -= resolution;
+  else if (refLat - half > lat && lat + resolution <= 90) lat += resolution;
+  if (refLon + half < lon) lon -= resolution;
+  else if (refLon - half > lon) lon += resolution;
+  return { lat, lon: ((lon + 180) % 360 + 360) % 360 - 180 };
+}
+
+// ─── Ranking ───
+
+function distanceM(a: GeocodeResult, b: GeocodeResult): number {
+  const dLat = (a.lat - b.lat) * 111_320;
+  const dLon = (a.lon - b.lon) * 111_320 * Math.cos((a.lat * Math.PI) / 180);
+  return Math.hypot(dLat, dLon);
+}
+
+/** Drop hits that sit on top of a better one (a city's node and its boundary, say). */
+function dedupe(sorted: GeocodeResult[]): GeocodeResult[] {
+  const kept: GeocodeResult[] = [];
+  for (const r of sorted) {
+    if (!kept.some((k) => distanceM(k, r) < DUPLICATE_RADIUS_M)) kept.push(r);
+  }
+  return kept;
+}
+
+// ─── Providers ───
+
+/** Nominatim's search API — openstreetmap.org's by default, or a self-hosted one. Ranked by its `importance`. */
+class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim";
+
+  constructor(private readonly baseUrl: string) {}
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const url = `${this.baseUrl.replace(/\/$/, "")}/search?format=jsonv2&limit=${limit}&q=${encodeURIComponent(query)}`;
+    const res = await fetch(url, { headers: { "User-Agent": USER_AGENT } });
+    if (!res.ok) throw new Error(`Nominatim ${res.status}`);
+    const hits = (await res.json()) as Array<{
+      lat: string;
+      lon: string;
+      display_name: string;
+      boundingbox?: [string, string, string, string]; // south, north, west, east
+      importance?: number;
+      addresstype?: string;
+      type?: string;
+    }>;
+    return hits.map((h, i) => {
+      const bb = h.boundingbox?.map(parseFloat);
+      return {
+        lat: parseFloat(h.lat),
+        lon: parseFloat(h.lon),
+        name: h.display_name,
+        bbox: bb && { south: bb[0]!, north: bb[1]!, west: bb[2]!, east: bb[3]! },
+        kind: h.addresstype ?? h.type,
+        // Older servers omit importance; fall back to their ordering
+        score: h.importance ?? 1 / (i + 1),
+        source: this.name,
+      };
+    });
+  }
+}
+
+/**
+ * Photon (komoot's OSM geocoder) — photon.komoot.io by default. It returns hits
+ * in rank order without a score, so each is scored on how well its name
+ * matches the query, with Photon's rank as the tie-break.
+ */
+class PhotonGeocoder implements Geocoder {
+  readonly name = "photon";
+
+  constructor(private readonly baseUrl: string) {}
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const url = `${this.baseUrl.replace(/\/$/, "")}/api/?limit=${limit}&q=${encodeURIComponent(query)}`;
+    const res = await fetch(url, { headers: { "User-Agent": USER_AGENT } });
+    if (!res.ok) throw new Error(`Photon ${res.status}`);
+    const fc = (await res.json()) as {
+      features: Array<{
+        geometry: { coordinates: [number, number] };
+        properties: Record<string, string | number | number[] | undefined> & { extent?: [number, number, number, number] };
+      }>;
+    };
+    const place = fold(query.split(",")[0] ?? "");
+    return fc.features.map((f, i) => {
+      const p = f.properties;
+      const address = p.housenumber && p.street ? `${p.housenumber} ${p.street}` : p.street;
+      const parts = [p.name, address, p.city, p.state, p.country];
+      const ext = p.extent; // minLon, maxLat, maxLon, minLat
+      const match = Math.max(...[p.name, address].map((n) => typeof n === "string" ? nameMatch(fold(n), place) : 0));
+      return {
+        lat: f.geometry.coordinates[1],
+        lon: f.geometry.coordinates[0],
+        name: [...new Set(parts.filter((s): s is string => typeof s === "string" && s !== ""))].join(", "),
+        bbox: ext && { west: ext[0], north: ext[1], east: ext[2], south: ext[3] },
+        kind: typeof p.osm_value === "string" ? p.osm_value : undefined,
+        score: (match + 0.5 / (i + 1)) / 1.5,
+        source: this.name,
+      };
+    });
+  }
+}
+
+interface GazetteerEntry {
+  name: string;
+  /** Lowercased, accent-free name and alternate names. */
+  keys: string[];
+  lat: number;
+  lon: number;
+  population: number;
+  /** Lowercased country / region names or codes the query's trailing parts can match. */
+  context: string[];
+  label: string;
+  kind?: string;
+}
+
+const fold = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+/** How well a folded name matches the folded place typed: exact 1, prefix 0.6, anywhere 0.3, else 0. */
+function nameMatch(name: string, place: string): number {
+  if (!place) return 0;
+  return name === place ? 1 : name.startsWith(place) ? 0.6 : name.includes(place) ? 0.3 : 0;
+}
+
+/**
+ * A local place list, fully offline. Either a GeoNames dump (`cities500.txt`
+ * and friends: tab-separated, no header) or a CSV with a header naming
+ * `name`, `lat`, `lon` and optionally `population`, `country`, `region`,
+ * `kind`. "Springfield, IL" matches the name and then the region or country.
+ */
+class GazetteerGeocoder implements Geocoder {
+  readonly name = "gazetteer";
+  private entries: Promise<GazetteerEntry[]> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const [place = "", ...qualifiers] = query.split(",").map(fold).filter((s) => s !== "");
+    if (!place) return [];
+    const entries = await (this.entries ??= this.load());
+
+    const hits: { entry: GazetteerEntry; match: number }[] = [];
+    for (const entry of entries) {
+      if (!qualifiers.every((q) => entry.context.some((c) => c === q || c.startsWith(q)))) continue;
+      let match = 0;
+      for (const key of entry.keys) match = Math.max(match, nameMatch(key, place));
+      if (match > 0) hits.push({ entry, match });
+    }
+
+    // Name match first, then population: a city of 10M scores 0.5 on top of its match
+    const scored = hits.map(({ entry, match }) => ({
+      entry,
+      score: (match + Math.min(1, Math.log10(entry.population + 1) / 7) * 0.5) / 1.5,
+    }));
+    scored.sort((a, b) => b.score - a.score);
+    return scored.slice(0, limit).map(({ entry, score }) => ({
+      lat: entry.lat,
+      lon: entry.lon,
+      name: entry.label,
+      kind: entry.kind,
+      score,
+      source: this.name,
+    }));
+  }
+
+  private async load(): Promise<GazetteerEntry[]> {
+    const text = await Bun.file(this.path).text();
+    const entries = this.path.endsWith(".csv") ? parseGazetteerCsv(text) : parseGeoNames(text);
+    console.log(`[Geocode] Loaded ${entries.length} gazetteer entries from ${this.path}`);
+    return entries;
+  }
+}
+
+/** GeoNames columns: 1 name, 2 ascii name, 3 alternate names, 4 lat, 5 lon, 7 feature code, 8 country, 10 admin1, 14 population. */
+function parseGeoNames(text: string): GazetteerEntry[] {
+  const entries: GazetteerEntry[] = [];
+  for (const line of text.split("\n")) {
+    const c = line.split("\t");
+    if (c.length < 15) continue;
+    const lat = parseFloat(c[4]!), lon = parseFloat(c[5]!);
+    if (isNaN(lat) || isNaN(lon)) continue;
+    const name = c[1]!;
+    const country = c[8]!, region = c[10]!;
+    entries.push({
+      name,
+      keys: [...new Set([name, c[2]!, ...c[3]!.split(",")].filter((s) => s !== "").map(fold))],
+      lat,
+      lon,
+      population: parseInt(c[14]!) || 0,
+      context: [country, region].filter((s) => s !== "").map(fold),
+      label: [name, region, country].filter((s) => s !== "").join(", "),
+      kind: c[7] || undefined,
+    });
+  }
+  return entries;
+}
+
+function parseGazetteerCsv(text: string): GazetteerEntry[] {
+  const rows = text.split(/\r?\n/).filter((l) => l.trim() !== "").map(splitCsvLine);
+  const header = (rows.shift() ?? []).map(fold);
+  const col = (name: string) => header.indexOf(name);
+  const [iName, iLat, iLon] = [col("name"), col("lat"), col("lon")];
+  if (iName < 0 || iLat < 0 || iLon < 0) throw new Error("Gazetteer CSV needs name, lat and lon columns");
+  const [iPop, iCountry, iRegion, iKind] = [col("population"), col("country"), col("region"), col("kind")];
+
+  const entries: GazetteerEntry[] = [];
+  for (const r of rows) {
+    const lat = parseFloat(r[iLat] ?? ""), lon = parseFloat(r[iLon] ?? "");
+    const name = r[iName]?.trim();
+    if (!name || isNaN(lat) || isNaN(lon)) continue;
+    const country = r[iCountry]?.trim() ?? "", region = r[iRegion]?.trim() ?? "";
+    entries.push({
+      name,
+      keys: [fold(name)],
+      lat,
+      lon,
+      population: parseInt(r[iPop] ?? "") || 0,
+      context: [country, region].filter((s) => s !== "").map(fold),
+      label: [name, region, country].filter((s) => s !== "").join(", "),
+      kind: r[iKind]?.trim() || undefined,
+    });
+  }
+  return entries;
+}
+
+/** One CSV record; double-quoted fields may hold commas and `""`. */
+export function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let field = "", quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!;
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") { out.push(field); field = ""; }
+    else field += ch;
+  }
+  out.push(field);
+  return out;
+}
+
+/**
+ * Geocoder from the environment:
+ *   GEOCODER_PROVIDER  nominatim | photon | gazetteer (default: gazetteer when GAZETTEER_FILE is set, else nominatim)
+ *   GEOCODER_URL       base URL of a self-hosted Nominatim or Photon
+ *   GAZETTEER_FILE     GeoNames dump or CSV for the gazetteer
+ */
+export function createGeocoder(env: Record<string, string | undefined> = process.env): Geocoder {
+  const kind = (env.GEOCODER_PROVIDER ?? (env.GAZETTEER_FILE ? "gazetteer" : "nominatim")).toLowerCase();
+
+  switch (kind) {
+    case "nominatim":
+      return new NominatimGeocoder(env.GEOCODER_URL ?? "https://nominatim.openstreetmap.org");
+    case "photon":
+      return new PhotonGeocoder(env.GEOCODER_URL ?? "https://photon.komoot.io");
+    case "gazetteer":
+      if (!env.GAZETTEER_FILE) throw new Error("GEOCODER_PROVIDER=gazetteer needs GAZETTEER_FILE");
+      return new GazetteerGeocoder(env.GAZETTEER_FILE);
+    default:
+      throw new Error(`Unknown GEOCODER_PROVIDER "${kind}" (expected nominatim | photon | gazetteer)`);
+  }
+}
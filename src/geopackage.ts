@@ -0,0 +1,155 @@
+/**
+ * Server-side: write a damage export (gisExport.ts) as an OGC GeoPackage —
+ * an SQLite file QGIS and GDAL open directly — with one feature table per
+ * `layer` property (buildings as polygons, deaths as points), in EPSG:4326.
+ */
+
+import { Database } from "bun:sqlite";
+import type { BuildingFeature, FeatureCollection } from "./tiles.ts";
+
+const WGS84 = 4326;
+const GPKG_APPLICATION_ID = 0x47504b47; // "GPKG"
+const GPKG_USER_VERSION = 10300;        // spec 1.3.0
+
+const GEOMETRY_TYPES: Record<string, { code: number; name: string }> = {
+  Point: { code: 1, name: "POINT" },
+  Polygon: { code: 3, name: "POLYGON" },
+};
+
+/** The collection as GeoPackage bytes. Features without a `layer` property go in a "features" table. */
+export function geoPackage(fc: FeatureCollection): Uint8Array<ArrayBuffer> {
+  const db = new Database(":memory:");
+  db.run(`PRAGMA application_id = ${GPKG_APPLICATION_ID}`);
+  db.run(`PRAGMA user_version = ${GPKG_USER_VERSION}`);
+  createMetadataTables(db);
+
+  const layers = new Map<string, BuildingFeature[]>();
+  for (const f of fc.features) {
+    if (!GEOMETRY_TYPES[f.geometry.type]) continue;
+    const name = typeof f.properties.layer === "string" ? f.properties.layer : "features";
+    let list = layers.get(name);
+    if (!list) layers.set(name, (list = []));
+    list.push(f);
+  }
+  for (const [name, features] of layers) writeLayer(db, name, features);
+
+  const bytes = new Uint8Array(db.serialize());
+  db.close();
+  return bytes;
+}
+
+function createMetadataTables(db: Database): void {
+  db.run(`CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL, srs_id INTEGER PRIMARY KEY, organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, description TEXT)`);
+  db.run(`CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, identifier TEXT UNIQUE, description TEXT DEFAULT '',
+    last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE, srs_id INTEGER REFERENCES gpkg_spatial_ref_sys(srs_id))`);
+  db.run(`CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL, column_name TEXT NOT NULL, geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL, z TINYINT NOT NULL, m TINYINT NOT NULL,
+    PRIMARY KEY (table_name, column_name))`);
+
+  // The three definitions every GeoPackage must carry
+  const srs = db.prepare("INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)");
+  srs.run("Undefined cartesian SRS", -1, "NONE", -1, "undefined", "undefined cartesian coordinate reference system");
+  srs.run("Undefined geographic SRS", 0, "NONE", 0, "undefined", "undefined geographic coordinate reference system");
+  srs.run(
+    "WGS 84 geodetic", WGS84, "EPSG", WGS84,
+    'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],' +
+      'PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]',
+    "longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid",
+  );
+}
+
+function writeLayer(db: Database, name: string, features: BuildingFeature[]): void {
+  const table = name.replace(/\W/g, "_");
+  const geomType = GEOMETRY_TYPES[features[0]!.geometry.type]!.name;
+
+  // Columns from the union of the features' properties, typed by their non-null values
+  const columns = new Map<string, string>();
+  for (const f of features) {
+    for (const [k, v] of Object.entries(f.properties)) {
+      if (k === "layer" || v === null || v === undefined) continue;
+      const type = typeof v === "boolean" ? "BOOLEAN" : typeof v === "number" ? (Number.isInteger(v) ? "INTEGER" : "REAL") : "TEXT";
+      const prev = columns.get(k) ?? type;
+      const numeric = (t: string) => t === "INTEGER" || t === "REAL";
+      columns.set(k, prev === type ? type : numeric(prev) && numeric(type) ? "REAL" : "TEXT");
+    }
+  }
+  const names = [...columns.keys()];
+  const quote = (c: string) => `"${c.replace(/"/g, '""')}"`;
+  db.run(`CREATE TABLE ${quote(table)} (fid INTEGER PRIMARY KEY AUTOINCREMENT, geom ${geomType}${names.map((c) => `, ${quote(c)} ${columns.get(c)}`).join("")})`);
+
+  const insert = db.prepare(
+    `INSERT INTO ${quote(table)} (geom${names.map((c) => `, ${quote(c)}`).join("")}) VALUES (?${", ?".repeat(names.length)})`,
+  );
+  const extent = [Infinity, Infinity, -Infinity, -Infinity];
+  db.transaction(() => {
+    for (const f of features) {
+      const points = geometryPoints(f);
+      for (const [x, y] of points) {
+        extent[0] = Math.min(extent[0]!, x!);
+        extent[1] = Math.min(extent[1]!, y!);
+        extent[2] = Math.max(extent[2]!, x!);
+        extent[3] = Math.max(extent[3]!, y!);
+      }
+      const values = names.map((c) => {
+        const v = f.properties[c];
+        return typeof v === "boolean" ? (v ? 1 : 0) : typeof v === "number" || typeof v === "string" ? v : v == null ? null : JSON.stringify(v);
+      });
+      insert.run(geometryBlob(f), ...values);
+    }
+  })();
+
+  db.run("INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, 'features', ?, ?, ?, ?, ?, ?)", [
+    table, table, ...(extent as [number, number, number, number]), WGS84,
+  ]);
+  db.run("INSERT INTO gpkg_geometry_columns VALUES (?, 'geom', ?, ?, 0, 0)", [table, geomType, WGS84]);
+}
+
+function geometryPoints(f: BuildingFeature): number[][] {
+  return f.geometry.type === "Point" ? [f.geometry.coordinates as number[]] : (f.geometry.coordinates as number[][][]).flat();
+}
+
+/** GeoPackage binary: "GP" header with SRS id and envelope, then little-endian WKB. */
+function geometryBlob(f: BuildingFeature): Uint8Array {
+  const isPoint = f.geometry.type === "Point";
+  const rings = isPoint ? [] : (f.geometry.coordinates as number[][][]);
+  const points = geometryPoints(f);
+
+  const headerSize = 8 + (isPoint ? 0 : 32); // points carry no envelope
+  const wkbSize = isPoint ? 21 : 9 + rings.reduce((n, r) => n + 4 + r.length * 16, 0);
+  const view = new DataView(new ArrayBuffer(headerSize + wkbSize));
+  let o = 0;
+
+  view.setUint8(o++, 0x47); // G
+  view.setUint8(o++, 0x50); // P
+  view.setUint8(o++, 0);    // version 1
+  view.setUint8(o++, (isPoint ? 0 : 1 << 1) | 1); // envelope [minx, maxx, miny, maxy] for polygons; little-endian
+  view.setInt32(o, WGS84, true); o += 4;
+  if (!isPoint) {
+    const xs = points.map((p) => p[0]!), ys = points.map((p) => p[1]!);
+    for (const v of [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)]) {
+      view.setFloat64(o, v, true); o += 8;
+    }
+  }
+
+  view.setUint8(o++, 1); // little-endian WKB
+  view.setUint32(o, GEOMETRY_TYPES[f.geometry.type]!.code, true); o += 4;
+  const writePoint = (p: number[]) => {
+    view.setFloat64(o, p[0]!, true); o += 8;
+    view.setFloat64(o, p[1]!, true); o += 8;
+  };
+  if (isPoint) {
+    writePoint(points[0]!);
+  } else {
+    view.setUint32(o, rings.length, true); o += 4;
+    for (const ring of rings) {
+      view.setUint32(o, ring.length, true); o += 4;
+      for (const p of ring) writePoint(p);
+    }
+  }
+  return new Uint8Array(view.buffer);
+}
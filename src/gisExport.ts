@@ -0,0 +1,126 @@
+/**
+ * Damage export for GIS tools: the scene's buildings and agent deaths back in
+ * WGS84 lon/lat, as a GeoJSON FeatureCollection. Buildings keep their OSM id
+ * and type, so results can be joined to parcels or the source data in QGIS.
+ *
+ * The same collection is written as a GeoPackage server-side (geopackage.ts).
+ * An earthquake's shake map goes out as a lon/lat-bounded grid alongside it.
+ */
+
+import { localToLonLat, type BuildingRecord } from "./layers.ts";
+import type { AgentRecord } from "./stats/SimulationStats.ts";
+import type { BuildingFeature, FeatureCollection } from "./tiles.ts";
+import { surveyBuilding } from "./disasters/tornadoSurvey.ts";
+import type { ShakeMap } from "./disasters/groundMotion.ts";
+
+/** `layer` property of exported features — one GeoPackage table each. */
+export type ExportLayer = "buildings" | "deaths";
+
+export interface DamageExportMeta {
+  scenario: string;
+  seed: number;
+  duration: number; // sim seconds
+}
+
+/** A FeatureCollection with the run it came from as a foreign member (ignored by readers that don't know it). */
+export interface DamageExport extends FeatureCollection {
+  properties?: DamageExportMeta & { centerLat: number; centerLon: number };
+}
+
+/** A shake map as row-major grids, row 0 along the north edge and column 0 along the west. */
+export interface ShakeMapExport {
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+  width: number;    // columns
+  height: number;   // rows
+  cellSize: number; // meters
+  pga: number[];    // g
+  pgv: number[];    // cm/s
+  mmi: number[];
+  vs30: number[];   // m/s
+}
+
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+/**
+ * One Polygon per building record (a multipolygon building gives one per
+ * outer ring, sharing its `osmId`) and one Point per agent death.
+ */
+export function damageGeoJSON(
+  centerLat: number,
+  centerLon: number,
+  buildings: BuildingRecord[],
+  agents: AgentRecord[],
+  meta?: DamageExportMeta,
+): DamageExport {
+  const lonLat = (x: number, z: number) => localToLonLat(x, z, centerLat, centerLon).map((v) => round(v, 7));
+  const features: BuildingFeature[] = [];
+
+  buildings.forEach((b, i) => {
+    const survey = surveyBuilding(b, i);
+    features.push({
+      type: "Feature",
+      properties: {
+        layer: "buildings" satisfies ExportLayer,
+        osmId: b.osmId ?? null,
+        osmType: b.osmType ?? null,
+        name: b.name ?? null,
+        type: b.attributes.type,
+        construction: b.attributes.construction,
+        height: round(b.height, 2),
+        damageLevel: round(b.damageLevel, 3),
+        destroyed: b.destroyed,
+        peakFloodDepth: round(b.peakFloodDepth, 2),
+        burned: b.burned,
+        peakWindMph: survey?.peakWindMph ?? null,
+        efIndicator: survey?.indicator ?? null,
+        efDegreeOfDamage: survey?.degreeOfDamage ?? null,
+        efRating: survey?.efRating ?? null,
+      },
+      geometry: { type: "Polygon", coordinates: [b.footprint.map(([x, z]) => lonLat(x, z))] },
+    });
+  });
+
+  for (const a of agents) {
+    if (a.alive || !a.deathPosition) continue;
+    features.push({
+      type: "Feature",
+      properties: {
+        layer: "deaths" satisfies ExportLayer,
+        name: a.name,
+        timeOfDeath: a.timeOfDeath,
+        cause: a.cause,
+        rescuedBy: a.rescuedBy,
+      },
+      geometry: { type: "Point", coordinates: lonLat(a.deathPosition[0], a.deathPosition[2]) },
+    });
+  }
+
+  return {
+    type: "FeatureCollection",
+    ...(meta && { properties: { ...meta, centerLat, centerLon } }),
+    features,
+  };
+}
+
+/** The shake map's grids with the lon/lat bounds of its cells. */
+export function shakeMapGrid(centerLat: number, centerLon: number, map: ShakeMap): ShakeMapExport {
+  const [west, north] = localToLonLat(map.xMin, map.zMin, centerLat, centerLon);
+  const [east, south] = localToLonLat(map.xMin + map.width * map.cellSize, map.zMin + map.height * map.cellSize, centerLat, centerLon);
+  const values = (grid: Float32Array, digits: number) => Array.from(grid, (v) => round(v, digits));
+  return {
+    south: round(south, 7),
+    north: round(north, 7),
+    west: round(west, 7),
+    east: round(east, 7),
+    width: map.width,
+    height: map.height,
+    cellSize: round(map.cellSize, 2),
+    pga: values(map.pga, 4),
+    pgv: values(map.pgv, 2),
+    mmi: values(map.mmi, 2),
+    vs30: values(map.vs30, 0),
+  };
+}
@@ -0,0 +1,398 @@
+/**
+ * Land cover: what the ground is made of, cell by cell, and what that means
+ * for the hazards — Manning roughness and infiltration for the flood solver,
+ * fuel load and fuel moisture for fire spread.
+ *
+ * The raster is built from the scene's OSM layers (parks, landuse, water,
+ * roads, railways, buildings) on top of an imported land-cover / soil raster
+ * when the server has one (LayerData.landCover), else a built-up/grass guess
+ * from building density. Each cell becomes a TerrainCell entity once
+ * `spawnCells` runs, so fire consumes and floods soak the same fuel state.
+ */
+
+import type { LandCoverData, LayerData, BuildingFeature } from "./tiles.ts";
+import { metersPerDegree, roadWidth } from "./tiles.ts";
+import { Classification, ClassificationType, Position, TerrainCell } from "./core/Components.ts";
+import type { SimWorld } from "./core/World.ts";
+
+export enum LandCover {
+  URBAN = 0,     // built-up ground between buildings: yards, lots, sidewalks
+  ROAD = 1,
+  BUILDING = 2,
+  GRASS = 3,
+  PARK = 4,      // maintained, watered green space
+  FOREST = 5,
+  SCRUB = 6,
+  FARMLAND = 7,
+  BARE = 8,
+  SAND = 9,
+  WETLAND = 10,
+  WATER = 11,
+}
+
+/** `LandCoverData.classes` value where the imported file has no data. */
+export const LAND_COVER_NO_DATA = 255;
+
+export interface LandCoverProperties {
+  /** Manning roughness, s/m^(1/3). */
+  manningN: number;
+  /** Steady infiltration on hydrologic soil group B, mm/h. */
+  infiltration: number;
+  /** Fine surface fuel, kg/m². */
+  fuelLoad: number;
+  /** Fuel moisture, 0 (cured) … 1 (won't carry fire). */
+  moisture: number;
+}
+
+/** Typical values per class — Manning n after Chow, infiltration after the SCS soil groups. */
+export const LAND_COVER: Record<LandCover, LandCoverProperties> = {
+  [LandCover.URBAN]:    { manningN: 0.030, infiltration: 3,  fuelLoad: 0.3,  moisture: 0.3 },
+  [LandCover.ROAD]:     { manningN: 0.013, infiltration: 0,  fuelLoad: 0.1,  moisture: 0 },   // parked cars, verges and litter
+  [LandCover.BUILDING]: { manningN: 0.015, infiltration: 0,  fuelLoad: 0.2,  moisture: 0 },   // walls, eaves and contents spilling out
+  [LandCover.GRASS]:    { manningN: 0.035, infiltration: 10, fuelLoad: 0.4,  moisture: 0.25 },
+  [LandCover.PARK]:     { manningN: 0.040, infiltration: 12, fuelLoad: 0.3,  moisture: 0.5 },
+  [LandCover.FOREST]:   { manningN: 0.120, infiltration: 20, fuelLoad: 1.5,  moisture: 0.35 },
+  [LandCover.SCRUB]:    { manningN: 0.070, infiltration: 12, fuelLoad: 1.2,  moisture: 0.2 },
+  [LandCover.FARMLAND]: { manningN: 0.040, infiltration: 8,  fuelLoad: 0.5,  moisture: 0.35 },
+  [LandCover.BARE]:     { manningN: 0.025, infiltration: 4,  fuelLoad: 0.05, moisture: 0.2 },
+  [LandCover.SAND]:     { manningN: 0.030, infiltration: 30, fuelLoad: 0,    moisture: 0 },
+  [LandCover.WETLAND]:  { manningN: 0.070, infiltration: 0,  fuelLoad: 0.8,  moisture: 0.8 },
+  [LandCover.WATER]:    { manningN: 0.030, infiltration: 0,  fuelLoad: 0,    moisture: 1 },
+};
+
+/** Infiltration multiplier per hydrologic soil group (index 1–4 = A–D; 0 = unknown, taken as B). */
+const SOIL_INFILTRATION = [1, 2.5, 1, 0.5, 0.2];
+
+/** The solver's `manningN` is tuned for open urban ground; other covers scale it by their n relative to this. */
+const MANNING_REFERENCE = LAND_COVER[LandCover.URBAN].manningN;
+/** Fire spread is tuned for dry grass; other covers scale it by fuel and dryness relative to these. */
+const FUEL_REFERENCE = LAND_COVER[LandCover.GRASS].fuelLoad;
+const MOISTURE_REFERENCE = LAND_COVER[LandCover.GRASS].moisture;
+const MAX_FUEL_FACTOR = 2;
+
+const TARGET_CELL_METERS = 4;
+const MAX_CELLS_PER_AXIS = 192;       // keeps the TerrainCell entities well under the ECS limit
+const BUILT_UP_RADIUS_METERS = 30;    // unmapped ground this close to a building counts as urban
+const SOAK_DEPTH_METERS = 0.05;       // water this deep leaves the fuel saturated
+
+const WATERWAY_WIDTHS: Record<string, number> = { river: 12, canal: 10, stream: 3, drain: 2 };
+
+type Ring = [number, number][];
+
+/** Land-cover grid over the terrain, in local XZ meters. Cell (0, 0) is the north-west corner. */
+export class LandCoverMap {
+  readonly width: number;
+  readonly height: number;
+  readonly xMin: number;
+  readonly zMin: number;
+  readonly cellSize: number;
+  readonly classes: Uint8Array;
+  /** Infiltration multiplier from the soil group. */
+  readonly soilFactor: Float32Array;
+  /** Where the classes came from, for logging. */
+  readonly source: string;
+  private eids: Uint32Array | null = null;
+
+  constructor(data: LayerData, centerLat: number, centerLon: number) {
+    const mpd = metersPerDegree(centerLat);
+    const elev = data.elevation;
+    this.xMin = (elev.west - centerLon) * mpd.lon;
+    this.zMin = -((elev.north - centerLat) * mpd.lat);
+    const sizeX = (elev.east - centerLon) * mpd.lon - this.xMin;
+    const sizeZ = -((elev.south - centerLat) * mpd.lat) - this.zMin;
+    this.cellSize = Math.max(TARGET_CELL_METERS, Math.max(sizeX, sizeZ) / MAX_CELLS_PER_AXIS);
+    this.width = Math.max(1, Math.ceil(sizeX / this.cellSize));
+    this.height = Math.max(1, Math.ceil(sizeZ / this.cellSize));
+    this.classes = new Uint8Array(this.width * this.height).fill(LAND_COVER_NO_DATA);
+    this.soilFactor = new Float32Array(this.width * this.height).fill(1);
+
+    const toXZ = (c: number[]): [number, number] => [(c[0]! - centerLon) * mpd.lon, -((c[1]! - centerLat) * mpd.lat)];
+    const imported = data.landCover;
+    if (imported) this.sampleImported(imported, centerLat, centerLon, mpd);
+
+    // Whatever the import didn't cover: built-up near buildings, grass elsewhere
+    const buildingRings = data.buildings.features.flatMap((f) => polygonRings(f).map((rings) => rings.map((r) => r.map(toXZ))));
+    this.fillUnclassified(buildingRings);
+
+    // OSM is finer than any land-cover raster — paint it over, most specific last
+    for (const f of data.parks.features) {
+      const cls = parkClass(f.properties);
+      for (const rings of polygonRings(f)) this.fillPolygon(rings.map((r) => r.map(toXZ)), cls);
+    }
+    for (const f of data.water.features) {
+      for (const rings of polygonRings(f)) this.fillPolygon(rings.map((r) => r.map(toXZ)), LandCover.WATER);
+      const line = lineCoords(f);
+      if (line) {
+        const width = parseFloat(String(f.properties._width ?? "")) || WATERWAY_WIDTHS[String(f.properties.waterway)] || 3;
+        this.fillLine(line.map(toXZ), width, LandCover.WATER);
+      }
+    }
+    for (const f of data.railways.features) {
+      const line = lineCoords(f);
+      if (line) this.fillLine(line.map(toXZ), roadWidth(f.properties), LandCover.BARE);
+    }
+    for (const f of data.roads.features) {
+      const line = lineCoords(f);
+      if (line) this.fillLine(line.map(toXZ), roadWidth(f.properties), f.properties.highway === "path" ? LandCover.BARE : LandCover.ROAD);
+    }
+    for (const rings of buildingRings) this.fillPolygon(rings, LandCover.BUILDING);
+
+    this.source = imported ? `OSM over ${imported.source}` : "OSM";
+  }
+
+  /** Cell index under a point, or -1 outside the grid. */
+  cellAt(x: number, z: number): number {
+    const i = Math.floor((x - this.xMin) / this.cellSize);
+    const j = Math.floor((z - this.zMin) / this.cellSize);
+    if (i < 0 || j < 0 || i >= this.width || j >= this.height) return -1;
+    return j * this.width + i;
+  }
+
+  classAt(x: number, z: number): LandCover {
+    const idx = this.cellAt(x, z);
+    return idx < 0 ? LandCover.URBAN : (this.classes[idx]! as LandCover);
+  }
+
+  /** Multiplier on the flood solver's Manning coefficient. */
+  roughnessAt(x: number, z: number): number {
+    return LAND_COVER[this.classAt(x, z)].manningN / MANNING_REFERENCE;
+  }
+
+  /** Infiltration rate in m/s (the solver's units). */
+  infiltrationAt(x: number, z: number): number {
+    const idx = this.cellAt(x, z);
+    const soil = idx < 0 ? 1 : this.soilFactor[idx]!;
+    return (LAND_COVER[this.classAt(x, z)].infiltration * soil) / 1000 / 3600;
+  }
+
+  /** Fuel left in the cell, kg/m². */
+  fuelLoadAt(x: number, z: number): number {
+    const idx = this.cellAt(x, z);
+    if (idx < 0) return LAND_COVER[LandCover.URBAN].fuelLoad;
+    return this.eids ? TerrainCell.fuelLoad[this.eids[idx]!]! : LAND_COVER[this.classes[idx]! as LandCover].fuelLoad;
+  }
+
+  moistureAt(x: number, z: number): number {
+    const idx = this.cellAt(x, z);
+    if (idx < 0) return LAND_COVER[LandCover.URBAN].moisture;
+    return this.eids ? TerrainCell.moisture[this.eids[idx]!]! : LAND_COVER[this.classes[idx]! as LandCover].moisture;
+  }
+
+  /** How much drier than dry grass the cell is (0 when saturated). */
+  drynessAt(x: number, z: number): number {
+    return Math.max(0, 1 - this.moistureAt(x, z)) / (1 - MOISTURE_REFERENCE);
+  }
+
+  /** How readily fire spreads across the cell relative to dry grass, 0..2. */
+  fuelFactorAt(x: number, z: number): number {
+    return Math.min(MAX_FUEL_FACTOR, (this.fuelLoadAt(x, z) / FUEL_REFERENCE) * this.drynessAt(x, z));
+  }
+
+  /** Burn off up to `kgPerM2` of fuel in the cells within `radius` of a point. */
+  consumeFuel(x: number, z: number, radius: number, kgPerM2: number): void {
+    if (!this.eids) return;
+    this.forCellsWithin(x, z, radius, (idx) => {
+      const eid = this.eids![idx]!;
+      TerrainCell.fuelLoad[eid] = Math.max(0, TerrainCell.fuelLoad[eid]! - kgPerM2);
+    });
+  }
+
+  /** Saturate the fuel wherever the water is deeper than a few centimeters. */
+  soak(depthAt: (x: number, z: number) => number): void {
+    if (!this.eids) return;
+    for (let j = 0; j < this.height; j++) {
+      const z = this.zMin + (j + 0.5) * this.cellSize;
+      for (let i = 0; i < this.width; i++) {
+        if (depthAt(this.xMin + (i + 0.5) * this.cellSize, z) > SOAK_DEPTH_METERS) {
+          TerrainCell.moisture[this.eids[j * this.width + i]!] = 1;
+        }
+      }
+    }
+  }
+
+  /** One TerrainCell entity per cell, seeded with its class's fuel and moisture. */
+  spawnCells(world: SimWorld, heightAt: (x: number, z: number) => number): void {
+    this.eids = new Uint32Array(this.width * this.height);
+    for (let j = 0; j < this.height; j++) {
+      for (let i = 0; i < this.width; i++) {
+        const idx = j * this.width + i;
+        const cls = this.classes[idx]! as LandCover;
+        const x = this.xMin + (i + 0.5) * this.cellSize;
+        const z = this.zMin + (j + 0.5) * this.cellSize;
+        const eid = world.createEntity();
+        Position.x[eid] = x;
+        Position.y[eid] = heightAt(x, z);
+        Position.z[eid] = z;
+        TerrainCell.height[eid] = Position.y[eid]!;
+        TerrainCell.fuelLoad[eid] = LAND_COVER[cls].fuelLoad;
+        TerrainCell.moisture[eid] = LAND_COVER[cls].moisture;
+        TerrainCell.temperature[eid] = 0;
+        Classification.type[eid] = classification(cls);
+        this.eids[idx] = eid;
+      }
+    }
+    console.log(`[LandCover] ${this.width}x${this.height} cells at ${this.cellSize.toFixed(1)} m (${this.source})`);
+  }
+
+  // ─── Rasterization ───
+
+  private sampleImported(data: LandCoverData, centerLat: number, centerLon: number, mpd: { lat: number; lon: number }): void {
+    const n = data.gridSize - 1;
+    for (let j = 0; j < this.height; j++) {
+      const lat = centerLat - (this.zMin + (j + 0.5) * this.cellSize) / mpd.lat;
+      const row = Math.round(((lat - data.south) / (data.north - data.south)) * n);
+      if (row < 0 || row > n) continue;
+      for (let i = 0; i < this.width; i++) {
+        const lon = centerLon + (this.xMin + (i + 0.5) * this.cellSize) / mpd.lon;
+        const col = Math.round(((lon - data.west) / (data.east - data.west)) * n);
+        if (col < 0 || col > n) continue;
+        const idx = j * this.width + i;
+        const cls = data.classes[row]![col]!;
+        if (cls !== LAND_COVER_NO_DATA) this.classes[idx] = cls;
+        const soil = data.soil?.[row]![col] ?? 0;
+        this.soilFactor[idx] = SOIL_INFILTRATION[soil] ?? 1;
+      }
+    }
+  }
+
+  /** Unclassified cells within BUILT_UP_RADIUS_METERS of a building become urban, the rest grass. */
+  private fillUnclassified(buildingRings: Ring[][]): void {
+    const near = new Uint8Array(this.width * this.height);
+    for (const rings of buildingRings) {
+      const outer = rings[0];
+      if (!outer || outer.length < 3) continue;
+      const b = ringBounds(outer);
+      const x = (b.xMin + b.xMax) / 2, z = (b.zMin + b.zMax) / 2;
+      const radius = BUILT_UP_RADIUS_METERS + Math.max(b.xMax - b.xMin, b.zMax - b.zMin) / 2;
+      this.forCellsWithin(x, z, radius, (idx) => { near[idx] = 1; });
+    }
+    for (let idx = 0; idx < this.classes.length; idx++) {
+      if (this.classes[idx] === LAND_COVER_NO_DATA) this.classes[idx] = near[idx] ? LandCover.URBAN : LandCover.GRASS;
+    }
+  }
+
+  /** Cells whose centers fall inside the polygon (outer ring minus holes). */
+  private fillPolygon(rings: Ring[], cls: LandCover): void {
+    const outer = rings[0];
+    if (!outer || outer.length < 3) return;
+    const b = ringBounds(outer);
+    const [i0, j0] = this.cellCoords(b.xMin, b.zMin);
+    const [i1, j1] = this.cellCoords(b.xMax, b.zMax);
+    for (let j = j0; j <= j1; j++) {
+      const z = this.zMin + (j + 0.5) * this.cellSize;
+      for (let i = i0; i <= i1; i++) {
+        const x = this.xMin + (i + 0.5) * this.cellSize;
+        let inside = false;
+        for (const ring of rings) if (pointInRing(x, z, ring)) inside = !inside;
+        if (inside) this.classes[j * this.width + i] = cls;
+      }
+    }
+  }
+
+  /** Cells within half the width of the line (and at least the cell under it). */
+  private fillLine(points: Ring, width: number, cls: LandCover): void {
+    const half = Math.max(width / 2, this.cellSize / 2);
+    for (let s = 0; s + 1 < points.length; s++) {
+      const [ax, az] = points[s]!;
+      const [bx, bz] = points[s + 1]!;
+      const [i0, j0] = this.cellCoords(Math.min(ax, bx) - half, Math.min(az, bz) - half);
+      const [i1, j1] = this.cellCoords(Math.max(ax, bx) + half, Math.max(az, bz) + half);
+      for (let j = j0; j <= j1; j++) {
+        const z = this.zMin + (j + 0.5) * this.cellSize;
+        for (let i = i0; i <= i1; i++) {
+          const x = this.xMin + (i + 0.5) * this.cellSize;
+          if (segmentDistance(x, z, ax, az, bx, bz) <= half) this.classes[j * this.width + i] = cls;
+        }
+      }
+    }
+  }
+
+  /** Cell column/row of a point, clamped to the grid. */
+  private cellCoords(x: number, z: number): [number, number] {
+    return [
+      Math.max(0, Math.min(this.width - 1, Math.floor((x - this.xMin) / this.cellSize))),
+      Math.max(0, Math.min(this.height - 1, Math.floor((z - this.zMin) / this.cellSize))),
+    ];
+  }
+
+  private forCellsWithin(x: number, z: number, radius: number, visit: (idx: number) => void): void {
+    const [i0, j0] = this.cellCoords(x - radius, z - radius);
+    const [i1, j1] = this.cellCoords(x + radius, z + radius);
+    for (let j = j0; j <= j1; j++) {
+      const dz = this.zMin + (j + 0.5) * this.cellSize - z;
+      for (let i = i0; i <= i1; i++) {
+        const dx = this.xMin + (i + 0.5) * this.cellSize - x;
+        if (dx * dx + dz * dz <= radius * radius) visit(j * this.width + i);
+      }
+    }
+  }
+}
+
+/** Class of a feature from the parks layer, by its OSM tags. */
+function parkClass(props: Record<string, unknown>): LandCover {
+  const landuse = props.landuse, natural = props.natural, leisure = props.leisure;
+  if (landuse === "forest" || natural === "wood") return LandCover.FOREST;
+  if (natural === "scrub" || natural === "heath") return LandCover.SCRUB;
+  if (natural === "wetland") return LandCover.WETLAND;
+  if (natural === "sand" || natural === "beach") return LandCover.SAND;
+  if (natural === "bare_rock" || natural === "scree") return LandCover.BARE;
+  if (landuse === "farmland" || landuse === "orchard" || landuse === "vineyard" || landuse === "allotments") return LandCover.FARMLAND;
+  if (leisure === "park" || leisure === "garden") return LandCover.PARK;
+  return LandCover.GRASS;
+}
+
+function classification(cls: LandCover): ClassificationType {
+  switch (cls) {
+    case LandCover.WATER:
+      return ClassificationType.WATER;
+    case LandCover.BUILDING:
+      return ClassificationType.BUILDING;
+    case LandCover.GRASS:
+    case LandCover.PARK:
+    case LandCover.FOREST:
+    case LandCover.SCRUB:
+    case LandCover.FARMLAND:
+    case LandCover.WETLAND:
+      return ClassificationType.VEGETATION;
+    default:
+      return ClassificationType.GROUND;
+  }
+}
+
+function polygonRings(f: BuildingFeature): number[][][][] {
+  if (f.geometry.type === "Polygon") return [f.geometry.coordinates as number[][][]];
+  if (f.geometry.type === "MultiPolygon") return f.geometry.coordinates as number[][][][];
+  return [];
+}
+
+function lineCoords(f: BuildingFeature): number[][] | null {
+  return f.geometry.type === "LineString" ? (f.geometry.coordinates as number[][]) : null;
+}
+
+function ringBounds(ring: Ring): { xMin: number; xMax: number; zMin: number; zMax: number } {
+  let xMin = Infinity, xMax = -Infinity, zMin = Infinity, zMax = -Infinity;
+  for (const [x, z] of ring) {
+    xMin = Math.min(xMin, x);
+    xMax = Math.max(xMax, x);
+    zMin = Math.min(zMin, z);
+    zMax = Math.max(zMax, z);
+  }
+  return { xMin, xMax, zMin, zMax };
+}
+
+function pointInRing(x: number, z: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, zi] = ring[i]!;
+    const [xj, zj] = ring[j]!;
+    if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / ((zj - zi) || 1e-6) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function segmentDistance(px: number, pz: number, ax: number, az: number, bx: number, bz: number): number {
+  const dx = bx - ax, dz = bz - az;
+  const len2 = dx * dx + dz * dz;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (pz - az) * dz) / len2)) : 0;
+  return Math.hypot(px - (ax + t * dx), pz - (az + t * dz));
+}
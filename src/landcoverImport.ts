@@ -0,0 +1,144 @@
+/**
+ * Server-side: land-cover and soil rasters from local GeoTIFFs, resampled
+ * (nearest neighbour — the values are classes) onto a LandCoverData grid.
+ * The files are read with the DEM reader, so the same formats and CRSs
+ * apply (dem.ts). The client paints OSM features over the result.
+ */
+
+import { basename } from "path";
+import { openDem, pixelMeters, project, MIN_GRID_SIZE, type DemRaster } from "./dem.ts";
+import { LandCover, LAND_COVER_NO_DATA } from "./landcover.ts";
+import type { Bounds } from "./cache.ts";
+import type { LandCoverData } from "./tiles.ts";
+
+const MIN_SPACING_METERS = 2;
+const MAX_GRID_SIZE = 1025;
+
+/** ESA WorldCover 10 m classes. */
+const WORLDCOVER: Record<number, LandCover> = {
+  10: LandCover.FOREST,
+  20: LandCover.SCRUB,
+  30: LandCover.GRASS,
+  40: LandCover.FARMLAND,
+  50: LandCover.URBAN,
+  60: LandCover.BARE,
+  70: LandCover.BARE,     // snow and ice
+  80: LandCover.WATER,
+  90: LandCover.WETLAND,
+  95: LandCover.WETLAND,  // mangroves
+  100: LandCover.GRASS,   // moss and lichen
+};
+
+/** USGS NLCD 30 m classes. */
+const NLCD: Record<number, LandCover> = {
+  11: LandCover.WATER,
+  12: LandCover.BARE,
+  21: LandCover.PARK,     // developed, open space: lawns, parks, golf courses
+  22: LandCover.URBAN,
+  23: LandCover.URBAN,
+  24: LandCover.URBAN,
+  31: LandCover.BARE,
+  41: LandCover.FOREST,
+  42: LandCover.FOREST,
+  43: LandCover.FOREST,
+  51: LandCover.SCRUB,
+  52: LandCover.SCRUB,
+  71: LandCover.GRASS,
+  72: LandCover.GRASS,
+  73: LandCover.GRASS,
+  74: LandCover.GRASS,
+  81: LandCover.FARMLAND,
+  82: LandCover.FARMLAND,
+  90: LandCover.WETLAND,
+  95: LandCover.WETLAND,
+};
+
+const SCHEMES: Record<string, Record<number, LandCover>> = { worldcover: WORLDCOVER, nlcd: NLCD };
+
+/** Hydrologic soil group (1–4 = A–D) from HYSOGs250m codes; dual groups (11–14, A/D…D/D) count as undrained, D. */
+function soilGroup(code: number): number {
+  if (code >= 1 && code <= 4) return code;
+  if (code >= 11 && code <= 14) return 4;
+  return 0;
+}
+
+export interface LandCoverSource {
+  readonly name: string;
+  readGrid(box: Bounds): Promise<LandCoverData>;
+}
+
+class RasterLandCoverSource implements LandCoverSource {
+  readonly name: string;
+  private rasters: Promise<[DemRaster | null, DemRaster | null]> | null = null;
+
+  constructor(
+    private readonly classPath: string | null,
+    private readonly scheme: Record<number, LandCover>,
+    private readonly soilPath: string | null,
+  ) {
+    this.name = [classPath, soilPath].filter((p): p is string => !!p).map((p) => basename(p)).join(" + ");
+  }
+
+  async readGrid(box: Bounds): Promise<LandCoverData> {
+    const latMid = (box.south + box.north) / 2;
+    const [classes, soil] = await (this.rasters ??= Promise.all([
+      this.classPath ? openDem(this.classPath) : null,
+      this.soilPath ? openDem(this.soilPath) : null,
+    ]));
+    const spacing = Math.max(MIN_SPACING_METERS, Math.min(...[classes, soil].filter((r): r is DemRaster => !!r).map((r) => pixelMeters(r, latMid))));
+    const mPerDegLat = (Math.PI / 180) * 6378137;
+    const longestSide = Math.max((box.east - box.west) * mPerDegLat * Math.cos((latMid * Math.PI) / 180), (box.north - box.south) * mPerDegLat);
+    const gridSize = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(longestSide / spacing) + 1));
+
+    const classGrid = classes
+      ? (await sampleNearest(classes, box, gridSize)).map((row) => row.map((v) => this.scheme[v] ?? LAND_COVER_NO_DATA))
+      : Array.from({ length: gridSize }, () => new Array<number>(gridSize).fill(LAND_COVER_NO_DATA));
+    const soilGrid = soil ? (await sampleNearest(soil, box, gridSize)).map((row) => row.map(soilGroup)) : undefined;
+    return { gridSize, ...box, classes: classGrid, soil: soilGrid, source: this.name };
+  }
+}
+
+/** Raster values at a gridSize² lattice over `box` (row 0 south), NaN → -1 where the raster has none. */
+export async function sampleNearest(raster: DemRaster, box: Bounds, gridSize: number): Promise<number[][]> {
+  const corners = [
+    project(raster.crs, box.south, box.west), project(raster.crs, box.south, box.east),
+    project(raster.crs, box.north, box.west), project(raster.crs, box.north, box.east),
+  ];
+  const col0 = Math.max(0, Math.floor(Math.min(...corners.map((p) => (p.x - raster.originX) / raster.scaleX))));
+  const col1 = Math.min(raster.width - 1, Math.floor(Math.max(...corners.map((p) => (p.x - raster.originX) / raster.scaleX))));
+  const row0 = Math.max(0, Math.floor(Math.min(...corners.map((p) => (raster.originY - p.y) / raster.scaleY))));
+  const row1 = Math.min(raster.height - 1, Math.floor(Math.max(...corners.map((p) => (raster.originY - p.y) / raster.scaleY))));
+  const grid = Array.from({ length: gridSize }, () => new Array<number>(gridSize).fill(-1));
+  if (col1 < col0 || row1 < row0) return grid;
+
+  const cols = col1 - col0 + 1;
+  const rows = row1 - row0 + 1;
+  const window = await raster.readWindow(col0, row0, cols, rows);
+  const latStep = (box.north - box.south) / (gridSize - 1);
+  const lonStep = (box.east - box.west) / (gridSize - 1);
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      const p = project(raster.crs, box.south + row * latStep, box.west + col * lonStep);
+      const c = Math.floor((p.x - raster.originX) / raster.scaleX) - col0;
+      const r = Math.floor((raster.originY - p.y) / raster.scaleY) - row0;
+      if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+      const v = window[r * cols + c]!;
+      if (!Number.isNaN(v)) grid[row]![col] = v;
+    }
+  }
+  return grid;
+}
+
+/**
+ * Land-cover source from the environment, or null when neither file is set:
+ *   LANDCOVER_FILE     classified land-cover GeoTIFF
+ *   LANDCOVER_SCHEME   worldcover (ESA WorldCover, default) | nlcd (USGS NLCD)
+ *   SOIL_FILE          hydrologic soil group GeoTIFF (HYSOGs250m codes)
+ */
+export function createLandCoverSource(env: Record<string, string | undefined> = process.env): LandCoverSource | null {
+  if (!env.LANDCOVER_FILE && !env.SOIL_FILE) return null;
+  const kind = (env.LANDCOVER_SCHEME ?? "worldcover").toLowerCase();
+  const scheme = SCHEMES[kind];
+  if (!scheme) throw new Error(`Unknown LANDCOVER_SCHEME "${kind}" (expected worldcover | nlcd)`);
+  return new RasterLandCoverSource(env.LANDCOVER_FILE ?? null, scheme, env.SOIL_FILE ?? null);
+}
@@ -0,0 +1,416 @@
+/** Server-side: resolve LayerData for an area from cached chunks, fetching map features + elevation for the missing ones. */
+
+import { basename } from "path";
+import {
+  CHUNK_DEG,
+  chunkBounds,
+  chunksCovering,
+  getChunk,
+  putChunk,
+  type Bounds,
+  type ChunkKey,
+} from "./cache.ts";
+import { fetchFromOverpass, type OverpassLayers } from "./overpass.ts";
+import { loadOsmExtract, layersFromGeoJSON, type Bbox } from "./osmImport.ts";
+import { createElevationSource, type ElevationGrid } from "./elevation.ts";
+import { LocalDemSource, MIN_GRID_SIZE, MAX_GRID_SIZE } from "./dem.ts";
+import { createLandCoverSource } from "./landcoverImport.ts";
+import { createVs30Source } from "./vs30Import.ts";
+import type { BuildingFeature, ElevationData, FeatureCollection, LandCoverData, LayerData, Vs30Data } from "./tiles.ts";
+
+const elevationSource = createElevationSource();
+const landCoverSource = createLandCoverSource();
+const vs30Source = createVs30Source();
+
+/** Largest scene edge (m) — bigger scenes stream building geometry in chunks (see streaming.ts). */
+export const MAX_AREA_SIZE = 8000;
+
+/** Where an area's map features come from. */
+export type FeatureSource =
+  | { kind: "overpass" }
+  | { kind: "extract"; path: string }   // local .osm.pbf / .osm / .geojson file
+  | { kind: "geojson"; data: unknown }; // layout uploaded with the request — never cached
+
+/**
+ * Feature source for a request's `source` parameter:
+ *
+ *   source=overpass   live Overpass API (default without OSM_EXTRACT)
+ *   source=extract    the local file at OSM_EXTRACT (default when it is set)
+ */
+export function featureSource(name: string | null, env: Record<string, string | undefined> = process.env): FeatureSource {
+  const kind = (name ?? (env.OSM_EXTRACT ? "extract" : "overpass")).toLowerCase();
+  switch (kind) {
+    case "overpass":
+      return { kind: "overpass" };
+    case "extract":
+      if (!env.OSM_EXTRACT) {
+        throw new Error("source=extract needs OSM_EXTRACT");
+      }
+      return { kind: "extract", path: env.OSM_EXTRACT };
+    default:
+      throw new Error(`Unknown source "${kind}" (expected overpass | extract)`);
+  }
+}
+
+/** Convert lat/lon + half-size offset to a bounding box. */
+export function bbox(lat: number, lon: number, halfSize: number) {
+  const latRad = (lat * Math.PI) / 180;
+  const mPerDegLon = (Math.PI / 180) * 6378137 * Math.cos(latRad);
+  const mPerDegLat = (Math.PI / 180) * 6378137;
+  const dLon = halfSize / mPerDegLon;
+  const dLat = halfSize / mPerDegLat;
+  return {
+    south: lat - dLat,
+    north: lat + dLat,
+    west: lon - dLon,
+    east: lon + dLon,
+  };
+}
+
+/** Load all layers for a `size`×`size` m square centred on lat/lon, assembled from cached chunks where possible. */
+export async function loadLayerData(
+  lat: number,
+  lon: number,
+  size: number,
+  features: FeatureSource = featureSource(null),
+): Promise<LayerData> {
+  const box = bbox(lat, lon, size / 2);
+  console.log(`Loading (${lat.toFixed(4)}, ${lon.toFixed(4)}) ${size} m — ${sourceLabel(features)} + elevation (${elevationSource.name})`);
+
+  const [overpassLayers, elevation, landCover, vs30] = await Promise.all([
+    loadFeatures(features, box),
+    loadElevation(box),
+    loadLandCover(box),
+    loadVs30(box),
+  ]);
+
+  const layers: LayerData = {
+    ...overpassLayers,
+    elevation,
+    ...(landCover && { landCover }),
+    ...(vs30 && { vs30 }),
+  };
+
+  const counts = Object.entries(overpassLayers)
+    .map(([k, v]) => `${k}: ${v.features.length}`)
+    .join(", ");
+  console.log(`  → ${counts}, elevation: ${elevation.gridSize}x${elevation.gridSize} grid (${elevation.source})`);
+  return layers;
+}
+
+const PREFETCH_BATCH = 4; // chunks per side fetched in one go (~2 km), keeping Overpass queries modest
+
+/** Fill the cache for a region — map features and elevation — batch by batch. Returns how many chunks it covers. */
+export async function prefetchRegion(
+  region: Bounds,
+  features: FeatureSource,
+  onProgress?: (done: number, total: number) => void,
+): Promise<number> {
+  const keys = chunksCovering(region);
+  if (keys.length === 0) return 0;
+  const { cx: cx0, cy: cy0 } = keys[0]!;
+  const { cx: cx1, cy: cy1 } = keys[keys.length - 1]!;
+
+  let done = 0;
+  for (let cy = cy0; cy <= cy1; cy += PREFETCH_BATCH) {
+    for (let cx = cx0; cx <= cx1; cx += PREFETCH_BATCH) {
+      const lo = chunkBounds({ cx, cy });
+      const hi = chunkBounds({ cx: Math.min(cx + PREFETCH_BATCH, cx1 + 1) - 1, cy: Math.min(cy + PREFETCH_BATCH, cy1 + 1) - 1 });
+      const batch = { south: lo.south, west: lo.west, north: hi.north, east: hi.east };
+      await Promise.all([loadFeatures(features, batch), loadElevation(batch)]);
+      done += chunksCovering(batch).length;
+      onProgress?.(done, keys.length);
+    }
+  }
+  return keys.length;
+}
+
+function sourceLabel(features: FeatureSource): string {
+  switch (features.kind) {
+    case "overpass":
+      return "Overpass";
+    case "extract":
+      return basename(features.path);
+    case "geojson":
+      return "uploaded GeoJSON";
+  }
+}
+
+// ─── Map features ───────────────────────────────────────────────────────────
+
+async function loadFeatures(features: FeatureSource, box: Bbox): Promise<OverpassLayers> {
+  // Uploaded layouts are one-offs — never cached
+  if (features.kind === "geojson") return layersFromGeoJSON(features.data, box);
+
+  const variant = features.kind === "extract" ? `osm:${basename(features.path)}` : "overpass";
+  const keys = chunksCovering(box);
+  const chunks: OverpassLayers[] = [];
+  const missing: ChunkKey[] = [];
+  for (const key of keys) {
+    const chunk = getChunk<OverpassLayers>("osm", variant, key);
+    if (chunk) chunks.push(chunk);
+    else missing.push(key);
+  }
+
+  if (missing.length > 0) {
+    // One fetch over the rectangle spanning every missing chunk, then cut it up
+    const span = spanOf(missing);
+    console.log(`  map: ${missing.length}/${keys.length} chunks missing — fetching ${sourceLabel(features)}`);
+    const fetched = features.kind === "overpass"
+      ? await fetchFromOverpass(span.south, span.west, span.north, span.east)
+      : await loadOsmExtract(features.path, span);
+    for (const [key, chunk] of splitIntoChunks(fetched, chunksCovering(span))) {
+      putChunk("osm", variant, key, chunk);
+      if (missing.some((m) => m.cx === key.cx && m.cy === key.cy)) chunks.push(chunk);
+    }
+  } else {
+    console.log(`  map: cache hit (${keys.length} chunks)`);
+  }
+
+  return mergeChunks(chunks, box);
+}
+
+function emptyLayers(): OverpassLayers {
+  const empty = (): FeatureCollection => ({ type: "FeatureCollection", features: [] });
+  return {
+    buildings: empty(),
+    roads: empty(),
+    parks: empty(),
+    water: empty(),
+    trees: empty(),
+    railways: empty(),
+    barriers: empty(),
+    evacuation: empty(),
+  };
+}
+
+const LAYER_NAMES = Object.keys(emptyLayers()) as (keyof OverpassLayers)[];
+
+/** Smallest box holding every chunk in `keys`. */
+function spanOf(keys: ChunkKey[]): Bounds {
+  const cxs = keys.map((k) => k.cx);
+  const cys = keys.map((k) => k.cy);
+  const lo = chunkBounds({ cx: Math.min(...cxs), cy: Math.min(...cys) });
+  const hi = chunkBounds({ cx: Math.max(...cxs), cy: Math.max(...cys) });
+  return { south: lo.south, west: lo.west, north: hi.north, east: hi.east };
+}
+
+/** Lat/lon bounds of a feature's geometry, or null if it has no coordinates. */
+function featureBounds(f: BuildingFeature): Bounds | null {
+  const b = { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity };
+  const visit = (c: unknown): void => {
+    if (!Array.isArray(c)) return;
+    if (typeof c[0] === "number") {
+      const [lon, lat] = c as number[];
+      b.west = Math.min(b.west, lon!);
+      b.east = Math.max(b.east, lon!);
+      b.south = Math.min(b.south, lat!);
+      b.north = Math.max(b.north, lat!);
+      return;
+    }
+    for (const child of c) visit(child);
+  };
+  if (f.geometry && "coordinates" in f.geometry) visit(f.geometry.coordinates);
+  return Number.isFinite(b.south) ? b : null;
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a.south <= b.north && a.north >= b.south && a.west <= b.east && a.east >= b.west;
+}
+
+/** File every feature under each chunk its bounds overlap; chunks with no features still get an (empty) entry. */
+function splitIntoChunks(layers: OverpassLayers, keys: ChunkKey[]): Map<ChunkKey, OverpassLayers> {
+  const out = new Map<ChunkKey, OverpassLayers>();
+  const byId = new Map<string, ChunkKey>();
+  for (const key of keys) {
+    out.set(key, emptyLayers());
+    byId.set(`${key.cx},${key.cy}`, key);
+  }
+
+  for (const name of LAYER_NAMES) {
+    for (const f of layers[name].features) {
+      const fb = featureBounds(f);
+      if (!fb) continue;
+      for (const k of chunksCovering(fb)) {
+        const key = byId.get(`${k.cx},${k.cy}`);
+        if (key) out.get(key)![name].features.push(f);
+      }
+      // A point or a line along a chunk edge covers no chunk — file it under the one holding its corner
+      if (chunksCovering(fb).length === 0) {
+        const key = byId.get(`${Math.floor(fb.west / CHUNK_DEG)},${Math.floor(fb.south / CHUNK_DEG)}`);
+        if (key) out.get(key)![name].features.push(f);
+      }
+    }
+  }
+  return out;
+}
+
+/** Join chunks into one set of layers, dropping duplicates (features spanning chunks) and anything outside `box`. */
+function mergeChunks(chunks: OverpassLayers[], box: Bounds): OverpassLayers {
+  const merged = emptyLayers();
+  for (const name of LAYER_NAMES) {
+    const seen = new Set<string>();
+    for (const chunk of chunks) {
+      for (const f of chunk[name].features) {
+        const fb = featureBounds(f);
+        if (!fb || !intersects(fb, box)) continue;
+        const id = `${f.geometry.type}|${f.properties?.id ?? ""}|${fb.south},${fb.west},${fb.north},${fb.east}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        merged[name].features.push(f);
+      }
+    }
+  }
+  return merged;
+}
+
+// ─── Land cover ─────────────────────────────────────────────────────────────
+
+/** Imported land cover / soil for the area — read from the local files each time, not cached. */
+async function loadLandCover(box: Bounds): Promise<LandCoverData | undefined> {
+  if (!landCoverSource) return undefined;
+  try {
+    const grid = await landCoverSource.readGrid(box);
+    console.log(`  land cover: ${grid.gridSize}x${grid.gridSize} grid (${grid.source})`);
+    return grid;
+  } catch (err) {
+    console.warn(`  land cover: ${(err as Error).message} — using OSM only`);
+    return undefined;
+  }
+}
+
+/** Imported Vs30 for the area — read from the local file each time, not cached. */
+async function loadVs30(box: Bounds): Promise<Vs30Data | undefined> {
+  if (!vs30Source) return undefined;
+  try {
+    const grid = await vs30Source.readGrid(box);
+    console.log(`  Vs30: ${grid.gridSize}x${grid.gridSize} grid (${grid.source})`);
+    return grid;
+  } catch (err) {
+    console.warn(`  Vs30: ${(err as Error).message} — using the slope proxy`);
+    return undefined;
+  }
+}
+
+// ─── Elevation ──────────────────────────────────────────────────────────────
+
+const ELEVATION_VARIANT = "default";
+
+async function loadElevation(box: Bounds): Promise<ElevationData> {
+  const keys = chunksCovering(box);
+  const grids = new Map<string, ElevationGrid>();
+  const missing: ChunkKey[] = [];
+  for (const key of keys) {
+    let grid = getChunk<ElevationGrid>("elevation", ELEVATION_VARIANT, key);
+    const b = chunkBounds(key);
+
+    // Chunks cached before DEM_DIR was set still hold the coarse API grid — upgrade them once
+    if (grid && grid.source !== "local-dem" && elevationSource instanceof LocalDemSource) {
+      const local = await elevationSource.readGrid(b.south, b.west, b.north, b.east).catch(() => null);
+      if (local) {
+        grid = { ...local, geojson: { type: "FeatureCollection", features: [] } };
+        putChunk("elevation", ELEVATION_VARIANT, key, grid);
+      }
+    }
+
+    if (grid) grids.set(`${key.cx},${key.cy}`, grid);
+    else missing.push(key);
+  }
+
+  if (missing.length > 0) {
+    // One fetch over the rectangle spanning every missing chunk, then cut it up.
+    // A failed fetch throws before anything is cached.
+    const span = spanOf(missing);
+    console.log(`  elevation: ${missing.length}/${keys.length} chunks missing — fetching`);
+    const fetched = await elevationSource.fetchGrid(span.south, span.west, span.north, span.east);
+    for (const key of missing) {
+      const grid = cutElevationChunk(fetched, key);
+      putChunk("elevation", ELEVATION_VARIANT, key, grid);
+      grids.set(`${key.cx},${key.cy}`, grid);
+    }
+  } else {
+    console.log(`  elevation: cache hit (${keys.length} chunks)`);
+  }
+  return mosaicElevation(grids, keys, box);
+}
+
+/** Bilinear elevation at a point, clamped to the grid's edges. */
+function sampleGrid(g: ElevationGrid, lat: number, lon: number): number {
+  const n = g.gridSize - 1;
+  const fr = Math.min(n, Math.max(0, ((lat - g.south) / (g.north - g.south)) * n));
+  const fc = Math.min(n, Math.max(0, ((lon - g.west) / (g.east - g.west)) * n));
+  const r0 = Math.min(n - 1, Math.floor(fr)), c0 = Math.min(n - 1, Math.floor(fc));
+  const tr = fr - r0, tc = fc - c0;
+  const v = g.values;
+  const top = v[r0]![c0]! * (1 - tc) + v[r0]![c0 + 1]! * tc;
+  const bottom = v[r0 + 1]![c0]! * (1 - tc) + v[r0 + 1]![c0 + 1]! * tc;
+  return top * (1 - tr) + bottom * tr;
+}
+
+/** Resample the part of a fetched grid under one chunk, at the fetched grid's spacing. */
+function cutElevationChunk(g: ElevationGrid, key: ChunkKey): ElevationGrid {
+  const b = chunkBounds(key);
+  const mPerDegLat = (Math.PI / 180) * 6378137;
+  const mPerDegLon = mPerDegLat * Math.cos((((b.south + b.north) / 2) * Math.PI) / 180);
+  const spacing = Math.max(
+    ((g.north - g.south) * mPerDegLat) / (g.gridSize - 1),
+    ((g.east - g.west) * mPerDegLon) / (g.gridSize - 1),
+  );
+  const longestSide = Math.max((b.east - b.west) * mPerDegLon, (b.north - b.south) * mPerDegLat);
+  const gridSize = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(longestSide / spacing) + 1));
+
+  const latStep = (b.north - b.south) / (gridSize - 1);
+  const lonStep = (b.east - b.west) / (gridSize - 1);
+  const values: number[][] = [];
+  for (let row = 0; row < gridSize; row++) {
+    const line = new Array<number>(gridSize);
+    for (let col = 0; col < gridSize; col++) {
+      line[col] = sampleGrid(g, b.south + row * latStep, b.west + col * lonStep);
+    }
+    values.push(line);
+  }
+  // The per-sample point features aren't used downstream and would dwarf the grid itself
+  return { geojson: { type: "FeatureCollection", features: [] }, gridSize, ...b, values, source: g.source };
+}
+
+/** Resample the chunks' grids into one square grid over `box`, at the finest chunk spacing. */
+function mosaicElevation(grids: Map<string, ElevationGrid>, keys: ChunkKey[], box: Bounds): ElevationData {
+  const mPerDegLat = (Math.PI / 180) * 6378137;
+  const mPerDegLon = mPerDegLat * Math.cos((((box.south + box.north) / 2) * Math.PI) / 180);
+
+  let spacing = Infinity;
+  for (const g of grids.values()) {
+    spacing = Math.min(spacing, ((g.north - g.south) * mPerDegLat) / (g.gridSize - 1));
+  }
+  const longestSide = Math.max((box.east - box.west) * mPerDegLon, (box.north - box.south) * mPerDegLat);
+  const gridSize = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(longestSide / spacing) + 1));
+
+  // Points on the box edge may fall just outside the covering chunks — clamp them in
+  const cx0 = keys[0]!.cx, cy0 = keys[0]!.cy;
+  const cx1 = keys[keys.length - 1]!.cx, cy1 = keys[keys.length - 1]!.cy;
+  const sample = (lat: number, lon: number): number => {
+    const cx = Math.min(cx1, Math.max(cx0, Math.floor(lon / CHUNK_DEG)));
+    const cy = Math.min(cy1, Math.max(cy0, Math.floor(lat / CHUNK_DEG)));
+    return sampleGrid(grids.get(`${cx},${cy}`)!, lat, lon);
+  };
+
+  const latStep = (box.north - box.south) / (gridSize - 1);
+  const lonStep = (box.east - box.west) / (gridSize - 1);
+  const values: number[][] = [];
+  for (let row = 0; row < gridSize; row++) {
+    const line = new Array<number>(gridSize);
+    for (let col = 0; col < gridSize; col++) {
+      line[col] = Math.round(sample(box.south + row * latStep, box.west + col * lonStep) * 100) / 100;
+    }
+    values.push(line);
+  }
+
+  const allLocal = [...grids.values()].every((g) => g.source === "local-dem");
+  return {
+    geojson: { type: "FeatureCollection", features: [] },
+    gridSize,
+    ...box,
+    values,
+    source: allLocal ? "local-dem" : "opentopodata",
+  };
+}
@@ -1,6 +1,12 @@
 import * as THREE from "three";
 import type { LayerData, FeatureCollection, BuildingFeature, ElevationData } from "./tiles.ts";
-import { metersPerDegree } from "./tiles.ts";
+import { metersPerDegree, roadWidth } from "./tiles.ts";
+import { SeededRandom, VISUAL_STREAM } from "./core/Random.ts";
+import { osmEvacuationPoint, type EvacuationPoint } from "./agents/Evacuation.ts";
+import { buildingAttributes, defaultHeight, fragility, type BuildingAttributes, type Fragility } from "./vulnerability.ts";
+import { BuildingStreamer, footprintBounds } from "./streaming.ts";
+import { LandCoverMap } from "./landcover.ts";
+import { Vs30Map } from "./vs30.ts";
 
 type Proj = { lon: number; lat: number };
 
@@ -21,8 +27,25 @@ export interface BuildingRecord {
   damageLevel: number;
   destroyed: boolean;
   originalColor: THREE.Color;
-  /** Random multiplier (0.7–1.3) simulating construction quality variance. */
+  /** Overall construction quality multiplier (~0.5–1.6): mean of the wind and shaking fragility. */
   structuralStrength: number;
+  /** Construction data from OSM tags. */
+  attributes: BuildingAttributes;
+  /** Per-hazard resistance derived from `attributes` (see vulnerability.ts). */
+  fragility: Fragility;
+  /** OSM `name` tag, when the building has one (used as an agent landmark). */
+  name?: string;
+  /** OSM element the footprint came from (a multipolygon gives one record per outer ring). */
+  osmId?: number;
+  osmType?: string;
+  /** Outer ring in local XZ meters, closed — `localToLonLat` maps it back to the OSM geometry. */
+  footprint: [number, number][];
+  /** Deepest water seen against the walls, in meters (flood and surge). */
+  peakFloodDepth: number;
+  /** Caught fire at some point. */
+  burned: boolean;
+  /** Strongest tornado wind felt, in m/s at 10 m (0 if none reached it). */
+  peakWindSpeed: number;
 }
 
 export let buildingRegistry: BuildingRecord[] = [];
@@ -31,6 +54,32 @@ export function clearBuildingRegistry() {
   buildingRegistry = [];
 }
 
+/** Geometry a building mesh had before a hazard first edited it in place. */
+const loadedGeometry = new WeakMap<THREE.Mesh, THREE.BufferGeometry>();
+
+/**
+ * A building's geometry, ready to be edited in place. The first call swaps in
+ * a copy, so the geometry it was loaded with stays intact for pristine exports.
+ */
+export function editableGeometry(mesh: THREE.Mesh): THREE.BufferGeometry {
+  if (!loadedGeometry.has(mesh)) {
+    loadedGeometry.set(mesh, mesh.geometry);
+    mesh.geometry = mesh.geometry.clone();
+  }
+  return mesh.geometry;
+}
+
+/** The geometry a building mesh had before any hazard edited it. */
+export function geometryAsLoaded(mesh: THREE.Mesh): THREE.BufferGeometry {
+  return loadedGeometry.get(mesh) ?? mesh.geometry;
+}
+
+/** Drop (and dispose) the saved loaded geometry, for a mesh whose geometry is being rebuilt. */
+export function discardLoadedGeometry(mesh: THREE.Mesh): void {
+  loadedGeometry.get(mesh)?.dispose();
+  loadedGeometry.delete(mesh);
+}
+
 export interface TreeRecord {
   trunkMesh: THREE.Mesh;
   canopyMesh: THREE.Mesh;
@@ -79,11 +128,24 @@ export let terrainBoundsRef: {
 } | null = null;
 export let terrainMeshRef: THREE.Mesh | null = null;
 export let roadLinesRef: RoadLine2D[] = [];
+/** OSM shelters / assembly points in local XZ (set inside buildAllLayers). */
+export let evacuationPointsRef: EvacuationPoint[] = [];
 export let sceneGroupRef: THREE.Group | null = null;
+/** Lazily built building geometry (set inside buildAllLayers). */
+export let buildingStreamerRef: BuildingStreamer | null = null;
+/** Per-cell ground cover for the flood and fire simulators (set inside buildAllLayers). */
+export let landCoverRef: LandCoverMap | null = null;
+/** Site conditions for earthquake shaking (set inside buildAllLayers). */
+export let vs30Ref: Vs30Map | null = null;
 
 // Height sampler accessor (set inside buildAllLayers)
 let _heightSampler: HeightSampler | null = null;
 
+// PRNG for strengths and car placement (set inside buildAllLayers)
+let _rng = new SeededRandom();
+// Cosmetic stream for idle car steering, split from the same seed
+let _visualRng = new SeededRandom();
+
 /** Sample terrain height at local Three.js (x, z) coordinates. */
 export function getTerrainHeight(x: number, z: number): number {
   return _heightSampler ? _heightSampler.sample(x, z) : 0;
@@ -185,15 +247,19 @@ export function buildAllLayers(
   carTemplate?: THREE.Object3D | null,
   satelliteTexture?: THREE.Texture | null,
   satelliteBounds?: SatelliteBounds | null,
+  rng: SeededRandom = new SeededRandom(),
 ): { group: THREE.Group; heightSampler: HeightSampler } {
   const root = new THREE.Group();
   sceneGroupRef = root;
+  _rng = rng;
+  _visualRng = rng.split(VISUAL_STREAM);
   const mpd = metersPerDegree(centerLat);
 
   // Reset registries for tornado interaction
   clearBuildingRegistry();
   clearTreeRegistry();
   clearCarRegistry();
+  buildingStreamerRef?.dispose();
 
   const sampler = new HeightSampler(data.elevation, centerLat, centerLon, mpd);
   _heightSampler = sampler;
@@ -204,6 +270,9 @@ export function buildAllLayers(
   const roadLines = extractRoadLinesXZ(data.roads, centerLat, centerLon, mpd);
   const railLines = extractRoadLinesXZ(data.railways, centerLat, centerLon, mpd);
   roadLinesRef = roadLines;
+  evacuationPointsRef = extractEvacuationPoints(data.evacuation, centerLat, centerLon, mpd);
+  landCoverRef = new LandCoverMap(data, centerLat, centerLon);
+  vs30Ref = new Vs30Map(data, centerLat, centerLon);
 
   // All ground features painted directly onto the terrain texture
   root.add(buildTerrain(data.elevation, centerLat, centerLon, mpd, sampler, parkPolys, waterPolys, roadLines, railLines, satelliteTexture, satelliteBounds));
@@ -228,6 +297,12 @@ function toLocal(coord: number[], centerLat: number, centerLon: number, mpd: Pro
   ];
 }
 
+/** Inverse of `toXZ`: Three.js [x, z] back to [lon, lat]. */
+export function localToLonLat(x: number, z: number, centerLat: number, centerLon: number): [number, number] {
+  const mpd = metersPerDegree(centerLat);
+  return [centerLon + x / mpd.lon, centerLat - z / mpd.lat];
+}
+
 /** Convert local [x, latY] to Three.js [x, z] (negate the lat axis). */
 function toXZ(coord: number[], cLat: number, cLon: number, mpd: Proj): [number, number] {
   const [x, y] = toLocal(coord, cLat, cLon, mpd);
@@ -274,12 +349,6 @@ function extractPolygonsXZ(fc: FeatureCollection, cLat: number, cLon: number, mp
 
 export type RoadLine2D = { points: [number, number][]; width: number; isFootpath: boolean };
 
-const ROAD_WIDTHS: Record<string, number> = {
-  motorway: 14, trunk: 12, primary: 10, secondary: 8, tertiary: 7,
-  residential: 6, service: 4, unclassified: 6, living_street: 5,
-  pedestrian: 4, footway: 2, cycleway: 2, path: 1.5,
-};
-
 /** Extract road/rail linestrings with widths as Three.js XZ coords. */
 function extractRoadLinesXZ(fc: FeatureCollection, cLat: number, cLon: number, mpd: Proj): RoadLine2D[] {
   const result: RoadLine2D[] = [];
@@ -288,8 +357,7 @@ function extractRoadLinesXZ(fc: FeatureCollection, cLat: number, cLon: number, m
     if (!coords || coords.length < 2) continue;
     const props = feature.properties;
     const highway = strProp(props.highway) ?? strProp(props.railway) ?? "residential";
-    const lanesWidth = (numProp(props._lanes) ?? 0) * 3.5;
-    const width = numProp(props._width) ?? (lanesWidth > 0 ? lanesWidth : null) ?? ROAD_WIDTHS[highway] ?? 6;
+    const width = roadWidth(props);
     const isFootpath = highway === "footway" || highway === "cycleway" || highway === "path";
     const points: [number, number][] = coords.map((c) => toXZ(c, cLat, cLon, mpd));
     result.push({ points, width, isFootpath });
@@ -297,6 +365,27 @@ function extractRoadLinesXZ(fc: FeatureCollection, cLat: number, cLon: number, m
   return result;
 }
 
+/** One evacuation point per OSM feature, at the centroid of its geometry. */
+function extractEvacuationPoints(fc: FeatureCollection | undefined, cLat: number, cLon: number, mpd: Proj): EvacuationPoint[] {
+  if (!fc) return [];
+  const result: EvacuationPoint[] = [];
+  for (const feature of fc.features) {
+    const geom = feature.geometry;
+    const coords = getPointCoord(geom) ? [getPointCoord(geom)!]
+      : getLineCoords(geom) ?? getPolygonRings(geom).flatMap((rings) => rings[0] ?? []);
+    if (coords.length === 0) continue;
+    let sx = 0;
+    let sz = 0;
+    for (const c of coords) {
+      const [x, z] = toXZ(c, cLat, cLon, mpd);
+      sx += x;
+      sz += z;
+    }
+    result.push(osmEvacuationPoint(feature.properties.id, feature.properties, sx / coords.length, sz / coords.length));
+  }
+  return result;
+}
+
 /** Ray-casting point-in-polygon test in 2D (x, z). */
 function pointInPolygon(x: number, z: number, poly: Poly2D): boolean {
   let inside = false;
@@ -356,18 +445,18 @@ function buildCars(roadLines: RoadLine2D[], sampler: HeightSampler, carTemplate:
   }
 
   for (let i = 0; i < target; i++) {
-    const r = Math.random() * acc;
+    const r = _rng.next() * acc;
     let idx = cumulative.findIndex((v) => v >= r);
     if (idx < 0) idx = segments.length - 1;
     const s = segments[idx]!;
-    const t = Math.random();
+    const t = _rng.next();
     const x = s.x1 + (s.x2 - s.x1) * t;
     const z = s.z1 + (s.z2 - s.z1) * t;
     const y = sampler.sample(x, z) + 0.25;
 
     const car = carTemplate.clone(true);
-    const nx = x + (Math.random() - 0.5) * 2;
-    const nz = z + (Math.random() - 0.5) * 2;
+    const nx = x + (_rng.next() - 0.5) * 2;
+    const nz = z + (_rng.next() - 0.5) * 2;
     if (terrainBoundsRef) {
       if (nx < terrainBoundsRef.xMin || nx > terrainBoundsRef.xMax) continue;
       if (nz < terrainBoundsRef.zMin || nz > terrainBoundsRef.zMax) continue;
@@ -376,7 +465,7 @@ function buildCars(roadLines: RoadLine2D[], sampler: HeightSampler, carTemplate:
 
     const dirX = s.x2 - s.x1;
     const dirZ = s.z2 - s.z1;
-    car.rotation.y = Math.atan2(dirX, dirZ) + (Math.random() - 0.5) * 0.15;
+    car.rotation.y = Math.atan2(dirX, dirZ) + (_rng.next() - 0.5) * 0.15;
 
     car.traverse((obj) => {
       if (obj instanceof THREE.Mesh) {
@@ -400,7 +489,7 @@ function buildCars(roadLines: RoadLine2D[], sampler: HeightSampler, carTemplate:
       baseZ: nz,
       baseY: y,
       uprooted: false,
-      strength: 0.7 + Math.random() * 0.6,
+      strength: 0.7 + _rng.next() * 0.6,
       heading: car.rotation.y,
       speed: 0,
       tipped: false,
@@ -415,7 +504,7 @@ export function updateCarsMovement(dt: number) {
   const b = terrainBoundsRef;
   for (const car of carRegistry) {
     if (car.uprooted || car.tipped) continue;
-    const turn = (Math.random() - 0.5) * 0.6 * dt;
+    const turn = (_visualRng.next() - 0.5) * 0.6 * dt;
     car.heading += turn;
     const vx = Math.sin(car.heading) * car.speed;
     const vz = Math.cos(car.heading) * car.speed;
@@ -467,27 +556,17 @@ export function resetCarsToBase() {
 // ─── Terrain mesh (with canvas-textured parks & water) ──────────────────────
 
 const TEX_SIZE = 1024; // canvas texture resolution
+const MAX_TERRAIN_SUBDIVS = 512; // mesh detail cap for fine DEM grids — height queries still use the full grid
 
-function buildTerrain(
-  elev: ElevationData,
-  cLat: number,
-  cLon: number,
-  mpd: Proj,
-  sampler: HeightSampler,
+/** Paint parks, water, roads and railways onto a TEX_SIZE canvas spanning the terrain bounds. */
+function paintGroundCanvas(
+  bounds: { xMin: number; zMin: number; width: number; depth: number },
   parkPolys: Poly2D[],
   waterPolys: Poly2D[],
   roadLines: RoadLine2D[],
   railLines: RoadLine2D[],
-  satelliteTexture?: THREE.Texture | null,
-  satelliteBounds?: SatelliteBounds | null,
-): THREE.Mesh {
-  const gs = elev.gridSize;
-  const xMin = (elev.west - cLon) * mpd.lon;
-  const xMax = (elev.east - cLon) * mpd.lon;
-  const zMin = -((elev.north - cLat) * mpd.lat);
-  const zMax = -((elev.south - cLat) * mpd.lat);
-  const width = xMax - xMin;
-  const depth = zMax - zMin;
+): HTMLCanvasElement {
+  const { xMin, zMin, width, depth } = bounds;
 
   // Pixels per meter for converting world widths to canvas stroke widths
   const pxPerMeterX = TEX_SIZE / width;
@@ -553,10 +632,41 @@ function buildTerrain(
   drawLines(railLines, "#666666");
   drawLines(roadLines, "#444444", "#999988");
 
-  const texture = new THREE.CanvasTexture(canvas);
-  texture.flipY = false; // canvas y=0 is top, UV v=0 maps to zMin — keep them aligned
-  texture.minFilter = THREE.LinearFilter;
-  texture.magFilter = THREE.LinearFilter;
+  return canvas;
+}
+
+function buildTerrain(
+  elev: ElevationData,
+  cLat: number,
+  cLon: number,
+  mpd: Proj,
+  sampler: HeightSampler,
+  parkPolys: Poly2D[],
+  waterPolys: Poly2D[],
+  roadLines: RoadLine2D[],
+  railLines: RoadLine2D[],
+  satelliteTexture?: THREE.Texture | null,
+  satelliteBounds?: SatelliteBounds | null,
+): THREE.Mesh {
+  const gs = elev.gridSize;
+  const xMin = (elev.west - cLon) * mpd.lon;
+  const xMax = (elev.east - cLon) * mpd.lon;
+  const zMin = -((elev.north - cLat) * mpd.lat);
+  const zMax = -((elev.south - cLat) * mpd.lat);
+  const width = xMax - xMin;
+  const depth = zMax - zMin;
+
+  // Ground features are painted onto a canvas texture; headless runs (no DOM) skip it
+  const canvas = typeof document !== "undefined"
+    ? paintGroundCanvas({ xMin, zMin, width, depth }, parkPolys, waterPolys, roadLines, railLines)
+    : null;
+  let texture: THREE.CanvasTexture | null = null;
+  if (canvas) {
+    texture = new THREE.CanvasTexture(canvas);
+    texture.flipY = false; // canvas y=0 is top, UV v=0 maps to zMin — keep them aligned
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+  }
 
   // Expose canvas/texture/bounds for tornado ground-damage painting
   terrainCanvasRef = canvas;
@@ -564,7 +674,7 @@ function buildTerrain(
   terrainBoundsRef = { xMin, xMax, zMin, zMax, width, depth };
 
   // --- Build terrain geometry (indexed, much faster) ---
-  const subdivs = Math.max(gs - 1, 64);
+  const subdivs = Math.min(Math.max(gs - 1, 64), MAX_TERRAIN_SUBDIVS);
   const geo = new THREE.PlaneGeometry(width, depth, subdivs, subdivs);
   geo.rotateX(-Math.PI / 2);
 
@@ -587,7 +697,8 @@ function buildTerrain(
   geo.computeVertexNormals();
 
   // Draw satellite imagery onto the canvas so paintGround (tornado wake) works on the same surface
-  if (satelliteTexture && satelliteBounds) {
+  if (canvas && texture && satelliteTexture && satelliteBounds) {
+    const ctx = canvas.getContext("2d")!;
     const satImg = satelliteTexture.image as HTMLImageElement;
     const sx = ((satelliteBounds.xMin - xMin) / width) * TEX_SIZE;
     const sy = ((satelliteBounds.zMin - zMin) / depth) * TEX_SIZE;
@@ -615,18 +726,20 @@ function buildTerrain(
 // ─── Buildings (extruded polygons on terrain) ───────────────────────────────
 
 function buildBuildings(fc: FeatureCollection, cLat: number, cLon: number, mpd: Proj, sampler: HeightSampler, satelliteTexture?: THREE.Texture | null, satelliteBounds?: SatelliteBounds | null): THREE.Group {
-  const group = new THREE.Group();
-  group.name = "buildings";
-
   // Share roof material across all buildings to avoid per-building WebGPU pipeline compilation
   // (each unique material instance triggers a separate pipeline compile, causing freezes)
   const sharedRoofMat = (satelliteTexture && satelliteBounds)
     ? new THREE.MeshPhongMaterial({ map: terrainTextureRef!, shininess: 15 })
     : null;
 
+  // Geometry is built per chunk as the camera and hazards approach (see streaming.ts)
+  const streamer = new BuildingStreamer(sharedRoofMat ? { bounds: terrainBoundsRef! } : null);
+  buildingStreamerRef = streamer;
+
   for (const feature of fc.features) {
     const props = feature.properties;
-    const height = numProp(props._height) ?? numProp(props.height) ?? 10;
+    const attributes = buildingAttributes(props);
+    const height = numProp(props._height) ?? numProp(props.height) ?? defaultHeight(attributes);
     const minHeight = numProp(props._minHeight) ?? numProp(props.min_height) ?? 0;
     const color = strProp(props["building:colour"]) ?? strProp(props.color) ?? "#8899aa";
 
@@ -647,84 +760,49 @@ function buildBuildings(fc: FeatureCollection, cLat: number, cLon: number, mpd:
       }
 
       const terrainY = minTerrainY;
-
-      const shape = new THREE.Shape(pts2d);
       const extH = height - minHeight;
       if (extH <= 0) continue;
 
-      const geo = new THREE.ExtrudeGeometry(shape, {
-        depth: extH,
-        bevelEnabled: true,
-        bevelThickness: 0.2,
-        bevelSize: 0.15,
-        bevelSegments: 2,
-      });
-      // ExtrudeGeometry extrudes along Z in shape space. We created shape in XZ plane,
-      // so extrusion goes along "local Z". We need to rotate so extrusion goes up (Y).
-      // Shape is in (x, z) coords → extrude goes along shape's Z axis.
-      // We want the extrusion along Y, so rotate -90deg around X.
-      geo.rotateX(-Math.PI / 2);
-      geo.translate(0, terrainY + minHeight, 0);
-
-      let meshMaterial: THREE.Material | THREE.Material[];
-      if (sharedRoofMat && satelliteBounds) {
-        // Wall material is per-building (tornado damage modifies it)
-        // Roof material is shared (same satellite texture for all)
-        const wallMat = new THREE.MeshPhongMaterial({ color, shininess: 15 });
-        const roofMat = sharedRoofMat;
-
-        // Remap roof cap UVs to terrain canvas coordinates based on world XZ position
-        const uvAttr = geo.attributes.uv!;
-        const posAttr = geo.attributes.position!;
-        const bounds = terrainBoundsRef!;
-
-        // After rotateX(-PI/2) and translate: positions are in world space
-        // Remap cap face UVs (materialIndex 0) to world position in satellite space
-        for (const grp of geo.groups) {
-          if (grp.materialIndex === 0) {
-            for (let i = grp.start; i < grp.start + grp.count; i++) {
-              const idx = geo.index ? geo.index.getX(i) : i;
-              const wx = posAttr.getX(idx);
-              const wz = posAttr.getZ(idx);
-              const u = (wx - bounds.xMin) / bounds.width;
-              const v = (wz - bounds.zMin) / bounds.depth;
-              uvAttr.setXY(idx, u, v);
-            }
-          }
-        }
-        uvAttr.needsUpdate = true;
-
-        // materialIndex 0 = caps (top+bottom), 1 = sides
-        meshMaterial = [roofMat, wallMat];
-      } else {
-        meshMaterial = new THREE.MeshPhongMaterial({ color, shininess: 15 });
-      }
-      const mesh = new THREE.Mesh(geo, meshMaterial);
+      // Wall material is per-building (tornado damage modifies it)
+      // Roof material is shared (same satellite texture for all); materialIndex 0 = caps, 1 = sides
+      const meshMaterial: THREE.Material | THREE.Material[] = sharedRoofMat
+        ? [sharedRoofMat, new THREE.MeshPhongMaterial({ color, shininess: 15 })]
+        : new THREE.MeshPhongMaterial({ color, shininess: 15 });
+      const mesh = new THREE.Mesh(undefined, meshMaterial);
       mesh.castShadow = true;
       mesh.receiveShadow = true;
-      group.add(mesh);
 
-      // Register for tornado interaction
-      const bbox = new THREE.Box3().setFromObject(mesh);
-      const size = bbox.getSize(new THREE.Vector3());
-      const center = bbox.getCenter(new THREE.Vector3());
-      buildingRegistry.push({
+      // Register for hazard interaction
+      const { centerX, centerZ, halfX, halfZ } = footprintBounds(pts2d);
+      const frag = fragility(attributes, _rng.next());
+      const record: BuildingRecord = {
         mesh,
         height: extH,
         baseY: terrainY + minHeight,
-        centerX: center.x,
-        centerZ: center.z,
-        width: Math.max(size.x, size.z),
-        halfX: size.x * 0.5,
-        halfZ: size.z * 0.5,
+        centerX,
+        centerZ,
+        width: Math.max(halfX, halfZ) * 2,
+        halfX,
+        halfZ,
         damageLevel: 0,
         destroyed: false,
         originalColor: new THREE.Color(color),
-        structuralStrength: 0.7 + Math.random() * 0.6,
-      });
+        structuralStrength: (frag.wind + frag.shaking) / 2,
+        attributes,
+        fragility: frag,
+        name: strProp(props.name) ?? undefined,
+        osmId: numProp(props.id) ?? undefined,
+        osmType: strProp(props._osmType) ?? undefined,
+        footprint: pts2d.map((p) => [p.x, -p.y]),
+        peakFloodDepth: 0,
+        burned: false,
+        peakWindSpeed: 0,
+      };
+      buildingRegistry.push(record);
+      streamer.add(record, new THREE.Shape(pts2d), terrainY + minHeight);
     }
   }
-  return group;
+  return streamer.group;
 }
 
 // ─── Water (linestring waterways only — polygon water is painted on terrain) ─
@@ -834,7 +912,7 @@ function addTree(group: THREE.Group, x: number, z: number, height: number, sampl
     x, z, height,
     uprooted: false,
     broken: false,
-    strength: 0.7 + Math.random() * 0.6,
+    strength: 0.7 + _rng.next() * 0.6,
   });
 }
 
@@ -3,14 +3,21 @@ import { WebGPURenderer } from "three/webgpu";
 import { CSMShadowNode } from "three/examples/jsm/csm/CSMShadowNode.js";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 import { fetchLayers, fetchSatelliteImage } from "./tiles.ts";
-import { buildAllLayers, type HeightSampler, buildingRegistry, getTerrainHeight, terrainBoundsRef, terrainMeshRef, resetCarsToBase, sceneGroupRef, roadLinesRef, computeSatelliteBounds } from "./layers.ts";
+import { buildAllLayers, type HeightSampler, buildingRegistry, buildingStreamerRef, landCoverRef, treeRegistry, evacuationPointsRef, getTerrainHeight, terrainBoundsRef, terrainMeshRef, resetCarsToBase, sceneGroupRef, roadLinesRef, computeSatelliteBounds } from "./layers.ts";
 import { FlyControls } from "./controls.ts";
 import { TornadoSimulator, EF_SCALE } from "./disasters/tornado.ts";
+import { parseTrack, type TrackPoint } from "./disasters/tornadoTrack.ts";
+import { damageSurvey, type DamageSurvey } from "./disasters/tornadoSurvey.ts";
+import type { VortexModel } from "./disasters/vortex.ts";
 import { EarthquakeSimulator } from "./disasters/earthquake.ts";
+import { ruptureLengthMeters } from "./disasters/groundMotion.ts";
 import { FloodSimulator } from "./disasters/flood.ts";
+import { CASCADES, HazardCascade, surgeHeight, type CascadeId } from "./disasters/cascade.ts";
+import { TsunamiSurge } from "./disasters/tsunami.ts";
 
 // Agent system imports
 import { SimWorld } from "./core/World.ts";
+import { SeededRandom, randomSeed, VISUAL_STREAM } from "./core/Random.ts";
 import { EventBus } from "./core/EventBus.ts";
 import { AgentManager } from "./agents/AgentManager.ts";
 import { AgentPerceptionSystem } from "./agents/AgentPerceptionSystem.ts";
@@ -18,15 +25,24 @@ import { AgentRecorder } from "./agents/AgentRecorder.ts";
 import { SteppedSimulation } from "./agents/SteppedSimulation.ts";
 import { ReplayRecorder } from "./replay/ReplayRecorder.ts";
 import { createAgentActionSystem, type Obstacle } from "./agents/AgentActionSystem.ts";
+import { AGENT_CONFIGS, collectObstacles, pickSpawnPositions } from "./agents/AgentSpawning.ts";
 import { createAgentDamageSystem } from "./agents/AgentDamageSystem.ts";
+import { ShelterRegistry } from "./agents/Shelters.ts";
+import { EvacuationPlanner } from "./agents/Evacuation.ts";
 import { FireSimulator } from "./scenarios/TestFire.ts";
-import type { AgentConfig } from "./agents/types.ts";
 import { RoadGraph } from "./agents/RoadGraph.ts";
+import { landmarksFromBuildings } from "./agents/navigation.ts";
 import { Position } from "./core/Components.ts";
 import { ReplayCaptureSystem } from "./replay/ReplayCaptureSystem.ts";
 import { SimulationStats, type SimulationStatsData } from "./stats/SimulationStats.ts";
 import { HeatmapOverlay } from "./stats/HeatmapOverlay.ts";
-import { StatsOverlay } from "./stats/StatsOverlay.ts";
+import { RoutePlanner } from "./agents/RoutePlanner.ts";
+import { RouteOverlay } from "./agents/RouteOverlay.ts";
+import { RoadBlockageLayer, collapsedBuildingRubble, fallenTrees } from "./agents/RoadBlockage.ts";
+import { StatsOverlay, type ReportExport } from "./stats/StatsOverlay.ts";
+import { damageGeoJSON } from "./gisExport.ts";
+import { exportSceneGLB, PristineSnapshot } from "./sceneExport.ts";
+import type { GeocodeResponse } from "./geocode.ts";
 
 // React landing overlay
 import React from "react";
@@ -39,6 +55,8 @@ let landingLon = -73.9857;
 let landingSize = 500;
 let landingScenario = "fire";
 let landingAddress = "";
+/** PRNG seed for the loaded area; `?seed=N` in the URL pins it to reproduce a run. */
+let sessionSeed = 0;
 
 const loading = document.getElementById("loading")!;
 const hud = document.getElementById("hud")!;
@@ -98,6 +116,13 @@ const tornadoStats   = document.getElementById("tornado-stats")!;
 const tsWind         = document.getElementById("ts-wind")!;
 const tsDamaged      = document.getElementById("ts-damaged")!;
 const tsDestroyed    = document.getElementById("ts-destroyed")!;
+const trackInfo      = document.getElementById("track-info")!;
+const trackPointBtn  = document.getElementById("track-point-btn") as HTMLButtonElement;
+const trackLoadBtn   = document.getElementById("track-load-btn") as HTMLButtonElement;
+const trackClearBtn  = document.getElementById("track-clear-btn") as HTMLButtonElement;
+const trackFile      = document.getElementById("track-file") as HTMLInputElement;
+const trackDevSlider = document.getElementById("track-dev-slider") as HTMLInputElement;
+const trackDevVal    = document.getElementById("track-dev-val")!;
 
 // Earthquake panel elements
 const quakePanel   = document.getElementById("quake-panel")!;
@@ -106,6 +131,17 @@ const magVal       = document.getElementById("mag-val")!;
 const radiusValEq  = document.getElementById("eq-radius-val")!;
 const spawnQuakeBtn = document.getElementById("spawn-quake-btn") as HTMLButtonElement;
 const stopQuakeBtn  = document.getElementById("stop-quake-btn") as HTMLButtonElement;
+const depthSlider  = document.getElementById("depth-slider") as HTMLInputElement;
+const depthVal     = document.getElementById("depth-val")!;
+const faultSelect  = document.getElementById("fault-type") as HTMLSelectElement;
+const strikeRow    = document.getElementById("strike-row")!;
+const strikeSlider = document.getElementById("strike-slider") as HTMLInputElement;
+const strikeVal    = document.getElementById("strike-val")!;
+const ruptureVal   = document.getElementById("rupture-val")!;
+const shakeMapBtn  = document.getElementById("shakemap-btn") as HTMLButtonElement;
+const shakeMapLegend = document.getElementById("shakemap-legend")!;
+const aftershockToggle = document.getElementById("aftershock-toggle") as HTMLInputElement;
+const aftershockInfo = document.getElementById("aftershock-info")!;
 
 // Flood panel elements
 const floodPanel = document.getElementById("flood-panel")!;
@@ -194,6 +230,7 @@ window.addEventListener("resize", () => {
 const tornado = new TornadoSimulator(scene, renderer);
 const quake = new EarthquakeSimulator(scene);
 const flood = new FloodSimulator(scene);
+const tsunami = new TsunamiSurge(); // a cascade's surge
 const fire = new FireSimulator(scene);
 const raycaster = new THREE.Raycaster();
 
@@ -212,6 +249,9 @@ function updateEFDisplay() {
 efSlider.addEventListener("input", updateEFDisplay);
 updateEFDisplay();
 
+const vortexSelect = document.getElementById("vortex-model") as HTMLSelectElement;
+vortexSelect.addEventListener("change", () => tornado.setVortexModel(vortexSelect.value as VortexModel));
+
 const speedSlider = document.getElementById("speed-slider") as HTMLInputElement;
 const speedVal    = document.getElementById("speed-val")!;
 speedSlider.addEventListener("input", () => {
@@ -219,15 +259,130 @@ speedSlider.addEventListener("input", () => {
   tornado.setTranslationSpeed(parseInt(speedSlider.value));
 });
 
+// --- Tornado track: clicked point by point, or loaded from a damage-path file ---
+let trackPoints: TrackPoint[] = [];
+let trackLine: THREE.Line | null = null;
+
+/** Redraw the track over the terrain and hand it to the simulator for the next spawn. */
+function refreshTrack() {
+  if (trackLine) {
+    scene.remove(trackLine);
+    trackLine.geometry.dispose();
+    (trackLine.material as THREE.Material).dispose();
+    trackLine = null;
+  }
+  const deviationMeters = parseInt(trackDevSlider.value);
+  trackDevVal.textContent = trackDevSlider.value;
+  tornado.setTrack(trackPoints.length >= 2 ? { points: trackPoints, deviationMeters } : null);
+
+  let length = 0;
+  for (let i = 1; i < trackPoints.length; i++) {
+    length += Math.hypot(trackPoints[i]!.x - trackPoints[i - 1]!.x, trackPoints[i]!.z - trackPoints[i - 1]!.z);
+  }
+  trackInfo.textContent = trackPoints.length === 0 ? "none"
+    : `${trackPoints.length} point${trackPoints.length === 1 ? "" : "s"} · ${(length / 1000).toFixed(2)} km`;
+  if (trackPoints.length === 0) return;
+
+  const geo = new THREE.BufferGeometry().setFromPoints(
+    trackPoints.map((p) => new THREE.Vector3(p.x, getTerrainHeight(p.x, p.z) + 3, p.z)),
+  );
+  trackLine = new THREE.Line(geo, new THREE.LineBasicMaterial({ color: 0xff3030, depthTest: false }));
+  trackLine.name = "tornado-track";
+  trackLine.renderOrder = 10;
+  scene.add(trackLine);
+}
+
+/** Append the terrain point under the crosshair, at the current EF setting. */
+function addTrackPointAtCrosshair() {
+  const terrain = sceneGroup?.getObjectByName("terrain");
+  if (!terrain) return;
+  raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
+  const hits = raycaster.intersectObject(terrain);
+  if (hits.length === 0) return;
+  trackPoints.push({ x: hits[0]!.point.x, z: hits[0]!.point.z, efRating: parseInt(efSlider.value) });
+  refreshTrack();
+}
+
+function clearTrack() {
+  trackPoints = [];
+  refreshTrack();
+}
+
+trackPointBtn.addEventListener("click", addTrackPointAtCrosshair);
+trackClearBtn.addEventListener("click", clearTrack);
+trackLoadBtn.addEventListener("click", () => trackFile.click());
+trackDevSlider.addEventListener("input", refreshTrack);
+trackFile.addEventListener("change", async () => {
+  const file = trackFile.files?.[0];
+  trackFile.value = "";
+  if (!file) return;
+  try {
+    trackPoints = parseTrack(await file.text(), landingLat, landingLon).points;
+    refreshTrack();
+  } catch (err) {
+    console.error("[Tornado] Track file rejected:", err);
+    trackInfo.textContent = `invalid file (${(err as Error).message})`;
+  }
+});
+
 function updateMagnitudeDisplay() {
   const m = parseFloat(magSlider.value);
   magVal.textContent = m.toFixed(1);
   quake.setMagnitude(m);
   radiusValEq.textContent = `${Math.round(quake.affectedRadiusKm)} km`;
+  ruptureVal.textContent = (ruptureLengthMeters(m) / 1000).toFixed(1);
 }
 magSlider.addEventListener("input", updateMagnitudeDisplay);
 updateMagnitudeDisplay();
 
+function updateFaultDisplay() {
+  const depth = parseFloat(depthSlider.value);
+  depthVal.textContent = depth.toFixed(0);
+  quake.setDepth(depth);
+  radiusValEq.textContent = `${Math.round(quake.affectedRadiusKm)} km`;
+  const line = faultSelect.value === "line";
+  strikeRow.style.display = line ? "block" : "none";
+  strikeVal.textContent = strikeSlider.value;
+  quake.setStrike(line ? parseFloat(strikeSlider.value) : null);
+}
+depthSlider.addEventListener("input", updateFaultDisplay);
+faultSelect.addEventListener("change", updateFaultDisplay);
+strikeSlider.addEventListener("input", updateFaultDisplay);
+updateFaultDisplay();
+aftershockToggle.addEventListener("change", () => quake.setAftershocks(aftershockToggle.checked));
+
+// Shake map overlay: off → PGA → PGV, rebuilt for each quake
+type ShakeMapLayer = "off" | "pga" | "pgv";
+let shakeMapLayer: ShakeMapLayer = "off";
+let shakeMapOverlay: HeatmapOverlay | null = null;
+
+function refreshShakeMap() {
+  shakeMapOverlay?.dispose();
+  shakeMapOverlay = null;
+  shakeMapBtn.textContent = `Shake Map: ${shakeMapLayer === "off" ? "Off" : shakeMapLayer.toUpperCase()}`;
+  shakeMapLegend.textContent = "";
+  const map = quake.getShakeMap();
+  if (shakeMapLayer === "off" || !map) return;
+  const grid = shakeMapLayer === "pga" ? map.pga : map.pgv;
+  let min = Infinity, max = 0;
+  for (const v of grid) { min = Math.min(min, v); max = Math.max(max, v); }
+  shakeMapOverlay = new HeatmapOverlay(scene, {
+    xMin: map.xMin,
+    xMax: map.xMin + map.width * map.cellSize,
+    zMin: map.zMin,
+    zMax: map.zMin + map.height * map.cellSize,
+  }, quake.position.y + 30);
+  shakeMapOverlay.setData(grid, map.width, map.height);
+  shakeMapOverlay.setVisible(true);
+  shakeMapLegend.textContent = shakeMapLayer === "pga"
+    ? `PGA ${min.toFixed(2)}–${max.toFixed(2)} g`
+    : `PGV ${min.toFixed(0)}–${max.toFixed(0)} cm/s`;
+}
+shakeMapBtn.addEventListener("click", () => {
+  shakeMapLayer = shakeMapLayer === "off" ? "pga" : shakeMapLayer === "pga" ? "pgv" : "off";
+  refreshShakeMap();
+});
+
 function updateFloodDisplay() {
   const h = parseFloat(floodHeightSlider.value);
   const t = (h - 10) / 20;
@@ -288,6 +443,7 @@ function updateAtmosphere(t: number) {
 
 // Track active disaster for auto-despawn detection
 let activeDisasterType: "tornado" | "earthquake" | "flood" | "fire" | null = null;
+let cascade: HazardCascade | null = null; // set while a cascading scenario runs
 let wasTornadoActive = false;
 let wasQuakeActive = false;
 
@@ -313,6 +469,7 @@ function spawnQuakeAtCrosshair() {
   const hits = raycaster.intersectObject(terrain);
   if (hits.length > 0) {
     quake.spawn(hits[0]!.point);
+    refreshShakeMap();
     spawnQuakeBtn.style.display = "none";
     stopQuakeBtn.style.display = "block";
   }
@@ -358,6 +515,7 @@ function stopTornado() {
 
 function stopQuake() {
   quake.despawn();
+  aftershockInfo.textContent = "";
   spawnQuakeBtn.style.display = "block";
   stopQuakeBtn.style.display = "none";
 }
@@ -374,6 +532,15 @@ function stopFire() {
   fireStopBtn.style.display = "none";
 }
 
+/** End a cascading scenario along with the hazards it set off. */
+function stopCascade() {
+  if (!cascade) return;
+  cascade.dispose();
+  cascade = null;
+  stopFire();
+  tsunami.despawn();
+}
+
 spawnBtn.addEventListener("click", spawnTornadoAtCrosshair);
 despawnBtn.addEventListener("click", stopTornado);
 spawnQuakeBtn.addEventListener("click", spawnQuakeAtCrosshair);
@@ -385,9 +552,16 @@ fireStopBtn.addEventListener("click", stopFire);
 
 window.addEventListener("keydown", (e) => {
   if (landingRoot && landingRoot.firstChild) return; // landing still visible
+  if (e.code === "KeyG" && routeOverlay) routeOverlay.toggle();
+  if (e.ctrlKey && e.code === "KeyE") {
+    // Ctrl+E: the city as it stands now; Ctrl+Shift+E: as loaded
+    e.preventDefault();
+    exportGLB(!e.shiftKey).catch((err) => console.error("[Export] GLB failed:", err));
+  }
   if (activeDisasterType === "tornado") {
     if (e.code === "KeyT") spawnTornadoAtCrosshair();
     if (e.code === "KeyX") stopTornado();
+    if (e.code === "KeyP") addTrackPointAtCrosshair();
   } else if (activeDisasterType === "earthquake") {
     if (e.code === "KeyT") spawnQuakeAtCrosshair();
     if (e.code === "KeyX") stopQuake();
@@ -401,7 +575,7 @@ window.addEventListener("keydown", (e) => {
 });
 
 // --- Geocode lookup (called from React) ---
-async function doLookup(q: string): Promise<{ lat: number; lon: number } | { error: string }> {
+async function doLookup(q: string): Promise<GeocodeResponse | { error: string }> {
   if (!q.trim()) return { error: "Empty address" };
   try {
     const res = await fetch(`/api/geocode?q=${encodeURIComponent(q)}`);
@@ -409,7 +583,7 @@ async function doLookup(q: string): Promise<{ lat: number; lon: number } | { err
     if (!res.ok || data.error) {
       return { error: data.error ?? "Lookup failed" };
     }
-    return { lat: data.lat, lon: data.lon };
+    return data as GeocodeResponse;
   } catch {
     return { error: "Network error" };
   }
@@ -422,7 +596,7 @@ interface ScenarioDefinition {
   description: string;
   icon: string;
   available: boolean;
-  launch: (scene: THREE.Scene, eventBus: EventBus, sampler: HeightSampler) => void;
+  launch: (scene: THREE.Scene, eventBus: EventBus, sampler: HeightSampler, rng: SeededRandom, visualRng: SeededRandom) => void;
 }
 
 const scenarios: ScenarioDefinition[] = [
@@ -432,9 +606,11 @@ const scenarios: ScenarioDefinition[] = [
     description: "Building fire with smoke and flames",
     icon: "\uD83D\uDD25",
     available: true,
-    launch: (_sc, eb, sampler) => {
+    launch: (_sc, eb, sampler, rng, visualRng) => {
       activeDisasterType = "fire";
       fire.setContext(eb, sampler);
+      fire.setRng(rng);
+      fire.setVisualRng(visualRng);
       fireConfigPanel.style.display = "block";
       tornadoPanel.style.display = "none";
       quakePanel.style.display = "none";
@@ -447,9 +623,10 @@ const scenarios: ScenarioDefinition[] = [
     description: "Destructive funnel with debris physics",
     icon: "\uD83C\uDF2A\uFE0F",
     available: true,
-    launch: (_sc, eb) => {
+    launch: (_sc, eb, _sampler, rng) => {
       activeDisasterType = "tornado";
       tornado.setEventBus(eb);
+      tornado.setRng(rng);
       tornadoPanel.style.display = "block";
       quakePanel.style.display = "none";
       floodPanel.style.display = "none";
@@ -462,9 +639,11 @@ const scenarios: ScenarioDefinition[] = [
     description: "Seismic event with structural damage",
     icon: "\uD83C\uDF0B",
     available: true,
-    launch: (_sc, eb) => {
+    launch: (_sc, eb, _sampler, rng, visualRng) => {
       activeDisasterType = "earthquake";
       quake.setEventBus(eb);
+      quake.setRng(rng);
+      quake.setVisualRng(visualRng);
       quakePanel.style.display = "block";
       tornadoPanel.style.display = "none";
       floodPanel.style.display = "none";
@@ -477,15 +656,32 @@ const scenarios: ScenarioDefinition[] = [
     description: "Rising water levels and evacuation",
     icon: "\uD83C\uDF0A",
     available: true,
-    launch: (_sc, eb) => {
+    launch: (_sc, eb, _sampler, rng) => {
       activeDisasterType = "flood";
       flood.setEventBus(eb);
+      flood.setRng(rng);
       floodPanel.style.display = "block";
       tornadoPanel.style.display = "none";
       quakePanel.style.display = "none";
       fireConfigPanel.style.display = "none";
     },
   },
+  {
+    id: "quake-fire",
+    name: "Quake \u2192 Fire",
+    description: "Shaking ignites fires at damaged buildings",
+    icon: "\uD83C\uDF0B",
+    available: true,
+    launch: (_sc, eb, sampler, rng, visualRng) => launchCascade("quake-fire", eb, sampler, rng, visualRng),
+  },
+  {
+    id: "quake-tsunami",
+    name: "Quake \u2192 Tsunami",
+    description: "Offshore quake, then a surge comes ashore",
+    icon: "\uD83C\uDF0A",
+    available: true,
+    launch: (_sc, eb, sampler, rng, visualRng) => launchCascade("quake-tsunami", eb, sampler, rng, visualRng),
+  },
   {
     id: "tsunami",
     name: "Tsunami",
@@ -496,6 +692,30 @@ const scenarios: ScenarioDefinition[] = [
   },
 ];
 
+/**
+ * Cascading scenario: the user drives the earthquake as usual, and the
+ * cascade's triggers start fires and the surge on their own.
+ */
+function launchCascade(id: CascadeId, eb: EventBus, sampler: HeightSampler, rng: SeededRandom, visualRng: SeededRandom) {
+  activeDisasterType = "earthquake";
+  quake.setEventBus(eb);
+  quake.setRng(rng);
+  quake.setVisualRng(visualRng);
+  fire.setContext(eb, sampler);
+  fire.setRng(rng);
+  fire.setVisualRng(visualRng);
+  tsunami.setEventBus(eb);
+  tsunami.setRng(rng);
+  cascade = new HazardCascade(eb, rng, "earthquake", CASCADES[id], {
+    ignite: (x, z) => fire.spawnAt(new THREE.Vector3(x, sampler.sample(x, z), z)),
+    surge: (x, z, magnitude) => tsunami.spawn(x, z, surgeHeight(magnitude)),
+  }, sharedSceneSize / 2, (label) => steppedSim?.setDisasterType(label));
+  quakePanel.style.display = "block";
+  tornadoPanel.style.display = "none";
+  floodPanel.style.display = "none";
+  fireConfigPanel.style.display = "none";
+}
+
 const scenarioPanel = document.getElementById("scenario-panel")!;
 
 // --- Agent system state ---
@@ -506,6 +726,8 @@ let heightSampler: HeightSampler | null = null;
 let replayCaptureSystem: ReplayCaptureSystem | null = null;
 let simStats: SimulationStats | null = null;
 let heatmapOverlay: HeatmapOverlay | null = null;
+let routeOverlay: RouteOverlay | null = null;
+let roadBlockage: RoadBlockageLayer | null = null;
 let statsOverlay: StatsOverlay | null = null;
 
 // Exploration phase shared state
@@ -516,126 +738,6 @@ let sharedSceneGroup: THREE.Group | null = null;
 let sharedSceneSize = 0;
 let sharedRoadGraph: RoadGraph | null = null;
 
-// --- Obstacle collection from generated scene ---
-const OBSTACLE_PADDING = 3; // meters padding around buildings
-
-function collectObstacles(group: THREE.Group, sceneHalfSize: number): Obstacle[] {
-  const obstacles: Obstacle[] = [];
-  const box = new THREE.Box3();
-
-  group.traverse((obj) => {
-    if (!(obj instanceof THREE.Mesh)) return;
-    const geom = obj.geometry;
-    if (!geom) return;
-
-    const isExtrude = geom.type === "ExtrudeGeometry";
-    const isTreePart = obj.parent?.name === "trees";
-
-    if (!isExtrude && !isTreePart) return;
-
-    box.setFromObject(obj);
-    const height = box.max.y - box.min.y;
-
-    if (isExtrude && height > 2) {
-      obstacles.push({
-        minX: box.min.x - OBSTACLE_PADDING,
-        maxX: box.max.x + OBSTACLE_PADDING,
-        minZ: box.min.z - OBSTACLE_PADDING,
-        maxZ: box.max.z + OBSTACLE_PADDING,
-      });
-    } else if (isTreePart && geom.type === "SphereGeometry") {
-      const pad = 1.5;
-      obstacles.push({
-        minX: box.min.x - pad,
-        maxX: box.max.x + pad,
-        minZ: box.min.z - pad,
-        maxZ: box.max.z + pad,
-      });
-    }
-  });
-
-  console.log(`[Agents] Collected ${obstacles.length} obstacles from scene`);
-  return obstacles;
-}
-
-/** Find an open position that doesn't collide with any obstacle. */
-function findOpenPosition(
-  preferredX: number,
-  preferredZ: number,
-  obstacles: Obstacle[],
-  agentRadius: number,
-): { x: number; z: number } {
-  if (!collidesAny(preferredX, preferredZ, obstacles, agentRadius)) {
-    return { x: preferredX, z: preferredZ };
-  }
-  for (let r = 5; r < 100; r += 5) {
-    for (let a = 0; a < 8; a++) {
-      const angle = (a / 8) * Math.PI * 2;
-      const x = preferredX + Math.cos(angle) * r;
-      const z = preferredZ + Math.sin(angle) * r;
-      if (!collidesAny(x, z, obstacles, agentRadius)) {
-        return { x, z };
-      }
-    }
-  }
-  return { x: preferredX, z: preferredZ };
-}
-
-function collidesAny(x: number, z: number, obstacles: Obstacle[], radius: number): boolean {
-  for (const o of obstacles) {
-    const cx = Math.max(o.minX, Math.min(x, o.maxX));
-    const cz = Math.max(o.minZ, Math.min(z, o.maxZ));
-    const dx = x - cx;
-    const dz = z - cz;
-    if (dx * dx + dz * dz < radius * radius) return true;
-  }
-  return false;
-}
-
-// Agent configs — 8 unique personalities with distinct colors
-const AGENT_CONFIGS: Omit<AgentConfig, "spawnPosition">[] = [
-  {
-    name: "Alice",
-    color: 0xff4444,
-    personality: { bravery: 0.8, altruism: 0.6, awareness: 0.7, description: "a brave security guard" },
-  },
-  {
-    name: "Bob",
-    color: 0x4444ff,
-    personality: { bravery: 0.3, altruism: 0.5, awareness: 0.8, description: "a nervous bystander" },
-  },
-  {
-    name: "Carol",
-    color: 0x44ff44,
-    personality: { bravery: 0.5, altruism: 0.9, awareness: 0.6, description: "an analytical professor" },
-  },
-  {
-    name: "Dave",
-    color: 0xffaa00,
-    personality: { bravery: 0.6, altruism: 0.4, awareness: 0.5, description: "a practical delivery worker" },
-  },
-  {
-    name: "Eve",
-    color: 0xff44ff,
-    personality: { bravery: 0.9, altruism: 0.8, awareness: 0.9, description: "an experienced firefighter" },
-  },
-  {
-    name: "Frank",
-    color: 0x44ffff,
-    personality: { bravery: 0.2, altruism: 0.3, awareness: 0.6, description: "a panicky tourist" },
-  },
-  {
-    name: "Grace",
-    color: 0xffff44,
-    personality: { bravery: 0.7, altruism: 0.7, awareness: 0.5, description: "a resourceful paramedic" },
-  },
-  {
-    name: "Hank",
-    color: 0x88ff88,
-    personality: { bravery: 0.4, altruism: 0.6, awareness: 0.4, description: "a distracted jogger" },
-  },
-];
-
 /**
  * Phase A: Set up ECS world, event bus, obstacles, load agent model.
  * Does NOT spawn agents or start simulation.
@@ -643,15 +745,16 @@ const AGENT_CONFIGS: Omit<AgentConfig, "spawnPosition">[] = [
 async function initExploration(sceneGrp: THREE.Group, sceneSize: number, sampler: HeightSampler) {
   const sceneHalfSize = sceneSize / 2;
 
-  world = new SimWorld();
+  world = new SimWorld({ seed: sessionSeed });
   sharedEventBus = new EventBus();
+  landCoverRef?.spawnCells(world, (x, z) => sampler.sample(x, z));
 
-  sharedObstacles = collectObstacles(sceneGrp, sceneHalfSize);
+  sharedObstacles = collectObstacles(sceneGrp, buildingRegistry, sceneHalfSize);
   sharedSceneGroup = sceneGrp;
   sharedSceneSize = sceneSize;
 
   // Build road navigation graph from road polylines
-  sharedRoadGraph = roadLinesRef.length > 0 ? new RoadGraph(roadLinesRef) : null;
+  sharedRoadGraph = roadLinesRef.length > 0 ? new RoadGraph(roadLinesRef, world.rng) : null;
 
   agentManager = new AgentManager(world, scene);
   info.textContent = "Loading agent model...";
@@ -665,7 +768,7 @@ async function initExploration(sceneGrp: THREE.Group, sceneSize: number, sampler
   }
 
   explorationReady = true;
-  info.textContent = "Explore the area. Select a scenario to begin simulation.";
+  info.textContent = "Explore the area. Select a scenario to begin simulation. Ctrl+E exports the city as GLB.";
   console.log("[Agents] Exploration phase ready — awaiting scenario selection");
 }
 
@@ -685,6 +788,8 @@ function launchScenario(scenarioId: string) {
   // Set disaster type early so SteppedSimulation picks it up before scenario.launch()
   if (scenarioId === "tornado" || scenarioId === "earthquake" || scenarioId === "flood") {
     activeDisasterType = scenarioId;
+  } else if (scenarioId in CASCADES) {
+    activeDisasterType = "earthquake";
   } else {
     activeDisasterType = null;
   }
@@ -693,31 +798,7 @@ function launchScenario(scenarioId: string) {
   const sceneHalfSize = sharedSceneSize / 2;
 
   // 1. Spawn agents on roads near center (fallback to ring if not enough road nodes)
-  let spawnPositions: { x: number; z: number }[] = [];
-
-  if (sharedRoadGraph) {
-    const nearCenter = sharedRoadGraph.nodesNearCenter(35);
-    if (nearCenter.length >= AGENT_CONFIGS.length) {
-      const picked = sharedRoadGraph.spreadPick(nearCenter, AGENT_CONFIGS.length);
-      spawnPositions = picked.map(id => {
-        const pos = sharedRoadGraph!.getNodePos(id)!;
-        return findOpenPosition(pos.x, pos.z, sharedObstacles, 3);
-      });
-      console.log(`[Agents] Spawning on roads: ${spawnPositions.length} positions from ${nearCenter.length} candidates`);
-    }
-  }
-
-  // Fallback: ring around center
-  if (spawnPositions.length < AGENT_CONFIGS.length) {
-    const spawnDist = 30;
-    spawnPositions = AGENT_CONFIGS.map((_, i) => {
-      const angle = (i / AGENT_CONFIGS.length) * Math.PI * 2;
-      const ox = Math.cos(angle) * spawnDist;
-      const oz = Math.sin(angle) * spawnDist;
-      return findOpenPosition(ox, oz, sharedObstacles, 3);
-    });
-    console.log("[Agents] Fallback: spawning in ring (not enough road nodes near center)");
-  }
+  const spawnPositions = pickSpawnPositions(AGENT_CONFIGS.length, sharedRoadGraph, sharedObstacles);
 
   for (let i = 0; i < AGENT_CONFIGS.length; i++) {
     const cfg = AGENT_CONFIGS[i]!;
@@ -730,8 +811,23 @@ function launchScenario(scenarioId: string) {
   }
 
   // 2. Register ECS systems
-  const agentActionSystem = createAgentActionSystem(agentManager, sharedObstacles, sceneHalfSize, sharedRoadGraph);
-  const agentDamageSystem = createAgentDamageSystem(agentManager, sharedEventBus);
+  const shelters = new ShelterRegistry(buildingRegistry);
+  const evacuation = new EvacuationPlanner(evacuationPointsRef, sharedRoadGraph, () => world!.time);
+  const routing = new RoutePlanner(sharedRoadGraph, () => world!.time);
+  const waterDepth = (x: number, z: number) => Math.max(flood.depthAt(x, z), tsunami.depthAt(x, z));
+  routing.setFloodDepth(waterDepth);
+  const agentActionSystem = createAgentActionSystem(agentManager, sharedEventBus, world.rng, () => world!.time, sharedObstacles, sceneHalfSize, sharedRoadGraph, shelters, evacuation, routing);
+  const agentDamageSystem = createAgentDamageSystem(agentManager, sharedEventBus, world.rng, shelters);
+  if (sharedRoadGraph) {
+    const blockage = new RoadBlockageLayer(sharedRoadGraph, sharedEventBus);
+    blockage.addSource("collapse", () => collapsedBuildingRubble(buildingRegistry));
+    blockage.addSource("tree", () => fallenTrees(treeRegistry));
+    blockage.addSource("rubble", () => quake.rubblePiles());
+    blockage.addSource("debris", () => tornado.groundedDebris());
+    blockage.setWaterDepth(waterDepth);
+    world.addSystem("roadBlockage", (_w, dt) => blockage.update(dt));
+    roadBlockage = blockage;
+  }
   world.addSystem("agentAction", agentActionSystem);
   world.addSystem("agentDamage", agentDamageSystem);
 
@@ -740,7 +836,7 @@ function launchScenario(scenarioId: string) {
   const recorder = new AgentRecorder(agentManager);
   const locationStr = landingAddress || `${landingLat}, ${landingLon}`;
 
-  const replayRecorder = new ReplayRecorder(agentManager, locationStr);
+  const replayRecorder = new ReplayRecorder(agentManager, locationStr, world.seed);
 
   // Create stats collector, heatmap overlay, and stats overlay
   const bounds = {
@@ -749,12 +845,20 @@ function launchScenario(scenarioId: string) {
     zMin: -sceneHalfSize,
     zMax: sceneHalfSize,
   };
-  simStats = new SimulationStats(sharedEventBus, agentManager, bounds);
+  simStats = new SimulationStats(sharedEventBus, agentManager, bounds, world.seed, evacuation.points);
   heatmapOverlay = new HeatmapOverlay(scene, bounds, 30);
+  routeOverlay = new RouteOverlay(scene, routing, (x, z) => sampler.sample(x, z));
   statsOverlay = new StatsOverlay();
 
   const onSimulationEnd = (data: SimulationStatsData) => {
-    statsOverlay!.show(data, heatmapOverlay!);
+    // Only runs the tornado reached get an EF survey
+    const survey = damageSurvey(buildingRegistry);
+    if (survey.exposed > 0) {
+      console.log(`[Survey] ${survey.rating !== null ? `EF${survey.rating}` : "Unrated"} from ${survey.exposed} buildings, ${(survey.agreement * 100).toFixed(0)}% matching the wind field`);
+    }
+    statsOverlay!.show(data, heatmapOverlay!, (format) => {
+      exportDamage(data, format, survey).catch((err) => console.error("[Export] Failed:", err));
+    }, survey.exposed > 0 ? survey : undefined);
   };
 
   steppedSim = new SteppedSimulation(world, agentManager, perception, recorder, sharedEventBus, replayRecorder, {
@@ -763,6 +867,7 @@ function launchScenario(scenarioId: string) {
     disasterType: activeDisasterType ?? "fire",
     maxDurationSec: 60,
   }, simStats, onSimulationEnd);
+  steppedSim.setNavigation(sharedRoadGraph, [...landmarksFromBuildings(buildingRegistry), ...evacuation.points]);
 
   // 3b. Create replay capture system
   replayCaptureSystem = new ReplayCaptureSystem(renderer, scene, agentManager, replayRecorder);
@@ -771,17 +876,75 @@ function launchScenario(scenarioId: string) {
   steppedSim.start();
 
   // 5. Launch the chosen scenario
-  scenario.launch(scene, sharedEventBus, sampler);
+  scenario.launch(scene, sharedEventBus, sampler, world.rng, world.visualRng);
 
   // 6. Hide scenario panel, show stop button
   scenarioPanel.classList.remove("visible");
   explorationReady = false;
   stopSimBtn.style.display = "block";
 
-  info.textContent = `${AGENT_CONFIGS.length} agents spawned | ${scenario.name} scenario active | Ctrl+P snapshots | Ctrl+R recording`;
+  info.textContent = `${AGENT_CONFIGS.length} agents spawned | ${scenario.name} scenario active | Ctrl+P snapshots | Ctrl+R recording | Ctrl+E export GLB | G planned routes`;
   console.log(`[Agents] Scenario "${scenario.name}" launched`);
 }
 
+/** Download the city as a georeferenced GLB, with or without the damage done so far. */
+async function exportGLB(postDisaster: boolean): Promise<void> {
+  if (!sceneGroup || !heightSampler) return;
+  info.textContent = "Exporting GLB...";
+  const glb = await exportSceneGLB(scene, sceneGroup, {
+    centerLat: landingLat,
+    centerLon: landingLon,
+    baseElevation: heightSampler.baseElevation,
+    postDisaster,
+    pristine: pristineSnapshot,
+  });
+  const url = URL.createObjectURL(new Blob([glb], { type: "model/gltf-binary" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `opendisaster-${landingLat.toFixed(4)}_${landingLon.toFixed(4)}${postDisaster ? "-damaged" : ""}.glb`;
+  a.click();
+  URL.revokeObjectURL(url);
+  info.textContent = `Exported ${(glb.byteLength / 1e6).toFixed(1)} MB GLB`;
+  console.log(`[Export] GLB ${postDisaster ? "with" : "without"} damage, ${glb.byteLength} bytes`);
+}
+
+/**
+ * Download building damage and deaths in lon/lat — GeoJSON directly,
+ * GeoPackage written by the server — or the EF damage survey as JSON.
+ */
+async function exportDamage(data: SimulationStatsData, format: ReportExport, survey: DamageSurvey): Promise<void> {
+  if (format === "survey") {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(survey, null, 2)], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `opendisaster-survey-${landingScenario}-${data.seed}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    console.log(`[Export] Damage survey of ${survey.exposed} buildings`);
+    return;
+  }
+  const damage = damageGeoJSON(landingLat, landingLon, buildingRegistry, data.agentRecords, {
+    scenario: landingScenario,
+    seed: data.seed,
+    duration: data.duration,
+  });
+  let blob: Blob;
+  if (format === "geojson") {
+    blob = new Blob([JSON.stringify(damage)], { type: "application/geo+json" });
+  } else {
+    const res = await fetch("/api/export/gpkg", { method: "POST", body: JSON.stringify(damage) });
+    if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+    blob = await res.blob();
+  }
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `opendisaster-damage-${landingScenario}-${data.seed}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+  console.log(`[Export] ${damage.features.length} features as ${format}`);
+}
+
 /** Build scenario panel UI from the registry */
 function buildScenarioPanel() {
   scenarioPanel.querySelectorAll(".scenario-card").forEach((el) => el.remove());
@@ -840,6 +1003,7 @@ stopSimBtn.addEventListener("click", async () => {
     stopFire();
     fireConfigPanel.style.display = "none";
   }
+  stopCascade();
   activeDisasterType = null;
   flood.setEventBus(null);
   tornado.setEventBus(null);
@@ -881,6 +1045,7 @@ exitSimBtn.addEventListener("click", async () => {
     stopFire();
     fireConfigPanel.style.display = "none";
   }
+  stopCascade();
   activeDisasterType = null;
   flood.setEventBus(null);
   stormTarget = 0;
@@ -899,6 +1064,7 @@ exitSimBtn.addEventListener("click", async () => {
       }
     });
     sceneGroup = null;
+    pristineSnapshot = null;
   }
 
   stopSimBtn.style.display = "none";
@@ -911,6 +1077,7 @@ exitSimBtn.addEventListener("click", async () => {
 
 // --- Load all layers ---
 let sceneGroup: THREE.Group | null = null;
+let pristineSnapshot: PristineSnapshot | null = null; // the city as loaded, for exports without the damage
 const landingRoot = document.getElementById("landing-root")!;
 let reactRoot: ReturnType<typeof createRoot> | null = null;
 
@@ -971,6 +1138,8 @@ async function loadScene(lat: number, lon: number, size: number, scenarioId: str
   }
   if (simStats) { simStats.dispose(); simStats = null; }
   if (heatmapOverlay) { heatmapOverlay.dispose(); heatmapOverlay = null; }
+  if (routeOverlay) { routeOverlay.dispose(); routeOverlay = null; }
+  roadBlockage = null;
   if (statsOverlay) { statsOverlay.dispose(); statsOverlay = null; }
   stopSimBtn.style.display = "none";
   exitSimBtn.style.display = "none";
@@ -999,6 +1168,9 @@ async function loadScene(lat: number, lon: number, size: number, scenarioId: str
   landingLon = lon;
   landingSize = size;
   landingScenario = scenarioId;
+  const urlSeed = new URLSearchParams(window.location.search).get("seed");
+  sessionSeed = urlSeed !== null && !isNaN(Number(urlSeed)) ? Number(urlSeed) >>> 0 : randomSeed();
+  console.log(`[Sim] Seed ${sessionSeed}`);
 
   function markStep(index: number, status: LoadingStep["status"]) {
     steps[index]!.status = status;
@@ -1007,11 +1179,12 @@ async function loadScene(lat: number, lon: number, size: number, scenarioId: str
 
   try {
     // Steps 0 & 1 run in parallel (map data + satellite)
-    const layersPromise = fetchLayers(lat, lon, size).then(result => {
+    const featureSourceParam = new URLSearchParams(window.location.search).get("source");
+    const layersPromise = fetchLayers(lat, lon, size, featureSourceParam).then(result => {
       markStep(0, "done");
       return result;
     });
-    const satellitePromise = fetchSatelliteImage(lat, lon, size).then(result => {
+    const satellitePromise = fetchSatelliteImage(lat, lon, size, featureSourceParam).then(result => {
       markStep(1, "done");
       return result;
     });
@@ -1056,22 +1229,29 @@ async function loadScene(lat: number, lon: number, size: number, scenarioId: str
   // Reset tornado state from previous session
   tornado.reset();
   stopTornado();
+  clearTrack(); // its points are relative to the old center
   quake.despawn();
   stopQuake();
+  shakeMapOverlay?.dispose();
+  shakeMapOverlay = null;
+  shakeMapLegend.textContent = "";
   flood.despawn();
   stopFlood();
   stopFire();
+  stopCascade();
 
-    const buildResult = buildAllLayers(layers, lat, lon, carTemplate, satelliteTexture, satBounds);
+    const buildResult = buildAllLayers(layers, lat, lon, carTemplate, satelliteTexture, satBounds, new SeededRandom(sessionSeed));
     sceneGroup = buildResult.group;
     heightSampler = buildResult.heightSampler;
     resetCarsToBase();
+    pristineSnapshot = new PristineSnapshot(sceneGroup);
     scene.add(sceneGroup);
     flood.setTerrainContext(layers, lat, lon, sun, sceneGroup);
+    tsunami.setContext({ scene, parent: sceneGroup, camera, layers, centerLat: lat, centerLon: lon, sunLight: sun }, size / 2);
     markStep(3, "done");
 
-    // Reset camera — scale distance with area size
-    const camScale = size / 500;
+    // Reset camera — scale distance with area size, but stay within view range of the centre on big scenes
+    const camScale = Math.min(size, 2000) / 500;
     camera.position.set(0, 80 * camScale, 200 * camScale);
     controls.speed = 40 * camScale;
 
@@ -1093,7 +1273,8 @@ async function loadScene(lat: number, lon: number, size: number, scenarioId: str
       if (scenario?.available) {
         sharedEventBus = new EventBus();
         heightSampler = heightSampler;
-        scenario.launch(scene, sharedEventBus, heightSampler!);
+        const rng = new SeededRandom(sessionSeed);
+        scenario.launch(scene, sharedEventBus, heightSampler!, rng, rng.split(VISUAL_STREAM));
       }
       info.textContent = "Disaster active (agents disabled)";
       markStep(4, "done");
@@ -1151,15 +1332,26 @@ function animate() {
     }
     agentManager.syncVisuals();
     agentManager.visuals.updateAnimations(dt);
+    routeOverlay?.update(dt);
   } else if (agentManager) {
     agentManager.syncVisuals();
     agentManager.visuals.updateAnimations(dt);
   }
 
+  // Building LOD follows the camera and the agents' eyes; hazards activate the chunks they reach themselves
+  if (buildingStreamerRef) {
+    const viewpoints: { x: number; z: number }[] = [camera.position];
+    for (const agent of agentManager?.agents ?? []) viewpoints.push({ x: Position.x[agent.eid]!, z: Position.z[agent.eid]! });
+    buildingStreamerRef.update(viewpoints);
+  }
+
   // Tornado & earthquake simulation ticks
   tornado.update(dt, buildingRegistry);
+  if (trackLine) trackLine.visible = activeDisasterType === "tornado";
   quake.update(dt, buildingRegistry);
+  cascade?.update(dt);
   flood.update(dt);
+  tsunami.update(dt);
   fire.setBillboardQuaternion(camera.quaternion);
   fire.update(dt);
   if (flood.active) {
@@ -1184,17 +1376,21 @@ function animate() {
     camera.position.add(shake);
 
     // Update HUD stats
-    const windMph = Math.round(tornado.getWindSpeedAtGround(
-      tornado.position.x, tornado.position.z) * 2.237);
+    const windMph = Math.round(tornado.getPeakWindSpeed() * 2.237);
     tsWind.textContent = String(windMph);
     tsDamaged.textContent = String(tornado.buildingsDamaged);
     tsDestroyed.textContent = String(tornado.buildingsDestroyed);
   }
 
   // Earthquake camera shake
-  if (quake.active) {
+  if (quake.shaking) {
     camera.position.y += quake.getGroundShakeY();
   }
+  if (quake.active && quake.sequenceLength > 0) {
+    aftershockInfo.textContent = quake.shockNumber === 0
+      ? `Mainshock · ${quake.sequenceLength} aftershocks to follow`
+      : `Aftershock ${quake.shockNumber}/${quake.sequenceLength}: M${quake.magnitude.toFixed(1)}${quake.shaking ? "" : " (quiet)"}`;
+  }
 
   // Clamp camera to rendered terrain bounds
   if (terrainBoundsRef) {
@@ -1209,7 +1405,7 @@ function animate() {
   camera.position.y = Math.min(maxY, Math.max(minY, camera.position.y));
 
   // Apply quake jitter after clamp
-  if (quake.active) {
+  if (quake.shaking) {
     camera.position.add(quake.getCameraJitter());
     const groundYAfter = getTerrainHeight(camera.position.x, camera.position.z);
     if (camera.position.y < groundYAfter + 2) camera.position.y = groundYAfter + 2;
@@ -1226,7 +1422,11 @@ function animate() {
   }
 
   const pos = camera.position;
-  hud.textContent = `pos: (${pos.x.toFixed(1)}, ${pos.y.toFixed(1)}, ${pos.z.toFixed(1)})  |  WASD move · Mouse look · Space ↑ · Shift ↓`;
+  const roadsText = roadBlockage && roadBlockage.blockedCount + roadBlockage.slowedCount > 0
+    ? `  |  roads: ${roadBlockage.blockedCount} blocked, ${roadBlockage.slowedCount} slowed`
+    : "";
+  const hazardsText = cascade ? `  |  hazards: ${cascade.label}` : "";
+  hud.textContent = `pos: (${pos.x.toFixed(1)}, ${pos.y.toFixed(1)}, ${pos.z.toFixed(1)})${hazardsText}${roadsText}  |  WASD move · Mouse look · Space ↑ · Shift ↓`;
 
   renderer.render(scene, camera);
 
@@ -0,0 +1,530 @@
+/**
+ * Server-side: build OverpassLayers from local data instead of the Overpass
+ * API — an OSM extract (.osm.pbf or .osm XML) or a GeoJSON layout — so scenes
+ * load without network access.
+ *
+ * Elements go through the same `categorize` as Overpass results. Ways are kept
+ * when they touch the bounding box, with the nodes that lie within half a box
+ * of it (longer ways are cut there). Extracts must be sorted nodes → ways →
+ * relations, as osmium and Geofabrik produce them.
+ */
+
+import { basename } from "path";
+import { inflateSync } from "zlib";
+import { categorize, type OverpassElement, type OverpassLayers } from "./overpass.ts";
+
+export interface Bbox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/** The extract or GeoJSON layout itself is malformed — bad input, not a failing source. */
+export class OsmImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OsmImportError";
+  }
+}
+
+type LatLon = { lat: number; lon: number };
+type Tags = Record<string, string>;
+type Member = { type: string; ref: number; role: string };
+
+function inside(p: LatLon, b: Bbox): boolean {
+  return p.lat >= b.south && p.lat <= b.north && p.lon >= b.west && p.lon <= b.east;
+}
+
+/** Collects elements around the bounding box as a parser streams through an extract. */
+class OsmCollector {
+  readonly elements: OverpassElement[] = [];
+  private box: Bbox;
+  private padded: Bbox;
+  private nodes = new Map<number, LatLon>();
+  private wayGeometry = new Map<number, LatLon[]>();
+
+  constructor(box: Bbox) {
+    this.box = box;
+    const dLat = (box.north - box.south) / 2;
+    const dLon = (box.east - box.west) / 2;
+    this.padded = { south: box.south - dLat, north: box.north + dLat, west: box.west - dLon, east: box.east + dLon };
+  }
+
+  node(id: number, lat: number, lon: number, tags: Tags | null): void {
+    const p = { lat, lon };
+    if (!inside(p, this.padded)) return;
+    this.nodes.set(id, p);
+    if (tags && inside(p, this.box)) this.elements.push({ type: "node", id, lat, lon, tags });
+  }
+
+  way(id: number, refs: number[], tags: Tags | null): void {
+    const geometry: LatLon[] = [];
+    for (const ref of refs) {
+      const p = this.nodes.get(ref);
+      if (p) geometry.push(p);
+    }
+    if (geometry.length < 2) return;
+    // Untagged ways are kept too — they may be multipolygon members
+    this.wayGeometry.set(id, geometry);
+    if (tags && geometry.some((p) => inside(p, this.box))) this.elements.push({ type: "way", id, tags, geometry });
+  }
+
+  relation(id: number, members: Member[], tags: Tags | null): void {
+    if (!tags || tags.type !== "multipolygon") return;
+    const resolved: NonNullable<OverpassElement["members"]> = [];
+    let touches = false;
+    for (const m of members) {
+      if (m.type !== "way") continue;
+      const geometry = this.wayGeometry.get(m.ref);
+      if (!geometry) continue;
+      touches ||= geometry.some((p) => inside(p, this.box));
+      resolved.push({ type: "way", role: m.role, geometry });
+    }
+    if (touches) this.elements.push({ type: "relation", id, tags, members: resolved });
+  }
+}
+
+// ─── .osm.pbf ───────────────────────────────────────────────────────────────
+
+/** Minimal protobuf reader — just what the OSM PBF messages need. */
+class ProtoReader {
+  field = 0;
+  private wire = 0;
+  private pos: number;
+  private end: number;
+
+  constructor(private buf: Uint8Array, start = 0, end = buf.length) {
+    this.pos = start;
+    this.end = end;
+  }
+
+  /** Advance to the next field; false at the end of the message. */
+  next(): boolean {
+    if (this.pos >= this.end) return false;
+    const key = this.varint();
+    this.field = Math.floor(key / 8);
+    this.wire = key & 7;
+    return true;
+  }
+
+  varint(): number {
+    let result = 0;
+    let mul = 1;
+    let b: number;
+    do {
+      b = this.buf[this.pos++]!;
+      result += (b & 0x7f) * mul;
+      mul *= 128;
+    } while (b & 0x80);
+    return result;
+  }
+
+  svarint(): number {
+    const n = this.varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  /** Plain int64: negative values are ten-byte two's complement varints, past a double's precision. */
+  int64(): number {
+    let result = 0n;
+    let shift = 0n;
+    let b: number;
+    do {
+      b = this.buf[this.pos++]!;
+      result |= BigInt(b & 0x7f) << shift;
+      shift += 7n;
+    } while (b & 0x80);
+    return Number(BigInt.asIntN(64, result));
+  }
+
+  bytes(): Uint8Array {
+    const len = this.varint();
+    const out = this.buf.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return out;
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes());
+  }
+
+  /** Reader over a length-delimited sub-message. */
+  message(): ProtoReader {
+    const len = this.varint();
+    const sub = new ProtoReader(this.buf, this.pos, this.pos + len);
+    this.pos += len;
+    return sub;
+  }
+
+  /** Values of a packed repeated field. */
+  packed(read: (r: ProtoReader) => number): number[] {
+    const sub = this.message();
+    const out: number[] = [];
+    while (sub.pos < sub.end) out.push(read(sub));
+    return out;
+  }
+
+  skip(): void {
+    if (this.wire === 0) this.varint();
+    else if (this.wire === 1) this.pos += 8;
+    else if (this.wire === 2) this.pos += this.varint();
+    else if (this.wire === 5) this.pos += 4;
+    else throw new OsmImportError(`Unsupported protobuf wire type ${this.wire}`);
+  }
+}
+
+const varint = (r: ProtoReader) => r.varint();
+const svarint = (r: ProtoReader) => r.svarint();
+
+function deltaDecode(values: number[]): number[] {
+  let acc = 0;
+  return values.map((v) => (acc += v));
+}
+
+function tagsOf(keys: number[], vals: number[], strings: string[]): Tags | null {
+  if (keys.length === 0) return null;
+  const tags: Tags = {};
+  keys.forEach((k, i) => { tags[strings[k]!] = strings[vals[i]!]!; });
+  return tags;
+}
+
+/** Decode one OSMData PrimitiveBlock into the collector. */
+function readPrimitiveBlock(data: Uint8Array, out: OsmCollector): void {
+  const groups: Uint8Array[] = [];
+  const strings: string[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+  const block = new ProtoReader(data);
+  while (block.next()) {
+    if (block.field === 1) {
+      const table = block.message();
+      while (table.next()) {
+        if (table.field === 1) strings.push(table.string());
+        else table.skip();
+      }
+    } else if (block.field === 2) groups.push(block.bytes());
+    else if (block.field === 17) granularity = block.varint();
+    else if (block.field === 19) latOffset = block.int64();
+    else if (block.field === 20) lonOffset = block.int64();
+    else block.skip();
+  }
+  const coord = (offset: number, v: number) => 1e-9 * (offset + granularity * v);
+
+  for (const groupBytes of groups) {
+    const group = new ProtoReader(groupBytes);
+    while (group.next()) {
+      const msg = group.field >= 1 && group.field <= 4 ? group.message() : (group.skip(), null);
+      if (!msg) continue;
+      let id = 0;
+      let keys: number[] = [];
+      let vals: number[] = [];
+
+      if (group.field === 1) {
+        let lat = 0;
+        let lon = 0;
+        while (msg.next()) {
+          if (msg.field === 1) id = msg.svarint();
+          else if (msg.field === 2) keys = msg.packed(varint);
+          else if (msg.field === 3) vals = msg.packed(varint);
+          else if (msg.field === 8) lat = msg.svarint();
+          else if (msg.field === 9) lon = msg.svarint();
+          else msg.skip();
+        }
+        out.node(id, coord(latOffset, lat), coord(lonOffset, lon), tagsOf(keys, vals, strings));
+      } else if (group.field === 2) {
+        let ids: number[] = [];
+        let lats: number[] = [];
+        let lons: number[] = [];
+        let keysVals: number[] = [];
+        while (msg.next()) {
+          if (msg.field === 1) ids = deltaDecode(msg.packed(svarint));
+          else if (msg.field === 8) lats = deltaDecode(msg.packed(svarint));
+          else if (msg.field === 9) lons = deltaDecode(msg.packed(svarint));
+          else if (msg.field === 10) keysVals = msg.packed(varint);
+          else msg.skip();
+        }
+        // keys_vals: k, v, k, v, …, 0 per node
+        let kv = 0;
+        for (let i = 0; i < ids.length; i++) {
+          let tags: Tags | null = null;
+          while (kv < keysVals.length && keysVals[kv] !== 0) {
+            tags ??= {};
+            tags[strings[keysVals[kv]!]!] = strings[keysVals[kv + 1]!]!;
+            kv += 2;
+          }
+          kv++;
+          out.node(ids[i]!, coord(latOffset, lats[i]!), coord(lonOffset, lons[i]!), tags);
+        }
+      } else if (group.field === 3) {
+        let refs: number[] = [];
+        while (msg.next()) {
+          if (msg.field === 1) id = msg.varint();
+          else if (msg.field === 2) keys = msg.packed(varint);
+          else if (msg.field === 3) vals = msg.packed(varint);
+          else if (msg.field === 8) refs = deltaDecode(msg.packed(svarint));
+          else msg.skip();
+        }
+        out.way(id, refs, tagsOf(keys, vals, strings));
+      } else {
+        let roles: number[] = [];
+        let memids: number[] = [];
+        let types: number[] = [];
+        while (msg.next()) {
+          if (msg.field === 1) id = msg.varint();
+          else if (msg.field === 2) keys = msg.packed(varint);
+          else if (msg.field === 3) vals = msg.packed(varint);
+          else if (msg.field === 8) roles = msg.packed(varint);
+          else if (msg.field === 9) memids = deltaDecode(msg.packed(svarint));
+          else if (msg.field === 10) types = msg.packed(varint);
+          else msg.skip();
+        }
+        const members = memids.map((ref, i) => ({
+          type: types[i] === 0 ? "node" : types[i] === 1 ? "way" : "relation",
+          ref,
+          role: strings[roles[i]!] ?? "",
+        }));
+        out.relation(id, members, tagsOf(keys, vals, strings));
+      }
+    }
+  }
+}
+
+/** Stream an .osm.pbf blob by blob (raw or zlib blobs). */
+async function readPbf(path: string, out: OsmCollector): Promise<void> {
+  const file = Bun.file(path);
+  const size = file.size;
+  let pos = 0;
+  const truncated = () => new OsmImportError(`${basename(path)}: truncated at byte ${pos}`);
+  while (pos < size) {
+    if (pos + 4 > size) throw truncated();
+    const headerLen = new DataView(await file.slice(pos, pos + 4).arrayBuffer()).getUint32(0, false);
+    if (pos + 4 + headerLen > size) throw truncated();
+    const header = new ProtoReader(new Uint8Array(await file.slice(pos + 4, pos + 4 + headerLen).arrayBuffer()));
+    let type = "";
+    let dataSize = 0;
+    while (header.next()) {
+      if (header.field === 1) type = header.string();
+      else if (header.field === 3) dataSize = header.varint();
+      else header.skip();
+    }
+    const blobStart = pos + 4 + headerLen;
+    if (blobStart + dataSize > size) throw truncated();
+    pos = blobStart + dataSize;
+    if (type !== "OSMData") continue;
+
+    const blob = new ProtoReader(new Uint8Array(await file.slice(blobStart, blobStart + dataSize).arrayBuffer()));
+    let data: Uint8Array | null = null;
+    while (blob.next()) {
+      if (blob.field === 1) data = blob.bytes();
+      else if (blob.field === 3) data = new Uint8Array(inflateSync(blob.bytes()));
+      else if (blob.field === 4 || blob.field === 6 || blob.field === 7) {
+        throw new OsmImportError(`${basename(path)}: only raw and zlib PBF blobs are supported`);
+      } else blob.skip();
+    }
+    if (data) readPrimitiveBlock(data, out);
+  }
+}
+
+// ─── .osm XML ───────────────────────────────────────────────────────────────
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+/**
+ * Splits XML text into tags as it arrives in chunks. A tag ends at the first
+ * `>` outside quotes, so attribute values may hold `>`; comments, CDATA and
+ * text between tags are dropped.
+ */
+class XmlTagScanner {
+  private buf = "";
+
+  constructor(private onTag: (tag: string) => void) {}
+
+  /** Scan the next chunk; a tag cut off at its end waits for the following one. */
+  push(chunk: string): void {
+    this.buf += chunk;
+    let pos = 0;
+    for (;;) {
+      const start = this.buf.indexOf("<", pos);
+      if (start < 0) {
+        pos = this.buf.length;
+        break;
+      }
+      const end = this.tagEnd(start);
+      if (end < 0) {
+        pos = start;
+        break;
+      }
+      const tag = this.buf.slice(start, end + 1);
+      if (!tag.startsWith("<!") && !tag.startsWith("<?")) this.onTag(tag);
+      pos = end + 1;
+    }
+    this.buf = this.buf.slice(pos);
+  }
+
+  /** Index of the `>` closing the tag opened at `start`, or -1 if it hasn't arrived yet. */
+  private tagEnd(start: number): number {
+    const buf = this.buf;
+    if (buf.startsWith("<!--", start)) return closeAfter(buf.indexOf("-->", start + 4), 2);
+    if (buf.startsWith("<![CDATA[", start)) return closeAfter(buf.indexOf("]]>", start + 9), 2);
+    let quote = "";
+    for (let i = start + 1; i < buf.length; i++) {
+      const c = buf[i]!;
+      if (quote) {
+        if (c === quote) quote = "";
+      } else if (c === "\"" || c === "'") quote = c;
+      else if (c === ">") return i;
+    }
+    return -1;
+  }
+}
+
+function closeAfter(found: number, offset: number): number {
+  return found < 0 ? -1 : found + offset;
+}
+
+function xmlAttrs(s: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of s.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]!] = (m[2] ?? m[3] ?? "").replace(/&(amp|lt|gt|quot|apos);/g, (_, e: string) => XML_ENTITIES[e]!);
+  }
+  return attrs;
+}
+
+/** Stream OSM XML (as written by JOSM, osmium or the OSM API) tag by tag. */
+async function readOsmXml(path: string, out: OsmCollector): Promise<void> {
+  let current: { kind: string; attrs: Record<string, string>; tags: Tags | null; refs: number[]; members: Member[] } | null = null;
+  const finish = () => {
+    if (!current) return;
+    const id = Number(current.attrs.id);
+    if (current.kind === "node") out.node(id, Number(current.attrs.lat), Number(current.attrs.lon), current.tags);
+    else if (current.kind === "way") out.way(id, current.refs, current.tags);
+    else out.relation(id, current.members, current.tags);
+    current = null;
+  };
+
+  const scanner = new XmlTagScanner((tag) => {
+    const m = tag.match(/^<(\/?)(node|way|relation|tag|nd|member)\b([\s\S]*?)(\/?)>$/);
+    if (!m) return;
+    const [, closing, name, body, selfClosing] = m as unknown as [string, string, string, string, string];
+    if (closing) {
+      if (current && current.kind === name) finish();
+      return;
+    }
+    const attrs = xmlAttrs(body);
+    if (name === "node" || name === "way" || name === "relation") {
+      finish();
+      current = { kind: name, attrs, tags: null, refs: [], members: [] };
+      if (selfClosing) finish();
+    } else if (current) {
+      if (name === "tag") (current.tags ??= {})[attrs.k ?? ""] = attrs.v ?? "";
+      else if (name === "nd") current.refs.push(Number(attrs.ref));
+      else current.members.push({ type: attrs.type ?? "", ref: Number(attrs.ref), role: attrs.role ?? "" });
+    }
+  });
+
+  const reader = Bun.file(path).stream().getReader();
+  const decoder = new TextDecoder();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    scanner.push(decoder.decode(chunk.value, { stream: true }));
+  }
+  scanner.push(decoder.decode());
+  finish();
+}
+
+// ─── GeoJSON ────────────────────────────────────────────────────────────────
+
+interface GeoJsonFeature {
+  id?: string | number;
+  properties?: Record<string, unknown> | null;
+  geometry?: { type: string; coordinates: unknown } | null;
+}
+
+function isPosition(c: unknown): c is number[] {
+  return Array.isArray(c) && c.length >= 2 && Number.isFinite(c[0]) && Number.isFinite(c[1]);
+}
+
+/** `coords` as an array, or an OsmImportError naming the feature. */
+function listOf(coords: unknown, feature: number): unknown[] {
+  if (!Array.isArray(coords) || coords.length === 0) throw new OsmImportError(`GeoJSON feature ${feature}: coordinates are missing or empty`);
+  return coords;
+}
+
+function ringOf(coords: unknown, feature: number): LatLon[] {
+  const ring = listOf(coords, feature);
+  if (!ring.every(isPosition)) throw new OsmImportError(`GeoJSON feature ${feature}: coordinates must be [lon, lat] number pairs`);
+  return ring.map(([lon, lat]) => ({ lat: lat!, lon: lon! }));
+}
+
+/**
+ * Elements for a GeoJSON FeatureCollection whose properties carry OSM tags
+ * (`building`, `highway`, `height`, …): points become nodes, lines and
+ * polygon outer rings become ways, multipolygons become relations.
+ */
+function geoJsonElements(data: unknown, box: Bbox): OverpassElement[] {
+  const fc = data as { type?: string; features?: GeoJsonFeature[] };
+  if (fc?.type !== "FeatureCollection" || !Array.isArray(fc.features)) {
+    throw new OsmImportError("GeoJSON must be a FeatureCollection");
+  }
+  const elements: OverpassElement[] = [];
+  fc.features.forEach((f, i) => {
+    const geom = f?.geometry;
+    if (!geom) return;
+    const tags: Tags = {};
+    for (const [k, v] of Object.entries(f.properties ?? {})) {
+      if (v !== null && typeof v !== "object") tags[k] = String(v);
+    }
+    const rawId = Number(tags.id ?? f.id);
+    const id = Number.isFinite(rawId) ? rawId : i + 1;
+    const touches = (pts: LatLon[]) => pts.some((p) => inside(p, box));
+
+    const feature = i + 1;
+
+    if (geom.type === "Point") {
+      if (!isPosition(geom.coordinates)) throw new OsmImportError(`GeoJSON feature ${feature}: a Point needs [lon, lat] numbers`);
+      const [lon, lat] = geom.coordinates;
+      if (inside({ lat: lat!, lon: lon! }, box)) elements.push({ type: "node", id, lat, lon, tags });
+    } else if (geom.type === "LineString") {
+      const geometry = ringOf(geom.coordinates, feature);
+      if (touches(geometry)) elements.push({ type: "way", id, tags, geometry });
+    } else if (geom.type === "MultiLineString") {
+      for (const line of listOf(geom.coordinates, feature)) {
+        const geometry = ringOf(line, feature);
+        if (touches(geometry)) elements.push({ type: "way", id, tags, geometry });
+      }
+    } else if (geom.type === "Polygon") {
+      const geometry = ringOf(listOf(geom.coordinates, feature)[0], feature);
+      if (touches(geometry)) elements.push({ type: "way", id, tags, geometry });
+    } else if (geom.type === "MultiPolygon") {
+      const members = listOf(geom.coordinates, feature).map((poly) => ({ type: "way", role: "outer", geometry: ringOf(listOf(poly, feature)[0], feature) }));
+      if (members.some((m) => touches(m.geometry))) elements.push({ type: "relation", id, tags, members });
+    }
+  });
+  return elements;
+}
+
+/** Layers from an uploaded GeoJSON layout — real or synthetic — clipped to the bounding box. */
+export function layersFromGeoJSON(data: unknown, box: Bbox): OverpassLayers {
+  return categorize({ elements: geoJsonElements(data, box) });
+}
+
+/** Layers from a local extract: `.osm.pbf`, `.osm` / `.xml`, or `.geojson` / `.json`. */
+export async function loadOsmExtract(path: string, box: Bbox): Promise<OverpassLayers> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`OSM extract not found: ${path}`);
+  const name = basename(path).toLowerCase();
+
+  if (name.endsWith(".geojson") || name.endsWith(".json")) {
+    const data = await file.json().catch((err: Error) => {
+      throw new OsmImportError(`${basename(path)}: ${err.message}`);
+    });
+    return layersFromGeoJSON(data, box);
+  }
+
+  const out = new OsmCollector(box);
+  if (name.endsWith(".pbf")) await readPbf(path, out);
+  else if (name.endsWith(".osm") || name.endsWith(".xml")) await readOsmXml(path, out);
+  else throw new Error(`Unknown OSM extract format: ${basename(path)} (expected .osm.pbf, .osm, .xml, .geojson)`);
+  return categorize({ elements: out.elements });
+}
@@ -1,6 +1,7 @@
 /** Server-side: fetch all urban features from Overpass API and convert to GeoJSON layers. */
 
 import type { FeatureCollection, BuildingFeature } from "./tiles.ts";
+import { parseStartYear } from "./vulnerability.ts";
 
 const OVERPASS_URL = "https://overpass-api.de/api/interpreter";
 
@@ -12,9 +13,11 @@ export interface OverpassLayers {
   trees: FeatureCollection;
   railways: FeatureCollection;
   barriers: FeatureCollection;
+  evacuation: FeatureCollection; // shelters and assembly points (may also be in `buildings`)
 }
 
-interface OverpassElement {
+/** One OSM element with its geometry inlined, as Overpass `out geom` returns it. */
+export interface OverpassElement {
   type: string;
   id: number;
   lat?: number;
@@ -28,7 +31,7 @@ interface OverpassElement {
   }[];
 }
 
-interface OverpassResponse {
+export interface OverpassResponse {
   elements: OverpassElement[];
 }
 
@@ -73,6 +76,12 @@ export async function fetchFromOverpass(
 
   // Barriers
   way["barrier"~"^(fence|wall|hedge|guard_rail|retaining_wall)$"];
+
+  // Evacuation destinations
+  node["amenity"="shelter"];
+  way["amenity"="shelter"];
+  node["emergency"="assembly_point"];
+  way["emergency"="assembly_point"];
 );
 out body geom;`;
 
@@ -100,7 +109,8 @@ out body geom;`;
   throw new Error("Overpass: max retries exceeded");
 }
 
-function categorize(data: OverpassResponse): OverpassLayers {
+/** Sort elements into layers. Also used by the local importers (osmImport.ts). */
+export function categorize(data: OverpassResponse): OverpassLayers {
   const layers: OverpassLayers = {
     buildings: { type: "FeatureCollection", features: [] },
     roads: { type: "FeatureCollection", features: [] },
@@ -109,15 +119,22 @@ function categorize(data: OverpassResponse): OverpassLayers {
     trees: { type: "FeatureCollection", features: [] },
     railways: { type: "FeatureCollection", features: [] },
     barriers: { type: "FeatureCollection", features: [] },
+    evacuation: { type: "FeatureCollection", features: [] },
   };
 
   for (const el of data.elements) {
     const tags = el.tags ?? {};
     const layer = classifyLayer(tags);
-    if (!layer) continue;
+    if (layer) {
+      const feature = elementToFeature(el, layer);
+      if (feature) layers[layer].features.push(feature);
+    }
 
-    const feature = elementToFeature(el, layer);
-    if (feature) layers[layer].features.push(feature);
+    // A shelter can be a building too — it goes in both layers
+    if (tags.amenity === "shelter" || tags.emergency === "assembly_point") {
+      const feature = elementToFeature(el, "evacuation");
+      if (feature) layers.evacuation.features.push(feature);
+    }
   }
 
   return layers;
@@ -146,6 +163,8 @@ function elementToFeature(el: OverpassElement, layer: LayerName): BuildingFeatur
   for (const [k, v] of Object.entries(tags)) {
     properties[k] = v;
   }
+  // Ids are only unique per element type — exports need both to point back at OSM
+  properties._osmType = el.type;
 
   // Parse numeric heights
   if (tags.height) properties._height = parseFloat(tags.height);
@@ -154,6 +173,11 @@ function elementToFeature(el: OverpassElement, layer: LayerName): BuildingFeatur
   if (tags.min_height) properties._minHeight = parseFloat(tags.min_height);
   if (tags.width) properties._width = parseFloat(tags.width);
   if (tags.lanes) properties._lanes = parseInt(tags.lanes, 10);
+  if (tags["building:levels"]) properties._levels = parseFloat(tags["building:levels"]);
+  if (tags.start_date) {
+    const year = parseStartYear(tags.start_date);
+    if (year !== null) properties._startYear = year;
+  }
 
   // Node → Point (trees)
   if (el.type === "node" && el.lat != null && el.lon != null) {
@@ -0,0 +1,195 @@
+import type { DecisionResponse, DecisionTarget, PerceptionPayload } from "../agents/types.ts";
+import { ACTION_VOCABULARY } from "../agents/PromptTemplates.ts";
+import { pointAtBearing } from "../agents/navigation.ts";
+
+const MAX_OBSERVATION_CHARS = 400;
+const MIN_BEARING_DISTANCE = 2;   // meters
+const MAX_BEARING_DISTANCE = 150; // meters — keeps "bearing" targets inside a typical scene
+
+/** Synonyms in ACTION_VOCABULARY collapse to the names the client acts on. */
+const CANONICAL_ACTION: Record<string, string> = {
+  MOVE_TO: "WALK_TO",
+  FLEE: "RUN_TO",
+  HELP: "HELP_AGENT",
+  CARRY_INJURED: "HELP_AGENT",
+  TAKE_COVER: "SHELTER",
+};
+
+/** A validated decision, before the target is resolved to world XZ. */
+export interface ParsedDecision {
+  observation: string;
+  danger: boolean;
+  action: string;
+  target: DecisionTarget | null;
+  rationale: string;
+}
+
+export type DecisionParseResult =
+  | { ok: true; decision: ParsedDecision }
+  | { ok: false; error: string; decision: ParsedDecision };
+
+/* ── Legacy trailing-keyword format (fallback) ───────────────────── */
+
+export function hasDanger(observation: string): boolean {
+  return /\bDANGER[\s*_\]\)!."]*$/i.test(observation.trim());
+}
+
+/** Observation text with the trailing DANGER marker removed. */
+export function stripDanger(observation: string): string {
+  return observation.replace(/[\s*_\]\)!."]*\bDANGER[\s*_\]\)!."]*$/i, "").trim();
+}
+
+/**
+ * Best effort for replies that aren't a valid decision: keep the text as the
+ * observation, and flee (no target) if it reads as dangerous.
+ */
+export function fallbackDecision(raw: string): ParsedDecision {
+  const danger = hasDanger(raw) || /"danger"\s*:\s*true/i.test(raw);
+  const observation = stripDanger(raw).slice(0, MAX_OBSERVATION_CHARS) || "I cannot see clearly.";
+  return {
+    observation,
+    danger,
+    action: danger ? "RUN_TO" : "WANDER",
+    target: null,
+    rationale: "fallback: reply was not a valid JSON decision",
+  };
+}
+
+/* ── JSON decision ───────────────────────────────────────────────── */
+
+/** Pull the first {...} object out of a reply, tolerating code fences and chatter. */
+function extractJson(raw: string): unknown {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) return undefined;
+  try {
+    return JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+function validateTarget(value: unknown, payload: PerceptionPayload): DecisionTarget | null | string {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "object") return "target must be an object or null";
+  const t = value as Record<string, unknown>;
+
+  switch (t.type) {
+    case "road_node": {
+      const id = typeof t.id === "string" ? Number(t.id) : t.id;
+      if (typeof id !== "number" || !payload.roadNodes.some((n) => n.id === id)) {
+        return `unknown road node ${String(t.id)}`;
+      }
+      return { type: "road_node", id };
+    }
+    case "landmark": {
+      const id = String(t.id);
+      if (!payload.landmarks.some((l) => l.id === id)) return `unknown landmark ${id}`;
+      return { type: "landmark", id };
+    }
+    case "agent": {
+      const index = Number(t.index);
+      if (!payload.nearbyAgents.some((a) => a.index === index)) return `unknown agent ${String(t.index)}`;
+      return { type: "agent", index };
+    }
+    case "bearing": {
+      const bearingDeg = Number(t.bearingDeg);
+      const distance = Number(t.distance);
+      if (!Number.isFinite(bearingDeg) || !Number.isFinite(distance)) {
+        return "bearing target needs numeric bearingDeg and distance";
+      }
+      return {
+        type: "bearing",
+        bearingDeg: Math.max(-180, Math.min(180, bearingDeg)),
+        distance: Math.max(MIN_BEARING_DISTANCE, Math.min(MAX_BEARING_DISTANCE, distance)),
+      };
+    }
+    default:
+      return `unknown target type ${String(t.type)}`;
+  }
+}
+
+/** Validate a raw reply against the decision schema; falls back on any error. */
+export function parseDecision(raw: string, payload: PerceptionPayload): DecisionParseResult {
+  const value = extractJson(raw);
+  const obj = value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+  const fail = (error: string): DecisionParseResult => {
+    const decision = fallbackDecision(raw);
+    // Keep whatever the model did get right
+    if (typeof obj?.observation === "string" && obj.observation.trim()) {
+      decision.observation = obj.observation.trim().slice(0, MAX_OBSERVATION_CHARS);
+    }
+    return { ok: false, error, decision };
+  };
+
+  if (!obj) return fail("no JSON object in reply");
+
+  if (typeof obj.observation !== "string" || obj.observation.trim() === "") return fail("missing observation");
+  if (typeof obj.danger !== "boolean") return fail("danger must be true or false");
+  if (typeof obj.action !== "string") return fail("missing action");
+
+  const upper = obj.action.trim().toUpperCase();
+  if (!(upper in ACTION_VOCABULARY)) return fail(`unknown action ${obj.action}`);
+  let action = CANONICAL_ACTION[upper] ?? upper;
+
+  let target = validateTarget(obj.target, payload);
+  if (typeof target === "string") return fail(target);
+
+  // A move without somewhere to go: flee if in danger, otherwise just wander
+  if (!target && action === "WALK_TO") action = "WANDER";
+  if (!target && action === "RUN_TO" && !obj.danger) action = "WANDER";
+  // Helping and following only make sense with a person to go to
+  if ((action === "HELP_AGENT" || action === "FOLLOW") && target?.type !== "agent") action = "WANDER";
+  // Shelter in a named building, or else whichever is nearest
+  if (action === "SHELTER" && target?.type !== "landmark") target = null;
+
+  return {
+    ok: true,
+    decision: {
+      observation: obj.observation.trim().slice(0, MAX_OBSERVATION_CHARS),
+      danger: obj.danger,
+      action,
+      target,
+      rationale: typeof obj.rationale === "string" ? obj.rationale.trim() : "",
+    },
+  };
+}
+
+/** World XZ for a target, using the candidates and pose sent in the payload. */
+export function resolveTarget(target: DecisionTarget, payload: PerceptionPayload): { x: number; z: number } | null {
+  switch (target.type) {
+    case "road_node": {
+      const n = payload.roadNodes.find((c) => c.id === target.id);
+      return n ? { x: n.x, z: n.z } : null;
+    }
+    case "landmark": {
+      const l = payload.landmarks.find((c) => c.id === target.id);
+      return l ? { x: l.x, z: l.z } : null;
+    }
+    case "agent": {
+      const a = payload.nearbyAgents.find((c) => c.index === target.index);
+      return a ? { x: a.x, z: a.z } : null;
+    }
+    case "bearing": {
+      const { positionX, positionZ, facingYaw } = payload.state;
+      return pointAtBearing(positionX, positionZ, facingYaw, target.bearingDeg, target.distance);
+    }
+  }
+}
+
+/** Build the wire response for a validated decision. */
+export function toDecisionResponse(decision: ParsedDecision, payload: PerceptionPayload): DecisionResponse {
+  const pos = decision.target ? resolveTarget(decision.target, payload) : null;
+  return {
+    agentIndex: payload.agentIndex,
+    observation: decision.danger ? `${decision.observation} [DANGER]` : decision.observation,
+    action: decision.action,
+    targetX: pos?.x ?? 0,
+    targetZ: pos?.z ?? 0,
+    targetEntity: pos && decision.target?.type === "agent" ? decision.target.index : -1,
+    target: pos ? decision.target : null,
+    danger: decision.danger,
+    rationale: decision.rationale,
+  };
+}
@@ -0,0 +1,116 @@
+import type { DecisionTarget, NearbyHazard, PerceptionPayload } from "../agents/types.ts";
+import { InjuryFlag } from "../core/Components.ts";
+import { relativeBearingDeg } from "../agents/navigation.ts";
+import type { PerceptionProvider } from "./PerceptionProvider.ts";
+
+/** Sight range (m): 30 m for an oblivious agent up to 80 m for a vigilant one. */
+const BASE_SIGHT = 30;
+const AWARENESS_SIGHT = 50;
+/** At most this many hazards are mentioned per observation. */
+const MAX_MENTIONS = 2;
+
+function hazardBearing(h: NearbyHazard, p: PerceptionPayload): number {
+  return relativeBearingDeg(p.state.positionX, p.state.positionZ, p.state.facingYaw, h.x, h.z);
+}
+
+/** Where a hazard is relative to the agent's facing. */
+function describeWhere(h: NearbyHazard, p: PerceptionPayload): string {
+  if (h.distance < 1) return "right here";
+  const bearing = hazardBearing(h, p);
+  const abs = Math.abs(bearing);
+  const dir = abs < 45 ? "ahead" : abs > 135 ? "behind me" : bearing > 0 ? "to my right" : "to my left";
+  return `about ${Math.round(h.distance)} m ${dir}`;
+}
+
+/** Angle between two bearings in degrees, 0–180. */
+function bearingGap(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/**
+ * Somewhere away from the hazard: the offered road node pointing furthest from
+ * it, else a bearing straight away — nearer for brave agents, farther for timid ones.
+ */
+function escapeTarget(h: NearbyHazard, p: PerceptionPayload): DecisionTarget {
+  const threat = hazardBearing(h, p);
+  let best: { id: number; gap: number } | null = null;
+  for (const n of p.roadNodes) {
+    const gap = bearingGap(n.bearingDeg, threat);
+    if (gap >= 90 && (!best || gap > best.gap)) best = { id: n.id, gap };
+  }
+  if (best) return { type: "road_node", id: best.id };
+  const away = threat > 0 ? threat - 180 : threat + 180;
+  return { type: "bearing", bearingDeg: Math.round(away), distance: Math.round(60 - 30 * p.personality.bravery) };
+}
+
+function describeHazard(h: NearbyHazard, p: PerceptionPayload): { text: string; dangerous: boolean } {
+  const where = describeWhere(h, p);
+  switch (h.type) {
+    case "FIRE_SPREAD":
+      return { text: `Flames and thick smoke are rising ${where}.`, dangerous: true };
+    case "FLOOD_LEVEL":
+      return h.intensity < 0.3
+        ? { text: `Shallow water is pooling on the ground ${where}.`, dangerous: false }
+        : { text: `Water about ${h.intensity.toFixed(1)} m deep is flowing across the street ${where}.`, dangerous: true };
+    case "WIND_FIELD_UPDATE":
+      return { text: `A dark funnel cloud with debris whirling around it is ${where}.`, dangerous: true };
+    case "GROUND_SHAKE":
+      return h.intensity < 0.05
+        ? { text: "The ground is trembling slightly.", dangerous: false }
+        : { text: "The ground is shaking hard and the buildings around me are swaying.", dangerous: true };
+    case "GROUND_DISPLACEMENT":
+      return { text: `The pavement is cracked and buckled ${where}.`, dangerous: true };
+    case "STRUCTURE_COLLAPSE":
+      return { text: `A building has collapsed into rubble ${where}.`, dangerous: true };
+    default:
+      return { text: "", dangerous: false };
+  }
+}
+
+/**
+ * Deterministic offline backend: scripts a JSON decision from the payload's
+ * state, `nearbyHazards` and navigation candidates instead of looking at the
+ * frame. Same payload in, same text out — for CI and for running without
+ * network access.
+ */
+export class MockPerceptionProvider implements PerceptionProvider {
+  readonly name = "mock";
+  readonly concurrency = Infinity;
+
+  async perceive(payload: PerceptionPayload, _disasterType: string): Promise<string> {
+    const sight = BASE_SIGHT + AWARENESS_SIGHT * payload.personality.awareness;
+    const seen = payload.nearbyHazards
+      .filter((h) => h.distance <= sight)
+      .slice(0, MAX_MENTIONS)
+      .map((h) => ({ hazard: h, ...describeHazard(h, payload) }))
+      .filter((d) => d.text.length > 0);
+
+    // Someone badly hurt in sight: altruists go to them (timid ones only when it's calm)
+    const patient = payload.nearbyAgents.find((a) => (a.injured & (InjuryFlag.MAJOR | InjuryFlag.CRITICAL)) !== 0 && a.distance <= sight);
+
+    const parts = seen.map((d) => d.text);
+    if (patient) parts.push(`${patient.name} is lying hurt about ${Math.round(patient.distance)} m away.`);
+    if (parts.length === 0) parts.push("A quiet street lined with buildings and trees; nothing looks out of place.");
+    if (payload.state.trapped) parts.push("I am pinned under rubble and can't get out on my own.");
+    else if (payload.state.health < 50) parts.push("I am hurt and moving slowly.");
+
+    // nearbyHazards is sorted nearest-first, so this is the closest threat
+    const threat = seen.find((d) => d.dangerous);
+    const { altruism, bravery } = payload.personality;
+    const helps = !!patient && altruism >= 0.5 && (!threat || bravery >= 0.5);
+    // No outrunning a tornado — get indoors; when shaking, only the timid duck inside
+    const shelters = !!threat && (threat.hazard.type === "WIND_FIELD_UPDATE" || (threat.hazard.type === "GROUND_SHAKE" && bravery < 0.5));
+
+    const decision = payload.state.trapped
+      ? { action: "IDLE", target: null, rationale: "Waiting for someone to dig me out." }
+      : helps
+        ? { action: "HELP_AGENT", target: { type: "agent", index: patient!.index }, rationale: `${patient!.name} needs help.` }
+        : shelters
+          ? { action: "SHELTER", target: null, rationale: "Taking cover inside the nearest sturdy building." }
+          : threat
+            ? { action: "RUN_TO", target: escapeTarget(threat.hazard, payload), rationale: "Getting away from the nearest danger." }
+            : { action: "WANDER", target: null, rationale: "Nothing threatening in sight." };
+    return JSON.stringify({ observation: parts.join(" "), danger: !!threat, ...decision });
+  }
+}
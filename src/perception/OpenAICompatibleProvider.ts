@@ -0,0 +1,74 @@
+import type { PerceptionPayload } from "../agents/types.ts";
+import type { PerceptionProvider } from "./PerceptionProvider.ts";
+import { decisionPrompt } from "./prompts.ts";
+
+export interface OpenAICompatibleConfig {
+  name?: string;
+  baseUrl: string;            // e.g. https://api.featherless.ai/v1, http://localhost:11434/v1
+  model: string;
+  apiKeys?: string[];         // rotated per request; empty for keyless local servers
+  maxTokens?: number;
+  concurrencyPerKey?: number;
+}
+
+/**
+ * Any `/chat/completions` endpoint that accepts image_url content parts —
+ * Featherless, OpenAI, vLLM, llama.cpp `llama-server`, Ollama.
+ */
+export class OpenAICompatibleProvider implements PerceptionProvider {
+  readonly name: string;
+  readonly concurrency: number;
+  private endpoint: string;
+  private model: string;
+  private apiKeys: string[];
+  private maxTokens: number;
+  private nextKey = 0;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name ?? `openai-compatible(${config.model})`;
+    this.endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    this.model = config.model;
+    this.apiKeys = config.apiKeys?.filter(Boolean) ?? [];
+    this.maxTokens = config.maxTokens ?? 300;
+    this.concurrency = Math.max(1, this.apiKeys.length) * (config.concurrencyPerKey ?? 2);
+  }
+
+  async perceive(payload: PerceptionPayload, disasterType: string): Promise<string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKeys.length > 0) {
+      headers.Authorization = `Bearer ${this.apiKeys[this.nextKey++ % this.apiKeys.length]}`;
+    }
+
+    const res = await fetch(this.endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "image_url",
+                image_url: { url: `data:image/jpeg;base64,${payload.frameBase64}` },
+              },
+              {
+                type: "text",
+                text: decisionPrompt(payload, disasterType),
+              },
+            ],
+          },
+        ],
+      }),
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`VLM error ${res.status}: ${text}`);
+    }
+
+    const json = (await res.json()) as any;
+    return json.choices?.[0]?.message?.content ?? "I cannot see clearly.";
+  }
+}
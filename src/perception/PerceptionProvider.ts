@@ -0,0 +1,15 @@
+/** Server-side: pluggable "what does this agent see and do?" backends for the perceive → decide loop. */
+
+import type { PerceptionPayload } from "../agents/types.ts";
+
+export interface PerceptionProvider {
+  /** Short label for logs. */
+  readonly name: string;
+  /** How many perceive() calls may be in flight at once. */
+  readonly concurrency: number;
+  /**
+   * Raw model reply for one agent — expected to be a JSON decision as asked
+   * for by decisionPrompt(); validated (with fallback) by parseDecision().
+   */
+  perceive(payload: PerceptionPayload, disasterType: string): Promise<string>;
+}
@@ -0,0 +1,53 @@
+import type { PerceptionProvider } from "./PerceptionProvider.ts";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.ts";
+import { MockPerceptionProvider } from "./MockPerceptionProvider.ts";
+
+const FEATHERLESS_BASE_URL = "https://api.featherless.ai/v1";
+const FEATHERLESS_MODEL = "google/gemma-3-27b-it";
+
+/**
+ * Pick the perception backend from the environment:
+ *
+ *   PERCEPTION_PROVIDER=featherless  FEATHERLESS_API_KEY[_2.._4]   (default when a key is set)
+ *   PERCEPTION_PROVIDER=openai       VLM_BASE_URL, VLM_MODEL, VLM_API_KEY (optional for local servers)
+ *   PERCEPTION_PROVIDER=mock         scripted, offline, deterministic
+ *   PERCEPTION_PROVIDER=none         no perception — agents auto-wander (default without keys)
+ */
+export function createPerceptionProvider(env: Record<string, string | undefined> = process.env): PerceptionProvider | null {
+  const featherlessKeys = [
+    env.FEATHERLESS_API_KEY ?? "",
+    env.FEATHERLESS_API_KEY_2 ?? "",
+    env.FEATHERLESS_API_KEY_3 ?? "",
+    env.FEATHERLESS_API_KEY_4 ?? "",
+  ].filter(Boolean);
+
+  const kind = (env.PERCEPTION_PROVIDER ?? (featherlessKeys.length > 0 ? "featherless" : "none")).toLowerCase();
+
+  switch (kind) {
+    case "featherless":
+      if (featherlessKeys.length === 0) {
+        throw new Error("PERCEPTION_PROVIDER=featherless needs FEATHERLESS_API_KEY");
+      }
+      return new OpenAICompatibleProvider({
+        name: `featherless (${featherlessKeys.length} key${featherlessKeys.length > 1 ? "s" : ""})`,
+        baseUrl: FEATHERLESS_BASE_URL,
+        model: env.VLM_MODEL ?? FEATHERLESS_MODEL,
+        apiKeys: featherlessKeys,
+      });
+    case "openai":
+      if (!env.VLM_BASE_URL || !env.VLM_MODEL) {
+        throw new Error("PERCEPTION_PROVIDER=openai needs VLM_BASE_URL and VLM_MODEL");
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: env.VLM_BASE_URL,
+        model: env.VLM_MODEL,
+        apiKeys: env.VLM_API_KEY ? [env.VLM_API_KEY] : [],
+      });
+    case "mock":
+      return new MockPerceptionProvider();
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown PERCEPTION_PROVIDER "${kind}" (expected featherless | openai | mock | none)`);
+  }
+}
@@ -0,0 +1,87 @@
+import type { AgentCandidate, PerceptionPayload } from "../agents/types.ts";
+import { InjuryFlag } from "../core/Components.ts";
+
+export const DANGER_HINTS: Record<string, string> = {
+  fire: "Look out for fire related danger: any signs of fire, smoke, etc.",
+  tornado: "Look out for tornado related danger: a funnel cloud, flying debris, strong winds, or structural damage.",
+  earthquake: "Look out for earthquake related danger: shaking, cracking ground, collapsing structures, or falling debris.",
+  flood: "Look out for flood related danger: rising water, submerged roads, or fast-moving currents.",
+  tsunami: "Look out for tsunami related danger: the sea pulling back, a wall of water coming ashore, or water racing inland.",
+};
+
+/** Hints for every hazard in `disasterType` — one name, or several joined with "+" when hazards cascade. */
+export function dangerHints(disasterType: string): string {
+  const hints = disasterType.split("+").map((t) => DANGER_HINTS[t]).filter((h) => h !== undefined);
+  if (hints.length === 0) return DANGER_HINTS["fire"]!;
+  return hints.length > 1 ? `Several disasters are unfolding at once. ${hints.join(" ")}` : hints[0]!;
+}
+
+function level(v: number): string {
+  return v >= 0.7 ? "high" : v >= 0.4 ? "moderate" : "low";
+}
+
+/** How the personality sliders should colour the decision. */
+function personalityGuidance(p: PerceptionPayload["personality"]): string {
+  const lines: string[] = [];
+  if (p.bravery >= 0.7) lines.push("You stay calm under pressure and will take calculated risks.");
+  else if (p.bravery < 0.4) lines.push("You scare easily and want to put a lot of distance between you and anything threatening.");
+  if (p.altruism >= 0.7) lines.push("You care about the people around you and head toward them if they look hurt or trapped.");
+  else if (p.altruism < 0.4) lines.push("You look out for yourself first.");
+  if (p.awareness < 0.4) lines.push("You are easily distracted and may overlook subtle warning signs.");
+  return lines.join(" ");
+}
+
+function recent(items: string[], n: number): string {
+  const last = items.slice(-n);
+  return last.length > 0 ? last.map((s) => `- ${s}`).join("\n") : "- (none)";
+}
+
+function condition(a: AgentCandidate): string {
+  if (a.trapped) return "trapped under rubble";
+  if (a.injured & InjuryFlag.CRITICAL) return "critically injured, can barely move";
+  if (a.injured & InjuryFlag.MAJOR) return "injured, limping";
+  if (a.injured & InjuryFlag.MINOR) return "lightly hurt";
+  return "unhurt";
+}
+
+function signedDeg(deg: number): string {
+  const r = Math.round(deg);
+  return r > 0 ? `+${r}°` : `${r}°`;
+}
+
+/** Text sent alongside the POV frame, asking for a JSON decision. */
+export function decisionPrompt(payload: PerceptionPayload, disasterType: string): string {
+  const { personality: p, state: s, memory } = payload;
+
+  const roadNodes = payload.roadNodes.length > 0
+    ? payload.roadNodes.map((n) => `- road node ${n.id}: ${Math.round(n.distance)} m at ${signedDeg(n.bearingDeg)}`).join("\n")
+    : "- (none)";
+  const landmarks = payload.landmarks.length > 0
+    ? payload.landmarks.map((l) => `- landmark ${l.id} "${l.name}": ${Math.round(l.distance)} m at ${signedDeg(l.bearingDeg)}`).join("\n")
+    : "- (none)";
+  const people = payload.nearbyAgents.length > 0
+    ? payload.nearbyAgents.map((a) => `- person ${a.index} (${a.name}, ${condition(a)}): ${Math.round(a.distance)} m at ${signedDeg(a.bearingDeg)}`).join("\n")
+    : "- (none)";
+
+  return `You are ${payload.name}, ${p.description}, in a 3D low-polygon disaster simulation. The image is your point of view. It is normal for it to look simplistic and blocky, and for humans to be low-polygon and colorful, so don't comment on that.
+
+Personality: bravery ${level(p.bravery)}, altruism ${level(p.altruism)}, awareness ${level(p.awareness)}. ${personalityGuidance(p)}
+Your state: health ${Math.round(s.health)}/100, stamina ${Math.round(s.stamina)}/100, panic ${Math.round(s.panicLevel * 100)}%${s.injured ? ", injured" : ""}${s.trapped ? ", trapped under rubble" : ""}.
+Recent observations:
+${recent(memory.observations, 3)}
+Recent decisions:
+${recent(memory.decisions, 3)}
+
+${dangerHints(disasterType)} Err on the side of caution.
+
+Places you can go (bearing is degrees from straight ahead, + = right, - = left):
+${roadNodes}
+${landmarks}
+
+People near you:
+${people}
+
+Reply with ONLY a JSON object, no prose and no code fences:
+{"observation": "<what you see, 1-2 sentences>", "danger": <true|false>, "action": "<WANDER|IDLE|WALK_TO|RUN_TO|HELP_AGENT|FOLLOW|SHELTER>", "target": <null | {"type": "road_node", "id": <road node id>} | {"type": "landmark", "id": "<landmark id>"} | {"type": "bearing", "bearingDeg": <-180 to 180>, "distance": <meters>} | {"type": "agent", "index": <person number>}>, "rationale": "<why, one sentence>"}
+WALK_TO and RUN_TO need a target. HELP_AGENT (go to an injured person and help them to safety) and FOLLOW (stay with someone) need a person as the target. SHELTER takes cover inside the nearest sturdy building (or the landmark you give as target) — good against wind and flying debris, but buildings can collapse in a strong earthquake. If you see danger, set "danger" to true and RUN_TO somewhere away from it.`;
+}
@@ -11,16 +11,18 @@ export class ReplayRecorder {
   private sessionId: string;
   private startTime: number;
   private location: string;
+  private seed: number;
   private manager: AgentManager;
   private simStartPerf: number;
 
-  constructor(manager: AgentManager, location: string) {
+  constructor(manager: AgentManager, location: string, seed: number) {
     this.manager = manager;
     this.location = location;
+    this.seed = seed;
     this.sessionId = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
     this.startTime = Date.now();
     this.simStartPerf = performance.now();
-    console.log(`[ReplayRecorder] Created: ${this.sessionId}, location: "${location}"`);
+    console.log(`[ReplayRecorder] Created: ${this.sessionId}, location: "${location}", seed: ${seed}`);
   }
 
   getSessionId(): string {
@@ -88,6 +90,7 @@ export class ReplayRecorder {
       startTime: this.startTime,
       endTime: Date.now(),
       durationSec,
+      seed: this.seed,
       agents,
       vlmEntries: this.vlmEntries,
     };
@@ -37,6 +37,8 @@ export interface ReplaySession {
   startTime: number; // Date.now() at start
   endTime: number;   // Date.now() at finalize
   durationSec: number;
+  /** SimWorld PRNG seed (absent on sessions recorded before seeding). */
+  seed?: number;
   agents: { name: string; color: number }[];
   vlmEntries: ReplayVLMEntry[];
   /** Cached audio clips per agent, keyed by agent index. */
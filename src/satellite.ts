@@ -0,0 +1,394 @@
+/**
+ * Server-side: satellite imagery for a scene, stitched into one image per
+ * request from the configured provider.
+ *
+ * Tiles (PNG or JPEG) are decoded, composited into one raster and sent as a
+ * JPEG; the land-use fallback has no tiles and is drawn as an SVG of vector
+ * shapes. Each image covers exactly the square
+ * `computeSatelliteBounds(lat, zoom, tilesPerAxis)` describes.
+ */
+
+import { Database } from "bun:sqlite";
+import { basename } from "path";
+import * as jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import { getTile, putTile, type CachedTile } from "./cache.ts";
+import { loadLayerData, type FeatureSource } from "./layerSource.ts";
+import { metersPerDegree, roadWidth, type BuildingFeature, type FeatureCollection } from "./tiles.ts";
+
+const TILE_SIZE = 256;              // XYZ tile edge, px
+const VIEW_PX = 640;                // one view tile spans 640 px at `zoom` (a Google Static Maps frame)
+const OUTPUT_PX_PER_VIEW = 1280;    // …drawn at 2× (Google's scale=2, one zoom level deeper for XYZ)
+const MPP_ZOOM0 = 156543.03392;     // meters per pixel at zoom 0 on the equator
+const TILE_CONCURRENCY = 6;         // parallel tile requests per image
+const USER_AGENT = "opendisaster/1.0 (https://github.com/theodorechapman/opendisaster)";
+const JPEG_QUALITY = 85;
+const NO_IMAGERY_RGB = [0x2d, 0x5a, 0x1e]; // where a tile is missing — the land-use ground colour
+
+/** Zoom level and view tiles per axis covering a scene — the arguments `computeSatelliteBounds` takes. */
+export interface SatelliteView {
+  lat: number;
+  lon: number;
+  zoom: number;
+  tilesPerAxis: number;
+}
+
+/** Best zoom for a `size`×`size` m scene, and how many 640 px view tiles it takes to cover it. */
+export function satelliteView(lat: number, lon: number, size: number): SatelliteView {
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const metersPerPixelNeeded = size / VIEW_PX;
+  const zoom = Math.min(21, Math.max(1, Math.round(Math.log2((MPP_ZOOM0 * cosLat) / metersPerPixelNeeded))));
+  const tileMeters = VIEW_PX * ((MPP_ZOOM0 * cosLat) / 2 ** zoom);
+  return { lat, lon, zoom, tilesPerAxis: Math.max(1, Math.ceil(size / tileMeters)) };
+}
+
+export interface SatelliteImage {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+}
+
+export interface SatelliteProvider {
+  readonly name: string;
+  /** The image covering `view`. `features` is where the land-use fallback reads its map data. */
+  render(view: SatelliteView, features: FeatureSource): Promise<SatelliteImage>;
+}
+
+// ─── Tile mosaics (XYZ / WMTS / MBTiles) ────────────────────────────────────
+
+/** A source of 256 px Web Mercator tiles in XYZ addressing. */
+interface TileSource {
+  readonly name: string;
+  readonly maxZoom: number;
+  tile(z: number, x: number, y: number): Promise<CachedTile | null>;
+}
+
+/**
+ * Tiles from a URL template. XYZ uses `{z}/{x}/{y}`, TMS `{-y}` for the
+ * flipped row, and WMTS in the GoogleMapsCompatible matrix set
+ * `{TileMatrix}/{TileCol}/{TileRow}`. Fetched tiles are cached in SQLite.
+ */
+class UrlTileSource implements TileSource {
+  readonly name: string;
+
+  constructor(private readonly template: string, readonly maxZoom: number) {
+    this.name = new URL(template.replace(/[{}]/g, "")).host;
+  }
+
+  async tile(z: number, x: number, y: number): Promise<CachedTile | null> {
+    const cached = getTile(this.template, z, x, y);
+    if (cached) return cached;
+
+    const url = this.template
+      .replace(/\{z\}|\{TileMatrix\}/g, String(z))
+      .replace(/\{x\}|\{TileCol\}/g, String(x))
+      .replace(/\{y\}|\{TileRow\}/g, String(y))
+      .replace(/\{-y\}/g, String(2 ** z - 1 - y));
+    const res = await fetch(url, { headers: { "User-Agent": USER_AGENT } });
+    if (res.status === 404 || res.status === 204) return null;
+    if (!res.ok) throw new Error(`Tile ${z}/${x}/${y}: ${res.status} ${res.statusText}`);
+
+    const tile = {
+      data: new Uint8Array(await res.arrayBuffer()),
+      contentType: res.headers.get("Content-Type") ?? "image/jpeg",
+    };
+    putTile(this.template, z, x, y, tile);
+    return tile;
+  }
+}
+
+const MBTILES_FORMATS: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+/** Tiles from a local MBTiles file (rows are stored TMS-flipped). */
+class MbTilesSource implements TileSource {
+  readonly name: string;
+  readonly maxZoom: number;
+  private readonly db: Database;
+  private readonly contentType: string;
+
+  constructor(path: string) {
+    this.db = new Database(path, { readonly: true });
+    this.name = basename(path);
+    const meta = new Map(
+      this.db.query<{ name: string; value: string }, []>("SELECT name, value FROM metadata").all().map((r) => [r.name, r.value]),
+    );
+    this.contentType = MBTILES_FORMATS[meta.get("format") ?? "png"] ?? "image/png";
+    this.maxZoom = parseInt(meta.get("maxzoom") ?? "") ||
+      (this.db.query<{ z: number }, []>("SELECT MAX(zoom_level) AS z FROM tiles").get()?.z ?? 19);
+  }
+
+  async tile(z: number, x: number, y: number): Promise<CachedTile | null> {
+    const row = this.db
+      .query<{ tile_data: Uint8Array }, [number, number, number]>(
+        "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?",
+      )
+      .get(z, x, 2 ** z - 1 - y);
+    return row ? { data: row.tile_data, contentType: this.contentType } : null;
+  }
+}
+
+/** Web Mercator pixel coordinates of a point at zoom `z`. */
+function mercatorPixel(lat: number, lon: number, z: number): [number, number] {
+  const world = TILE_SIZE * 2 ** z;
+  const latRad = (lat * Math.PI) / 180;
+  return [
+    ((lon + 180) / 360) * world,
+    ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * world,
+  ];
+}
+
+/** Run `tasks` at most `limit` at a time. */
+async function inBatches<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+  const results = new Array<T>(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const i = next++;
+      results[i] = await tasks[i]!();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+// ─── Raster compositing ─────────────────────────────────────────────────────
+
+/** 8-bit RGBA pixels, row-major. */
+interface Raster {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+function blankRaster(width: number, height: number): Raster {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = NO_IMAGERY_RGB[0]!;
+    data[i + 1] = NO_IMAGERY_RGB[1]!;
+    data[i + 2] = NO_IMAGERY_RGB[2]!;
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+}
+
+/** Decode a PNG or JPEG tile, told apart by its signature rather than the (often wrong) content type. */
+function decodeImage(bytes: Uint8Array): Raster {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    const png = PNG.sync.read(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+  }
+  throw new Error("tile is neither PNG nor JPEG");
+}
+
+/**
+ * Draw the `sw`×`sh` region of `src` at (`sx`, `sy`) into `dst` at (`dx`, `dy`),
+ * scaled to `dw`×`dh` with bilinear filtering — canvas `drawImage` semantics.
+ * Source regions may run past `src`'s edges; those samples are clamped.
+ */
+function drawImage(dst: Raster, src: Raster, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number): void {
+  const kx = sw / dw, ky = sh / dh;
+  const maxX = src.width - 1, maxY = src.height - 1;
+  const x0 = Math.max(0, Math.floor(dx)), x1 = Math.min(dst.width, Math.ceil(dx + dw));
+  const y0 = Math.max(0, Math.floor(dy)), y1 = Math.min(dst.height, Math.ceil(dy + dh));
+  for (let y = y0; y < y1; y++) {
+    const fy = Math.min(maxY, Math.max(0, sy + (y + 0.5 - dy) * ky - 0.5));
+    const r0 = Math.floor(fy), r1 = Math.min(maxY, r0 + 1), ty = fy - r0;
+    for (let x = x0; x < x1; x++) {
+      const fx = Math.min(maxX, Math.max(0, sx + (x + 0.5 - dx) * kx - 0.5));
+      const c0 = Math.floor(fx), c1 = Math.min(maxX, c0 + 1), tx = fx - c0;
+      const a = (r0 * src.width + c0) * 4, b = (r0 * src.width + c1) * 4;
+      const c = (r1 * src.width + c0) * 4, d = (r1 * src.width + c1) * 4;
+      const o = (y * dst.width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = src.data[a + ch]! * (1 - tx) + src.data[b + ch]! * tx;
+        const bottom = src.data[c + ch]! * (1 - tx) + src.data[d + ch]! * tx;
+        dst.data[o + ch] = top * (1 - ty) + bottom * ty;
+      }
+      dst.data[o + 3] = 255;
+    }
+  }
+}
+
+function jpegImage(raster: Raster): SatelliteImage {
+  const { data } = jpeg.encode(raster, JPEG_QUALITY);
+  return { body: new Uint8Array(data), contentType: "image/jpeg" };
+}
+
+function svg(width: number, viewBox: string, body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${width}" viewBox="${viewBox}">${body}</svg>`;
+}
+
+class TileMosaicProvider implements SatelliteProvider {
+  readonly name: string;
+
+  constructor(private readonly source: TileSource) {
+    this.name = source.name;
+  }
+
+  async render(view: SatelliteView): Promise<SatelliteImage> {
+    // One level deeper than `zoom` matches the 2× output, unless the source stops short of it
+    const z = Math.min(view.zoom + 1, this.source.maxZoom);
+    const sourcePx = (view.tilesPerAxis * VIEW_PX * 2 ** (z - view.zoom)) / 2;
+    const [cx, cy] = mercatorPixel(view.lat, view.lon, z);
+    const n = 2 ** z;
+
+    const x0 = Math.floor((cx - sourcePx) / TILE_SIZE), x1 = Math.floor((cx + sourcePx) / TILE_SIZE);
+    const y0 = Math.floor((cy - sourcePx) / TILE_SIZE), y1 = Math.floor((cy + sourcePx) / TILE_SIZE);
+
+    // Tiles at their own resolution first, then the square around the center cut out and scaled to the output
+    const mosaic = blankRaster((x1 - x0 + 1) * TILE_SIZE, (y1 - y0 + 1) * TILE_SIZE);
+    const tasks: (() => Promise<void>)[] = [];
+    let failures = 0;
+    for (let ty = Math.max(0, y0); ty <= Math.min(n - 1, y1); ty++) {
+      for (let tx = x0; tx <= x1; tx++) {
+        tasks.push(async () => {
+          // Wrap across the antimeridian; the mosaic keeps the unwrapped column
+          try {
+            const tile = await this.source.tile(z, ((tx % n) + n) % n, ty);
+            if (!tile) return;
+            const img = decodeImage(tile.data);
+            drawImage(mosaic, img, 0, 0, img.width, img.height, (tx - x0) * TILE_SIZE, (ty - y0) * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+          } catch (err) {
+            failures++;
+            console.warn(`[Satellite] Tile ${z}/${tx}/${ty}: ${err}`);
+          }
+        });
+      }
+    }
+    await inBatches(tasks, TILE_CONCURRENCY);
+    if (failures === tasks.length) throw new Error(`No tiles from ${this.name}`);
+
+    const width = view.tilesPerAxis * OUTPUT_PX_PER_VIEW;
+    const out = blankRaster(width, width);
+    const left = cx - sourcePx - x0 * TILE_SIZE, top = cy - sourcePx - y0 * TILE_SIZE;
+    drawImage(out, mosaic, left, top, sourcePx * 2, sourcePx * 2, 0, 0, width, width);
+    return jpegImage(out);
+  }
+}
+
+// ─── Google Static Maps ─────────────────────────────────────────────────────
+
+/** Google Static Maps frames, one per view tile. Never cached — Google's terms don't allow it. */
+class GoogleStaticProvider implements SatelliteProvider {
+  readonly name = "Google Static Maps";
+
+  constructor(private readonly apiKey: string) {}
+
+  async render(view: SatelliteView): Promise<SatelliteImage> {
+    const { lat, lon, zoom, tilesPerAxis } = view;
+    const mpd = metersPerDegree(lat);
+    const tileMeters = VIEW_PX * ((MPP_ZOOM0 * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom);
+
+    const width = tilesPerAxis * OUTPUT_PX_PER_VIEW;
+    const out = blankRaster(width, width);
+    const tasks: (() => Promise<void>)[] = [];
+    for (let row = 0; row < tilesPerAxis; row++) {
+      for (let col = 0; col < tilesPerAxis; col++) {
+        // Row increases downward = south
+        const tileLat = lat - ((row - (tilesPerAxis - 1) / 2) * tileMeters) / mpd.lat;
+        const tileLon = lon + ((col - (tilesPerAxis - 1) / 2) * tileMeters) / mpd.lon;
+        tasks.push(async () => {
+          const url = `https://maps.googleapis.com/maps/api/staticmap?center=${tileLat},${tileLon}&zoom=${zoom}&size=${VIEW_PX}x${VIEW_PX}&scale=2&maptype=satellite&key=${this.apiKey}`;
+          const res = await fetch(url);
+          if (!res.ok) throw new Error(`Google Maps API error: ${await res.text()}`);
+          const frame = decodeImage(new Uint8Array(await res.arrayBuffer()));
+          const x = col * OUTPUT_PX_PER_VIEW, y = row * OUTPUT_PX_PER_VIEW;
+          drawImage(out, frame, 0, 0, frame.width, frame.height, x, y, OUTPUT_PX_PER_VIEW, OUTPUT_PX_PER_VIEW);
+        });
+      }
+    }
+
+    await inBatches(tasks, TILE_CONCURRENCY);
+    return jpegImage(out);
+  }
+}
+
+// ─── Land-use fallback ──────────────────────────────────────────────────────
+
+/**
+ * Flat colours from the scene's own map features, in the terrain painter's
+ * palette. Needs no imagery source; there are no tiles to stitch, so the
+ * shapes go out as an SVG and the browser rasterizes them.
+ */
+class LanduseProvider implements SatelliteProvider {
+  readonly name = "land use";
+
+  async render(view: SatelliteView, features: FeatureSource): Promise<SatelliteImage> {
+    const { lat, lon, zoom, tilesPerAxis } = view;
+    const half = tilesPerAxis * (VIEW_PX / 2) * ((MPP_ZOOM0 * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom);
+    const layers = await loadLayerData(lat, lon, half * 2, features);
+    const mpd = metersPerDegree(lat);
+    const width = tilesPerAxis * OUTPUT_PX_PER_VIEW;
+
+    // viewBox in local meters: x east, y south (Three.js Z)
+    const pt = (c: number[]) => `${((c[0]! - lon) * mpd.lon).toFixed(2)},${(-(c[1]! - lat) * mpd.lat).toFixed(2)}`;
+    const areas = (fc: FeatureCollection | undefined, fill: string) =>
+      (fc?.features ?? []).flatMap((f) => polygonRings(f).map((rings) =>
+        `<path fill="${fill}" fill-rule="evenodd" d="${rings.map((r) => `M${r.map(pt).join("L")}Z`).join("")}"/>`,
+      )).join("");
+    const lines = (fc: FeatureCollection, stroke: (f: BuildingFeature) => string) =>
+      fc.features.filter((f) => f.geometry.type === "LineString").map((f) =>
+        `<polyline fill="none" stroke="${stroke(f)}" stroke-width="${roadWidth(f.properties)}" stroke-linecap="round" stroke-linejoin="round" points="${(f.geometry.coordinates as number[][]).map(pt).join(" ")}"/>`,
+      ).join("");
+    const isFootpath = (f: BuildingFeature) => ["footway", "cycleway", "path"].includes(String(f.properties.highway));
+
+    const body = [
+      `<rect x="${-half}" y="${-half}" width="${half * 2}" height="${half * 2}" fill="#2d5a1e"/>`,
+      areas(layers.parks, "#3d8b37"),
+      areas(layers.water, "#3388cc"),
+      lines(layers.railways, () => "#666666"),
+      lines(layers.roads, (f) => (isFootpath(f) ? "#999988" : "#444444")),
+      areas(layers.buildings, "#77746e"),
+    ].join("");
+    return { body: svg(width, `${-half} ${-half} ${half * 2} ${half * 2}`, body), contentType: "image/svg+xml" };
+  }
+}
+
+function polygonRings(f: BuildingFeature): number[][][][] {
+  if (f.geometry.type === "Polygon") return [f.geometry.coordinates as number[][][]];
+  if (f.geometry.type === "MultiPolygon") return f.geometry.coordinates as number[][][][];
+  return [];
+}
+
+/**
+ * Pick the imagery provider from the environment:
+ *
+ *   SATELLITE_PROVIDER=google     Google Static Maps with GOOGLE_MAPS_API_KEY (default when the key is set)
+ *   SATELLITE_PROVIDER=xyz        tile server at SATELLITE_URL — XYZ, TMS or WMTS template (default when set)
+ *   SATELLITE_PROVIDER=mbtiles    local SATELLITE_MBTILES file, offline (default when set)
+ *   SATELLITE_PROVIDER=landuse    flat colours from the map features (default otherwise)
+ *
+ * SATELLITE_MAX_ZOOM caps the zoom requested from a tile server (default 19).
+ */
+export function createSatelliteProvider(env: Record<string, string | undefined> = process.env): SatelliteProvider {
+  const kind = (env.SATELLITE_PROVIDER ?? (
+    env.GOOGLE_MAPS_API_KEY ? "google"
+    : env.SATELLITE_URL ? "xyz"
+    : env.SATELLITE_MBTILES ? "mbtiles"
+    : "landuse"
+  )).toLowerCase();
+
+  switch (kind) {
+    case "google":
+      if (!env.GOOGLE_MAPS_API_KEY) throw new Error("SATELLITE_PROVIDER=google needs GOOGLE_MAPS_API_KEY");
+      return new GoogleStaticProvider(env.GOOGLE_MAPS_API_KEY);
+    case "xyz":
+    case "wmts":
+      if (!env.SATELLITE_URL) throw new Error(`SATELLITE_PROVIDER=${kind} needs SATELLITE_URL`);
+      return new TileMosaicProvider(new UrlTileSource(env.SATELLITE_URL, parseInt(env.SATELLITE_MAX_ZOOM ?? "") || 19));
+    case "mbtiles":
+      if (!env.SATELLITE_MBTILES) throw new Error("SATELLITE_PROVIDER=mbtiles needs SATELLITE_MBTILES");
+      return new TileMosaicProvider(new MbTilesSource(env.SATELLITE_MBTILES));
+    case "landuse":
+      return new LanduseProvider();
+    default:
+      throw new Error(`Unknown SATELLITE_PROVIDER "${kind}" (expected google | xyz | wmts | mbtiles | landuse)`);
+  }
+}
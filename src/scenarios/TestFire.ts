@@ -10,13 +10,19 @@
 
 import * as THREE from "three";
 import type { EventBus } from "../core/EventBus.ts";
+import { SeededRandom } from "../core/Random.ts";
 import type { HeightSampler } from "../layers.ts";
-import { buildingRegistry, treeRegistry, terrainBoundsRef, terrainCanvasRef, terrainTextureRef } from "../layers.ts";
+import { buildingRegistry, landCoverRef, treeRegistry, terrainBoundsRef, terrainCanvasRef, terrainTextureRef } from "../layers.ts";
+import { LandCover } from "../landcover.ts";
 
 /* ── Procedural Textures ──────────────────────────────────── */
 
+/** Headless runs have no DOM canvas — particles are never drawn there, so a blank texture suffices. */
+const HAS_DOM = typeof document !== "undefined";
+
 /** Soft radial glow — bright center fading to transparent edges */
 function makeFlameTexture(size = 128): THREE.Texture {
+  if (!HAS_DOM) return new THREE.Texture();
   const c = document.createElement("canvas");
   c.width = c.height = size;
   const ctx = c.getContext("2d")!;
@@ -35,6 +41,7 @@ function makeFlameTexture(size = 128): THREE.Texture {
 
 /** Soft cloud blob — gray center fading out, slightly noisy edges */
 function makeSmokeTexture(size = 128): THREE.Texture {
+  if (!HAS_DOM) return new THREE.Texture();
   const c = document.createElement("canvas");
   c.width = c.height = size;
   const ctx = c.getContext("2d")!;
@@ -52,6 +59,7 @@ function makeSmokeTexture(size = 128): THREE.Texture {
 
 /** Tiny bright dot with glow halo */
 function makeEmberTexture(size = 64): THREE.Texture {
+  if (!HAS_DOM) return new THREE.Texture();
   const c = document.createElement("canvas");
   c.width = c.height = size;
   const ctx = c.getContext("2d")!;
@@ -143,6 +151,7 @@ class FireParticleEmitter {
   readonly mesh: THREE.InstancedMesh;
   private particles: Particle[];
   private config: EmitterConfig;
+  private rng: SeededRandom;
   private spawnAccumulator = 0;
   currentEmissionRate = 0;
   currentEmitterRadius: number;
@@ -158,8 +167,9 @@ class FireParticleEmitter {
   private static _tmpVec = new THREE.Vector3();
   private static _tmpScale = new THREE.Vector3();
 
-  constructor(config: EmitterConfig) {
+  constructor(config: EmitterConfig, rng: SeededRandom) {
     this.config = config;
+    this.rng = rng;
     this.currentEmitterRadius = config.emitterRadius;
     const max = config.maxParticles;
 
@@ -299,16 +309,16 @@ class FireParticleEmitter {
     // Position within emitter shape
     if (cfg.emitterShape === "cone") {
       const angle = cfg.coneAngle ?? 0.3;
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * angle;
-      const dist = Math.random() * r;
+      const theta = this.rng.next() * Math.PI * 2;
+      const phi = this.rng.next() * angle;
+      const dist = this.rng.next() * r;
       p.position.set(
         origin.x + Math.sin(phi) * Math.cos(theta) * dist,
         origin.y,
         origin.z + Math.sin(phi) * Math.sin(theta) * dist,
       );
       // Velocity: upward cone
-      const speed = cfg.speedRange[0] + Math.random() * (cfg.speedRange[1] - cfg.speedRange[0]);
+      const speed = cfg.speedRange[0] + this.rng.next() * (cfg.speedRange[1] - cfg.speedRange[0]);
       p.velocity.set(
         Math.sin(phi) * Math.cos(theta) * speed * 0.3,
         speed,
@@ -316,15 +326,15 @@ class FireParticleEmitter {
       );
     } else {
       // Sphere
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
-      const dist = Math.random() * r;
+      const theta = this.rng.next() * Math.PI * 2;
+      const phi = Math.acos(2 * this.rng.next() - 1);
+      const dist = this.rng.next() * r;
       p.position.set(
         origin.x + Math.sin(phi) * Math.cos(theta) * dist,
         origin.y + Math.cos(phi) * dist * 0.5,
         origin.z + Math.sin(phi) * Math.sin(theta) * dist,
       );
-      const speed = cfg.speedRange[0] + Math.random() * (cfg.speedRange[1] - cfg.speedRange[0]);
+      const speed = cfg.speedRange[0] + this.rng.next() * (cfg.speedRange[1] - cfg.speedRange[0]);
       p.velocity.set(
         Math.sin(phi) * Math.cos(theta) * speed,
         Math.abs(Math.cos(phi)) * speed,
@@ -332,9 +342,9 @@ class FireParticleEmitter {
       );
     }
 
-    p.maxLife = cfg.lifeRange[0] + Math.random() * (cfg.lifeRange[1] - cfg.lifeRange[0]);
+    p.maxLife = cfg.lifeRange[0] + this.rng.next() * (cfg.lifeRange[1] - cfg.lifeRange[0]);
     p.life = 0;
-    p.baseSize = cfg.sizeRange[0] + Math.random() * (cfg.sizeRange[1] - cfg.sizeRange[0]);
+    p.baseSize = cfg.sizeRange[0] + this.rng.next() * (cfg.sizeRange[1] - cfg.sizeRange[0]);
     p.size = p.baseSize;
     p.alive = true;
   }
@@ -359,6 +369,7 @@ class FireParticleGroup {
     flameTex: THREE.Texture,
     smokeTex: THREE.Texture,
     emberTex: THREE.Texture,
+    rng: SeededRandom,
   ) {
     this.group = new THREE.Group();
 
@@ -393,7 +404,7 @@ class FireParticleGroup {
         { scale: 0.8, t: 0.5 },
         { scale: 0, t: 1 },
       ],
-    });
+    }, rng);
 
     this.smoke = new FireParticleEmitter({
       type: "smoke",
@@ -425,7 +436,7 @@ class FireParticleGroup {
         { scale: 3, t: 1 },
       ],
       renderOrder: -1,
-    });
+    }, rng);
 
     this.ember = new FireParticleEmitter({
       type: "ember",
@@ -455,7 +466,7 @@ class FireParticleGroup {
         { scale: 0.4, t: 0.6 },
         { scale: 0, t: 1 },
       ],
-    });
+    }, rng);
 
     this.group.add(this.flame.mesh);
     this.group.add(this.smoke.mesh);
@@ -512,8 +523,10 @@ const MIN_FIRE_SEPARATION = 0; // metres
 const BRANCH_PUSH_SPEED = 3.2;
 const SPAWN_CANDIDATES = 30;
 const HEAT_UPDATE_INTERVAL = 0.5;
+// Heat gains are for fires on dry grass; the land cover scales them by the fuel and moisture underneath
 const BUILDING_HEAT_GAIN = 0.9;
 const TREE_HEAT_GAIN = 1.4;
+const FUEL_BURN_RATE = 0.04; // kg/m² of ground fuel a full-intensity fire consumes per second
 const HEAT_DECAY = 0.5;
 const BUILDING_IGNITE_THRESHOLD = 1.2;
 const TREE_IGNITE_THRESHOLD = 0.6;
@@ -599,8 +612,14 @@ function applyEmissive(mesh: THREE.Mesh, color: THREE.Color, intensity: number):
   }
 }
 
+/** How readily fire spreads over the ground at a point, relative to dry grass (1 without a land-cover map). */
+function fuelFactorAt(x: number, z: number): number {
+  return landCoverRef ? landCoverRef.fuelFactorAt(x, z) : 1;
+}
+
 let cachedWaterCtx: CanvasRenderingContext2D | null = null;
 function isWaterAt(x: number, z: number): boolean {
+  if (landCoverRef) return landCoverRef.classAt(x, z) === LandCover.WATER;
   if (!terrainCanvasRef || !terrainBoundsRef) return false;
   const b = terrainBoundsRef;
   const u = (x - b.xMin) / b.width;
@@ -675,6 +694,8 @@ class FireSourceManager {
   private scene: THREE.Scene;
   private eventBus: EventBus;
   private sampler?: HeightSampler;
+  private rng: SeededRandom;
+  private visualRng: SeededRandom;
   private wind: WindState;
   private systemElapsed = 0;
   private maxFires: number;
@@ -692,9 +713,11 @@ class FireSourceManager {
   private smokeTex: THREE.Texture;
   private emberTex: THREE.Texture;
 
-  constructor(scene: THREE.Scene, eventBus: EventBus, sampler?: HeightSampler, maxFires?: number) {
+  constructor(scene: THREE.Scene, eventBus: EventBus, rng: SeededRandom, visualRng: SeededRandom, sampler?: HeightSampler, maxFires?: number) {
     this.scene = scene;
     this.eventBus = eventBus;
+    this.rng = rng;
+    this.visualRng = visualRng;
     this.sampler = sampler;
     this.maxFires = maxFires ?? MAX_FIRES;
 
@@ -704,12 +727,12 @@ class FireSourceManager {
     this.emberTex = makeEmberTexture();
 
     // Initial wind — random direction
-    const angle = Math.random() * Math.PI * 2;
+    const angle = this.rng.next() * Math.PI * 2;
     this.wind = {
       direction: new THREE.Vector2(Math.cos(angle), Math.sin(angle)),
-      speed: 0.3 + Math.random() * 0.3,
+      speed: 0.3 + this.rng.next() * 0.3,
       gustTimer: 0,
-      gustInterval: 6 + Math.random() * 6,
+      gustInterval: 6 + this.rng.next() * 6,
     };
 
     this.buildingStates = buildingRegistry.map((b) => ({
@@ -792,7 +815,7 @@ class FireSourceManager {
     scorchMesh.visible = false;
 
     // Particle group
-    const particles = new FireParticleGroup(this.flameTex, this.smokeTex, this.emberTex);
+    const particles = new FireParticleGroup(this.flameTex, this.smokeTex, this.emberTex, this.visualRng);
     particles.setOrigin(pos);
     // Add particle meshes directly to scene (world space)
     this.scene.add(particles.group);
@@ -807,7 +830,7 @@ class FireSourceManager {
       maxIntensity,
       maxRadius,
       baseMaxRadius: maxRadius,
-      branchDir: new THREE.Vector2((Math.random() - 0.5) * 2, (Math.random() - 0.5) * 2).normalize(),
+      branchDir: new THREE.Vector2((this.rng.next() - 0.5) * 2, (this.rng.next() - 0.5) * 2).normalize(),
       anchor,
       stallUntil: this.systemElapsed + BRANCH_STALL_SECONDS,
       lockedDir: false,
@@ -949,16 +972,16 @@ class FireSourceManager {
     this.wind.gustTimer += dt;
     if (this.wind.gustTimer >= this.wind.gustInterval) {
       this.wind.gustTimer = 0;
-      this.wind.gustInterval = 6 + Math.random() * 6;
+      this.wind.gustInterval = 6 + this.rng.next() * 6;
 
       // Shift direction ±36 degrees
-      const shift = (Math.random() - 0.5) * (Math.PI / 5) * 2;
+      const shift = (this.rng.next() - 0.5) * (Math.PI / 5) * 2;
       const currentAngle = Math.atan2(this.wind.direction.y, this.wind.direction.x);
       const newAngle = currentAngle + shift;
       this.wind.direction.set(Math.cos(newAngle), Math.sin(newAngle));
 
       // Vary speed ±0.15
-      this.wind.speed = Math.max(0.1, Math.min(0.8, this.wind.speed + (Math.random() - 0.5) * 0.3));
+      this.wind.speed = Math.max(0.1, Math.min(0.8, this.wind.speed + (this.rng.next() - 0.5) * 0.3));
     }
   }
 
@@ -983,7 +1006,7 @@ class FireSourceManager {
 
     const maxB = Math.min(buildingRegistry.length, HEAT_DIR_SAMPLE_BUILDINGS);
     for (let i = 0; i < maxB; i++) {
-      const idx = Math.floor(Math.random() * buildingRegistry.length);
+      const idx = Math.floor(this.rng.next() * buildingRegistry.length);
       const b = buildingRegistry[idx]!;
       const dx = b.centerX - src.position.x;
       const dz = b.centerZ - src.position.z;
@@ -997,7 +1020,7 @@ class FireSourceManager {
 
     const maxT = Math.min(treeRegistry.length, HEAT_DIR_SAMPLE_TREES);
     for (let i = 0; i < maxT; i++) {
-      const idx = Math.floor(Math.random() * treeRegistry.length);
+      const idx = Math.floor(this.rng.next() * treeRegistry.length);
       const t = treeRegistry[idx]!;
       const dx = t.x - src.position.x;
       const dz = t.z - src.position.z;
@@ -1032,10 +1055,10 @@ class FireSourceManager {
       }
       src.paused = true;
       // Spawn a burst of new primaries (branch copies)
-      const burst = 3 + Math.floor(Math.random() * 2);
+      const burst = 3 + Math.floor(this.rng.next() * 2);
       for (let i = 0; i < burst && this.sources.length < this.maxFires; i++) {
-        const angle = Math.random() * Math.PI * 2;
-        const jitterR = Math.max(1.5, src.radius * 0.35) + Math.random() * 2.5;
+        const angle = this.rng.next() * Math.PI * 2;
+        const jitterR = Math.max(1.5, src.radius * 0.35) + this.rng.next() * 2.5;
         let cx = src.position.x + Math.cos(angle) * jitterR;
         let cz = src.position.z + Math.sin(angle) * jitterR;
         const bIdx = getBuildingIndexAt(cx, cz);
@@ -1049,6 +1072,9 @@ class FireSourceManager {
         cx = nudged.x;
         cz = nudged.z;
         if (isBlocked(cx, cz)) continue;
+        // Branches take hold where there is fuel: rarely on pavement or burnt ground
+        const fuel = fuelFactorAt(cx, cz);
+        if (fuel < 1 && this.rng.next() > fuel) continue;
         const y = this.sampler ? this.sampler.sample(cx, cz) : src.position.y;
         const branch = this.spawnFireAt(new THREE.Vector3(cx, y, cz), src.maxRadius * 0.9, 0.7, 20);
         branch.branchDir.set(Math.cos(angle), Math.sin(angle)).normalize();
@@ -1076,10 +1102,10 @@ class FireSourceManager {
       if (this.sources.length >= this.maxFires) break;
 
       const baseAngle = Math.atan2(heatDir.y, heatDir.x);
-      const jitter = (Math.random() - 0.5) * Math.PI;
+      const jitter = (this.rng.next() - 0.5) * Math.PI;
       const candidateAngle = baseAngle + jitter;
       // Spawn at origin, then branch outward over time
-      const jitterR = 0.5 + Math.random() * 1.0;
+      const jitterR = 0.5 + this.rng.next() * 1.0;
       let cx = src.position.x + Math.cos(candidateAngle) * jitterR;
       let cz = src.position.z + Math.sin(candidateAngle) * jitterR;
       const bIdx = getBuildingIndexAt(cx, cz);
@@ -1095,8 +1121,8 @@ class FireSourceManager {
       const angleDiff = Math.abs(((candidateAngle - windAngle + Math.PI) % (Math.PI * 2)) - Math.PI);
       const windBonus = angleDiff < Math.PI / 2 ? 0.3 : 0;
 
-      const spawnProb = (src.intensity / src.maxIntensity) * 0.28 + windBonus + 0.1;
-      if (Math.random() > spawnProb) continue;
+      const spawnProb = ((src.intensity / src.maxIntensity) * 0.28 + windBonus + 0.1) * fuelFactorAt(cx, cz);
+      if (this.rng.next() > spawnProb) continue;
 
       // Check separation from all existing fires
       let tooClose = false;
@@ -1117,14 +1143,14 @@ class FireSourceManager {
       const rangeB = HEAT_DIR_RANGE_BUILDING * 0.7;
       const rangeT = HEAT_DIR_RANGE_TREE * 0.7;
       for (let j = 0; j < 20 && buildingRegistry.length > 0; j++) {
-        const b = buildingRegistry[Math.floor(Math.random() * buildingRegistry.length)]!;
+        const b = buildingRegistry[Math.floor(this.rng.next() * buildingRegistry.length)]!;
         const dx = b.centerX - cx;
         const dz = b.centerZ - cz;
         const dist = Math.hypot(dx, dz);
         if (dist < rangeB) heatScore += 1 - dist / rangeB;
       }
       for (let j = 0; j < 16 && treeRegistry.length > 0; j++) {
-        const t = treeRegistry[Math.floor(Math.random() * treeRegistry.length)]!;
+        const t = treeRegistry[Math.floor(this.rng.next() * treeRegistry.length)]!;
         const dx = t.x - cx;
         const dz = t.z - cz;
         const dist = Math.hypot(dx, dz);
@@ -1132,9 +1158,9 @@ class FireSourceManager {
       }
       heatScore = Math.min(1.5, heatScore / 6);
 
-      const newMaxRadius = 12 + heatScore * 18 + Math.random() * 6;
+      const newMaxRadius = 12 + heatScore * 18 + this.rng.next() * 6;
       const newMaxIntensity = 0.5 + heatScore * 0.35;
-      const newGrowthDuration = 14 + Math.random() * 10;
+      const newGrowthDuration = 14 + this.rng.next() * 10;
 
       const newSource = this.spawnFire(new THREE.Vector3(cx, y, cz), newMaxRadius, newMaxIntensity, newGrowthDuration);
       newSource.branchDir.set(Math.cos(candidateAngle), Math.sin(candidateAngle)).normalize();
@@ -1145,7 +1171,7 @@ class FireSourceManager {
       src.maxRadius = Math.min(src.baseMaxRadius * 2.0, src.maxRadius * (1.04 + heatScore * 0.08));
 
       if (heatScore > 0.9 && this.sources.length < this.maxFires) {
-        const extraAngle = candidateAngle + (Math.random() - 0.5) * 0.8;
+        const extraAngle = candidateAngle + (this.rng.next() - 0.5) * 0.8;
         const ex = src.position.x + Math.cos(extraAngle) * (jitterR * 0.6);
         const ez = src.position.z + Math.sin(extraAngle) * (jitterR * 0.6);
         if (isBlocked(ex, ez)) {
@@ -1232,6 +1258,12 @@ class FireSourceManager {
     this.heatTimer = 0;
 
     const activeSources = this.sources.filter((s) => !s.isDead && s.intensity > 0.2);
+    // Heat output: burning buildings and trees carry their own fuel (as does the primary); ground fires burn what the cell holds
+    const output = activeSources.map((src) => src.intensity * (src.anchor ? 1 : fuelFactorAt(src.position.x, src.position.z)));
+    for (const src of activeSources) {
+      if (src.anchor && src.anchor.type !== "ground") continue;
+      landCoverRef?.consumeFuel(src.position.x, src.position.z, src.radius * GROUND_BURN_RADIUS_SCALE, FUEL_BURN_RATE * src.intensity * step);
+    }
 
     // Buildings: accumulate heat from nearby fires
     for (let i = 0; i < buildingRegistry.length; i++) {
@@ -1239,19 +1271,20 @@ class FireSourceManager {
       const state = this.buildingStates[i]!;
 
       let heatAdd = 0;
-      for (const src of activeSources) {
+      for (let s = 0; s < activeSources.length; s++) {
+        const src = activeSources[s]!;
         const dx = b.centerX - src.position.x;
         const dz = b.centerZ - src.position.z;
         const dist = Math.hypot(dx, dz);
         const range = src.radius + BUILDING_HEAT_RANGE_PAD;
         if (dist <= Math.max(3, b.width * 0.5)) {
           // Fire is inside/against the footprint — immediate heating
-          heatAdd += 1.8 * src.intensity;
+          heatAdd += 1.8 * output[s]!;
           continue;
         }
         if (dist > range) continue;
         const falloff = 1 - dist / range;
-        heatAdd += falloff * src.intensity;
+        heatAdd += falloff * output[s]!;
       }
 
       state.heat = Math.max(0, state.heat - HEAT_DECAY * step * 0.6);
@@ -1259,8 +1292,10 @@ class FireSourceManager {
         state.heat += heatAdd * BUILDING_HEAT_GAIN * step * 1.4;
       }
 
-      if (!state.ignited && state.heat >= BUILDING_IGNITE_THRESHOLD) {
+      // Timber catches sooner than concrete (vulnerability.ts)
+      if (!state.ignited && state.heat >= BUILDING_IGNITE_THRESHOLD / b.fragility.ignition) {
         state.ignited = true;
+        b.burned = true;
         state.floorTimer = 0;
         state.litFloors = 0;
         applyEmissive(b.mesh, new THREE.Color(0x552200), 0.2);
@@ -1288,7 +1323,7 @@ class FireSourceManager {
               0.45,
               16,
             );
-            drift.branchDir.set(Math.random() - 0.5, Math.random() - 0.5).normalize();
+            drift.branchDir.set(this.rng.next() - 0.5, this.rng.next() - 0.5).normalize();
           }
           state.ignited = true;
         }
@@ -1315,7 +1350,7 @@ class FireSourceManager {
             0.7,
             18,
           );
-          drift.branchDir.set(Math.random() - 0.5, Math.random() - 0.5).normalize();
+          drift.branchDir.set(this.rng.next() - 0.5, this.rng.next() - 0.5).normalize();
         }
       }
     }
@@ -1326,19 +1361,21 @@ class FireSourceManager {
       const state = this.treeStates[i]!;
 
       let heatAdd = 0;
-      for (const src of activeSources) {
+      for (let s = 0; s < activeSources.length; s++) {
+        const src = activeSources[s]!;
         const dx = t.x - src.position.x;
         const dz = t.z - src.position.z;
         const range = src.radius + TREE_HEAT_RANGE_PAD;
         const dist = Math.hypot(dx, dz);
         if (dist > range) continue;
         const falloff = 1 - dist / range;
-        heatAdd += falloff * src.intensity;
+        heatAdd += falloff * output[s]!;
       }
 
       state.heat = Math.max(0, state.heat - HEAT_DECAY * step);
       if (heatAdd > 0) {
-        state.heat += heatAdd * TREE_HEAT_GAIN * step;
+        // A tree in a wetland or a watered park takes longer to dry out and catch
+        state.heat += heatAdd * TREE_HEAT_GAIN * (landCoverRef ? landCoverRef.drynessAt(t.x, t.z) : 1) * step;
       }
 
       if (!state.ignited && state.heat >= TREE_IGNITE_THRESHOLD) {
@@ -1349,7 +1386,7 @@ class FireSourceManager {
           const y = t.canopyMesh.position.y - 1.5;
           this.spawnFireAt(new THREE.Vector3(t.x, y, t.z), 7, 0.45, 14, { type: "tree", index: i, yOffset: -1.5 });
           const drift = this.spawnFireAt(new THREE.Vector3(t.x, y, t.z), 6, 0.4, 12);
-          drift.branchDir.set(Math.random() - 0.5, Math.random() - 0.5).normalize();
+          drift.branchDir.set(this.rng.next() - 0.5, this.rng.next() - 0.5).normalize();
         }
       }
     }
@@ -1369,6 +1406,8 @@ export class FireSimulator {
   private scene: THREE.Scene;
   private eventBus: EventBus | null = null;
   private sampler?: HeightSampler;
+  private rng = new SeededRandom();
+  private visualRng = new SeededRandom();
   private manager: FireSourceManager | null = null;
   private emitTimer = 0;
   private billboardQuat = new THREE.Quaternion();
@@ -1382,6 +1421,16 @@ export class FireSimulator {
     this.sampler = sampler;
   }
 
+  /** Use the run's shared PRNG (SimWorld.rng) for every random draw. */
+  setRng(rng: SeededRandom): void {
+    this.rng = rng;
+  }
+
+  /** Flame, smoke and ember particles draw from the cosmetic stream (SimWorld.visualRng). */
+  setVisualRng(rng: SeededRandom): void {
+    this.visualRng = rng;
+  }
+
   setBillboardQuaternion(q: THREE.Quaternion): void {
     this.billboardQuat.copy(q);
     if (this.manager) this.manager.setBillboardQuaternion(this.billboardQuat);
@@ -1398,7 +1447,7 @@ export class FireSimulator {
   spawn(position: THREE.Vector3): void {
     if (!this.eventBus) return;
     if (!this.manager) {
-      this.manager = new FireSourceManager(this.scene, this.eventBus, this.sampler, this.maxFires);
+      this.manager = new FireSourceManager(this.scene, this.eventBus, this.rng, this.visualRng, this.sampler, this.maxFires);
       this.manager.spawnPrimary(position.x, position.z, this.maxRadius);
       this.active = true;
       this.emitTimer = 0;
@@ -1409,6 +1458,17 @@ export class FireSimulator {
     this.active = true;
   }
 
+  /** Ignite a secondary fire (e.g. at a building damaged by a quake) without a primary blaze. */
+  spawnAt(position: THREE.Vector3, maxRadius = this.maxRadius): void {
+    if (!this.eventBus) return;
+    if (!this.manager) {
+      this.manager = new FireSourceManager(this.scene, this.eventBus, this.rng, this.visualRng, this.sampler, this.maxFires);
+      this.emitTimer = 0;
+    }
+    this.manager.spawnAt(position, maxRadius, 0.8, 30);
+    this.active = true;
+  }
+
   stop(): void {
     this.active = false;
     this.emitTimer = 0;
@@ -0,0 +1,182 @@
+/**
+ * Export the city as binary glTF (GLB) for Blender and other engines.
+ *
+ * The export is the scene group from `buildAllLayers` — terrain with its
+ * painted/satellite texture, buildings, trees, roads, water and barriers —
+ * either as it stands now (tilted and collapsed buildings plus the hazards'
+ * rubble, debris and flood water) or restored to how it was loaded. The root
+ * node's extras carry the georeference: one unit is one meter, +X east, +Y up,
+ * +Z south, around `centerLat`/`centerLon`, with Y = 0 at `baseElevation`.
+ */
+
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { buildingStreamerRef, geometryAsLoaded } from "./layers.ts";
+import { metersPerDegree } from "./tiles.ts";
+
+/** Hazard objects the simulators add to the scene itself rather than the city group. */
+const DISASTER_OBJECTS = ["tornado-debris", "quake-rubble", "flood-water-surface"];
+
+type Colored = THREE.Material & { color?: THREE.Color; emissive?: THREE.Color };
+
+interface MaterialState {
+  material: Colored;
+  color: number | null;
+  emissive: number | null;
+}
+
+interface ObjectState {
+  parent: THREE.Object3D | null;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+  visible: boolean;
+  materials: MaterialState[] | null;
+}
+
+/**
+ * Transforms, visibility and material colours of every object in the city
+ * group as loaded. Hazards move, recolour and reparent those objects in place;
+ * the snapshot lets an export undo that on a copy. Geometry that hazards
+ * re-pivot or chip is edited on a copy (see `editableGeometry`), so the
+ * loaded geometry is put back from there.
+ */
+export class PristineSnapshot {
+  private readonly states = new Map<THREE.Object3D, ObjectState>();
+
+  constructor(city: THREE.Group) {
+    city.traverse((obj) => {
+      const mesh = obj as THREE.Mesh;
+      const materials = mesh.isMesh ? (Array.isArray(mesh.material) ? mesh.material : [mesh.material]) as Colored[] : null;
+      this.states.set(obj, {
+        parent: obj.parent,
+        position: obj.position.clone(),
+        quaternion: obj.quaternion.clone(),
+        scale: obj.scale.clone(),
+        visible: obj.visible,
+        materials: materials?.map((m) => ({ material: m, color: m.color?.getHex() ?? null, emissive: m.emissive?.getHex() ?? null })) ?? null,
+      });
+    });
+  }
+
+  /** Put a copy of the city back in its loaded state. `copies` maps originals to their copies. */
+  restore(copy: THREE.Object3D, copies: Map<THREE.Object3D, THREE.Object3D>): void {
+    // Anything added since loading goes
+    const known = new Set<THREE.Object3D>();
+    for (const original of this.states.keys()) {
+      const c = copies.get(original);
+      if (c) known.add(c);
+    }
+    const added: THREE.Object3D[] = [];
+    copy.traverse((obj) => { if (!known.has(obj)) added.push(obj); });
+    for (const obj of added) obj.removeFromParent();
+
+    for (const [original, state] of this.states) {
+      let c = copies.get(original);
+      if (!c) {
+        // Carried off by a hazard (uprooted trees, flung cars) — copy it back where it was
+        const parent = state.parent && copies.get(state.parent);
+        if (!parent) continue;
+        c = original.clone(false);
+        parent.add(c);
+        copies.set(original, c);
+      }
+      c.position.copy(state.position);
+      c.quaternion.copy(state.quaternion);
+      c.scale.copy(state.scale);
+      c.visible = state.visible;
+      if (state.materials) restoreMaterials(original as THREE.Mesh, c as THREE.Mesh, state.materials);
+      if ((c as THREE.Mesh).isMesh) (c as THREE.Mesh).geometry = geometryAsLoaded(original as THREE.Mesh);
+    }
+  }
+}
+
+/** Recolour (on a copy of the material) only what a hazard changed, so shared materials stay shared. */
+function restoreMaterials(original: THREE.Mesh, copy: THREE.Mesh, states: MaterialState[]): void {
+  const current = (Array.isArray(original.material) ? original.material : [original.material]) as Colored[];
+  const restored = states.map((s, i) => {
+    const unchanged = current[i] === s.material &&
+      (s.color === null || s.material.color!.getHex() === s.color) &&
+      (s.emissive === null || s.material.emissive!.getHex() === s.emissive);
+    if (unchanged) return s.material;
+    const m = s.material.clone() as Colored;
+    if (s.color !== null) m.color!.setHex(s.color);
+    if (s.emissive !== null) m.emissive!.setHex(s.emissive);
+    return m;
+  });
+  copy.material = Array.isArray(original.material) ? restored : restored[0]!;
+}
+
+/** Where the scene sits on Earth — stored in the GLB root node's extras. */
+export interface GeoReference {
+  crs: "EPSG:4326";
+  centerLat: number;
+  centerLon: number;
+  baseElevation: number;        // meters above sea level at Y = 0
+  metersPerUnit: 1;
+  metersPerDegreeLat: number;   // local X/Z are (lon, lat) offsets from the center times these
+  metersPerDegreeLon: number;
+  axes: { x: "east"; y: "up"; z: "south" };
+}
+
+export interface SceneExportOptions {
+  centerLat: number;
+  centerLon: number;
+  baseElevation: number;
+  /** Include damage and hazard debris; otherwise the city is restored from `pristine`. */
+  postDisaster: boolean;
+  pristine: PristineSnapshot | null;
+}
+
+/** The city as a GLB. Builds full-detail geometry for every building chunk first. */
+export async function exportSceneGLB(scene: THREE.Scene, city: THREE.Group, options: SceneExportOptions): Promise<ArrayBuffer> {
+  buildingStreamerRef?.buildAll();
+
+  const copies = new Map<THREE.Object3D, THREE.Object3D>();
+  const copy = cloneWithMap(city, copies);
+  if (!options.postDisaster && options.pristine) options.pristine.restore(copy, copies);
+
+  // Every building at full detail — the streamer's far meshes and hidden chunks are view-dependent
+  const buildings = copy.getObjectByName("buildings");
+  for (const child of [...(buildings?.children ?? [])]) {
+    if (child.name === "buildings-far") child.removeFromParent();
+    else child.visible = true;
+  }
+
+  const mpd = metersPerDegree(options.centerLat);
+  const georeference: GeoReference = {
+    crs: "EPSG:4326",
+    centerLat: options.centerLat,
+    centerLon: options.centerLon,
+    baseElevation: options.baseElevation,
+    metersPerUnit: 1,
+    metersPerDegreeLat: mpd.lat,
+    metersPerDegreeLon: mpd.lon,
+    axes: { x: "east", y: "up", z: "south" },
+  };
+  const root = new THREE.Group();
+  root.name = "opendisaster";
+  root.userData = { georeference, postDisaster: options.postDisaster };
+  root.add(copy);
+
+  if (options.postDisaster) {
+    for (const name of DISASTER_OBJECTS) {
+      const obj = scene.getObjectByName(name);
+      if (obj && obj.visible) root.add(obj.clone());
+    }
+  }
+
+  const glb = await new GLTFExporter().parseAsync(root, { binary: true, onlyVisible: true });
+  return glb as ArrayBuffer;
+}
+
+/** Deep copy sharing geometry and materials, recording which copy belongs to which original. */
+function cloneWithMap(original: THREE.Object3D, copies: Map<THREE.Object3D, THREE.Object3D>): THREE.Object3D {
+  const copy = original.clone(true);
+  const walk = (a: THREE.Object3D, b: THREE.Object3D) => {
+    copies.set(a, b);
+    a.children.forEach((child, i) => walk(child, b.children[i]!));
+  };
+  walk(original, copy);
+  return copy;
+}
@@ -0,0 +1,282 @@
+/**
+ * Headless simulation — builds the scene from LayerData and ticks SimWorld,
+ * the agent systems and one disaster simulator at a fixed step with no
+ * renderer, WebSocket or DOM. Agents run on the built-in fallback behaviour
+ * (auto-wander / auto-flee in AgentActionSystem) since no VLM is attached,
+ * with danger zones taken from the hazards near them (HazardAwareness).
+ */
+
+import * as THREE from "three";
+import type { LayerData } from "../tiles.ts";
+import { buildAllLayers, buildingRegistry, evacuationPointsRef, getTerrainHeight, landCoverRef, roadLinesRef, treeRegistry, type HeightSampler } from "../layers.ts";
+import { SimWorld } from "../core/World.ts";
+import { SeededRandom } from "../core/Random.ts";
+import { EventBus } from "../core/EventBus.ts";
+import { Position } from "../core/Components.ts";
+import { AgentManager } from "../agents/AgentManager.ts";
+import { createAgentActionSystem } from "../agents/AgentActionSystem.ts";
+import { createAgentDamageSystem } from "../agents/AgentDamageSystem.ts";
+import { createHazardAwarenessSystem } from "../agents/HazardAwareness.ts";
+import { AGENT_CONFIGS, collectObstacles, pickSpawnPositions } from "../agents/AgentSpawning.ts";
+import { RoadGraph } from "../agents/RoadGraph.ts";
+import { ShelterRegistry } from "../agents/Shelters.ts";
+import { EvacuationPlanner, type EvacuationPoint } from "../agents/Evacuation.ts";
+import { RoutePlanner } from "../agents/RoutePlanner.ts";
+import { RoadBlockageLayer, collapsedBuildingRubble, fallenTrees, type BlockageCause, type Obstruction } from "../agents/RoadBlockage.ts";
+import { SimulationStats, type SimulationStatsData } from "../stats/SimulationStats.ts";
+import { TornadoSimulator } from "../disasters/tornado.ts";
+import type { TornadoTrack } from "../disasters/tornadoTrack.ts";
+import type { VortexModel } from "../disasters/vortex.ts";
+import { EarthquakeSimulator } from "../disasters/earthquake.ts";
+import type { ShakeMap } from "../disasters/groundMotion.ts";
+import { FloodSimulator } from "../disasters/flood.ts";
+import { FireSimulator } from "../scenarios/TestFire.ts";
+import { CASCADES, HazardCascade, surgeHeight } from "../disasters/cascade.ts";
+import { TsunamiSurge } from "../disasters/tsunami.ts";
+
+export const HEADLESS_SCENARIOS = ["tornado", "earthquake", "flood", "fire", "quake-fire", "quake-tsunami"] as const;
+export type HeadlessScenario = (typeof HEADLESS_SCENARIOS)[number];
+
+export interface HeadlessSimConfig {
+  scenario: HeadlessScenario;
+  lat: number;
+  lon: number;
+  size: number;             // scene edge length in meters (same as /api/data)
+  seed: number;             // SimWorld PRNG seed — same seed, same run
+  durationSec: number;      // auto-end timer, as SteppedSimConfig.maxDurationSec
+  stepDurationSec: number;  // stats sampling interval, as SteppedSimConfig.stepDurationSec
+  origin: { x: number; z: number }; // disaster spawn point (local XZ meters)
+  efRating?: number;
+  vortexModel?: VortexModel;
+  tornadoTrack?: TornadoTrack; // scripted or historical path instead of a random walk from `origin`
+  magnitude?: number;
+  depthKm?: number;         // hypocentral depth
+  strike?: number;          // rupture strike (degrees from north) for a finite fault; point source when unset
+  aftershocks?: boolean;    // follow the mainshock with an aftershock sequence
+  floodHeight?: number;     // flood water height; the surge's wave height in quake-tsunami
+  fireRadius?: number;
+  evacuationPoints?: EvacuationPoint[]; // scenario-authored, in addition to those tagged in OSM
+}
+
+/** Per-frame handle over whichever simulator the scenario drives. */
+interface ActiveDisaster {
+  update(dt: number): void;
+  stop(): void;
+  waterDepth?: (x: number, z: number) => number; // for route costs while a flood runs
+  obstructions?: { cause: BlockageCause; source: () => Obstruction[] }; // wreckage it leaves on the ground
+}
+
+export class HeadlessSimulation {
+  private layers: LayerData;
+  private config: HeadlessSimConfig;
+  private scene = new THREE.Scene();
+  private shakeMapOut: ShakeMap | null = null;
+
+  constructor(layers: LayerData, config: HeadlessSimConfig) {
+    this.layers = layers;
+    this.config = config;
+  }
+
+  /** Run to completion (timer expiry or all agents dead) and return the final stats. */
+  run(): SimulationStatsData {
+    const { lat, lon, size, seed, durationSec, stepDurationSec } = this.config;
+    const sceneHalfSize = size / 2;
+
+    const world = new SimWorld({ seed });
+    const { group, heightSampler } = buildAllLayers(this.layers, lat, lon, null, null, null, new SeededRandom(seed));
+    this.scene.add(group);
+    landCoverRef?.spawnCells(world, (x, z) => heightSampler.sample(x, z));
+
+    const eventBus = new EventBus();
+    const obstacles = collectObstacles(group, buildingRegistry, sceneHalfSize);
+    const roadGraph = roadLinesRef.length > 0 ? new RoadGraph(roadLinesRef, world.rng) : null;
+    const manager = new AgentManager(world, this.scene, { headless: true });
+
+    const spawnPositions = pickSpawnPositions(AGENT_CONFIGS.length, roadGraph, obstacles);
+    for (let i = 0; i < AGENT_CONFIGS.length; i++) {
+      const pos = spawnPositions[i]!;
+      manager.spawn({
+        ...AGENT_CONFIGS[i]!,
+        spawnPosition: { x: pos.x, y: heightSampler.sample(pos.x, pos.z), z: pos.z },
+      });
+    }
+
+    const shelters = new ShelterRegistry(buildingRegistry);
+    const evacuation = new EvacuationPlanner([...(this.config.evacuationPoints ?? []), ...evacuationPointsRef], roadGraph, () => world.time);
+    const routing = new RoutePlanner(roadGraph, () => world.time);
+    const blockage = roadGraph ? new RoadBlockageLayer(roadGraph, eventBus) : null;
+    if (blockage) {
+      blockage.addSource("collapse", () => collapsedBuildingRubble(buildingRegistry));
+      blockage.addSource("tree", () => fallenTrees(treeRegistry));
+      world.addSystem("roadBlockage", (_w, dt) => blockage.update(dt));
+    }
+    // No VLM to report what agents see — they pick danger zones up from the hazards themselves
+    world.addSystem("hazardAwareness", createHazardAwarenessSystem(manager, eventBus, () => world.time));
+    world.addSystem("agentAction", createAgentActionSystem(manager, eventBus, world.rng, () => world.time, obstacles, sceneHalfSize, roadGraph, shelters, evacuation, routing));
+    world.addSystem("agentDamage", createAgentDamageSystem(manager, eventBus, world.rng, shelters));
+
+    const stats = new SimulationStats(eventBus, manager, {
+      xMin: -sceneHalfSize,
+      xMax: sceneHalfSize,
+      zMin: -sceneHalfSize,
+      zMax: sceneHalfSize,
+    }, seed, evacuation.points);
+
+    const disaster = this.launchDisaster(eventBus, heightSampler, group, world.rng, world.visualRng);
+    routing.setFloodDepth(disaster.waterDepth ?? null);
+    blockage?.setWaterDepth(disaster.waterDepth ?? null);
+    if (blockage && disaster.obstructions) blockage.addSource(disaster.obstructions.cause, disaster.obstructions.source);
+    console.log(`[Headless] ${this.config.scenario} launched at (${this.config.origin.x}, ${this.config.origin.z})`);
+
+    const dt = world.fixedDt;
+    const framesPerStep = Math.max(1, Math.round(stepDurationSec / dt));
+    let simTime = 0;
+
+    for (let frame = 1; ; frame++) {
+      world.step();
+      for (const agent of manager.agents) {
+        const eid = agent.eid;
+        Position.y[eid] = heightSampler.sample(Position.x[eid]!, Position.z[eid]!);
+      }
+      disaster.update(dt);
+
+      if (frame % framesPerStep !== 0) continue;
+
+      // Same cadence and end conditions as SteppedSimulation.tick()
+      simTime = (frame / framesPerStep) * stepDurationSec;
+      stats.sample(simTime);
+      if (manager.getLiving().length === 0) {
+        console.log(`[Headless] All agents dead at ${simTime.toFixed(0)}s.`);
+        break;
+      }
+      if (simTime >= durationSec) {
+        console.log(`[Headless] Timer expired at ${simTime.toFixed(0)}s.`);
+        break;
+      }
+    }
+
+    disaster.stop();
+    const data = stats.finalize(simTime);
+    stats.dispose();
+    return data;
+  }
+
+  /** PGA / PGV / MMI grid of an earthquake run, or null when the scenario has no quake. */
+  get shakeMap(): ShakeMap | null {
+    return this.shakeMapOut;
+  }
+
+  private configureQuake(quake: EarthquakeSimulator) {
+    if (this.config.magnitude !== undefined) quake.setMagnitude(this.config.magnitude);
+    if (this.config.depthKm !== undefined) quake.setDepth(this.config.depthKm);
+    if (this.config.strike !== undefined) quake.setStrike(this.config.strike);
+    if (this.config.aftershocks) quake.setAftershocks(true);
+  }
+
+  private launchDisaster(eventBus: EventBus, sampler: HeightSampler, group: THREE.Group, rng: SeededRandom, visualRng: SeededRandom): ActiveDisaster {
+    const { scenario, origin } = this.config;
+    const pos = new THREE.Vector3(origin.x, getTerrainHeight(origin.x, origin.z), origin.z);
+
+    switch (scenario) {
+      case "tornado": {
+        const tornado = new TornadoSimulator(this.scene, null);
+        tornado.setEventBus(eventBus);
+        tornado.setRng(rng);
+        if (this.config.efRating !== undefined) tornado.setEFRating(this.config.efRating);
+        if (this.config.vortexModel) tornado.setVortexModel(this.config.vortexModel);
+        if (this.config.tornadoTrack) tornado.setTrack(this.config.tornadoTrack);
+        tornado.spawn(pos);
+        return {
+          update: (dt) => tornado.update(dt, buildingRegistry),
+          stop: () => tornado.reset(),
+          obstructions: { cause: "debris", source: () => tornado.groundedDebris() },
+        };
+      }
+      case "earthquake": {
+        const quake = new EarthquakeSimulator(this.scene);
+        quake.setEventBus(eventBus);
+        quake.setRng(rng);
+        quake.setVisualRng(visualRng);
+        this.configureQuake(quake);
+        quake.spawn(pos);
+        this.shakeMapOut = quake.getShakeMap();
+        return {
+          update: (dt) => quake.update(dt, buildingRegistry),
+          stop: () => quake.despawn(),
+          obstructions: { cause: "rubble", source: () => quake.rubblePiles() },
+        };
+      }
+      case "flood": {
+        const flood = new FloodSimulator(this.scene);
+        flood.setEventBus(eventBus);
+        flood.setRng(rng);
+        flood.setTerrainContext(this.layers, this.config.lat, this.config.lon, undefined, group);
+        if (this.config.floodHeight !== undefined) flood.setMaxHeight(this.config.floodHeight);
+        flood.spawn(pos);
+        return {
+          update: (dt) => flood.update(dt),
+          stop: () => flood.despawn(),
+          waterDepth: (x, z) => flood.depthAt(x, z),
+        };
+      }
+      case "quake-fire":
+      case "quake-tsunami": {
+        const quake = new EarthquakeSimulator(this.scene);
+        quake.setEventBus(eventBus);
+        quake.setRng(rng);
+        quake.setVisualRng(visualRng);
+        this.configureQuake(quake);
+        const fire = new FireSimulator(this.scene);
+        fire.setContext(eventBus, sampler);
+        fire.setRng(rng);
+        fire.setVisualRng(visualRng);
+        if (this.config.fireRadius !== undefined) fire.setMaxRadius(this.config.fireRadius);
+        const tsunami = new TsunamiSurge();
+        tsunami.setEventBus(eventBus);
+        tsunami.setRng(rng);
+        tsunami.setContext({
+          scene: this.scene,
+          parent: group,
+          camera: new THREE.PerspectiveCamera(),
+          layers: this.layers,
+          centerLat: this.config.lat,
+          centerLon: this.config.lon,
+        }, this.config.size / 2);
+        const cascade = new HazardCascade(eventBus, rng, "earthquake", CASCADES[scenario], {
+          ignite: (x, z) => fire.spawnAt(new THREE.Vector3(x, sampler.sample(x, z), z)),
+          surge: (x, z, magnitude) => tsunami.spawn(x, z, this.config.floodHeight ?? surgeHeight(magnitude)),
+        }, this.config.size / 2, (label) => console.log(`[Headless] Active hazards: ${label}`));
+        quake.spawn(pos);
+        this.shakeMapOut = quake.getShakeMap();
+        return {
+          update: (dt) => {
+            quake.update(dt, buildingRegistry);
+            cascade.update(dt);
+            fire.update(dt);
+            tsunami.update(dt);
+          },
+          stop: () => {
+            cascade.dispose();
+            quake.despawn();
+            fire.stop();
+            tsunami.despawn();
+          },
+          waterDepth: (x, z) => tsunami.depthAt(x, z),
+          obstructions: { cause: "rubble", source: () => quake.rubblePiles() },
+        };
+      }
+      case "fire": {
+        const fire = new FireSimulator(this.scene);
+        fire.setContext(eventBus, sampler);
+        fire.setRng(rng);
+        fire.setVisualRng(visualRng);
+        if (this.config.fireRadius !== undefined) fire.setMaxRadius(this.config.fireRadius);
+        fire.spawn(pos);
+        return {
+          update: (dt) => fire.update(dt),
+          stop: () => fire.stop(),
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * three/webgpu reads GPUShaderStage from `self` at module load. Bun defines
+ * `self` but not the WebGPU globals, so provide the spec constants before
+ * any renderer-adjacent module (tornado.ts, tornadoCompute.ts) is imported.
+ * Import this first from headless entrypoints.
+ */
+
+const g = globalThis as { GPUShaderStage?: unknown };
+g.GPUShaderStage ??= { VERTEX: 1, FRAGMENT: 2, COMPUTE: 4 };
@@ -1,5 +1,6 @@
-import type { EventBus, AgentDamagedEvent, AgentDeathEvent } from "../core/EventBus.ts";
+import type { EventBus, AgentDamagedEvent, AgentDeathEvent, AgentRescuedEvent, AgentEvacuatedEvent, RoadBlockageEvent, AftershockEvent } from "../core/EventBus.ts";
 import type { AgentManager } from "../agents/AgentManager.ts";
+import type { EvacuationKind, EvacuationPoint } from "../agents/Evacuation.ts";
 import { Position, AgentState } from "../core/Components.ts";
 
 export interface AgentRecord {
@@ -9,15 +10,36 @@ export interface AgentRecord {
   deathPosition: [number, number, number] | null;
   cause: string | null;
   totalDamage: number;
+  rescuesPerformed: number;  // other agents this one carried or guided to safety
+  rescuedBy: string | null;  // name of whoever last rescued this agent
+  timeToSafety: number | null;  // sim seconds until first reaching an evacuation point
+  evacuatedTo: string | null;   // name of that evacuation point
+}
+
+export interface DestinationRecord {
+  id: string;
+  name: string;
+  kind: EvacuationKind;
+  arrivals: number;
 }
 
 export interface SimulationStatsData {
+  seed: number;      // SimWorld PRNG seed — rerun with it to reproduce
   duration: number;
   totalAgents: number;
   deaths: number;
   survivalRate: number;
   timeToFirstDeath: number | null;
   avgSurvivalTime: number;
+  rescues: number;           // AGENT_RESCUED events (bystander carries + guides)
+  rescuedSurvivors: number;  // rescued agents still alive at the end
+  evacuated: number;                // agents that reached an evacuation point
+  avgTimeToSafety: number | null;   // mean over those agents
+  destinations: DestinationRecord[];
+  roadsBlocked: number;  // distinct road-graph edges closed at some point
+  roadsSlowed: number;   // distinct edges slowed but never closed
+  aftershocks: number;                 // AFTERSHOCK events
+  largestAftershock: number | null;    // magnitude
   agentRecords: AgentRecord[];
   movementGrid: Float32Array;
   damageGrid: Float32Array;
@@ -30,6 +52,7 @@ export class SimulationStats {
   private eventBus: EventBus;
   private manager: AgentManager;
 
+  readonly seed: number;
   readonly cellSize = 2;
   readonly gridWidth: number;
   readonly gridHeight: number;
@@ -45,6 +68,17 @@ export class SimulationStats {
   private agentDeathTime: Map<number, number> = new Map();
   private agentDeathPos: Map<number, [number, number, number]> = new Map();
   private firstDeathTime: number | null = null;
+  private rescuesPerformed: Map<number, number> = new Map();
+  private rescuedBy: Map<number, number> = new Map();
+  private rescueCount = 0;
+  private destinations: EvacuationPoint[];
+  private pendingEvacuations: Map<number, string> = new Map(); // agentIndex → destinationId, until the next sample
+  private evacuationTime: Map<number, number> = new Map();
+  private evacuatedTo: Map<number, string> = new Map();
+  private blockedRoads: Set<string> = new Set(); // "a-b" edge keys
+  private slowedRoads: Set<string> = new Set();
+  private aftershockCount = 0;
+  private largestAftershock: number | null = null;
 
   private unsubs: (() => void)[] = [];
 
@@ -52,9 +86,13 @@ export class SimulationStats {
     eventBus: EventBus,
     manager: AgentManager,
     bounds: { xMin: number; xMax: number; zMin: number; zMax: number },
+    seed: number,
+    destinations: EvacuationPoint[] = [],
   ) {
     this.eventBus = eventBus;
     this.manager = manager;
+    this.seed = seed;
+    this.destinations = destinations;
 
     this.xMin = bounds.xMin;
     this.zMin = bounds.zMin;
@@ -89,6 +127,39 @@ export class SimulationStats {
         }
       }),
     );
+
+    this.unsubs.push(
+      eventBus.on("AGENT_RESCUED", (e) => {
+        const ev = e as AgentRescuedEvent;
+        this.rescueCount++;
+        this.rescuesPerformed.set(ev.rescuerIndex, (this.rescuesPerformed.get(ev.rescuerIndex) ?? 0) + 1);
+        this.rescuedBy.set(ev.agentIndex, ev.rescuerIndex);
+      }),
+    );
+
+    this.unsubs.push(
+      eventBus.on("AGENT_EVACUATED", (e) => {
+        const ev = e as AgentEvacuatedEvent;
+        if (!this.evacuatedTo.has(ev.agentIndex)) this.pendingEvacuations.set(ev.agentIndex, ev.destinationId);
+      }),
+    );
+
+    this.unsubs.push(
+      eventBus.on("AFTERSHOCK", (e) => {
+        const ev = e as AftershockEvent;
+        this.aftershockCount++;
+        this.largestAftershock = Math.max(this.largestAftershock ?? 0, ev.magnitude);
+      }),
+    );
+
+    this.unsubs.push(
+      eventBus.on("ROAD_BLOCKAGE", (e) => {
+        const ev = e as RoadBlockageEvent;
+        const key = `${ev.edge[0]}-${ev.edge[1]}`;
+        if (ev.state === "blocked") this.blockedRoads.add(key);
+        else if (ev.state === "slowed") this.slowedRoads.add(key);
+      }),
+    );
   }
 
   private posToCell(x: number, z: number): number {
@@ -99,6 +170,12 @@ export class SimulationStats {
   }
 
   sample(simTime: number): void {
+    for (const [index, destinationId] of this.pendingEvacuations) {
+      this.evacuationTime.set(index, simTime);
+      this.evacuatedTo.set(index, destinationId);
+    }
+    this.pendingEvacuations.clear();
+
     for (const agent of this.manager.agents) {
       const eid = agent.eid;
       if (AgentState.alive[eid]! === 0) {
@@ -134,6 +211,14 @@ export class SimulationStats {
         deathPosition: this.agentDeathPos.get(agent.index) ?? null,
         cause: alive ? null : (this.agentLastSource.get(agent.index) ?? "unknown"),
         totalDamage: this.agentDamage.get(agent.index) ?? 0,
+        rescuesPerformed: this.rescuesPerformed.get(agent.index) ?? 0,
+        rescuedBy: this.rescuedBy.has(agent.index)
+          ? (this.manager.agents[this.rescuedBy.get(agent.index)!]?.config.name ?? null)
+          : null,
+        timeToSafety: this.evacuationTime.get(agent.index) ?? null,
+        evacuatedTo: this.evacuatedTo.has(agent.index)
+          ? (this.destinations.find((d) => d.id === this.evacuatedTo.get(agent.index))?.name ?? this.evacuatedTo.get(agent.index)!)
+          : null,
       };
     });
 
@@ -148,13 +233,27 @@ export class SimulationStats {
         ? survivalTimes.reduce((a, b) => a + b, 0) / survivalTimes.length
         : simDuration;
 
+    const safetyTimes = [...this.evacuationTime.values()];
+    const arrivals = new Map<string, number>();
+    for (const id of this.evacuatedTo.values()) arrivals.set(id, (arrivals.get(id) ?? 0) + 1);
+
     return {
+      seed: this.seed,
       duration: simDuration,
       totalAgents,
       deaths,
       survivalRate: totalAgents > 0 ? (totalAgents - deaths) / totalAgents : 1,
       timeToFirstDeath: this.firstDeathTime,
       avgSurvivalTime,
+      rescues: this.rescueCount,
+      rescuedSurvivors: agentRecords.filter((r) => r.rescuedBy !== null && r.alive).length,
+      evacuated: safetyTimes.length,
+      avgTimeToSafety: safetyTimes.length > 0 ? safetyTimes.reduce((a, b) => a + b, 0) / safetyTimes.length : null,
+      destinations: this.destinations.map((d) => ({ id: d.id, name: d.name, kind: d.kind, arrivals: arrivals.get(d.id) ?? 0 })),
+      roadsBlocked: this.blockedRoads.size,
+      roadsSlowed: [...this.slowedRoads].filter((key) => !this.blockedRoads.has(key)).length,
+      aftershocks: this.aftershockCount,
+      largestAftershock: this.largestAftershock,
       agentRecords,
       movementGrid: this.movementGrid,
       damageGrid: this.damageGrid,
@@ -169,3 +268,13 @@ export class SimulationStats {
     this.unsubs.length = 0;
   }
 }
+
+/** JSON-safe copy of SimulationStatsData (typed-array grids become plain number arrays). */
+export function statsToJSON(data: SimulationStatsData) {
+  return {
+    ...data,
+    movementGrid: Array.from(data.movementGrid),
+    damageGrid: Array.from(data.damageGrid),
+    deathGrid: Array.from(data.deathGrid),
+  };
+}
@@ -1,5 +1,9 @@
 import type { SimulationStatsData } from "./SimulationStats.ts";
 import type { HeatmapOverlay } from "./HeatmapOverlay.ts";
+import type { DamageSurvey } from "../disasters/tornadoSurvey.ts";
+
+/** Downloads the report offers: building damage for GIS tools, or the EF damage survey. */
+export type ReportExport = "geojson" | "gpkg" | "survey";
 
 export class StatsOverlay {
   private container: HTMLDivElement;
@@ -111,7 +115,16 @@ export class StatsOverlay {
     document.body.appendChild(this.container);
   }
 
-  show(stats: SimulationStatsData, heatmapOverlay: HeatmapOverlay): void {
+  /**
+   * `onExport` adds buttons to download building damage and deaths for GIS
+   * tools; `survey` adds the EF damage survey of a tornado run.
+   */
+  show(
+    stats: SimulationStatsData,
+    heatmapOverlay: HeatmapOverlay,
+    onExport?: (format: ReportExport) => void,
+    survey?: DamageSurvey,
+  ): void {
     const causeLabel = (cause: string | null): string => {
       if (!cause) return "-";
       const map: Record<string, string> = {
@@ -122,6 +135,7 @@ export class StatsOverlay {
         GROUND_SHAKE: "Earthquake",
         QUAKE_DEBRIS: "Quake Debris",
         STRUCTURE_COLLAPSE: "Building Collapse",
+        SHELTER_COLLAPSE: "Shelter Collapse",
       };
       return map[cause] ?? cause;
     };
@@ -135,6 +149,41 @@ export class StatsOverlay {
             <td>${a.timeOfDeath !== null ? a.timeOfDeath.toFixed(0) + "s" : "-"}</td>
             <td>${causeLabel(a.cause)}</td>
             <td>${a.totalDamage.toFixed(1)}</td>
+            <td>${a.rescuesPerformed > 0 ? a.rescuesPerformed : "-"}${a.rescuedBy ? ` (saved by ${a.rescuedBy})` : ""}</td>
+            <td>${a.timeToSafety !== null ? `${a.timeToSafety.toFixed(0)}s (${a.evacuatedTo})` : "-"}</td>
+          </tr>`,
+      )
+      .join("");
+
+    const destinationRows = stats.destinations
+      .map(
+        (d) =>
+          `<tr>
+            <td>${d.name}</td>
+            <td>${d.kind === "shelter" ? "Shelter" : "Assembly point"}</td>
+            <td>${d.arrivals}</td>
+          </tr>`,
+      )
+      .join("");
+
+    // Survey: one row per damage indicator, with its worst damage and highest estimate
+    const byIndicator = new Map<string, { count: number; worst: number; damage: string; ef: number | null }>();
+    for (const b of survey?.buildings ?? []) {
+      if (b.degreeOfDamage === 0) continue;
+      const row = byIndicator.get(b.indicator) ?? { count: 0, worst: 0, damage: "", ef: null };
+      row.count++;
+      if (b.degreeOfDamage > row.worst) { row.worst = b.degreeOfDamage; row.damage = b.damage; }
+      if (b.efRating !== null && (row.ef === null || b.efRating > row.ef)) row.ef = b.efRating;
+      byIndicator.set(b.indicator, row);
+    }
+    const surveyRows = [...byIndicator]
+      .map(
+        ([code, r]) =>
+          `<tr>
+            <td>${code}</td>
+            <td>${r.count}</td>
+            <td>DOD ${r.worst}: ${r.damage}</td>
+            <td>${r.ef !== null ? `EF${r.ef}` : "< EF0"}</td>
           </tr>`,
       )
       .join("");
@@ -163,17 +212,61 @@ export class StatsOverlay {
             <div class="val">${stats.avgSurvivalTime.toFixed(0)}s</div>
             <div class="label">Avg Survival</div>
           </div>
+          <div class="sim-card">
+            <div class="val">${stats.rescues}</div>
+            <div class="label">Rescues</div>
+          </div>
+          <div class="sim-card">
+            <div class="val">${stats.evacuated}/${stats.totalAgents}</div>
+            <div class="label">Reached Safety</div>
+          </div>
+          <div class="sim-card">
+            <div class="val">${stats.avgTimeToSafety !== null ? stats.avgTimeToSafety.toFixed(0) + "s" : "-"}</div>
+            <div class="label">Avg Time to Safety</div>
+          </div>
+          <div class="sim-card">
+            <div class="val">${stats.roadsBlocked}</div>
+            <div class="label">Roads Blocked</div>
+          </div>
+          ${stats.aftershocks > 0 ? `<div class="sim-card">
+            <div class="val">${stats.aftershocks} (max M${stats.largestAftershock!.toFixed(1)})</div>
+            <div class="label">Aftershocks</div>
+          </div>` : ""}
         </div>
         <table class="sim-table">
-          <thead><tr><th>Agent</th><th>Status</th><th>Time of Death</th><th>Cause</th><th>Damage</th></tr></thead>
+          <thead><tr><th>Agent</th><th>Status</th><th>Time of Death</th><th>Cause</th><th>Damage</th><th>Rescues</th><th>Time to Safety</th></tr></thead>
           <tbody>${agentRows}</tbody>
         </table>
+        ${survey ? `<h2>Damage Survey: ${survey.rating !== null ? `EF${survey.rating}` : "unrated"}</h2>
+        <div class="sim-cards">
+          ${survey.byRating.map((n, ef) => `<div class="sim-card">
+            <div class="val">${n}</div>
+            <div class="label">EF${ef}</div>
+          </div>`).join("")}
+          <div class="sim-card">
+            <div class="val">${(survey.agreement * 100).toFixed(0)}%</div>
+            <div class="label">Matches Wind Field</div>
+          </div>
+        </div>
+        ${surveyRows ? `<table class="sim-table">
+          <thead><tr><th>Damage Indicator</th><th>Damaged</th><th>Worst Damage</th><th>Highest Rating</th></tr></thead>
+          <tbody>${surveyRows}</tbody>
+        </table>` : ""}` : ""}
+        ${destinationRows ? `<table class="sim-table">
+          <thead><tr><th>Evacuation Point</th><th>Kind</th><th>Arrivals</th></tr></thead>
+          <tbody>${destinationRows}</tbody>
+        </table>` : ""}
         <div class="sim-heatmap-btns">
           <button data-layer="movement">Movement</button>
           <button data-layer="damage">Damage Taken</button>
           <button data-layer="deaths">Deaths</button>
           <button data-layer="hide">Hide Heatmap</button>
         </div>
+        ${onExport ? `<div class="sim-heatmap-btns sim-export-btns">
+          <button data-format="geojson">Export GeoJSON</button>
+          <button data-format="gpkg">Export GeoPackage</button>
+          ${survey ? `<button data-format="survey">Export Damage Survey</button>` : ""}
+        </div>` : ""}
         <button class="sim-show-report-btn">Show Full Report</button>
         <button class="sim-close-btn">Close Report</button>
       </div>
@@ -188,7 +281,7 @@ export class StatsOverlay {
     };
 
     // Wire heatmap buttons
-    const btns = this.container.querySelectorAll<HTMLButtonElement>(".sim-heatmap-btns button");
+    const btns = this.container.querySelectorAll<HTMLButtonElement>(".sim-heatmap-btns:not(.sim-export-btns) button");
     btns.forEach((btn) => {
       btn.addEventListener("click", () => {
         btns.forEach((b) => b.classList.remove("active"));
@@ -215,6 +308,11 @@ export class StatsOverlay {
       });
     });
 
+    // Wire export buttons
+    this.container.querySelectorAll<HTMLButtonElement>(".sim-export-btns button").forEach((btn) => {
+      btn.addEventListener("click", () => onExport!(btn.dataset.format as ReportExport));
+    });
+
     // Wire "Show Full Report" button (returns from heatmap mode)
     this.container.querySelector(".sim-show-report-btn")!.addEventListener("click", () => {
       setHeatmapMode(false);
@@ -0,0 +1,314 @@
+/**
+ * Building streaming and LOD for large scenes.
+ *
+ * Buildings are grouped into CHUNK_SIZE square chunks. Every building gets its
+ * BuildingRecord, mesh object and material up front (hazards, shelters and
+ * stats need them), but its geometry is built lazily:
+ *
+ *   detail  — bevelled ExtrudeGeometry per building, within DETAIL_RADIUS of a viewpoint
+ *   far     — one merged, flat-shaded prism mesh per chunk, out to FAR_RADIUS
+ *   hidden  — beyond FAR_RADIUS (past the camera's far plane and fog)
+ *
+ * Hazards activate the chunks they reach with `activate()`, which builds their
+ * detail geometry at once and pins it, so physics only ever runs on real meshes.
+ * Their per-frame damage loops visit `activeBuildings` only, and flying debris
+ * finds what it may hit through `buildingsNear()`, so a scene's building count
+ * costs nothing where no hazard is.
+ */
+
+import * as THREE from "three";
+import { discardLoadedGeometry, type BuildingRecord } from "./layers.ts";
+
+export const CHUNK_SIZE = 250;        // meters per chunk side
+const DETAIL_RADIUS = 400;            // viewpoint distance for full-detail meshes
+const DETAIL_HYSTERESIS = 80;         // extra distance before detail drops back to the far mesh
+const FAR_RADIUS = 1100;              // just past the camera's far plane
+const BUILDS_PER_FRAME = 1;           // camera-driven chunk builds per update (activation ignores this)
+const DIRTY_CHECK_FRAMES = 15;        // how often far meshes are checked for destroyed buildings
+
+const BEVEL = { thickness: 0.2, size: 0.15, segments: 2 };
+
+/** Placeholder for buildings whose chunk hasn't been built — never rendered. */
+const PENDING_GEOMETRY = new THREE.BufferGeometry();
+
+/** Satellite roof texturing: caps sample the terrain canvas at their world position. */
+export interface RoofTexture {
+  bounds: { xMin: number; zMin: number; width: number; depth: number };
+}
+
+interface StreamedBuilding {
+  record: BuildingRecord;
+  shape: THREE.Shape;        // footprint in (x, latY) — rotateX(-PI/2) maps latY → -Z
+  base: number;              // world Y of the bottom
+}
+
+interface BuildingChunk {
+  minX: number;
+  minZ: number;
+  buildings: StreamedBuilding[];
+  detail: THREE.Group;
+  far: THREE.Mesh | null;
+  farDestroyed: number;      // destroyed count the far mesh was built with
+  built: boolean;
+  pinned: boolean;           // activated by a hazard — never evicted
+}
+
+/** Footprint half-extents and center of a building, as its bevelled mesh's bounding box would give. */
+export function footprintBounds(points: THREE.Vector2[]): { centerX: number; centerZ: number; halfX: number; halfZ: number } {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  }
+  return {
+    centerX: (minX + maxX) / 2,
+    centerZ: -(minY + maxY) / 2,
+    halfX: (maxX - minX) / 2 + BEVEL.size,
+    halfZ: (maxY - minY) / 2 + BEVEL.size,
+  };
+}
+
+export class BuildingStreamer {
+  readonly group = new THREE.Group();
+  private readonly chunks = new Map<string, BuildingChunk>();
+  private readonly farMaterial = new THREE.MeshPhongMaterial({ vertexColors: true, shininess: 10, side: THREE.DoubleSide });
+  private readonly active: BuildingRecord[] = [];
+  private reach = 0;         // farthest a building's walls stand from its center (m)
+  private frame = 0;
+
+  constructor(private readonly roof: RoofTexture | null = null) {
+    this.group.name = "buildings";
+  }
+
+  /** Register a building; its mesh gets geometry once its chunk is built. */
+  add(record: BuildingRecord, shape: THREE.Shape, base: number): void {
+    const cx = Math.floor(record.centerX / CHUNK_SIZE);
+    const cz = Math.floor(record.centerZ / CHUNK_SIZE);
+    const key = `${cx},${cz}`;
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = {
+        minX: cx * CHUNK_SIZE,
+        minZ: cz * CHUNK_SIZE,
+        buildings: [],
+        detail: new THREE.Group(),
+        far: null,
+        farDestroyed: 0,
+        built: false,
+        pinned: false,
+      };
+      chunk.detail.visible = false;
+      this.group.add(chunk.detail);
+      this.chunks.set(key, chunk);
+    }
+    record.mesh.geometry = PENDING_GEOMETRY;
+    chunk.detail.add(record.mesh);
+    chunk.buildings.push({ record, shape, base });
+    this.reach = Math.max(this.reach, Math.hypot(record.halfX, record.halfZ), record.width * 0.6);
+  }
+
+  /** Buildings in the chunks hazards have activated, in activation order. */
+  get activeBuildings(): BuildingRecord[] {
+    return this.active;
+  }
+
+  /** Buildings whose walls may come within `radius` of (x, z), looked up by chunk. */
+  buildingsNear(x: number, z: number, radius: number): BuildingRecord[] {
+    const r = radius + this.reach;
+    const out: BuildingRecord[] = [];
+    for (let cx = Math.floor((x - r) / CHUNK_SIZE); cx <= Math.floor((x + r) / CHUNK_SIZE); cx++) {
+      for (let cz = Math.floor((z - r) / CHUNK_SIZE); cz <= Math.floor((z + r) / CHUNK_SIZE); cz++) {
+        const chunk = this.chunks.get(`${cx},${cz}`);
+        if (chunk) for (const { record } of chunk.buildings) out.push(record);
+      }
+    }
+    return out;
+  }
+
+  get chunkCount(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Build and pin detail geometry for every chunk within `radius` of (x, z) —
+   * call before a hazard touches buildings there.
+   */
+  activate(x: number, z: number, radius: number): void {
+    for (const chunk of this.chunks.values()) {
+      if (chunk.pinned || distanceToChunk(chunk, x, z) > radius) continue;
+      chunk.pinned = true;
+      for (const { record } of chunk.buildings) this.active.push(record);
+      if (!chunk.built) this.buildDetail(chunk);
+    }
+  }
+
+  /** Build detail geometry for every chunk (for an export). Unpinned chunks are evicted again as the camera moves. */
+  buildAll(): void {
+    for (const chunk of this.chunks.values()) {
+      if (!chunk.built) this.buildDetail(chunk);
+    }
+  }
+
+  /**
+   * Pick each chunk's level of detail from its distance to the nearest
+   * viewpoint (the camera, plus agents whose perception renders the scene).
+   * Call once per frame.
+   */
+  update(viewpoints: { x: number; z: number }[]): void {
+    this.frame++;
+    const checkDirty = this.frame % DIRTY_CHECK_FRAMES === 0;
+    let builds = 0;
+
+    for (const chunk of this.chunks.values()) {
+      let d = Infinity;
+      for (const v of viewpoints) d = Math.min(d, distanceToChunk(chunk, v.x, v.z));
+      const wantDetail = d < (chunk.detail.visible ? DETAIL_RADIUS + DETAIL_HYSTERESIS : DETAIL_RADIUS);
+
+      if (wantDetail && !chunk.built && builds < BUILDS_PER_FRAME) {
+        this.buildDetail(chunk);
+        builds++;
+      }
+
+      const showDetail = wantDetail && chunk.built;
+      const showFar = !showDetail && d < FAR_RADIUS;
+      chunk.detail.visible = showDetail;
+
+      if (showFar && (!chunk.far || (checkDirty && destroyedIn(chunk) !== chunk.farDestroyed))) {
+        this.buildFar(chunk);
+      }
+      if (chunk.far) chunk.far.visible = showFar;
+
+      if (d > FAR_RADIUS && chunk.built && !chunk.pinned && isPristine(chunk)) {
+        this.evictDetail(chunk);
+      }
+    }
+  }
+
+  dispose(): void {
+    for (const chunk of this.chunks.values()) {
+      this.evictDetail(chunk);
+      chunk.far?.geometry.dispose();
+      for (const { record } of chunk.buildings) {
+        const mats = Array.isArray(record.mesh.material) ? record.mesh.material : [record.mesh.material];
+        for (const m of mats) m.dispose();
+      }
+    }
+    this.farMaterial.dispose();
+    this.chunks.clear();
+    this.active.length = 0;
+    this.group.clear();
+  }
+
+  private buildDetail(chunk: BuildingChunk): void {
+    for (const b of chunk.buildings) {
+      b.record.mesh.geometry = this.detailGeometry(b);
+    }
+    chunk.built = true;
+  }
+
+  private evictDetail(chunk: BuildingChunk): void {
+    if (!chunk.built) return;
+    for (const { record } of chunk.buildings) {
+      if (record.mesh.geometry !== PENDING_GEOMETRY) record.mesh.geometry.dispose();
+      discardLoadedGeometry(record.mesh);
+      record.mesh.geometry = PENDING_GEOMETRY;
+    }
+    chunk.built = false;
+    chunk.detail.visible = false;
+  }
+
+  private detailGeometry({ record, shape, base }: StreamedBuilding): THREE.BufferGeometry {
+    const geo = new THREE.ExtrudeGeometry(shape, {
+      depth: record.height,
+      bevelEnabled: true,
+      bevelThickness: BEVEL.thickness,
+      bevelSize: BEVEL.size,
+      bevelSegments: BEVEL.segments,
+    });
+    // ExtrudeGeometry extrudes along the shape's Z axis; rotate so it goes up (Y)
+    geo.rotateX(-Math.PI / 2);
+    geo.translate(0, base, 0);
+
+    if (this.roof && Array.isArray(record.mesh.material)) {
+      // Remap roof cap UVs (materialIndex 0) to the building's world position in satellite space
+      const uvAttr = geo.attributes.uv!;
+      const posAttr = geo.attributes.position!;
+      const bounds = this.roof.bounds;
+      for (const grp of geo.groups) {
+        if (grp.materialIndex !== 0) continue;
+        for (let i = grp.start; i < grp.start + grp.count; i++) {
+          const idx = geo.index ? geo.index.getX(i) : i;
+          uvAttr.setXY(idx, (posAttr.getX(idx) - bounds.xMin) / bounds.width, (posAttr.getZ(idx) - bounds.zMin) / bounds.depth);
+        }
+      }
+      uvAttr.needsUpdate = true;
+    }
+    return geo;
+  }
+
+  /** One merged prism mesh for the chunk's standing buildings. */
+  private buildFar(chunk: BuildingChunk): void {
+    const positions: number[] = [];
+    const colors: number[] = [];
+    let destroyed = 0;
+
+    for (const { record, shape, base } of chunk.buildings) {
+      if (record.destroyed) { destroyed++; continue; }
+      const top = base + record.height;
+      const { r, g, b } = record.originalColor;
+      const ring = shape.getPoints();
+      if (ring.length > 1 && ring[0]!.equals(ring[ring.length - 1]!)) ring.pop();
+      const push = (p: THREE.Vector2, y: number) => {
+        positions.push(p.x, y, -p.y);
+        colors.push(r, g, b);
+      };
+
+      for (const [i0, i1, i2] of THREE.ShapeUtils.triangulateShape(ring, [])) {
+        push(ring[i0!]!, top);
+        push(ring[i1!]!, top);
+        push(ring[i2!]!, top);
+      }
+      for (let i = 0; i < ring.length; i++) {
+        const a = ring[i]!;
+        const c = ring[(i + 1) % ring.length]!;
+        push(a, base); push(c, base); push(c, top);
+        push(a, base); push(c, top); push(a, top);
+      }
+    }
+
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    geo.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+    geo.computeVertexNormals();
+
+    if (chunk.far) {
+      chunk.far.geometry.dispose();
+      chunk.far.geometry = geo;
+    } else {
+      chunk.far = new THREE.Mesh(geo, this.farMaterial);
+      chunk.far.name = "buildings-far";
+      chunk.far.receiveShadow = true;
+      this.group.add(chunk.far);
+    }
+    chunk.farDestroyed = destroyed;
+  }
+}
+
+function distanceToChunk(chunk: BuildingChunk, x: number, z: number): number {
+  const dx = Math.max(chunk.minX - x, 0, x - (chunk.minX + CHUNK_SIZE));
+  const dz = Math.max(chunk.minZ - z, 0, z - (chunk.minZ + CHUNK_SIZE));
+  return Math.hypot(dx, dz);
+}
+
+function destroyedIn(chunk: BuildingChunk): number {
+  let n = 0;
+  for (const { record } of chunk.buildings) if (record.destroyed) n++;
+  return n;
+}
+
+/** No hazard has touched the chunk, so its geometry can be rebuilt from scratch later. */
+function isPristine(chunk: BuildingChunk): boolean {
+  return chunk.buildings.every(({ record }) => record.damageLevel === 0 && !record.destroyed && record.mesh.position.lengthSq() === 0);
+}
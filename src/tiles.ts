@@ -8,6 +8,21 @@ export function metersPerDegree(lat: number) {
   };
 }
 
+const ROAD_WIDTHS: Record<string, number> = {
+  motorway: 14, trunk: 12, primary: 10, secondary: 8, tertiary: 7,
+  residential: 6, service: 4, unclassified: 6, living_street: 5,
+  pedestrian: 4, footway: 2, cycleway: 2, path: 1.5,
+};
+
+/** Width (m) of a road or railway feature: its parsed width, else its lanes, else typical for its class. */
+export function roadWidth(props: Record<string, unknown>): number {
+  const num = (v: unknown) => (typeof v === "number" ? v : parseFloat(String(v ?? "")));
+  const kind = String(props.highway ?? props.railway ?? "residential");
+  const lanesWidth = (num(props._lanes) || 0) * 3.5;
+  const width = num(props._width);
+  return !isNaN(width) ? width : lanesWidth > 0 ? lanesWidth : ROAD_WIDTHS[kind] ?? 6;
+}
+
 export interface BuildingFeature {
   type: "Feature";
   properties: Record<string, unknown>;
@@ -30,6 +45,39 @@ export interface ElevationData {
   west: number;
   east: number;
   values: number[][];
+  source?: string;
+}
+
+/**
+ * Imported land-cover raster (landcoverImport.ts) on the same kind of grid as
+ * ElevationData: row 0 is the south edge. Classes are `LandCover` codes,
+ * `LAND_COVER_NO_DATA` where the file has none; soil is the hydrologic soil
+ * group, 1–4 for A–D, 0 where unknown.
+ */
+export interface LandCoverData {
+  gridSize: number;
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+  classes: number[][];
+  soil?: number[][];
+  source: string;
+}
+
+/**
+ * Imported Vs30 raster (vs30Import.ts) on the same kind of grid as
+ * ElevationData: row 0 is the south edge, values in m/s, 0 where the file
+ * has none.
+ */
+export interface Vs30Data {
+  gridSize: number;
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+  values: number[][];
+  source: string;
 }
 
 export interface LayerData {
@@ -40,15 +88,23 @@ export interface LayerData {
   trees: FeatureCollection;
   railways: FeatureCollection;
   barriers: FeatureCollection;
+  /** Shelters / assembly points — absent from areas cached before it was fetched. */
+  evacuation?: FeatureCollection;
   elevation: ElevationData;
+  /** Present when LANDCOVER_FILE or SOIL_FILE is set on the server. */
+  landCover?: LandCoverData;
+  /** Present when VS30_FILE is set on the server. */
+  vs30?: Vs30Data;
 }
 
 /**
  * Fetch all GeoJSON layers for a box centered on (lat, lon).
  * @param size — side length in meters (default 500)
+ * @param source — feature source, "overpass" or "extract" (server default when omitted)
  */
-export async function fetchLayers(lat: number, lon: number, size = 500): Promise<LayerData> {
-  const res = await fetch(`/api/data?lat=${lat}&lon=${lon}&size=${size}`);
+export async function fetchLayers(lat: number, lon: number, size = 500, source?: string | null): Promise<LayerData> {
+  const sourceParam = source ? `&source=${encodeURIComponent(source)}` : "";
+  const res = await fetch(`/api/data?lat=${lat}&lon=${lon}&size=${size}${sourceParam}`);
   if (!res.ok) {
     const text = await res.text();
     throw new Error(`Server error ${res.status}: ${text}`);
@@ -63,77 +119,20 @@ export interface SatelliteResult {
 }
 
 /**
- * Fetch satellite imagery for the given area.
- * Computes optimal zoom, then fetches a grid of tiles to fully cover the terrain.
- * Stitches them onto a canvas and returns as a blob URL.
+ * Fetch the satellite image for the given area, stitched by the server from
+ * the configured provider's tiles (see src/satellite.ts). The zoom and tile
+ * count it was composed at come back as headers, for `computeSatelliteBounds`.
  */
-export async function fetchSatelliteImage(lat: number, lon: number, size: number): Promise<SatelliteResult | null> {
+export async function fetchSatelliteImage(lat: number, lon: number, size: number, source?: string | null): Promise<SatelliteResult | null> {
   try {
-    const latRad = lat * Math.PI / 180;
-    const cosLat = Math.cos(latRad);
-
-    // Pick zoom for best resolution match
-    // scale=2 doubles pixel count but NOT geographic coverage — coverage = 640 * mpp
-    const metersPerPixelNeeded = size / 640;
-    const zoom = Math.min(21, Math.max(1, Math.round(
-      Math.log2(156543.03392 * cosLat / metersPerPixelNeeded)
-    )));
-
-    const metersPerPixel = 156543.03392 * cosLat / Math.pow(2, zoom);
-    const tileMeters = 640 * metersPerPixel;
-    const tilesPerAxis = Math.max(1, Math.ceil(size / tileMeters));
-
-    const mPerDegLat = (Math.PI / 180) * 6378137;
-    const mPerDegLon = (Math.PI / 180) * 6378137 * cosLat;
-
-    // Fetch all tiles in parallel
-    const fetches: Promise<{ img: HTMLImageElement; col: number; row: number }>[] = [];
-    for (let row = 0; row < tilesPerAxis; row++) {
-      for (let col = 0; col < tilesPerAxis; col++) {
-        const offsetX = (col - (tilesPerAxis - 1) / 2) * tileMeters;
-        const offsetZ = (row - (tilesPerAxis - 1) / 2) * tileMeters;
-        // offsetZ positive = row increases downward = south in geo coords
-        const tileLat = lat - offsetZ / mPerDegLat;
-        const tileLon = lon + offsetX / mPerDegLon;
-
-        const p = fetch(`/api/satellite?lat=${tileLat}&lon=${tileLon}&zoom=${zoom}`)
-          .then(res => {
-            if (!res.ok) throw new Error(`tile fetch failed: ${res.status}`);
-            return res.blob();
-          })
-          .then(blob => new Promise<{ img: HTMLImageElement; col: number; row: number }>((resolve, reject) => {
-            const img = new Image();
-            img.onload = () => resolve({ img, col, row });
-            img.onerror = reject;
-            img.src = URL.createObjectURL(blob);
-          }));
-        fetches.push(p);
-      }
-    }
-
-    const tiles = await Promise.all(fetches);
-
-    // Stitch tiles onto a single canvas
-    const pxPerTile = 1280;
-    const canvasSize = tilesPerAxis * pxPerTile;
-    const canvas = document.createElement("canvas");
-    canvas.width = canvasSize;
-    canvas.height = canvasSize;
-    const ctx = canvas.getContext("2d")!;
-
-    for (const { img, col, row } of tiles) {
-      ctx.drawImage(img, col * pxPerTile, row * pxPerTile, pxPerTile, pxPerTile);
-      URL.revokeObjectURL(img.src);
-    }
-
-    const stitchedBlob = await new Promise<Blob>((resolve) => {
-      canvas.toBlob(blob => resolve(blob!), "image/png");
-    });
+    const sourceParam = source ? `&source=${encodeURIComponent(source)}` : "";
+    const res = await fetch(`/api/satellite?lat=${lat}&lon=${lon}&size=${size}${sourceParam}`);
+    if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
 
     return {
-      blobUrl: URL.createObjectURL(stitchedBlob),
-      zoom,
-      tilesPerAxis,
+      blobUrl: URL.createObjectURL(await res.blob()),
+      zoom: parseInt(res.headers.get("X-Satellite-Zoom") ?? ""),
+      tilesPerAxis: parseInt(res.headers.get("X-Satellite-Tiles") ?? "1"),
     };
   } catch (err) {
     console.warn("[Satellite] Fetch failed:", err);
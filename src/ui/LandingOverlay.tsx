@@ -3,6 +3,7 @@ import { motion } from "framer-motion";
 import { MapPin, Flame, CloudLightning, Mountain, Waves, Rocket, Search, Users } from "lucide-react";
 import { DitherCityBackground } from "./DitherCity.tsx";
 import { cn } from "./cn.ts";
+import type { GeocodeResponse, GeocodeResult } from "../geocode.ts";
 
 export type LoadingStep = {
   label: string;
@@ -10,7 +11,7 @@ export type LoadingStep = {
 };
 
 interface LandingOverlayProps {
-  onLookup: (address: string) => Promise<{ lat: number; lon: number } | { error: string }>;
+  onLookup: (address: string) => Promise<GeocodeResponse | { error: string }>;
   onLaunch: (lat: number, lon: number, size: number, scenario: string, enableAgents: boolean) => void;
   defaultLat: number;
   defaultLon: number;
@@ -51,6 +52,7 @@ export function LandingOverlay({ onLookup, onLaunch, defaultLat, defaultLon }: L
   const [address, setAddress] = useState(saved?.address ?? "");
   const [lookupError, setLookupError] = useState("");
   const [lookupLoading, setLookupLoading] = useState(false);
+  const [candidates, setCandidates] = useState<GeocodeResult[]>([]);
   const [selectedScenario, setSelectedScenario] = useState(saved?.scenario ?? "fire");
   const [enableAgents, setEnableAgents] = useState(saved?.enableAgents ?? true);
   const [isLoading, setIsLoading] = useState(false);
@@ -65,14 +67,17 @@ export function LandingOverlay({ onLookup, onLaunch, defaultLat, defaultLon }: L
   async function handleLookup() {
     if (!address.trim()) return;
     setLookupError("");
+    setCandidates([]);
     setLookupLoading(true);
     try {
       const result = await onLookup(address);
       if ("error" in result) {
         setLookupError(result.error);
-      } else {
-        setLat(result.lat.toString());
-        setLon(result.lon.toString());
+      } else if (result.ambiguous) {
+        // Several plausible places — let the user pick instead of guessing
+        setCandidates(result.results);
+      } else if (result.results[0]) {
+        pickCandidate(result.results[0]);
       }
     } catch {
       setLookupError("Network error");
@@ -81,6 +86,12 @@ export function LandingOverlay({ onLookup, onLaunch, defaultLat, defaultLon }: L
     }
   }
 
+  function pickCandidate(c: GeocodeResult) {
+    setLat(c.lat.toString());
+    setLon(c.lon.toString());
+    setCandidates([]);
+  }
+
   function handleLaunch() {
     const la = parseFloat(lat);
     const lo = parseFloat(lon);
@@ -192,7 +203,7 @@ export function LandingOverlay({ onLookup, onLaunch, defaultLat, defaultLon }: L
               value={address}
               onChange={e => setAddress(e.target.value)}
               onKeyDown={e => e.key === "Enter" && handleLookup()}
-              placeholder="Address or Google Maps link"
+              placeholder="Address, lat,lon, plus code or Google Maps link"
               className={cn(
                 "flex-1 bg-white/[0.06] border border-white/[0.1] rounded-lg",
                 "px-3 py-2 text-sm text-white placeholder:text-neutral-600",
@@ -214,6 +225,30 @@ export function LandingOverlay({ onLookup, onLaunch, defaultLat, defaultLon }: L
           </div>
           {lookupError && <p className="text-red-400 text-xs mb-2">{lookupError}</p>}
 
+          {/* Disambiguation picker */}
+          {candidates.length > 0 && (
+            <div className="mb-3">
+              <p className="text-[11px] text-neutral-500 mb-1">Several places match — pick one:</p>
+              <div className="max-h-40 overflow-y-auto rounded-lg border border-white/[0.1] divide-y divide-white/[0.06]">
+                {candidates.map((c, i) => (
+                  <button
+                    key={`${c.lat},${c.lon},${i}`}
+                    onClick={() => pickCandidate(c)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 text-xs transition-colors",
+                      "bg-white/[0.03] text-neutral-300 hover:bg-white/[0.1] hover:text-white"
+                    )}
+                  >
+                    <span className="block truncate">{c.name}</span>
+                    <span className="block text-[10px] text-neutral-500">
+                      {c.lat.toFixed(4)}, {c.lon.toFixed(4)}{c.kind ? ` · ${c.kind.replace(/_/g, " ")}` : ""}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Lat/Lon */}
           <div className="grid grid-cols-2 gap-3 mb-4">
             <div>
@@ -255,7 +290,7 @@ export function LandingOverlay({ onLookup, onLaunch, defaultLat, defaultLon }: L
             <input
               type="range"
               min={100}
-              max={2000}
+              max={8000}
               step={50}
               value={size}
               onChange={e => setSize(parseInt(e.target.value))}
@@ -0,0 +1,121 @@
+/**
+ * Site conditions for earthquake shaking: Vs30, the average shear-wave
+ * velocity of the top 30 m (m/s). Soft sediment (low Vs30) amplifies the
+ * motion, rock doesn't (groundMotion.ts).
+ *
+ * Taken from an imported Vs30 raster when the server has one
+ * (LayerData.vs30), else estimated from the terrain slope after Wald & Allen
+ * (2007): flat valley floors are soft basin fill, steep ground is rock.
+ */
+
+import type { ElevationData, LayerData, Vs30Data } from "./tiles.ts";
+import { metersPerDegree } from "./tiles.ts";
+
+/** Wald & Allen (2007), active tectonic regions: slope (m/m) bounds of each Vs30 range. */
+const SLOPE_VS30: [slope: number, vs30: number][] = [
+  [1.0e-4, 180],
+  [2.2e-3, 240],
+  [6.3e-3, 300],
+  [0.018, 360],
+  [0.050, 490],
+  [0.10, 620],
+  [0.138, 760],
+];
+const MIN_VS30 = 150;
+const MAX_VS30 = 900;
+
+/** Baseline (m) slopes are measured over — the proxy was fitted to ~1 km DEMs, so single DEM cells are too noisy. */
+const SLOPE_BASELINE = 250;
+
+/** Vs30 for a topographic slope (m/m), interpolated log-linearly within the Wald & Allen ranges. */
+export function vs30FromSlope(slope: number): number {
+  const first = SLOPE_VS30[0]!;
+  if (slope <= first[0]) return Math.max(MIN_VS30, first[1] * (slope / first[0]) ** 0.1);
+  for (let i = 1; i < SLOPE_VS30.length; i++) {
+    const [s1, v1] = SLOPE_VS30[i]!;
+    if (slope > s1) continue;
+    const [s0, v0] = SLOPE_VS30[i - 1]!;
+    const t = Math.log(slope / s0) / Math.log(s1 / s0);
+    return v0 + (v1 - v0) * t;
+  }
+  const last = SLOPE_VS30[SLOPE_VS30.length - 1]!;
+  return Math.min(MAX_VS30, last[1] * (slope / last[0]) ** 0.3);
+}
+
+/** Vs30 on the elevation lattice, sampled bilinearly in scene meters. */
+export class Vs30Map {
+  /** Where the values came from, for logging. */
+  readonly source: string;
+  private values: Float32Array;
+  private n: number;
+  private xMin: number;
+  private xMax: number;
+  private zMin: number;
+  private zMax: number;
+
+  constructor(data: LayerData, centerLat: number, centerLon: number) {
+    const elev = data.elevation;
+    const mpd = metersPerDegree(centerLat);
+    this.n = elev.gridSize;
+    this.xMin = (elev.west - centerLon) * mpd.lon;
+    this.xMax = (elev.east - centerLon) * mpd.lon;
+    this.zMin = -((elev.north - centerLat) * mpd.lat);
+    this.zMax = -((elev.south - centerLat) * mpd.lat);
+    this.values = slopeVs30(elev, mpd);
+
+    const imported = data.vs30;
+    if (imported) this.sampleImported(imported, elev);
+    this.source = imported ? `${imported.source}, slope where it has none` : "terrain slope";
+  }
+
+  /** Vs30 (m/s) at a scene point, clamped to the lattice. */
+  at(x: number, z: number): number {
+    const last = this.n - 1;
+    if (last < 1) return this.values[0] ?? SLOPE_VS30[SLOPE_VS30.length - 1]![1];
+    // Row 0 is the south edge (zMax)
+    const u = Math.max(0, Math.min(last, ((x - this.xMin) / (this.xMax - this.xMin)) * last));
+    const v = Math.max(0, Math.min(last, ((this.zMax - z) / (this.zMax - this.zMin)) * last));
+    const c = Math.min(last - 1, Math.floor(u));
+    const r = Math.min(last - 1, Math.floor(v));
+    const fu = u - c, fv = v - r;
+    const at = (row: number, col: number) => this.values[row * this.n + col]!;
+    return (at(r, c) * (1 - fu) + at(r, c + 1) * fu) * (1 - fv) + (at(r + 1, c) * (1 - fu) + at(r + 1, c + 1) * fu) * fv;
+  }
+
+  /** Overwrite lattice nodes the imported raster covers (nearest cell). */
+  private sampleImported(imported: Vs30Data, elev: ElevationData) {
+    const last = this.n - 1 || 1;
+    const m = imported.gridSize - 1 || 1;
+    for (let row = 0; row < this.n; row++) {
+      const lat = elev.south + ((elev.north - elev.south) * row) / last;
+      const ir = Math.round(((lat - imported.south) / (imported.north - imported.south)) * m);
+      for (let col = 0; col < this.n; col++) {
+        const lon = elev.west + ((elev.east - elev.west) * col) / last;
+        const ic = Math.round(((lon - imported.west) / (imported.east - imported.west)) * m);
+        const v = imported.values[ir]?.[ic];
+        if (v !== undefined && v > 0) this.values[row * this.n + col] = v;
+      }
+    }
+  }
+}
+
+/** Slope-proxy Vs30 at every elevation lattice node, slopes taken over about SLOPE_BASELINE. */
+function slopeVs30(elev: ElevationData, mpd: { lon: number; lat: number }): Float32Array {
+  const n = elev.gridSize;
+  const out = new Float32Array(n * n);
+  const dxCell = ((elev.east - elev.west) * mpd.lon) / Math.max(1, n - 1);
+  const dzCell = ((elev.north - elev.south) * mpd.lat) / Math.max(1, n - 1);
+  const kx = Math.max(1, Math.round(SLOPE_BASELINE / 2 / dxCell));
+  const kz = Math.max(1, Math.round(SLOPE_BASELINE / 2 / dzCell));
+  const h = (row: number, col: number) => elev.values[Math.max(0, Math.min(n - 1, row))]![Math.max(0, Math.min(n - 1, col))]!;
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const c0 = Math.max(0, col - kx), c1 = Math.min(n - 1, col + kx);
+      const r0 = Math.max(0, row - kz), r1 = Math.min(n - 1, row + kz);
+      const gx = c1 > c0 ? (h(row, c1) - h(row, c0)) / ((c1 - c0) * dxCell) : 0;
+      const gz = r1 > r0 ? (h(r1, col) - h(r0, col)) / ((r1 - r0) * dzCell) : 0;
+      out[row * n + col] = vs30FromSlope(Math.hypot(gx, gz));
+    }
+  }
+  return out;
+}
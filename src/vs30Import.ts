@@ -0,0 +1,46 @@
+/**
+ * Server-side: a Vs30 raster (m/s) from a local GeoTIFF, such as the USGS
+ * global Vs30 mosaic or a regional site-condition map, resampled onto a
+ * Vs30Data grid. Read with the DEM reader, so the same formats and CRSs apply
+ * (dem.ts). The client falls back to the slope proxy where it has no data
+ * (vs30.ts).
+ */
+
+import { basename } from "path";
+import { openDem, pixelMeters, MIN_GRID_SIZE, type DemRaster } from "./dem.ts";
+import { sampleNearest } from "./landcoverImport.ts";
+import type { Bounds } from "./cache.ts";
+import type { Vs30Data } from "./tiles.ts";
+
+const MIN_SPACING_METERS = 10;
+const MAX_GRID_SIZE = 257;
+
+export interface Vs30Source {
+  readonly name: string;
+  readGrid(box: Bounds): Promise<Vs30Data>;
+}
+
+class RasterVs30Source implements Vs30Source {
+  readonly name: string;
+  private raster: Promise<DemRaster> | null = null;
+
+  constructor(private readonly path: string) {
+    this.name = basename(path);
+  }
+
+  async readGrid(box: Bounds): Promise<Vs30Data> {
+    const raster = await (this.raster ??= openDem(this.path));
+    const latMid = (box.south + box.north) / 2;
+    const spacing = Math.max(MIN_SPACING_METERS, pixelMeters(raster, latMid));
+    const mPerDegLat = (Math.PI / 180) * 6378137;
+    const longestSide = Math.max((box.east - box.west) * mPerDegLat * Math.cos((latMid * Math.PI) / 180), (box.north - box.south) * mPerDegLat);
+    const gridSize = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(longestSide / spacing) + 1));
+    const values = (await sampleNearest(raster, box, gridSize)).map((row) => row.map((v) => (v > 0 ? v : 0)));
+    return { gridSize, ...box, values, source: this.name };
+  }
+}
+
+/** Vs30 source from the environment (VS30_FILE, a Vs30 GeoTIFF in m/s), or null when unset. */
+export function createVs30Source(env: Record<string, string | undefined> = process.env): Vs30Source | null {
+  return env.VS30_FILE ? new RasterVs30Source(env.VS30_FILE) : null;
+}
@@ -0,0 +1,197 @@
+/**
+ * Building vulnerability: construction attributes read from OSM tags, a
+ * default height when none is tagged, and per-hazard fragility multipliers
+ * for the damage models.
+ */
+
+export type ConstructionClass = "wood" | "masonry" | "concrete" | "steel" | "unknown";
+
+/** What OSM tells us about how a building is built. */
+export interface BuildingAttributes {
+  type: string;                       // `building` tag: house, apartments, industrial, … ("yes" when untyped)
+  levels: number | null;              // `building:levels`
+  material: string | null;            // `building:material`
+  construction: ConstructionClass;    // from the material, else guessed from the type
+  startYear: number | null;           // from `start_date`
+  roofShape: string | null;           // `roof:shape`
+}
+
+/**
+ * Per-hazard resistance multipliers, 1 for an average building. Wind, shaking
+ * and hydro divide the load a building feels (higher is sturdier); ignition
+ * multiplies how quickly it catches fire (higher burns sooner).
+ */
+export interface Fragility {
+  wind: number;
+  shaking: number;
+  hydro: number;
+  ignition: number;
+}
+
+const LEVEL_HEIGHT = 3.5;    // meters per storey, as overpass.ts uses for `building:levels`
+const QUALITY_SPREAD = 0.3;  // build-quality scatter: ×(0.85–1.15) on top of the construction data
+
+const MATERIAL_CLASS: Record<string, ConstructionClass> = {
+  wood: "wood",
+  timber_framing: "wood",
+  log: "wood",
+  brick: "masonry",
+  stone: "masonry",
+  sandstone: "masonry",
+  limestone: "masonry",
+  adobe: "masonry",
+  cement_block: "masonry",
+  masonry: "masonry",
+  concrete: "concrete",
+  reinforced_concrete: "concrete",
+  steel: "steel",
+  metal: "steel",
+  metal_plates: "steel",
+  glass: "steel",
+};
+
+/** Construction most buildings of a type have when `building:material` is missing. */
+const TYPE_CLASS: Record<string, ConstructionClass> = {
+  house: "wood",
+  detached: "wood",
+  semidetached_house: "wood",
+  terrace: "masonry",
+  bungalow: "wood",
+  cabin: "wood",
+  hut: "wood",
+  shed: "wood",
+  garage: "wood",
+  farm: "wood",
+  barn: "wood",
+  static_caravan: "wood",
+  apartments: "concrete",
+  residential: "masonry",
+  dormitory: "concrete",
+  hotel: "concrete",
+  commercial: "concrete",
+  office: "concrete",
+  retail: "concrete",
+  hospital: "concrete",
+  school: "masonry",
+  university: "concrete",
+  civic: "concrete",
+  government: "concrete",
+  parking: "concrete",
+  church: "masonry",
+  cathedral: "masonry",
+  industrial: "steel",
+  warehouse: "steel",
+  hangar: "steel",
+  manufacture: "steel",
+};
+
+/** Height (m) of a building of each type with neither `height` nor `building:levels`. */
+const TYPE_HEIGHT: Record<string, number> = {
+  house: 7,
+  detached: 7,
+  semidetached_house: 7,
+  bungalow: 4,
+  terrace: 8,
+  cabin: 4,
+  hut: 3,
+  shed: 3,
+  garage: 3,
+  garages: 3,
+  roof: 4,
+  static_caravan: 3,
+  barn: 8,
+  apartments: 15,
+  residential: 10,
+  dormitory: 15,
+  hotel: 20,
+  commercial: 12,
+  office: 20,
+  retail: 6,
+  industrial: 9,
+  warehouse: 9,
+  hangar: 12,
+  school: 10,
+  hospital: 20,
+  church: 15,
+  cathedral: 30,
+};
+const DEFAULT_HEIGHT = 10;
+
+/** Baseline fragility of each construction class. */
+const CLASS_FRAGILITY: Record<ConstructionClass, Fragility> = {
+  wood:     { wind: 0.8,  shaking: 1.1,  hydro: 0.6, ignition: 1.6 },  // light frame: flexible, but lifts, floats and burns
+  masonry:  { wind: 1.05, shaking: 0.65, hydro: 1.0, ignition: 0.8 },  // unreinforced walls crack under shaking
+  concrete: { wind: 1.3,  shaking: 1.15, hydro: 1.4, ignition: 0.5 },
+  steel:    { wind: 1.15, shaking: 1.25, hydro: 1.2, ignition: 0.6 },  // light cladding fails before the frame
+  unknown:  { wind: 1,    shaking: 1,    hydro: 1,   ignition: 1 },
+};
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" ? parseFloat(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function str(v: unknown): string | null {
+  return typeof v === "string" && v.trim() !== "" ? v.trim().toLowerCase() : null;
+}
+
+/** Year from an OSM `start_date` ("1923", "1923-05-01", "~1920", "C19", "1920s"). */
+export function parseStartYear(v: unknown): number | null {
+  if (typeof v === "number") return v;
+  if (typeof v !== "string") return null;
+  const century = /^C(\d{2})$/i.exec(v.trim());
+  if (century) return (parseInt(century[1]!, 10) - 1) * 100 + 50;
+  const year = /(\d{4})/.exec(v);
+  return year ? parseInt(year[1]!, 10) : null;
+}
+
+/** Construction attributes from a building feature's properties (OSM tags plus overpass.ts's parsed `_` fields). */
+export function buildingAttributes(props: Record<string, unknown>): BuildingAttributes {
+  const type = str(props.building) ?? "yes";
+  const material = str(props["building:material"]);
+  const levels = num(props._levels) ?? num(props["building:levels"]);
+  return {
+    type,
+    levels: levels !== null && levels > 0 ? levels : null,
+    material,
+    construction: (material && MATERIAL_CLASS[material]) || TYPE_CLASS[type] || "unknown",
+    startYear: num(props._startYear) ?? parseStartYear(props.start_date),
+    roofShape: str(props["roof:shape"]),
+  };
+}
+
+/** Height (m) for a building without a `height` tag: from its levels, else typical for its type. */
+export function defaultHeight(attrs: BuildingAttributes): number {
+  if (attrs.levels !== null) return attrs.levels * LEVEL_HEIGHT;
+  return TYPE_HEIGHT[attrs.type] ?? DEFAULT_HEIGHT;
+}
+
+/**
+ * Per-hazard fragility from construction class, age (building codes), roof
+ * shape and height, with `quality` (0–1, e.g. a PRNG draw) scattering build
+ * quality around it.
+ */
+export function fragility(attrs: BuildingAttributes, quality: number): Fragility {
+  const f = { ...CLASS_FRAGILITY[attrs.construction] };
+
+  // Age: pre-war buildings predate seismic and wind codes; modern ones are built to them
+  const year = attrs.startYear;
+  if (year !== null) {
+    if (year < 1940) { f.shaking *= 0.8; f.wind *= 0.9; }
+    else if (year < 1975) f.shaking *= 0.9;
+    else if (year >= 1995) { f.shaking *= 1.15; f.wind *= 1.1; }
+  }
+
+  // Hipped roofs shed wind load; gabled ends and flat parapets catch it
+  if (attrs.roofShape === "hipped" || attrs.roofShape === "pyramidal") f.wind *= 1.1;
+  else if (attrs.roofShape === "gabled" || attrs.roofShape === "gambrel") f.wind *= 0.95;
+
+  // Mobile homes are the most wind- and water-vulnerable structures there are
+  if (attrs.type === "static_caravan") { f.wind *= 0.6; f.hydro *= 0.6; }
+
+  // Tall buildings resonate with strong, long-period shaking
+  if ((attrs.levels ?? 0) >= 10) f.shaking *= 0.9;
+
+  const q = 1 + (quality - 0.5) * QUALITY_SPREAD;
+  return { wind: f.wind * q, shaking: f.shaking * q, hydro: f.hydro * q, ignition: f.ignition / q };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { SeededRandom } from "../src/core/Random.ts";
+import { aftershockSequence, expectedAftershocks, GENERIC_SEQUENCE } from "../src/disasters/aftershocks.ts";
+import { ruptureAlong, type QuakeSource } from "../src/disasters/groundMotion.ts";
+
+const MAINSHOCK: QuakeSource = { magnitude: 7.2, x: 0, z: 0, depthKm: 12, rupture: ruptureAlong(0, 0, 45, 60_000) };
+const OPTS = { days: 30, windowSec: 600, minMagnitude: 4 };
+
+describe("aftershockSequence", () => {
+  test("the same seed gives the same sequence", () => {
+    const a = aftershockSequence(MAINSHOCK, OPTS, new SeededRandom(42));
+    const b = aftershockSequence(MAINSHOCK, OPTS, new SeededRandom(42));
+    expect(a.length).toBeGreaterThan(0);
+    expect(b).toEqual(a);
+    expect(aftershockSequence(MAINSHOCK, OPTS, new SeededRandom(43))).not.toEqual(a);
+  });
+
+  test("shocks come soonest first, inside the window and between the magnitude bounds", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const shocks = aftershockSequence(MAINSHOCK, OPTS, new SeededRandom(seed));
+      expect(shocks.length).toBeLessThanOrEqual(40);
+      shocks.forEach((s, i) => {
+        if (i > 0) expect(s.time).toBeGreaterThanOrEqual(shocks[i - 1]!.time);
+        expect(s.time).toBeGreaterThanOrEqual(0);
+        expect(s.time).toBeLessThanOrEqual(OPTS.windowSec);
+        expect(s.magnitude).toBeGreaterThanOrEqual(OPTS.minMagnitude);
+        expect(s.magnitude).toBeLessThanOrEqual(MAINSHOCK.magnitude);
+        expect(s.depthKm).toBeGreaterThanOrEqual(1);
+        expect(s.depthKm).toBeLessThanOrEqual(40);
+      });
+    }
+  });
+
+  test("Omori decay front-loads the sequence", () => {
+    const times: number[] = [];
+    for (let seed = 1; seed <= 20; seed++) {
+      for (const s of aftershockSequence(MAINSHOCK, OPTS, new SeededRandom(seed))) times.push(s.time);
+    }
+    const firstTenth = times.filter((t) => t < OPTS.windowSec / 10).length;
+    expect(firstTenth / times.length).toBeGreaterThan(0.5);
+  });
+
+  test("no aftershocks at or above the mainshock's magnitude", () => {
+    expect(aftershockSequence(MAINSHOCK, { ...OPTS, minMagnitude: 7.2 }, new SeededRandom(1))).toEqual([]);
+  });
+});
+
+describe("expectedAftershocks", () => {
+  test("a magnitude unit up multiplies the count by 10^b", () => {
+    const m6 = expectedAftershocks(6, 4, 0, 30);
+    const m7 = expectedAftershocks(7, 4, 0, 30);
+    expect(m7 / m6).toBeCloseTo(Math.pow(10, GENERIC_SEQUENCE.b), 6);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterAll, afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// A private database file, so the test can age rows behind the cache's back
+const dir = mkdtempSync(join(tmpdir(), "chunk-cache-"));
+process.env.CACHE_DB = join(dir, "cache.db");
+const { CHUNK_DEG, chunksCovering, getChunk, listRegions, purgeChunks, putChunk } = await import("../src/cache.ts");
+const raw = new Database(process.env.CACHE_DB);
+
+afterEach(() => {
+  setSystemTime();
+  purgeChunks(null);
+});
+afterAll(() => {
+  raw.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KEY = { cx: 100, cy: 200 };
+
+describe("chunk keys", () => {
+  test("a box ending on a chunk edge doesn't pull in the next chunk", () => {
+    const box = { south: 200 * CHUNK_DEG, west: 100 * CHUNK_DEG, north: 202 * CHUNK_DEG, east: 101 * CHUNK_DEG };
+    expect(chunksCovering(box)).toEqual([{ cx: 100, cy: 200 }, { cx: 100, cy: 201 }]);
+  });
+});
+
+describe("expiry", () => {
+  test("a chunk reads back until its layer's TTL runs out", () => {
+    const now = Date.now();
+    putChunk("osm", "overpass", KEY, { n: 1 });
+    putChunk("elevation", "srtm", KEY, { n: 2 });
+
+    setSystemTime(now + 6 * DAY_MS);
+    expect(getChunk<{ n: number }>("osm", "overpass", KEY)).toEqual({ n: 1 });
+
+    setSystemTime(now + 8 * DAY_MS);
+    expect(getChunk("osm", "overpass", KEY)).toBeNull();
+    expect(getChunk<{ n: number }>("elevation", "srtm", KEY)).toEqual({ n: 2 }); // terrain keeps for 90 days
+    expect(listRegions().find((r) => r.layer === "osm")?.stale).toBe(1);
+  });
+
+  test("a chunk from an older schema version is a miss, and is overwritten on the next put", () => {
+    putChunk("osm", "overpass", KEY, { n: 1 });
+    raw.run("UPDATE chunks SET version = version - 1");
+    expect(getChunk("osm", "overpass", KEY)).toBeNull();
+
+    putChunk("osm", "overpass", KEY, { n: 3 });
+    expect(getChunk<{ n: number }>("osm", "overpass", KEY)).toEqual({ n: 3 });
+  });
+
+  test("variants of a layer are cached apart", () => {
+    putChunk("osm", "overpass", KEY, { n: 1 });
+    expect(getChunk("osm", "osm:city.osm.pbf", KEY)).toBeNull();
+  });
+});
+
+describe("purge", () => {
+  const box = (cx: number, cy: number) => ({ south: cy * CHUNK_DEG, west: cx * CHUNK_DEG, north: (cy + 1) * CHUNK_DEG, east: (cx + 1) * CHUNK_DEG });
+
+  test("only chunks touching the bounds go, of one layer when given", () => {
+    putChunk("osm", "overpass", KEY, {});
+    putChunk("elevation", "srtm", KEY, {});
+    putChunk("osm", "overpass", { cx: 105, cy: 200 }, {});
+
+    expect(purgeChunks(box(100, 200), "elevation")).toBe(1);
+    expect(getChunk("osm", "overpass", KEY)).not.toBeNull();
+    expect(purgeChunks(box(100, 200))).toBe(1);
+    expect(getChunk("osm", "overpass", { cx: 105, cy: 200 })).not.toBeNull();
+    expect(purgeChunks(null)).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { createGeocoder, geocode, parseLatLon } from "../src/geocode.ts";
+
+const gazetteer = createGeocoder({ GEOCODER_PROVIDER: "gazetteer", GAZETTEER_FILE: join(import.meta.dir, "fixtures/places.csv") });
+
+describe("coordinates typed or pasted", () => {
+  test("decimal pairs and hemisphere letters", () => {
+    expect(parseLatLon("40.7484, -73.9857")).toMatchObject({ lat: 40.7484, lon: -73.9857 });
+    expect(parseLatLon("40.7484 -73.9857")).toMatchObject({ lat: 40.7484, lon: -73.9857 });
+    expect(parseLatLon("40.7484N 73.9857W")).toMatchObject({ lat: 40.7484, lon: -73.9857 });
+    expect(parseLatLon("33.86S, 151.21E")).toMatchObject({ lat: -33.86, lon: 151.21 });
+  });
+
+  test("out-of-range and non-coordinate text is left to the geocoder", () => {
+    expect(parseLatLon("95, 10")).toBeNull();
+    expect(parseLatLon("10, 200")).toBeNull();
+    expect(parseLatLon("Springfield")).toBeNull();
+  });
+
+  test("a Maps link's dropped pin wins over the camera position", async () => {
+    const url = "https://www.google.com/maps/place/X/@40.1,-73.1,17z/data=!3d40.7484!4d-73.9857";
+    const { results, ambiguous } = await geocode(gazetteer, url);
+    expect(results).toEqual([expect.objectContaining({ lat: 40.7484, lon: -73.9857, source: "maps-url" })]);
+    expect(ambiguous).toBe(false);
+  });
+
+  test("full plus codes decode on their own; short ones against the locality", async () => {
+    const full = (await geocode(gazetteer, "87G8Q2PQ+VX")).results[0]!;
+    expect(full.source).toBe("plus-code");
+    expect(full.lat).toBeCloseTo(40.7872, 3);
+    expect(full.lon).toBeCloseTo(-73.9601, 3);
+
+    const short = (await geocode(gazetteer, "Q2PQ+VX New York")).results[0]!;
+    expect(short.name).toBe("Q2PQ+VX New York");
+    expect(short.lat).toBeCloseTo(full.lat, 6);
+    expect(short.lon).toBeCloseTo(full.lon, 6);
+  });
+});
+
+describe("ambiguity", () => {
+  test("two places with the same name are ambiguous", async () => {
+    const { results, ambiguous } = await geocode(gazetteer, "Springfield");
+    expect(results.map((r) => r.name).sort()).toEqual(["Springfield, IL, US", "Springfield, MA, US"]);
+    expect(ambiguous).toBe(true);
+  });
+
+  test("a qualifier settles it", async () => {
+    const { results, ambiguous } = await geocode(gazetteer, "Springfield, IL");
+    expect(results.map((r) => r.name)).toEqual(["Springfield, IL, US"]);
+    expect(ambiguous).toBe(false);
+  });
+
+  test("a weak partial match doesn't make an exact one ambiguous", async () => {
+    const { results, ambiguous } = await geocode(gazetteer, "New York");
+    expect(results[0]!.name).toBe("New York, NY, US");
+    expect(ambiguous).toBe(false);
+  });
+});
+
+describe("Photon", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const hits: Record<string, { name: string; lon: number; lat: number }[]> = {
+    springfield: [
+      { name: "Springfield", lon: -89.64, lat: 39.8 },
+      { name: "Springfield", lon: -72.59, lat: 42.1 },
+    ],
+    "empire state building": [
+      { name: "Empire State Building", lon: -73.9857, lat: 40.7484 },
+      { name: "Empire State Plaza", lon: -73.7597, lat: 42.6512 },
+    ],
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const q = (new URL(req.url).searchParams.get("q") ?? "").toLowerCase();
+        const features = (hits[q] ?? []).map((h) => ({
+          geometry: { coordinates: [h.lon, h.lat] },
+          properties: { name: h.name, osm_value: "city" },
+        }));
+        return Response.json({ features });
+      },
+    });
+  });
+  afterAll(() => server.stop(true));
+
+  const photon = () => createGeocoder({ GEOCODER_PROVIDER: "photon", GEOCODER_URL: `http://localhost:${server.port}` });
+
+  test("hits sharing the query's name are ambiguous", async () => {
+    expect((await geocode(photon(), "Springfield")).ambiguous).toBe(true);
+  });
+
+  test("a runner-up ranked only by position is not", async () => {
+    const { results, ambiguous } = await geocode(photon(), "Empire State Building");
+    expect(results).toHaveLength(2);
+    expect(results[0]!.name).toBe("Empire State Building");
+    expect(ambiguous).toBe(false);
+  });
+});
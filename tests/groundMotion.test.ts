@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { groundMotionAt, REFERENCE_VS30, ruptureAlong, siteAmplification, type QuakeSource } from "../src/disasters/groundMotion.ts";
+
+const POINT: QuakeSource = { magnitude: 6.5, x: 0, z: 0, depthKm: 10, rupture: null };
+// 20 km fault breaking east (strike 90°) from the epicenter
+const FAULT: QuakeSource = { ...POINT, rupture: ruptureAlong(0, 0, 90, 20_000) };
+
+describe("site amplification", () => {
+  test("reference rock is left as it is", () => {
+    expect(siteAmplification(REFERENCE_VS30, 0.2)).toEqual({ pga: 1, pgv: 1 });
+    const rock = groundMotionAt(POINT, 5000, 0);
+    expect(rock.vs30).toBe(REFERENCE_VS30);
+  });
+
+  test("soft soil shakes harder than rock, more so at long periods", () => {
+    const rock = groundMotionAt(POINT, 5000, 0);
+    const soil = groundMotionAt(POINT, 5000, 0, 200);
+    expect(soil.pga).toBeGreaterThan(rock.pga);
+    expect(soil.pgv / rock.pgv).toBeGreaterThan(soil.pga / rock.pga);
+    expect(soil.mmi).toBeGreaterThan(rock.mmi);
+  });
+
+  test("soil amplifies weak rock motion more than strong — and strong PGA not at all", () => {
+    const weak = siteAmplification(200, 0.05);
+    const strong = siteAmplification(200, 0.5);
+    expect(weak.pga).toBeGreaterThan(strong.pga);
+    expect(weak.pgv).toBeGreaterThan(strong.pgv);
+    expect(strong.pga).toBeLessThan(1);
+  });
+});
+
+describe("directivity", () => {
+  test("a point source shakes every direction alike", () => {
+    const east = groundMotionAt(POINT, 8000, 0);
+    const west = groundMotionAt(POINT, -8000, 0);
+    expect(east.pga).toBeCloseTo(west.pga, 10);
+    expect(east.pgv).toBeCloseTo(west.pgv, 10);
+  });
+
+  test("the site the rupture runs toward gets stronger motion than the one behind it", () => {
+    // Both 5 km off an end of the fault
+    const ahead = groundMotionAt(FAULT, 25_000, 0);
+    const behind = groundMotionAt(FAULT, -5000, 0);
+    // ln factor 0.9 · (0.6 − 0.2) ahead against 0.9 · (0 − 0.2) behind for PGV, 0.3 · … for PGA
+    expect(ahead.pgv / behind.pgv).toBeCloseTo(Math.exp(0.9 * 0.6), 6);
+    expect(ahead.pga / behind.pga).toBeCloseTo(Math.exp(0.3 * 0.6), 6);
+  });
+
+  test("distance is taken to the rupture, not the epicenter", () => {
+    const alongside = groundMotionAt(FAULT, 15_000, 3000);
+    const pointAt = groundMotionAt(POINT, 15_000, 3000);
+    expect(alongside.mmi).toBeGreaterThan(pointAt.mmi);
+  });
+});
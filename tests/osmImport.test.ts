@@ -0,0 +1,150 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { deflateSync } from "zlib";
+import { layersFromGeoJSON, loadOsmExtract, OsmImportError } from "../src/osmImport.ts";
+
+// ─── A minimal protobuf writer, enough to build an .osm.pbf fixture ───
+
+function varint(n: bigint): number[] {
+  const out: number[] = [];
+  let v = BigInt.asUintN(64, n);
+  do {
+    const b = Number(v & 0x7fn);
+    v >>= 7n;
+    out.push(v > 0n ? b | 0x80 : b);
+  } while (v > 0n);
+  return out;
+}
+
+const zigzag = (n: number) => BigInt(n >= 0 ? n * 2 : -n * 2 - 1);
+const key = (field: number, wire: number) => varint(BigInt(field * 8 + wire));
+const int = (field: number, n: number | bigint) => [...key(field, 0), ...varint(BigInt(n))];
+const bytes = (field: number, data: ArrayLike<number>) => [...key(field, 2), ...varint(BigInt(data.length)), ...Array.from(data)];
+const packed = (field: number, values: bigint[]) => bytes(field, values.flatMap(varint));
+const deltas = (values: number[]) => values.map((v, i) => v - (values[i - 1] ?? 0));
+
+/** One file block: length-prefixed BlobHeader, then a zlib Blob. */
+function fileBlock(type: string, payload: number[]): number[] {
+  const blob = [...int(2, payload.length), ...bytes(3, deflateSync(new Uint8Array(payload)))];
+  const header = [...bytes(1, new TextEncoder().encode(type)), ...int(3, blob.length)];
+  const len = header.length;
+  return [(len >>> 24) & 0xff, (len >>> 16) & 0xff, (len >>> 8) & 0xff, len & 0xff, ...header, ...blob];
+}
+
+// Rio de Janeiro — both block offsets negative, so they arrive as ten-byte varints
+const GRANULARITY = 100;
+const LAT_OFFSET = -22_000_000_000; // nanodegrees
+const LON_OFFSET = -43_000_000_000;
+const NODES = [
+  { id: 101, lat: -22.9070, lon: -43.1730 },
+  { id: 102, lat: -22.9060, lon: -43.1730 },
+  { id: 103, lat: -22.9060, lon: -43.1720 },
+  { id: 104, lat: -22.9070, lon: -43.1720 },
+  { id: 105, lat: -22.9065, lon: -43.1725, tags: { amenity: "shelter", name: "Abrigo" } },
+];
+const BOX = { south: -22.908, west: -43.174, north: -22.905, east: -43.171 };
+
+function pbfFixture(): Uint8Array {
+  const strings = ["", "amenity", "shelter", "name", "Abrigo", "building", "yes"];
+  const s = (v: string) => BigInt(strings.indexOf(v));
+  const raw = (deg: number, offset: number) => Math.round((deg * 1e9 - offset) / GRANULARITY);
+
+  const dense = [
+    ...packed(1, deltas(NODES.map((n) => n.id)).map(zigzag)),
+    ...packed(8, deltas(NODES.map((n) => raw(n.lat, LAT_OFFSET))).map(zigzag)),
+    ...packed(9, deltas(NODES.map((n) => raw(n.lon, LON_OFFSET))).map(zigzag)),
+    ...packed(10, NODES.flatMap((n) => [...Object.entries(n.tags ?? {}).flatMap(([k, v]) => [s(k), s(v)]), 0n])),
+  ];
+  const way = [...int(1, 200), ...packed(2, [s("building")]), ...packed(3, [s("yes")]), ...packed(8, deltas([101, 102, 103, 104, 101]).map(zigzag))];
+  const block = [
+    ...bytes(1, strings.flatMap((str) => bytes(1, new TextEncoder().encode(str)))),
+    ...bytes(2, bytes(2, dense)),
+    ...bytes(2, bytes(3, way)),
+    ...int(17, GRANULARITY),
+    ...int(19, BigInt(LAT_OFFSET)),
+    ...int(20, BigInt(LON_OFFSET)),
+  ];
+  const header = bytes(4, new TextEncoder().encode("DenseNodes"));
+  return new Uint8Array([...fileBlock("OSMHeader", header), ...fileBlock("OSMData", block)]);
+}
+
+let dir = "";
+beforeAll(() => { dir = mkdtempSync(join(tmpdir(), "osm-import-")); });
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe(".osm.pbf", () => {
+  test("dense nodes under negative block offsets keep their coordinates", async () => {
+    const path = join(dir, "rio.osm.pbf");
+    writeFileSync(path, pbfFixture());
+    const layers = await loadOsmExtract(path, BOX);
+
+    const [shelter] = layers.evacuation.features;
+    expect(shelter?.properties.name).toBe("Abrigo");
+    const [lon, lat] = shelter!.geometry.coordinates as number[];
+    expect(lat).toBeCloseTo(-22.9065, 7);
+    expect(lon).toBeCloseTo(-43.1725, 7);
+
+    const [building] = layers.buildings.features;
+    const ring = (building!.geometry.coordinates as number[][][])[0]!;
+    expect(ring).toHaveLength(5);
+    ring.forEach(([x, y], i) => {
+      const node = NODES[i % 4]!;
+      expect(y).toBeCloseTo(node.lat, 7);
+      expect(x).toBeCloseTo(node.lon, 7);
+    });
+  });
+
+  test("a truncated file is malformed input", async () => {
+    const path = join(dir, "cut.osm.pbf");
+    const data = pbfFixture();
+    writeFileSync(path, data.subarray(0, data.length - 10));
+    await expect(loadOsmExtract(path, BOX)).rejects.toThrow(OsmImportError);
+  });
+});
+
+describe(".osm XML", () => {
+  const box = { south: 40.747, west: -73.987, north: 40.750, east: -73.984 };
+
+  test("a > inside a quoted value doesn't end the tag", async () => {
+    const layers = await loadOsmExtract(join(import.meta.dir, "fixtures", "quoted-values.osm"), box);
+
+    expect(layers.evacuation.features.map((f) => f.properties.name)).toEqual(["Hall A > Hall B & C"]);
+    const [building] = layers.buildings.features;
+    expect(building?.properties.name).toBe("Tower \"<1>\"");
+    expect(building?.properties.height).toBe("30");
+    expect((building!.geometry.coordinates as number[][][])[0]).toHaveLength(5);
+  });
+
+  test("tags cut across stream chunks are reassembled", async () => {
+    const count = 4000; // well past one read chunk
+    const nodes = Array.from({ length: count }, (_, i) =>
+      `<node id="${i + 1}" lat="40.748" lon="${(-73.986 + i * 1e-7).toFixed(7)}"><tag k="amenity" v="shelter"/><tag k="name" v="Point ${i} > ${i - 1}"/></node>`);
+    const path = join(dir, "many.osm");
+    writeFileSync(path, `<?xml version="1.0"?>\n<osm version="0.6">\n${nodes.join("\n")}\n</osm>\n`);
+
+    const names = (await loadOsmExtract(path, box)).evacuation.features.map((f) => f.properties.name);
+    expect(names).toHaveLength(count);
+    expect(names[0]).toBe("Point 0 > -1");
+    expect(names[count - 1]).toBe(`Point ${count - 1} > ${count - 2}`);
+  });
+});
+
+describe("GeoJSON", () => {
+  const feature = (geometry: unknown) => ({ type: "Feature", properties: { building: "yes" }, geometry });
+
+  test("polygons touching the box become buildings", () => {
+    const ring = [[-43.173, -22.907], [-43.172, -22.907], [-43.172, -22.906], [-43.173, -22.907]];
+    const layers = layersFromGeoJSON({ type: "FeatureCollection", features: [feature({ type: "Polygon", coordinates: [ring] })] }, BOX);
+    expect(layers.buildings.features).toHaveLength(1);
+  });
+
+  test("bad structure or coordinates raise OsmImportError naming the feature", () => {
+    expect(() => layersFromGeoJSON({ type: "Feature" }, BOX)).toThrow(OsmImportError);
+    const bad = (geometry: unknown) => () => layersFromGeoJSON({ type: "FeatureCollection", features: [feature(geometry)] }, BOX);
+    expect(bad({ type: "Polygon", coordinates: 5 })).toThrow("GeoJSON feature 1: coordinates are missing or empty");
+    expect(bad({ type: "LineString", coordinates: [[-43.17, "x"]] })).toThrow("GeoJSON feature 1: coordinates must be [lon, lat] number pairs");
+    expect(bad({ type: "Point", coordinates: [] })).toThrow(OsmImportError);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { ActionType, InjuryFlag } from "../src/core/Components.ts";
+import type { NearbyHazard, PerceptionPayload } from "../src/agents/types.ts";
+import { parseActionType } from "../src/agents/PromptTemplates.ts";
+import { MockPerceptionProvider } from "../src/perception/MockPerceptionProvider.ts";
+import { parseDecision, toDecisionResponse } from "../src/perception/DecisionSchema.ts";
+
+/** An agent at the origin facing +Z, with nothing around it unless `over` says so. */
+function payload(over: Partial<PerceptionPayload> = {}): PerceptionPayload {
+  return {
+    agentIndex: 0,
+    frameBase64: "",
+    state: { health: 100, stamina: 100, panicLevel: 0, injured: 0, trapped: false, positionX: 0, positionZ: 0, facingYaw: 0 },
+    memory: { observations: [], decisions: [], recentEvents: [] },
+    personality: { bravery: 0.5, altruism: 0.5, awareness: 0.5, description: "" },
+    name: "Alex",
+    nearbyHazards: [],
+    roadNodes: [],
+    landmarks: [],
+    nearbyAgents: [],
+    ...over,
+  };
+}
+
+const fireAhead: NearbyHazard = { type: "FIRE_SPREAD", x: 0, z: 20, distance: 15, intensity: 1 };
+
+/** One turn of the loop: mock reply → schema validation → wire response → the ActionType the client applies. */
+async function decide(p: PerceptionPayload) {
+  const raw = await new MockPerceptionProvider().perceive(p, "fire");
+  const parsed = parseDecision(raw, p);
+  expect(parsed).toMatchObject({ ok: true });
+  const response = toDecisionResponse(parsed.decision, p);
+  return { response, actionType: parseActionType(response.action) };
+}
+
+describe("mock perception → decision schema → action", () => {
+  test("a quiet street means wandering", async () => {
+    const { response, actionType } = await decide(payload());
+    expect(response.action).toBe("WANDER");
+    expect(response.danger).toBe(false);
+    expect(response.target).toBeNull();
+    expect(response.targetEntity).toBe(-1);
+    expect(actionType).toBe(ActionType.IDLE);
+  });
+
+  test("fire ahead sends the agent down the road node behind it", async () => {
+    const p = payload({
+      nearbyHazards: [fireAhead],
+      roadNodes: [
+        { id: 7, x: 0, z: -30, distance: 30, bearingDeg: 180 },
+        { id: 8, x: 0, z: 25, distance: 25, bearingDeg: 0 },
+      ],
+    });
+    const { response, actionType } = await decide(p);
+    expect(response.danger).toBe(true);
+    expect(response.observation).toEndWith("[DANGER]");
+    expect(response.target).toEqual({ type: "road_node", id: 7 });
+    expect([response.targetX, response.targetZ]).toEqual([0, -30]);
+    expect(actionType).toBe(ActionType.RUN_TO);
+  });
+
+  test("with no road to take, the agent runs straight away from the fire", async () => {
+    const { response, actionType } = await decide(payload({ nearbyHazards: [fireAhead] }));
+    expect(response.target?.type).toBe("bearing");
+    expect(response.targetZ).toBeLessThan(0);
+    expect(actionType).toBe(ActionType.RUN_TO);
+  });
+
+  test("a tornado sends the agent indoors", async () => {
+    const tornado: NearbyHazard = { type: "WIND_FIELD_UPDATE", x: 0, z: 60, distance: 20, intensity: 60 };
+    const { response, actionType } = await decide(payload({ nearbyHazards: [tornado] }));
+    expect(response.action).toBe("SHELTER");
+    expect(actionType).toBe(ActionType.SHELTER);
+  });
+
+  test("an altruist goes to a badly hurt neighbour", async () => {
+    const p = payload({
+      personality: { bravery: 0.5, altruism: 0.9, awareness: 0.5, description: "" },
+      nearbyAgents: [{ index: 3, name: "Sam", x: 4, z: 8, distance: 9, bearingDeg: -27, health: 30, injured: InjuryFlag.MAJOR, trapped: false }],
+    });
+    const { response, actionType } = await decide(p);
+    expect(response.action).toBe("HELP_AGENT");
+    expect(response.targetEntity).toBe(3);
+    expect([response.targetX, response.targetZ]).toEqual([4, 8]);
+    expect(actionType).toBe(ActionType.HELP_AGENT);
+  });
+
+  test("the first agent can be the one helped", async () => {
+    const p = payload({
+      agentIndex: 1,
+      personality: { bravery: 0.5, altruism: 0.9, awareness: 0.5, description: "" },
+      nearbyAgents: [{ index: 0, name: "Sam", x: 4, z: 8, distance: 9, bearingDeg: -27, health: 30, injured: InjuryFlag.MAJOR, trapped: false }],
+    });
+    const { response } = await decide(p);
+    expect(response.action).toBe("HELP_AGENT");
+    expect(response.targetEntity).toBe(0);
+  });
+
+  test("a trapped agent stays put", async () => {
+    const p = payload({ nearbyHazards: [fireAhead], state: { ...payload().state, trapped: true } });
+    const { response, actionType } = await decide(p);
+    expect(response.action).toBe("IDLE");
+    expect(actionType).toBe(ActionType.IDLE);
+  });
+});
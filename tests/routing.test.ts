@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { SeededRandom } from "../src/core/Random.ts";
+import { RoadGraph } from "../src/agents/RoadGraph.ts";
+import { RoutePlanner, routeWaypoints } from "../src/agents/RoutePlanner.ts";
+import type { RoadLine2D } from "../src/layers.ts";
+
+// A 40 m road from (0, 0) to (40, 0), a footpath looping round it 20 m to the
+// north, a footpath running west and a stretch of road nobody can reach.
+const line = (points: [number, number][], isFootpath: boolean): RoadLine2D => ({ points, width: 4, isFootpath });
+const ROADS: RoadLine2D[] = [
+  line([[0, 0], [10, 0], [20, 0], [30, 0], [40, 0]], false),
+  line([[0, 0], [0, 10], [0, 20], [10, 20], [20, 20], [30, 20], [40, 20], [40, 10], [40, 0]], true),
+  line([[0, 0], [-10, 0], [-20, 0], [-30, 0], [-40, 0], [-50, 0], [-60, 0]], true),
+  line([[500, 500], [510, 500]], false),
+];
+
+function setup() {
+  const graph = new RoadGraph(ROADS, new SeededRandom(1));
+  const node = (x: number, z: number) => graph.nearestNode(x, z);
+  const pos = (id: number) => graph.getNodePos(id)!;
+  return { graph, node, pos, planner: new RoutePlanner(graph, () => 0) };
+}
+
+describe("shortestPath", () => {
+  test("takes the straight road", () => {
+    const { graph, node, pos } = setup();
+    const found = graph.shortestPath(node(0, 0), node(40, 0))!;
+    expect(found.cost).toBeCloseTo(40, 6);
+    expect(found.path.map(pos)).toEqual([{ x: 10, z: 0 }, { x: 20, z: 0 }, { x: 30, z: 0 }, { x: 40, z: 0 }]);
+  });
+
+  test("goes round a closed edge", () => {
+    const { graph, node, pos } = setup();
+    graph.setEdgeFactor(node(10, 0), node(20, 0), Infinity);
+    const found = graph.shortestPath(node(0, 0), node(40, 0))!;
+    expect(found.cost).toBeCloseTo(80, 6);
+    expect(found.path.map(pos).every((p) => p.z > 0 || p.x === 40)).toBe(true);
+
+    graph.setEdgeFactor(node(10, 0), node(20, 0), 1);
+    expect(graph.shortestPath(node(0, 0), node(40, 0))!.cost).toBeCloseTo(40, 6);
+  });
+
+  test("null when the target can't be reached", () => {
+    const { graph, node } = setup();
+    expect(graph.shortestPath(node(0, 0), node(500, 500))).toBeNull();
+    expect(graph.shortestPath(node(0, 0), -1)).toBeNull();
+  });
+});
+
+describe("RoutePlanner", () => {
+  // Water a meter deep over the middle of the straight road
+  const flooded = (x: number, z: number) => (Math.abs(z) < 5 && x > 5 && x < 35 ? 1 : 0);
+
+  test("won't wade into deep water", () => {
+    const { graph, node, planner } = setup();
+    planner.setFloodDepth(flooded);
+    const found = graph.shortestPath(node(0, 0), node(40, 0), planner.edgeCost([]))!;
+    expect(found.path).not.toContain(node(10, 0));
+    expect(found.path).toContain(node(20, 20));
+  });
+
+  test("escapes away from a danger zone to clear ground", () => {
+    const { planner } = setup();
+    const route = planner.planEscape(0, 0, [{ x: 20, z: 0, radius: 10, expiresAt: 60 }])!;
+    const end = route.at(-1)!;
+    expect(route[0]!.x).toBe(0);
+    expect(Math.hypot(end.x - 20, end.z) - 10).toBeGreaterThanOrEqual(40);
+    expect(route.every((w) => w.z === 0 && w.x <= 0)).toBe(true);
+  });
+
+  test("a route flooded after it was planned needs replanning", () => {
+    const { graph, node, planner } = setup();
+    const from = node(0, 0);
+    const found = graph.shortestPath(from, node(40, 0), planner.edgeCost([]))!;
+    planner.follow(7, null, routeWaypoints(graph, [from, ...found.path], planner.edgeCost([])));
+    expect(planner.needsReplan(7, [], 1)).toBe(false);
+
+    planner.setFloodDepth(flooded);
+    expect(planner.needsReplan(7, [], 1)).toBe(true);
+  });
+});
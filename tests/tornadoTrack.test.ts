@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { parseTrack } from "../src/disasters/tornadoTrack.ts";
+
+const CENTER = { lat: 35.2, lon: -97.5 };
+
+const STORM_EVENTS_HEADER = "EPISODE_ID,EVENT_ID,EVENT_TYPE,BEGIN_LAT,BEGIN_LON,END_LAT,END_LON,TOR_F_SCALE,TOR_WIDTH";
+
+function stormEvents(...rows: string[]): string {
+  return [STORM_EVENTS_HEADER, ...rows].join("\n");
+}
+
+function line(coordinates: number[][], properties: Record<string, unknown> = {}) {
+  return { type: "Feature", properties, geometry: { type: "LineString", coordinates } };
+}
+
+function geoJson(...features: unknown[]): string {
+  return JSON.stringify({ type: "FeatureCollection", features });
+}
+
+const track = (text: string) => parseTrack(text, CENTER.lat, CENTER.lon);
+
+describe("Storm Events CSV tracks", () => {
+  test("county segments of one tornado chain up in path order, whatever the row order", () => {
+    const { points } = track(stormEvents(
+      "1,11,Tornado,35.20,-97.40,35.30,-97.20,EF3,500",
+      "1,10,Tornado,35.10,-97.60,35.20,-97.40,EF4,800",
+    ));
+    expect(points.map((p) => p.efRating)).toEqual([4, 4, 3, 3]);
+    expect(points[0]!.widthMeters).toBeCloseTo(800 * 0.9144);
+    // West to east: x grows along the path
+    expect(points.map((p) => p.x)).toEqual([...points.map((p) => p.x)].sort((a, b) => a - b));
+  });
+
+  test("rows that aren't tornadoes are skipped", () => {
+    const csv = stormEvents("1,10,Tornado,35.10,-97.60,35.20,-97.40,EF1,100", "1,12,Hail,35.00,-97.00,35.00,-97.00,,");
+    expect(track(csv).points).toHaveLength(2);
+  });
+
+  test("a file holding several tornadoes is rejected", () => {
+    const csv = stormEvents(
+      "1,10,Tornado,35.10,-97.60,35.20,-97.40,EF4,800",
+      "1,12,Tornado,36.00,-96.00,36.10,-95.90,EF1,100",
+      "2,13,Tornado,35.20,-97.40,35.30,-97.30,EF0,50",
+    );
+    expect(() => track(csv)).toThrow("3 separate tornadoes (10, 12, 13)");
+  });
+
+  test("the coordinate columns are required", () => {
+    expect(() => track("EVENT_ID,BEGIN_LAT\n1,35")).toThrow("BEGIN_LAT, BEGIN_LON, END_LAT and END_LON");
+  });
+});
+
+describe("GeoJSON tracks", () => {
+  test("features of one SPC tornado join even across a gap", () => {
+    const { points } = track(geoJson(
+      line([[-97.6, 35.1], [-97.5, 35.2]], { om: 7, yr: 2013, mag: 5, wid: 1900 }),
+      line([[-97.45, 35.25], [-97.3, 35.3]], { om: 7, yr: 2013, mag: 3 }),
+    ));
+    expect(points).toHaveLength(4);
+    expect(points.map((p) => p.efRating)).toEqual([5, 5, 3, 3]);
+    expect(points[0]!.widthMeters).toBeCloseTo(1900 * 0.9144);
+    expect(points[2]!.widthMeters).toBeUndefined();
+  });
+
+  test("features without an om join when one ends where the next begins", () => {
+    const { points } = track(geoJson(
+      line([[-97.5, 35.2], [-97.3, 35.3]], { efscale: "EF2" }),
+      line([[-97.6, 35.1], [-97.5, 35.2]], { efscale: "EF4" }),
+    ));
+    expect(points.map((p) => p.efRating)).toEqual([4, 4, 2, 2]);
+  });
+
+  test("a file holding several tornadoes is rejected", () => {
+    const spc = geoJson(line([[-97.6, 35.1], [-97.5, 35.2]], { om: 1 }), line([[-90, 30], [-89, 31]], { om: 2 }));
+    expect(() => track(spc)).toThrow("2 separate tornadoes (om 1, om 2)");
+    const loose = geoJson(line([[-97.6, 35.1], [-97.5, 35.2]]), line([[-90, 30], [-89, 31]]));
+    expect(() => track(loose)).toThrow("2 separate tornadoes (feature 1, feature 2)");
+  });
+
+  test("a file with no lines is rejected", () => {
+    expect(() => track(geoJson({ type: "Feature", properties: {}, geometry: { type: "Point", coordinates: [-97, 35] } })))
+      .toThrow("no LineString features");
+  });
+});